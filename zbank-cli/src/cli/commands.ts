@@ -0,0 +1,958 @@
+/**
+ * Non-interactive zbank subcommands
+ *
+ * `zbank <command> --account <number> [options]` runs one banking operation
+ * and exits, so the bank can be scripted. Each command logs in through
+ * AuthService (failed attempts count towards the lockout like in the TUI)
+ * and then calls TransactionService.
+ *
+ * The PIN is read from ZBANK_PIN or the first line of stdin - never from the
+ * command line, where it would end up in shell history and process listings.
+ *
+ * With --json, every outcome (including errors) is written to stdout as one
+ * versioned document from json-formatter.ts instead of text.
+ *
+ * `zbank serve`, `zbank verify`, `zbank run-scheduler` and `zbank eod` are
+ * the exceptions: they need no account. serve runs the REST API from
+ * src/server/ until the process is interrupted; verify checks every
+ * account's history with IntegrityService; run-scheduler runs the standing
+ * orders that are due with SchedulerService; eod runs the end-of-day batch
+ * with EndOfDayService.
+ */
+
+import { parseArgs } from 'util';
+import { IStorage } from '../services/IStorage.js';
+import { Account, unheldBalance } from '../models/Account.js';
+import {
+	AuthService,
+	AuthErrorCode,
+	DEFAULT_LOCKOUT_POLICY,
+} from '../services/AuthService.js';
+import { SessionManager } from '../services/SessionManager.js';
+import {
+	TransactionService,
+	TransactionResult,
+	DEFAULT_TRANSACTION_LIMITS,
+	DEFAULT_HOLD_DURATION_MS,
+} from '../services/TransactionService.js';
+import { DEFAULT_FEE_RULES } from '../services/FeeService.js';
+import { StatementService } from '../services/StatementService.js';
+import {
+	createStorage,
+	isStorageBackend,
+	STORAGE_BACKENDS,
+} from '../services/StorageFactory.js';
+import {
+	formatAccountNumber,
+	formatBalance,
+	formatStatement,
+	formatTimestamp,
+	formatTransaction,
+	parseCurrency,
+} from '../utils/formatter.js';
+import { statementToCsv, transactionsToCsv } from '../utils/csv.js';
+import { transactionsToOfx } from '../utils/ofx.js';
+import { transactionsToQif } from '../utils/qif.js';
+import {
+	EXPORT_FORMATS,
+	ExportFormat,
+	TransactionExport,
+	buildExport,
+	isExportFormat,
+} from '../utils/export.js';
+import { toBusinessDate, parseBusinessDate } from '../utils/clock.js';
+import {
+	JsonDocument,
+	toJsonDocument,
+	toJsonError,
+	authResultToJson,
+	transactionResultToJson,
+	formatJson,
+} from '../utils/json-formatter.js';
+import { IntegrityService } from '../services/IntegrityService.js';
+import { SchedulerService } from '../services/SchedulerService.js';
+import {
+	EndOfDayService,
+	DEFAULT_INTEREST_RATES,
+} from '../services/EndOfDayService.js';
+import { ScheduleRun } from '../models/Schedule.js';
+import { TransactionStatus } from '../models/Transaction.js';
+import { ApiServer } from '../server/ApiServer.js';
+
+/**
+ * Process exit codes
+ */
+export enum ExitCode {
+	SUCCESS = 0,
+	ERROR = 1, // Unexpected failure (e.g. storage unreadable, or eod failed for an account)
+	USAGE = 2, // Bad command line or missing PIN
+	AUTH_FAILED = 3, // Unknown account or wrong PIN
+	ACCOUNT_LOCKED = 4, // Locked out or inside the progressive delay
+	TRANSACTION_FAILED = 5, // Rejected by TransactionService (or a scheduled run failed)
+	INTEGRITY_ISSUES = 6, // zbank verify found uncorrected issues
+}
+
+/**
+ * Error codes for failures outside AuthService and TransactionService
+ */
+export enum CliErrorCode {
+	USAGE_ERROR = 'USAGE_ERROR',
+	PIN_REQUIRED = 'PIN_REQUIRED',
+	INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+export const CLI_COMMANDS = [
+	'balance',
+	'deposit',
+	'withdraw',
+	'transfer',
+	'history',
+	'statement',
+	'export',
+] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+/**
+ * Starts the REST API; takes no account, so it is not a CliCommand
+ */
+export const SERVE_COMMAND = 'serve';
+
+/**
+ * Checks (and with --repair, corrects) every account; takes no account either
+ */
+export const VERIFY_COMMAND = 'verify';
+
+/**
+ * Runs the standing orders that are due; takes no account either
+ */
+export const RUN_SCHEDULER_COMMAND = 'run-scheduler';
+
+/**
+ * Runs the end-of-day batch; takes no account either
+ */
+export const EOD_COMMAND = 'eod';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Check whether a string names a subcommand
+ * @param value - First command-line argument
+ * @returns true if the value is a CliCommand
+ */
+export function isCliCommand(value: string): value is CliCommand {
+	return (CLI_COMMANDS as readonly string[]).includes(value);
+}
+
+/**
+ * Input and output used by the commands (the real process, or a fake in tests)
+ */
+export interface CliIO {
+	stdout(line: string): void;
+	stderr(line: string): void;
+	readStdin(): Promise<string | null>; // null when stdin is a terminal
+	env: Record<string, string | undefined>;
+	waitForShutdown(): Promise<void>; // Resolves when a server should stop
+}
+
+/**
+ * CliIO bound to the running process
+ */
+export const processIO: CliIO = {
+	stdout: line => process.stdout.write(`${line}\n`),
+	stderr: line => process.stderr.write(`${line}\n`),
+	readStdin: async () => {
+		if (process.stdin.isTTY) {
+			return null;
+		}
+		let input = '';
+		process.stdin.setEncoding('utf8');
+		for await (const chunk of process.stdin) {
+			input += chunk;
+		}
+		return input;
+	},
+	env: process.env,
+	waitForShutdown: () =>
+		new Promise(resolve => {
+			process.once('SIGINT', () => resolve());
+			process.once('SIGTERM', () => resolve());
+		}),
+};
+
+export const CLI_USAGE = `Usage: zbank [command] [options]
+
+Without a command, starts the interactive application.
+
+Commands:
+  balance   --account <number>                          Show the balance
+  deposit   --account <number> --amount <amount>        Deposit funds
+  withdraw  --account <number> --amount <amount>        Withdraw funds
+  transfer  --account <number> --to <number> --amount <amount>
+                                                        Transfer to another account
+  history   --account <number> [--limit <n>]            List transactions, most recent first
+  statement --account <number> [--month <YYYY-MM>] [--csv]
+                                                        Show the monthly statement (default: this
+                                                        month); ended months are frozen when first shown
+  export    --account <number> --format <${EXPORT_FORMATS.join('|')}> [--from <YYYY-MM-DD>] [--until <YYYY-MM-DD>]
+                                                        Write the transaction history to stdout
+                                                        (default: from the first transaction to today)
+  serve     [--port <n>] [--host <address>]             Run the REST API (default: ${DEFAULT_HOST}:${DEFAULT_PORT})
+  verify    [--repair]                                  Check balances against transaction history;
+                                                        --repair posts correction entries
+  run-scheduler                                         Run scheduled payments that are due,
+                                                        catching up on missed ones
+  eod       [--date <YYYY-MM-DD>]                       Run the end-of-day batch for a business date
+                                                        (default: today): expire holds, accrue
+                                                        interest, post it at month end
+
+Options:
+  --idempotency-key <key>
+                       With deposit, withdraw or transfer: running the command
+                       again with the same key reports the first result instead
+                       of posting twice
+  --csv                With statement: print CSV instead of text
+  --storage <backend>  Storage backend: ${STORAGE_BACKENDS.join(', ')} (default: $ZBANK_STORAGE or json)
+  --data <dir>         Data directory (default: ./data)
+  --json               Print a versioned JSON document instead of text
+  -h, --help           Show this help
+
+The PIN is read from $ZBANK_PIN, or from the first line of stdin:
+  echo 1111 | zbank balance --account 0000012345
+
+Exit codes: 0 success, 1 error (or eod failed for an account), 2 usage,
+            3 login failed, 4 account locked, 5 transaction rejected (or a
+            scheduled payment failed), 6 integrity issues`;
+
+/**
+ * Writes command outcomes as text, or as JSON documents with --json
+ */
+class Output {
+	constructor(
+		private io: CliIO,
+		private json: boolean,
+	) {}
+
+	/**
+	 * Report success
+	 * @param document - JSON output
+	 * @param lines - Text output
+	 */
+	success(document: JsonDocument, lines: string[]): ExitCode {
+		if (this.json) {
+			this.io.stdout(formatJson(document));
+		} else {
+			lines.forEach(line => this.io.stdout(line));
+		}
+		return ExitCode.SUCCESS;
+	}
+
+	/**
+	 * Report success of a command without a JSON form (it refuses --json)
+	 * @param lines - Text output
+	 */
+	text(lines: string[]): ExitCode {
+		lines.forEach(line => this.io.stdout(line));
+		return ExitCode.SUCCESS;
+	}
+
+	/**
+	 * Report a failure
+	 * @param code - Exit code
+	 * @param document - JSON output (written to stdout)
+	 * @param message - Text output (written to stderr)
+	 */
+	failure(code: ExitCode, document: JsonDocument, message: string): ExitCode {
+		if (this.json) {
+			this.io.stdout(formatJson(document));
+		} else {
+			this.io.stderr(message);
+		}
+		return code;
+	}
+
+	/**
+	 * Report a command-line mistake
+	 */
+	usage(
+		message: string,
+		errorCode: CliErrorCode = CliErrorCode.USAGE_ERROR,
+	): ExitCode {
+		return this.failure(
+			ExitCode.USAGE,
+			toJsonError(errorCode, message),
+			`${message}\nRun "zbank --help" for usage.`,
+		);
+	}
+}
+
+const CLI_OPTIONS = {
+	account: { type: 'string', short: 'a' },
+	amount: { type: 'string' },
+	to: { type: 'string' },
+	'idempotency-key': { type: 'string' },
+	limit: { type: 'string' },
+	port: { type: 'string' },
+	host: { type: 'string' },
+	repair: { type: 'boolean' },
+	date: { type: 'string' },
+	month: { type: 'string' },
+	csv: { type: 'boolean' },
+	format: { type: 'string' },
+	from: { type: 'string' },
+	until: { type: 'string' },
+	storage: { type: 'string' },
+	data: { type: 'string' },
+	json: { type: 'boolean' },
+	help: { type: 'boolean', short: 'h' },
+} as const;
+
+/**
+ * Parsed command-line options
+ */
+interface CliOptions {
+	account?: string;
+	amount?: string;
+	to?: string;
+	'idempotency-key'?: string;
+	limit?: string;
+	port?: string;
+	host?: string;
+	repair?: boolean;
+	date?: string;
+	month?: string;
+	csv?: boolean;
+	format?: string;
+	from?: string;
+	until?: string;
+	storage?: string;
+	data?: string;
+	json?: boolean;
+	help?: boolean;
+}
+
+/**
+ * Services a command runs against, logged in as the account
+ */
+interface CommandContext {
+	options: CliOptions;
+	output: Output;
+	account: Account;
+	transactionService: TransactionService;
+	statementService: StatementService;
+}
+
+/**
+ * Run a subcommand
+ *
+ * @param args - Command-line arguments after the binary name
+ * @param io - Where to read the PIN and write output
+ * @param storage - Initialized storage to use (created from --storage/--data when omitted)
+ * @returns Exit code for the process
+ */
+export async function runCli(
+	args: string[],
+	io: CliIO = processIO,
+	storage?: IStorage,
+): Promise<ExitCode> {
+	let parsed;
+	try {
+		parsed = parseArgs({
+			args,
+			options: CLI_OPTIONS,
+			allowPositionals: true,
+			strict: true,
+		});
+	} catch (error) {
+		// Options could not be parsed, so look for --json by hand
+		return new Output(io, args.includes('--json')).usage(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+
+	const { values: options, positionals } = parsed;
+	const [command, ...extra] = positionals;
+	const output = new Output(io, options.json ?? false);
+
+	if (options.help || command === undefined || command === 'help') {
+		io.stdout(CLI_USAGE);
+		return ExitCode.SUCCESS;
+	}
+
+	if (
+		command !== SERVE_COMMAND &&
+		command !== VERIFY_COMMAND &&
+		command !== RUN_SCHEDULER_COMMAND &&
+		command !== EOD_COMMAND &&
+		!isCliCommand(command)
+	) {
+		return output.usage(`Unknown command "${command}"`);
+	}
+
+	if (extra.length > 0) {
+		return output.usage(`Unexpected argument "${extra[0]}"`);
+	}
+
+	if (command === SERVE_COMMAND) {
+		return serve(options, io, output, storage);
+	}
+
+	if (command === VERIFY_COMMAND) {
+		return verify(options, io, output, storage);
+	}
+
+	if (command === RUN_SCHEDULER_COMMAND) {
+		return runScheduler(options, io, output, storage);
+	}
+
+	if (command === EOD_COMMAND) {
+		return endOfDay(options, io, output, storage);
+	}
+
+	if (!options.account) {
+		return output.usage(`${command} requires --account <number>`);
+	}
+
+	try {
+		const pin = await readPin(io);
+		if (pin === null) {
+			return output.usage(
+				'PIN required: set ZBANK_PIN or pipe the PIN on stdin',
+				CliErrorCode.PIN_REQUIRED,
+			);
+		}
+
+		const activeStorage = storage ?? (await openStorage(options, io, output));
+		if (typeof activeStorage === 'number') {
+			return activeStorage;
+		}
+
+		const authService = new AuthService(
+			activeStorage,
+			new SessionManager(),
+			DEFAULT_LOCKOUT_POLICY,
+		);
+
+		const login = await authService.login(options.account, pin);
+		if (!login.success || !login.account) {
+			return output.failure(
+				loginExitCode(login.errorCode),
+				authResultToJson(login),
+				`Login failed: ${login.error ?? 'unknown error'}`,
+			);
+		}
+
+		try {
+			return await COMMANDS[command]({
+				options,
+				output,
+				account: login.account,
+				transactionService: createTransactionService(activeStorage),
+				statementService: new StatementService(activeStorage),
+			});
+		} finally {
+			await authService.logout();
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return output.failure(
+			ExitCode.ERROR,
+			toJsonError(CliErrorCode.INTERNAL_ERROR, message),
+			`Error: ${message}`,
+		);
+	}
+}
+
+/**
+ * Create and initialize the storage selected by --storage/--data
+ * @returns The storage, or the usage exit code for an unknown backend
+ */
+async function openStorage(
+	options: CliOptions,
+	io: CliIO,
+	output: Output,
+): Promise<IStorage | ExitCode> {
+	const backend = options.storage ?? io.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		return output.usage(
+			`Unknown storage backend "${backend}". Use one of: ${STORAGE_BACKENDS.join(', ')}`,
+		);
+	}
+	const created = createStorage(backend, options.data);
+	await created.initialize();
+	return created;
+}
+
+/**
+ * Transaction service with the application's default limits and fees
+ */
+function createTransactionService(storage: IStorage): TransactionService {
+	return new TransactionService(
+		storage,
+		DEFAULT_TRANSACTION_LIMITS,
+		DEFAULT_HOLD_DURATION_MS,
+		DEFAULT_FEE_RULES,
+	);
+}
+
+/**
+ * Run the REST API until io.waitForShutdown() resolves
+ */
+async function serve(
+	options: CliOptions,
+	io: CliIO,
+	output: Output,
+	storage?: IStorage,
+): Promise<ExitCode> {
+	const port = options.port === undefined ? DEFAULT_PORT : Number(options.port);
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		return output.usage(`Invalid port "${options.port}"`);
+	}
+
+	try {
+		const activeStorage = storage ?? (await openStorage(options, io, output));
+		if (typeof activeStorage === 'number') {
+			return activeStorage;
+		}
+
+		const server = new ApiServer(activeStorage);
+		const address = await server.listen(port, options.host ?? DEFAULT_HOST);
+		io.stderr(
+			`zBANK API listening on http://${address.address}:${address.port} (Ctrl+C to stop)`,
+		);
+
+		await io.waitForShutdown();
+		await server.close();
+		return ExitCode.SUCCESS;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return output.failure(
+			ExitCode.ERROR,
+			toJsonError(CliErrorCode.INTERNAL_ERROR, message),
+			`Error: ${message}`,
+		);
+	}
+}
+
+/**
+ * Check every account's history, posting corrections with --repair
+ */
+async function verify(
+	options: CliOptions,
+	io: CliIO,
+	output: Output,
+	storage?: IStorage,
+): Promise<ExitCode> {
+	try {
+		const activeStorage = storage ?? (await openStorage(options, io, output));
+		if (typeof activeStorage === 'number') {
+			return activeStorage;
+		}
+
+		const service = new IntegrityService(activeStorage);
+		const report = options.repair
+			? await service.repair()
+			: await service.verify();
+
+		const open = report.issues.filter(issue => !issue.corrected).length;
+		const lines = [
+			`Checked ${report.accountsChecked} accounts, ${report.transactionsChecked} transactions`,
+			...report.issues.map(
+				issue =>
+					`${issue.type.padEnd(20)} ${issue.message}${issue.corrected ? ' (corrected)' : ''}`,
+			),
+			...report.corrections.map(
+				correction => `Posted correction: ${formatTransaction(correction)}`,
+			),
+			report.valid
+				? 'No uncorrected issues.'
+				: `${open} uncorrected issue(s).${options.repair ? '' : ' Run "zbank verify --repair" to post corrections.'}`,
+		];
+
+		const document = toJsonDocument('integrityReport', report);
+		if (report.valid) {
+			return output.success(document, lines);
+		}
+		if (!options.json) {
+			lines.forEach(line => io.stdout(line));
+		}
+		return output.failure(
+			ExitCode.INTEGRITY_ISSUES,
+			document,
+			'Integrity check failed',
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return output.failure(
+			ExitCode.ERROR,
+			toJsonError(CliErrorCode.INTERNAL_ERROR, message),
+			`Error: ${message}`,
+		);
+	}
+}
+
+/**
+ * Run every scheduled payment that is due, failing if any of them failed
+ */
+async function runScheduler(
+	options: CliOptions,
+	io: CliIO,
+	output: Output,
+	storage?: IStorage,
+): Promise<ExitCode> {
+	try {
+		const activeStorage = storage ?? (await openStorage(options, io, output));
+		if (typeof activeStorage === 'number') {
+			return activeStorage;
+		}
+
+		const scheduler = new SchedulerService(
+			activeStorage,
+			createTransactionService(activeStorage),
+		);
+		const runs = await scheduler.runDue();
+
+		const failed = runs.filter(
+			run => run.status === TransactionStatus.FAILED,
+		).length;
+		const lines = [
+			...runs.map(formatScheduleRun),
+			runs.length === 0
+				? 'No scheduled payments due.'
+				: `Ran ${runs.length} scheduled payment(s), ${failed} failed.`,
+		];
+
+		const document = toJsonDocument('scheduleRunList', { runs });
+		if (failed === 0) {
+			return output.success(document, lines);
+		}
+		if (!options.json) {
+			lines.forEach(line => io.stdout(line));
+		}
+		return output.failure(
+			ExitCode.TRANSACTION_FAILED,
+			document,
+			'Some scheduled payments failed',
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return output.failure(
+			ExitCode.ERROR,
+			toJsonError(CliErrorCode.INTERNAL_ERROR, message),
+			`Error: ${message}`,
+		);
+	}
+}
+
+/**
+ * Run the end-of-day batch, failing if any account could not be processed
+ */
+async function endOfDay(
+	options: CliOptions,
+	io: CliIO,
+	output: Output,
+	storage?: IStorage,
+): Promise<ExitCode> {
+	try {
+		const activeStorage = storage ?? (await openStorage(options, io, output));
+		if (typeof activeStorage === 'number') {
+			return activeStorage;
+		}
+
+		const result = await new EndOfDayService(
+			activeStorage,
+			createTransactionService(activeStorage),
+			DEFAULT_INTEREST_RATES,
+			DEFAULT_FEE_RULES,
+		).run(options.date);
+		if (!result.success || !result.report) {
+			return output.usage(result.error ?? 'End-of-day run refused');
+		}
+
+		const { report } = result;
+		const lines = [
+			`Business date ${report.businessDate}`,
+			`Processed ${report.accountsProcessed} account(s), skipped ${report.accountsSkipped} (already run for the date, or opened after it)`,
+			`Expired ${report.holdsExpired} hold(s)`,
+			...report.postings.map(
+				posting =>
+					`Posted ${formatAccountNumber(posting.accountNumber)}: ${formatTransaction(posting)}`,
+			),
+			...report.failures.map(
+				failure =>
+					`Failed ${formatAccountNumber(failure.accountNumber)}: ${failure.error}`,
+			),
+		];
+
+		const document = toJsonDocument('endOfDayReport', report);
+		if (report.failures.length === 0) {
+			return output.success(document, lines);
+		}
+		if (!options.json) {
+			lines.forEach(line => io.stdout(line));
+		}
+		return output.failure(
+			ExitCode.ERROR,
+			document,
+			`End-of-day failed for ${report.failures.length} account(s); run it again to retry them`,
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return output.failure(
+			ExitCode.ERROR,
+			toJsonError(CliErrorCode.INTERNAL_ERROR, message),
+			`Error: ${message}`,
+		);
+	}
+}
+
+/**
+ * One line per run: when it was due, the schedule and the outcome
+ */
+function formatScheduleRun(run: ScheduleRun): string {
+	const outcome =
+		run.status === TransactionStatus.COMPLETED
+			? `Completed  ${run.transactionId}`
+			: `Failed     ${run.error}`;
+	return `${formatTimestamp(run.dueAt)}  ${run.scheduleId}  ${outcome}`;
+}
+
+/**
+ * Writer for each export format
+ */
+const EXPORTERS: Record<ExportFormat, (data: TransactionExport) => string> = {
+	csv: transactionsToCsv,
+	ofx: transactionsToOfx,
+	qif: transactionsToQif,
+};
+
+const COMMANDS: Record<
+	CliCommand,
+	(context: CommandContext) => Promise<ExitCode>
+> = {
+	balance: async ({ output, account, transactionService }) => {
+		const balance = await transactionService.getBalance(account.accountNumber);
+		const lines = [
+			`Account: ${formatAccountNumber(account.accountNumber)}`,
+			`Balance: ${formatBalance(balance)}`,
+		];
+		if (account.heldAmount) {
+			lines.push(
+				`Available: ${formatBalance(unheldBalance({ ...account, balance }))} (${formatBalance(account.heldAmount)} on hold)`,
+			);
+		}
+		return output.success(
+			toJsonDocument('account', { ...account, balance }),
+			lines,
+		);
+	},
+
+	deposit: async ({ options, output, account, transactionService }) => {
+		const amount = parseAmount(output, options.amount);
+		if (typeof amount !== 'number') {
+			return amount.exitCode;
+		}
+		const result = await transactionService.deposit(
+			account.accountNumber,
+			amount,
+			options['idempotency-key'],
+		);
+		return reportTransaction(
+			output,
+			result,
+			`Deposited ${formatBalance(amount)}`,
+		);
+	},
+
+	withdraw: async ({ options, output, account, transactionService }) => {
+		const amount = parseAmount(output, options.amount);
+		if (typeof amount !== 'number') {
+			return amount.exitCode;
+		}
+		const result = await transactionService.withdraw(
+			account.accountNumber,
+			amount,
+			options['idempotency-key'],
+		);
+		return reportTransaction(
+			output,
+			result,
+			`Withdrew ${formatBalance(amount)}`,
+		);
+	},
+
+	transfer: async ({ options, output, account, transactionService }) => {
+		if (!options.to) {
+			return output.usage('transfer requires --to <number>');
+		}
+		const amount = parseAmount(output, options.amount);
+		if (typeof amount !== 'number') {
+			return amount.exitCode;
+		}
+		const result = await transactionService.transfer(
+			account.accountNumber,
+			options.to,
+			amount,
+			options['idempotency-key'],
+		);
+		return reportTransaction(
+			output,
+			result,
+			`Transferred ${formatBalance(amount)} to ${formatAccountNumber(options.to)}`,
+		);
+	},
+
+	history: async ({ options, output, account, transactionService }) => {
+		let limit: number | undefined;
+		if (options.limit !== undefined) {
+			limit = Number(options.limit);
+			if (!Number.isInteger(limit) || limit <= 0) {
+				return output.usage(`Invalid limit "${options.limit}"`);
+			}
+		}
+
+		const transactions = await transactionService.getHistory(
+			account.accountNumber,
+			limit,
+		);
+		return output.success(
+			toJsonDocument('transactionList', {
+				accountNumber: account.accountNumber,
+				transactions,
+			}),
+			transactions.length === 0
+				? ['No transactions.']
+				: transactions.map(formatTransaction),
+		);
+	},
+
+	statement: async ({ options, output, account, statementService }) => {
+		if (options.csv && options.json) {
+			return output.usage('--csv cannot be combined with --json');
+		}
+
+		const result = await statementService.getStatement(
+			account.accountNumber,
+			options.month,
+		);
+		if (!result.success || !result.statement) {
+			return output.usage(result.error ?? 'Statement refused');
+		}
+
+		const { statement } = result;
+		return output.success(
+			toJsonDocument('statement', statement),
+			options.csv
+				? [statementToCsv(statement).replace(/\n$/, '')]
+				: formatStatement(statement),
+		);
+	},
+
+	export: async ({ options, output, account, transactionService }) => {
+		if (options.json) {
+			return output.usage('export cannot be combined with --json');
+		}
+		if (options.to !== undefined) {
+			return output.usage('export ends at --until <YYYY-MM-DD>, not --to');
+		}
+		if (!options.format || !isExportFormat(options.format)) {
+			return output.usage(
+				`export requires --format <${EXPORT_FORMATS.join('|')}>`,
+			);
+		}
+		const until = options.until ?? toBusinessDate(new Date());
+		for (const date of [options.from, until]) {
+			if (date !== undefined && !parseBusinessDate(date)) {
+				return output.usage(`Invalid date "${date}". Use YYYY-MM-DD`);
+			}
+		}
+		if (options.from !== undefined && options.from > until) {
+			return output.usage('--from must not be after --until');
+		}
+
+		const transactions = await transactionService.getHistory(
+			account.accountNumber,
+		);
+		const data = buildExport(account, transactions, {
+			from: options.from,
+			to: until,
+		});
+		return output.text([EXPORTERS[options.format](data).replace(/\n$/, '')]);
+	},
+};
+
+/**
+ * Exit code for a failed login
+ */
+function loginExitCode(errorCode: AuthErrorCode | undefined): ExitCode {
+	switch (errorCode) {
+		case AuthErrorCode.INVALID_FORMAT:
+			return ExitCode.USAGE;
+		case AuthErrorCode.ACCOUNT_LOCKED:
+		case AuthErrorCode.TOO_MANY_ATTEMPTS:
+			return ExitCode.ACCOUNT_LOCKED;
+		case AuthErrorCode.LOGIN_ERROR:
+			return ExitCode.ERROR;
+		default:
+			return ExitCode.AUTH_FAILED;
+	}
+}
+
+/**
+ * Read the PIN from ZBANK_PIN, else the first line of stdin
+ * @returns The PIN, or null if none was supplied
+ */
+async function readPin(io: CliIO): Promise<string | null> {
+	if (io.env.ZBANK_PIN !== undefined) {
+		return io.env.ZBANK_PIN.trim();
+	}
+	const input = await io.readStdin();
+	if (input === null) {
+		return null;
+	}
+	const [firstLine = ''] = input.split(/\r?\n/);
+	return firstLine.trim() || null;
+}
+
+/**
+ * Parse --amount into cents
+ * @returns Amount in cents, or the exit code after reporting a usage error
+ */
+function parseAmount(
+	output: Output,
+	value: string | undefined,
+): number | { exitCode: ExitCode } {
+	if (value === undefined) {
+		return { exitCode: output.usage('Missing --amount <amount>') };
+	}
+	const amount = parseCurrency(value);
+	if (amount === null || amount <= 0) {
+		return { exitCode: output.usage(`Invalid amount "${value}"`) };
+	}
+	return amount;
+}
+
+/**
+ * Report the outcome of a deposit, withdrawal or transfer
+ */
+function reportTransaction(
+	output: Output,
+	result: TransactionResult,
+	summary: string,
+): ExitCode {
+	if (!result.success || result.newBalance === undefined) {
+		return output.failure(
+			ExitCode.TRANSACTION_FAILED,
+			transactionResultToJson(result),
+			`Transaction failed: ${result.error ?? 'unknown error'}`,
+		);
+	}
+	return output.success(transactionResultToJson(result), [
+		summary,
+		...(result.fees ?? []).map(
+			fee => `${fee.description}: ${formatBalance(fee.amount)}`,
+		),
+		`New balance: ${formatBalance(result.newBalance)}`,
+	]);
+}
@@ -5,7 +5,7 @@
  * Renders appropriate screen based on current navigation state.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Box, Text } from 'ink';
 import { useNavigation } from '../contexts/NavigationContext.js';
 import { AppState } from '../types/navigation.js';
@@ -14,10 +14,19 @@ import { LoginScreen } from './screens/LoginScreen.js';
 import { HomeScreen } from './screens/HomeScreen.js';
 import { RegisterScreen } from './screens/RegisterScreen.js';
 import { HelpScreen } from './screens/HelpScreen.js';
+import { HistoryScreen } from './screens/HistoryScreen.js';
+import { StatementScreen } from './screens/StatementScreen.js';
 import { ExitScreen } from './screens/ExitScreen.js';
 
 export const App: React.FC = () => {
 	const { currentState, navigateTo } = useNavigation();
+	// Shown on the login screen, e.g. after a session timeout
+	const [loginNotice, setLoginNotice] = useState('');
+
+	const handleSessionExpired = (message: string) => {
+		setLoginNotice(message);
+		navigateTo(AppState.LOGIN);
+	};
 
 	const renderScreen = () => {
 		switch (currentState) {
@@ -27,14 +36,41 @@ export const App: React.FC = () => {
 			case AppState.LOGIN:
 				return (
 					<LoginScreen
-						onSuccess={() => navigateTo(AppState.HOME)}
+						notice={loginNotice}
+						onSuccess={() => {
+							setLoginNotice('');
+							navigateTo(AppState.HOME);
+						}}
 						onRegister={() => navigateTo(AppState.REGISTER)}
 						onHelp={() => navigateTo(AppState.HELP)}
 					/>
 				);
 
 			case AppState.HOME:
-				return <HomeScreen onLogout={() => navigateTo(AppState.EXIT)} />;
+				return (
+					<HomeScreen
+						onLogout={() => navigateTo(AppState.EXIT)}
+						onHistory={() => navigateTo(AppState.HISTORY)}
+						onStatement={() => navigateTo(AppState.STATEMENT)}
+						onSessionExpired={handleSessionExpired}
+					/>
+				);
+
+			case AppState.HISTORY:
+				return (
+					<HistoryScreen
+						onBack={() => navigateTo(AppState.HOME)}
+						onSessionExpired={handleSessionExpired}
+					/>
+				);
+
+			case AppState.STATEMENT:
+				return (
+					<StatementScreen
+						onBack={() => navigateTo(AppState.HOME)}
+						onSessionExpired={handleSessionExpired}
+					/>
+				);
 
 			case AppState.REGISTER:
 				return (
@@ -4,23 +4,40 @@
  * Shows formatted balance with color coding:
  * - Green for positive balances
  * - Red for negative balances (overdrafts)
+ *
+ * The ledger balance is shown with the available balance below it: the
+ * ledger balance less funds held for pending transactions, plus the
+ * remaining overdraft headroom for accounts with an overdraft policy.
  */
 
 import React from 'react';
 import { Box, Text } from 'ink';
 import { formatBalance } from '../../utils/formatter.js';
+import {
+	OverdraftPolicy,
+	availableBalance,
+	unheldBalance,
+} from '../../models/Account.js';
 
 interface BalanceDisplayProps {
 	balance: number;
+	heldAmount?: number;
 	label?: string;
+	overdraftPolicy?: OverdraftPolicy;
+	overdraftLimit?: number;
 }
 
 export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
 	balance,
-	label = 'Current Balance',
+	heldAmount,
+	label = 'Ledger Balance',
+	overdraftPolicy,
+	overdraftLimit,
 }) => {
 	const formatted = formatBalance(balance);
 	const color = balance >= 0 ? 'green' : 'red';
+	const account = { balance, heldAmount, overdraftPolicy, overdraftLimit };
+	const available = availableBalance(account) ?? unheldBalance(account);
 
 	return (
 		<Box flexDirection="column" paddingY={1}>
@@ -28,6 +45,17 @@ export const BalanceDisplay: React.FC<BalanceDisplayProps> = ({
 			<Text bold color={color}>
 				{formatted}
 			</Text>
+			<Text dimColor>
+				Available:{' '}
+				<Text color={available > 0 ? 'green' : 'red'}>
+					{formatBalance(available)}
+				</Text>
+				{overdraftPolicy === OverdraftPolicy.LIMITED &&
+					` (overdraft limit ${formatBalance(overdraftLimit ?? 0)})`}
+			</Text>
+			{!!heldAmount && (
+				<Text dimColor>On hold: {formatBalance(heldAmount)}</Text>
+			)}
 		</Box>
 	);
 };
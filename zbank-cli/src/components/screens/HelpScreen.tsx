@@ -41,6 +41,7 @@ export const HelpScreen: React.FC<HelpScreenProps> = ({ onBack }) => {
 				<Text> • Deposit and withdrawal transactions</Text>
 				<Text> • Account registration</Text>
 				<Text> • Transaction history</Text>
+				<Text> • Monthly statements</Text>
 				<Text> • Local data storage</Text>
 			</Box>
 
@@ -0,0 +1,218 @@
+/**
+ * HistoryScreen - Transaction history for the logged-in account
+ *
+ * Not part of the COBOL program (VSAM only held the current balance):
+ * - Paged list of transactions, most recent first
+ * - Detail view with balance before/after, status and description
+ * - Reversed transactions and their reversals are tagged with the same ID
+ *   and link to each other in the detail view
+ * - Holds show whether they are pending, settled or expired
+ * - ESC closes the detail view, then returns to HOME
+ * - Return to LOGIN when the session times out
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { Header } from '../common/Header.js';
+import { Footer } from '../common/Footer.js';
+import { useTransactions, useSession } from '../../contexts/ServiceContext.js';
+import { useKeyboard } from '../../hooks/useKeyboard.js';
+import {
+	useSessionTimeout,
+	sessionExpiredMessage,
+} from '../../hooks/useSessionTimeout.js';
+import {
+	formatTransaction,
+	formatBalance,
+	formatTimestamp,
+} from '../../utils/formatter.js';
+import { paginate } from '../../utils/pagination.js';
+import { Transaction, TransactionStatus } from '../../models/Transaction.js';
+
+interface HistoryScreenProps {
+	onBack: () => void;
+	onSessionExpired: (message: string) => void;
+}
+
+export const HISTORY_PAGE_SIZE = 10;
+
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({
+	onBack,
+	onSessionExpired,
+}) => {
+	const transactionService = useTransactions();
+	const sessionManager = useSession();
+	const account = sessionManager.getSession();
+
+	const [transactions, setTransactions] = useState<Transaction[] | null>(null);
+	const [error, setError] = useState('');
+	const [page, setPage] = useState(0);
+	const [selectedIndex, setSelectedIndex] = useState(0);
+	const [detail, setDetail] = useState<Transaction | null>(null);
+
+	// Load history once on entry
+	useEffect(() => {
+		if (!account) return;
+
+		transactionService
+			.getHistory(account.accountNumber)
+			.then(setTransactions)
+			.catch((err: unknown) => {
+				setError(err instanceof Error ? err.message : 'Failed to load history');
+				setTransactions([]);
+			});
+	}, [transactionService, account?.accountNumber]);
+
+	const current = paginate(transactions ?? [], page, HISTORY_PAGE_SIZE);
+
+	const changePage = (delta: number) => {
+		const next = Math.min(Math.max(0, page + delta), current.totalPages - 1);
+		if (next !== page) {
+			setPage(next);
+			setSelectedIndex(0);
+		}
+	};
+
+	const handleBack = () => {
+		if (detail) {
+			setDetail(null);
+			return;
+		}
+		onBack();
+	};
+
+	// Arrow keys and Enter drive the list; letters are handled below
+	useInput((_input, key) => {
+		if (detail || current.items.length === 0) return;
+
+		if (key.upArrow) {
+			setSelectedIndex(index => Math.max(0, index - 1));
+		} else if (key.downArrow) {
+			setSelectedIndex(index => Math.min(current.items.length - 1, index + 1));
+		} else if (key.leftArrow || key.pageUp) {
+			changePage(-1);
+		} else if (key.rightArrow || key.pageDown) {
+			changePage(1);
+		} else if (key.return) {
+			setDetail(current.items[selectedIndex] ?? null);
+		}
+	});
+
+	// Keypresses keep the session alive; expiry returns to login
+	useSessionTimeout(event =>
+		onSessionExpired(sessionExpiredMessage(event.reason)),
+	);
+
+	// Register keyboard shortcuts
+	useKeyboard({
+		N: () => !detail && changePage(1),
+		P: () => !detail && changePage(-1),
+		Q: handleBack,
+		ESCAPE: handleBack,
+	});
+
+	if (!account) {
+		return (
+			<Box flexDirection="column">
+				<Header title="HISTORY" />
+				<Box padding={2}>
+					<Text color="red">No active session. Please log in.</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	if (detail) {
+		// The reversal of a reversed transaction, if it is in the history
+		const reversedBy = transactions?.find(t => t.reversalOf === detail.id);
+
+		return (
+			<Box flexDirection="column">
+				<Header title="TRANSACTION DETAIL" showLogo={false} />
+
+				<Box flexDirection="column" paddingX={2}>
+					<Text>
+						Type: <Text color="cyan">{detail.type.toUpperCase()}</Text>
+					</Text>
+					<Text>Date: {formatTimestamp(detail.timestamp)}</Text>
+					<Text>Amount: {formatBalance(detail.amount)}</Text>
+					<Text>Balance before: {formatBalance(detail.balanceBefore)}</Text>
+					<Text>Balance after: {formatBalance(detail.balanceAfter)}</Text>
+					<Text>Status: {detail.status}</Text>
+					{detail.expiresAt && detail.status === TransactionStatus.PENDING && (
+						<Text color="yellow">
+							Expires: {formatTimestamp(detail.expiresAt)}
+						</Text>
+					)}
+					<Text>Description: {detail.description || '-'}</Text>
+					{detail.reference && <Text>Reference: {detail.reference}</Text>}
+					{detail.reversalOf && (
+						<Text color="yellow">Reversal of: {detail.reversalOf}</Text>
+					)}
+					{reversedBy && (
+						<Text color="yellow">
+							Reversed by: {reversedBy.id} (
+							{formatTimestamp(reversedBy.timestamp)})
+						</Text>
+					)}
+					<Text dimColor>ID: {detail.id}</Text>
+				</Box>
+
+				<Footer hints={['[ESC] Back to list']} />
+			</Box>
+		);
+	}
+
+	return (
+		<Box flexDirection="column">
+			<Header title="HISTORY" showLogo={false} />
+
+			<Box flexDirection="column" paddingX={2}>
+				<Text>
+					Account: <Text color="cyan">{account.accountNumber}</Text>
+				</Text>
+
+				{transactions === null ? (
+					<Box marginTop={1}>
+						<Text color="yellow">
+							<Spinner type="dots" />
+						</Text>
+						<Text color="yellow"> Loading history...</Text>
+					</Box>
+				) : current.totalItems === 0 ? (
+					<Box marginTop={1}>
+						<Text dimColor>No transactions yet.</Text>
+					</Box>
+				) : (
+					<Box flexDirection="column" marginTop={1}>
+						{current.items.map((transaction, index) => (
+							<Text
+								key={transaction.id}
+								color={index === selectedIndex ? 'cyan' : undefined}
+							>
+								{index === selectedIndex ? '› ' : '  '}
+								{formatTransaction(transaction)}
+							</Text>
+						))}
+						<Box marginTop={1}>
+							<Text dimColor>
+								{`Page ${current.page + 1} of ${current.totalPages} (${current.totalItems} transactions)`}
+							</Text>
+						</Box>
+					</Box>
+				)}
+
+				{error && (
+					<Box marginTop={1}>
+						<Text color="red">✗ {error}</Text>
+					</Box>
+				)}
+			</Box>
+
+			<Footer
+				hints={['[↑↓] Select', '[↵] Details', '[←→/N/P] Page', '[ESC] Back']}
+			/>
+		</Box>
+	);
+};
@@ -3,11 +3,13 @@
  *
  * Implements transaction functionality matching COBOL ZHOME BMS map:
  * - Balance display
- * - Action menu (Deposit, Withdraw, Logout)
+ * - Action menu (Deposit, Withdraw, Transfer, History, Statement, Logout)
+ * - Destination account input for transfers
  * - Amount input for transactions
  * - Transaction processing with loading states
  * - Success/error messages
  * - ESC to cancel actions
+ * - Return to LOGIN when the session times out
  */
 
 import React, { useState, useEffect } from 'react';
@@ -18,19 +20,33 @@ import { Header } from '../common/Header.js';
 import { Footer } from '../common/Footer.js';
 import { BalanceDisplay } from '../common/BalanceDisplay.js';
 import { CurrencyInput } from '../common/CurrencyInput.js';
+import { NumericInput } from '../common/NumericInput.js';
 import { useTransactions, useSession } from '../../contexts/ServiceContext.js';
 import { useKeyboard } from '../../hooks/useKeyboard.js';
+import {
+	useSessionTimeout,
+	sessionExpiredMessage,
+} from '../../hooks/useSessionTimeout.js';
 import { parseCurrency, formatBalance } from '../../utils/formatter.js';
 import { Account } from '../../models/Account.js';
 
 interface HomeScreenProps {
 	onLogout: () => void;
+	onHistory: () => void;
+	onStatement: () => void;
+	onSessionExpired: (message: string) => void;
 }
 
-type TransactionAction = 'deposit' | 'withdraw' | 'logout';
+type TransactionAction =
+	'deposit' | 'withdraw' | 'transfer' | 'history' | 'statement' | 'logout';
 type MessageType = 'success' | 'error' | 'info';
 
-export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
+export const HomeScreen: React.FC<HomeScreenProps> = ({
+	onLogout,
+	onHistory,
+	onStatement,
+	onSessionExpired,
+}) => {
 	const transactionService = useTransactions();
 	const sessionManager = useSession();
 
@@ -39,6 +55,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 		sessionManager.getSession(),
 	);
 	const [amount, setAmount] = useState('');
+	const [destinationAccount, setDestinationAccount] = useState('');
+	const [isEnteringAmount, setIsEnteringAmount] = useState(false);
 	const [selectedAction, setSelectedAction] =
 		useState<TransactionAction | null>(null);
 	const [message, setMessage] = useState('');
@@ -59,6 +77,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 	const actions = [
 		{ label: 'Deposit', value: 'deposit' as TransactionAction },
 		{ label: 'Withdraw', value: 'withdraw' as TransactionAction },
+		{ label: 'Transfer', value: 'transfer' as TransactionAction },
+		{ label: 'History', value: 'history' as TransactionAction },
+		{ label: 'Statement', value: 'statement' as TransactionAction },
 		{ label: 'Logout', value: 'logout' as TransactionAction },
 	];
 
@@ -69,9 +90,41 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 			return;
 		}
 
+		if (item.value === 'history') {
+			onHistory();
+			return;
+		}
+
+		if (item.value === 'statement') {
+			onStatement();
+			return;
+		}
+
 		setSelectedAction(item.value);
 		setMessage('');
 		setAmount('');
+		setDestinationAccount('');
+		// Transfers ask for the destination account before the amount
+		setIsEnteringAmount(item.value !== 'transfer');
+	};
+
+	const handleDestinationSubmit = () => {
+		if (!account) return;
+
+		if (destinationAccount.length !== 10) {
+			setMessageType('error');
+			setMessage('Destination account must be 10 digits');
+			return;
+		}
+
+		if (destinationAccount === account.accountNumber) {
+			setMessageType('error');
+			setMessage('Cannot transfer to the same account');
+			return;
+		}
+
+		setMessage('');
+		setIsEnteringAmount(true);
 	};
 
 	const handleTransactionSubmit = async () => {
@@ -106,21 +159,36 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 						amountInCents,
 					);
 					break;
+				case 'transfer':
+					result = await transactionService.transfer(
+						account.accountNumber,
+						destinationAccount,
+						amountInCents,
+					);
+					break;
 				default:
 					return;
 			}
 
+			// Transactions count as activity even without a keypress
+			sessionManager.recordActivity();
+
 			if (result.success && result.newBalance !== undefined) {
 				// Update local account balance
 				const updatedAccount = { ...account, balance: result.newBalance };
 				setAccount(updatedAccount);
 				sessionManager.updateSession(updatedAccount);
 
+				const fees = (result.fees ?? []).reduce(
+					(sum, fee) => sum + fee.amount,
+					0,
+				);
 				setMessageType('success');
 				setMessage(
-					`Transaction successful! New balance: ${formatBalance(result.newBalance)}`,
+					`Transaction successful!${fees > 0 ? ` Fees charged: ${formatBalance(fees)}.` : ''} New balance: ${formatBalance(result.newBalance)}`,
 				);
 				setAmount('');
+				setDestinationAccount('');
 				setSelectedAction(null);
 			} else {
 				setMessageType('error');
@@ -138,6 +206,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 		if (selectedAction) {
 			setSelectedAction(null);
 			setAmount('');
+			setDestinationAccount('');
 			setMessage('');
 		}
 	};
@@ -147,6 +216,11 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 		onLogout();
 	};
 
+	// Keypresses keep the session alive; expiry returns to login
+	useSessionTimeout(event =>
+		onSessionExpired(sessionExpiredMessage(event.reason)),
+	);
+
 	// Register keyboard shortcuts
 	useKeyboard({
 		Q: handleLogout,
@@ -174,7 +248,12 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 					<Text>
 						Welcome, Account: <Text color="cyan">{account.accountNumber}</Text>
 					</Text>
-					<BalanceDisplay balance={account.balance} />
+					<BalanceDisplay
+						balance={account.balance}
+						heldAmount={account.heldAmount}
+						overdraftPolicy={account.overdraftPolicy}
+						overdraftLimit={account.overdraftLimit}
+					/>
 				</Box>
 
 				{/* Action Menu or Transaction Input */}
@@ -191,15 +270,31 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ onLogout }) => {
 							{selectedAction.charAt(0).toUpperCase() + selectedAction.slice(1)}
 						</Text>
 
-						<Box marginTop={1} flexDirection="column">
-							<Text>Enter amount:</Text>
-							<CurrencyInput
-								value={amount}
-								onChange={setAmount}
-								onSubmit={handleTransactionSubmit}
-								focus={!isProcessing}
-							/>
-						</Box>
+						{selectedAction === 'transfer' && (
+							<Box marginTop={1} flexDirection="column">
+								<Text>Destination account (10 digits):</Text>
+								<NumericInput
+									value={destinationAccount}
+									onChange={setDestinationAccount}
+									onSubmit={handleDestinationSubmit}
+									maxLength={10}
+									placeholder="0000000000"
+									focus={!isEnteringAmount && !isProcessing}
+								/>
+							</Box>
+						)}
+
+						{isEnteringAmount && (
+							<Box marginTop={1} flexDirection="column">
+								<Text>Enter amount:</Text>
+								<CurrencyInput
+									value={amount}
+									onChange={setAmount}
+									onSubmit={handleTransactionSubmit}
+									focus={!isProcessing}
+								/>
+							</Box>
+						)}
 
 						<Box marginTop={1}>
 							<Text dimColor>Press Enter to confirm, ESC to cancel</Text>
@@ -5,7 +5,8 @@
  * - Account number input (10 digits)
  * - PIN input (4 digits, masked)
  * - Loading state during authentication
- * - Error message display
+ * - Error message display, including failed-login lockouts
+ * - Notice explaining why the user was returned here (e.g. session timeout)
  * - Keyboard shortcuts (Q=Quit, R=Register)
  */
 
@@ -18,8 +19,11 @@ import { NumericInput } from '../common/NumericInput.js';
 import { ErrorMessage } from '../common/ErrorMessage.js';
 import { useAuth } from '../../contexts/ServiceContext.js';
 import { useKeyboard } from '../../hooks/useKeyboard.js';
+import { AuthErrorCode, AuthResult } from '../../services/AuthService.js';
+import { formatTimestamp } from '../../utils/formatter.js';
 
 interface LoginScreenProps {
+	notice?: string;
 	onSuccess: () => void;
 	onRegister?: () => void;
 	onHelp?: () => void;
@@ -27,7 +31,28 @@ interface LoginScreenProps {
 
 type FocusedField = 'account' | 'pin';
 
+/**
+ * Error text for a failed login, with lockout details when present
+ */
+function loginErrorMessage(result: AuthResult): string {
+	const message = result.error || 'Login failed';
+
+	if (result.errorCode === AuthErrorCode.ACCOUNT_LOCKED && result.lockedUntil) {
+		return `${message}. Try again after ${formatTimestamp(result.lockedUntil)}.`;
+	}
+
+	if (
+		result.errorCode === AuthErrorCode.INVALID_PIN &&
+		result.attemptsRemaining !== undefined
+	) {
+		return `${message} (${result.attemptsRemaining} ${result.attemptsRemaining === 1 ? 'attempt' : 'attempts'} left)`;
+	}
+
+	return message;
+}
+
 export const LoginScreen: React.FC<LoginScreenProps> = ({
+	notice,
 	onSuccess,
 	onRegister,
 	onHelp,
@@ -67,7 +92,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({
 				onSuccess();
 			} else {
 				// Failed - show error and clear PIN
-				setError(result.error || 'Login failed');
+				setError(loginErrorMessage(result));
 				setPin('');
 				setFocusedField('pin');
 			}
@@ -150,6 +175,13 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({
 			<Header title="LOGIN" showLogo={true} />
 
 			<Box flexDirection="column" paddingX={2} paddingTop={1}>
+				{/* Notice (e.g. session timed out) */}
+				{notice && (
+					<Box marginBottom={1}>
+						<Text color="yellow">{notice}</Text>
+					</Box>
+				)}
+
 				{/* Account Number Input */}
 				<Box flexDirection="column" marginBottom={1}>
 					<Text color="cyan">Account Number (10 digits):</Text>
@@ -1,50 +1,174 @@
 /**
- * RegisterScreen - Skeleton registration screen
+ * RegisterScreen - Self-service account registration
  *
- * Matches the COBOL ZRGSTR map which has UI but no actual registration logic.
- * This is a skeleton/placeholder implementation showing the registration form
- * without implementing account creation functionality.
+ * Follows the COBOL ZRGSTR map layout, which had no logic behind it, and
+ * completes it through AccountService.register:
+ * - Account number (a free one is suggested, or type your own)
+ * - PIN, entered twice
+ * - Optional opening deposit
+ * - Success message, then Enter returns to LOGIN
  */
 
-import React, { useState } from 'react';
-import { Box, Text } from 'ink';
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
 import { Header } from '../common/Header.js';
 import { Footer } from '../common/Footer.js';
 import { NumericInput } from '../common/NumericInput.js';
+import { CurrencyInput } from '../common/CurrencyInput.js';
+import { ErrorMessage } from '../common/ErrorMessage.js';
+import { useAccounts } from '../../contexts/ServiceContext.js';
 import { useKeyboard } from '../../hooks/useKeyboard.js';
+import { parseCurrency, formatBalance } from '../../utils/formatter.js';
+import { Account } from '../../models/Account.js';
 
 interface RegisterScreenProps {
 	onBack: () => void;
 	onSuccess?: () => void;
 }
 
-type FocusedField = 'account' | 'pin';
+type FocusedField = 'account' | 'pin' | 'confirm' | 'deposit';
 
 export const RegisterScreen: React.FC<RegisterScreenProps> = ({
 	onBack,
 	onSuccess,
 }) => {
+	const accountService = useAccounts();
+
 	const [accountNumber, setAccountNumber] = useState('');
 	const [pin, setPin] = useState('');
+	const [confirmPin, setConfirmPin] = useState('');
+	const [deposit, setDeposit] = useState('');
 	const [focusedField, setFocusedField] = useState<FocusedField>('account');
+	const [error, setError] = useState('');
+	const [isProcessing, setIsProcessing] = useState(false);
+	const [registered, setRegistered] = useState<Account | null>(null);
 
-	// Props intentionally unused in this skeleton implementation
-	void onSuccess;
+	// Suggest a free account number
+	useEffect(() => {
+		accountService
+			.generateAccountNumber()
+			.then(suggested => setAccountNumber(current => current || suggested))
+			.catch(() => {
+				// No suggestion - the user can still type a number
+			});
+	}, [accountService]);
 
 	/**
 	 * Handle account number submission (Enter key)
-	 * Moves focus to PIN field
+	 * Checks the number is free, then moves focus to PIN field
 	 */
-	const handleAccountSubmit = () => {
+	const handleAccountSubmit = async () => {
+		if (accountNumber.length !== 10) {
+			setError('Account number must be 10 digits');
+			return;
+		}
+
+		if (!(await accountService.isAccountNumberAvailable(accountNumber))) {
+			setError('Account number already exists');
+			return;
+		}
+
+		setError('');
 		setFocusedField('pin');
 	};
 
+	const handlePinSubmit = () => {
+		if (pin.length !== 4) {
+			setError('PIN must be 4 digits');
+			return;
+		}
+
+		setError('');
+		setFocusedField('confirm');
+	};
+
+	const handleConfirmSubmit = () => {
+		if (confirmPin !== pin) {
+			setError('PINs do not match');
+			setConfirmPin('');
+			return;
+		}
+
+		setError('');
+		setFocusedField('deposit');
+	};
+
+	/**
+	 * Handle opening deposit submission - creates the account
+	 */
+	const handleRegister = async () => {
+		const openingDeposit = deposit === '' ? 0 : parseCurrency(deposit);
+		if (openingDeposit === null) {
+			setError('Please enter a valid amount');
+			return;
+		}
+
+		setIsProcessing(true);
+		setError('');
+
+		try {
+			const result = await accountService.register({
+				accountNumber,
+				pin,
+				confirmPin,
+				openingDeposit,
+			});
+
+			if (result.success && result.account) {
+				setRegistered(result.account);
+			} else {
+				setError(result.error || 'Registration failed');
+				// A taken number sends the user back to pick another
+				if (result.error === 'Account number already exists') {
+					setFocusedField('account');
+				}
+			}
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred',
+			);
+		} finally {
+			setIsProcessing(false);
+		}
+	};
+
+	// Enter after a successful registration continues to login
+	useInput((_input, key) => {
+		if (registered && key.return) {
+			(onSuccess ?? onBack)();
+		}
+	});
+
 	// Handle Q key to go back to login
 	useKeyboard({
 		Q: onBack,
 		ESCAPE: onBack,
 	});
 
+	if (registered) {
+		return (
+			<Box flexDirection="column">
+				<Header title="REGISTER" showLogo={true} />
+
+				<Box flexDirection="column" paddingX={2} paddingTop={1}>
+					<Text color="green">✓ Account registered</Text>
+					<Text>
+						Account Number: <Text color="cyan">{registered.accountNumber}</Text>
+					</Text>
+					<Text>Balance: {formatBalance(registered.balance)}</Text>
+					<Box marginTop={1}>
+						<Text dimColor>
+							Note your account number - you need it to log in.
+						</Text>
+					</Box>
+				</Box>
+
+				<Footer hints={['[↵] Continue to Login']} />
+			</Box>
+		);
+	}
+
 	return (
 		<Box flexDirection="column">
 			<Header title="REGISTER" showLogo={true} />
@@ -59,7 +183,7 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({
 						onSubmit={handleAccountSubmit}
 						maxLength={10}
 						placeholder="0000000000"
-						focus={focusedField === 'account'}
+						focus={focusedField === 'account' && !isProcessing}
 					/>
 				</Box>
 
@@ -69,29 +193,65 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({
 					<NumericInput
 						value={pin}
 						onChange={setPin}
+						onSubmit={handlePinSubmit}
 						maxLength={4}
 						mask="*"
 						placeholder="****"
-						focus={focusedField === 'pin'}
+						focus={focusedField === 'pin' && !isProcessing}
 					/>
 				</Box>
 
-				{/* Warning Message */}
-				<Box marginTop={1} marginBottom={1}>
-					<Text color="yellow">
-						⚠ Registration functionality not yet implemented (matching COBOL)
-					</Text>
+				{/* PIN Confirmation */}
+				<Box flexDirection="column" marginBottom={1}>
+					<Text color="cyan">Confirm PIN:</Text>
+					<NumericInput
+						value={confirmPin}
+						onChange={setConfirmPin}
+						onSubmit={handleConfirmSubmit}
+						maxLength={4}
+						mask="*"
+						placeholder="****"
+						focus={focusedField === 'confirm' && !isProcessing}
+					/>
 				</Box>
 
-				{/* Instructions */}
-				<Box marginTop={1}>
-					<Text dimColor>
-						This screen matches the COBOL ZRGSTR map skeleton.
-					</Text>
+				{/* Opening Deposit */}
+				<Box flexDirection="column" marginBottom={1}>
+					<Text color="cyan">Opening deposit (optional):</Text>
+					<CurrencyInput
+						value={deposit}
+						onChange={setDeposit}
+						onSubmit={handleRegister}
+						focus={focusedField === 'deposit' && !isProcessing}
+					/>
 				</Box>
+
+				{/* Error Message */}
+				{error && (
+					<Box marginTop={1}>
+						<ErrorMessage message={error} />
+					</Box>
+				)}
+
+				{/* Loading Indicator */}
+				{isProcessing && (
+					<Box marginTop={1}>
+						<Text color="yellow">
+							<Spinner type="dots" />
+						</Text>
+						<Text color="yellow"> Creating account...</Text>
+					</Box>
+				)}
+
+				{/* Instructions */}
+				{!isProcessing && !error && (
+					<Box marginTop={1}>
+						<Text dimColor>Press Enter to continue to the next field</Text>
+					</Box>
+				)}
 			</Box>
 
-			<Footer hints={['[Q] Back to Login', '[ESC] Back']} />
+			<Footer hints={['[↵] Next', '[Q] Back to Login', '[ESC] Back']} />
 		</Box>
 	);
 };
@@ -0,0 +1,208 @@
+/**
+ * StatementScreen - Monthly statements for the logged-in account
+ *
+ * Not part of the COBOL program:
+ * - Opens on the current month, which is still in progress
+ * - Opening balance, the month's transactions (paged), totals by type and
+ *   closing balance
+ * - ←/→ move between months, back to the one the account was opened in;
+ *   ended months are frozen the first time they are shown
+ * - ESC returns to HOME
+ * - Return to LOGIN when the session times out
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { Header } from '../common/Header.js';
+import { Footer } from '../common/Footer.js';
+import { useStatements, useSession } from '../../contexts/ServiceContext.js';
+import { useKeyboard } from '../../hooks/useKeyboard.js';
+import {
+	useSessionTimeout,
+	sessionExpiredMessage,
+} from '../../hooks/useSessionTimeout.js';
+import { formatTransaction, formatBalance } from '../../utils/formatter.js';
+import { paginate } from '../../utils/pagination.js';
+import { toBusinessDate } from '../../utils/clock.js';
+import { Statement } from '../../models/Statement.js';
+
+interface StatementScreenProps {
+	onBack: () => void;
+	onSessionExpired: (message: string) => void;
+}
+
+export const STATEMENT_PAGE_SIZE = 10;
+
+/**
+ * The month before or after a period
+ */
+function shiftPeriod(period: string, delta: number): string {
+	const [year, month] = period.split('-').map(Number);
+	return toBusinessDate(new Date(year, month - 1 + delta, 1)).slice(0, 7);
+}
+
+export const StatementScreen: React.FC<StatementScreenProps> = ({
+	onBack,
+	onSessionExpired,
+}) => {
+	const statementService = useStatements();
+	const sessionManager = useSession();
+	const account = sessionManager.getSession();
+
+	const currentPeriod = toBusinessDate(new Date()).slice(0, 7);
+	const firstPeriod = account
+		? toBusinessDate(account.createdAt).slice(0, 7)
+		: currentPeriod;
+
+	const [period, setPeriod] = useState(currentPeriod);
+	const [statement, setStatement] = useState<Statement | null>(null);
+	const [error, setError] = useState('');
+	const [page, setPage] = useState(0);
+
+	// Load the statement whenever the month changes
+	useEffect(() => {
+		if (!account) return;
+
+		setStatement(null);
+		setError('');
+		setPage(0);
+		statementService
+			.getStatement(account.accountNumber, period)
+			.then(result => {
+				if (result.success && result.statement) {
+					setStatement(result.statement);
+				} else {
+					setError(result.error ?? 'Failed to load statement');
+				}
+			})
+			.catch((err: unknown) => {
+				setError(
+					err instanceof Error ? err.message : 'Failed to load statement',
+				);
+			});
+	}, [statementService, account?.accountNumber, period]);
+
+	const current = paginate(
+		statement?.transactions ?? [],
+		page,
+		STATEMENT_PAGE_SIZE,
+	);
+
+	const changePeriod = (delta: number) => {
+		const next = shiftPeriod(period, delta);
+		if (next >= firstPeriod && next <= currentPeriod) {
+			setPeriod(next);
+		}
+	};
+
+	const changePage = (delta: number) => {
+		setPage(Math.min(Math.max(0, page + delta), current.totalPages - 1));
+	};
+
+	// Arrow keys change the month; letters are handled below
+	useInput((_input, key) => {
+		if (key.leftArrow) {
+			changePeriod(-1);
+		} else if (key.rightArrow) {
+			changePeriod(1);
+		} else if (key.pageUp) {
+			changePage(-1);
+		} else if (key.pageDown) {
+			changePage(1);
+		}
+	});
+
+	// Keypresses keep the session alive; expiry returns to login
+	useSessionTimeout(event =>
+		onSessionExpired(sessionExpiredMessage(event.reason)),
+	);
+
+	// Register keyboard shortcuts
+	useKeyboard({
+		N: () => changePage(1),
+		P: () => changePage(-1),
+		Q: onBack,
+		ESCAPE: onBack,
+	});
+
+	if (!account) {
+		return (
+			<Box flexDirection="column">
+				<Header title="STATEMENT" />
+				<Box padding={2}>
+					<Text color="red">No active session. Please log in.</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	return (
+		<Box flexDirection="column">
+			<Header title="STATEMENT" showLogo={false} />
+
+			<Box flexDirection="column" paddingX={2}>
+				<Text>
+					Account: <Text color="cyan">{account.accountNumber}</Text>
+					{'  '}Month: <Text color="cyan">{period}</Text>
+					{statement && (
+						<Text dimColor>
+							{statement.closed ? '  (closed)' : '  (in progress)'}
+						</Text>
+					)}
+				</Text>
+
+				{statement === null && !error ? (
+					<Box marginTop={1}>
+						<Text color="yellow">
+							<Spinner type="dots" />
+						</Text>
+						<Text color="yellow"> Loading statement...</Text>
+					</Box>
+				) : statement ? (
+					<Box flexDirection="column" marginTop={1}>
+						<Text>
+							Opening balance: {formatBalance(statement.openingBalance)}
+						</Text>
+
+						<Box flexDirection="column" marginY={1}>
+							{current.totalItems === 0 ? (
+								<Text dimColor>No transactions this month.</Text>
+							) : (
+								<>
+									{current.items.map(transaction => (
+										<Text key={transaction.id}>
+											{formatTransaction(transaction)}
+										</Text>
+									))}
+									{current.totalPages > 1 && (
+										<Text dimColor>
+											{`Page ${current.page + 1} of ${current.totalPages} (${current.totalItems} transactions)`}
+										</Text>
+									)}
+								</>
+							)}
+						</Box>
+
+						{statement.totals.map(total => (
+							<Text key={total.type}>
+								{`${total.type.toUpperCase()}: ${total.count} | In: ${formatBalance(total.credits)} | Out: ${formatBalance(total.debits)}`}
+							</Text>
+						))}
+						<Text bold>
+							Closing balance: {formatBalance(statement.closingBalance)}
+						</Text>
+					</Box>
+				) : null}
+
+				{error && (
+					<Box marginTop={1}>
+						<Text color="red">✗ {error}</Text>
+					</Box>
+				)}
+			</Box>
+
+			<Footer hints={['[←→] Month', '[N/P] Page', '[ESC] Back']} />
+		</Box>
+	);
+};
@@ -6,15 +6,35 @@
  */
 
 import React, { createContext, useContext, ReactNode, useMemo } from 'react';
-import { AuthService } from '../services/AuthService.js';
-import { SessionManager } from '../services/SessionManager.js';
-import { TransactionService } from '../services/TransactionService.js';
+import {
+	AuthService,
+	DEFAULT_LOCKOUT_POLICY,
+	LockoutPolicy,
+} from '../services/AuthService.js';
+import { AccountService } from '../services/AccountService.js';
+import {
+	SessionManager,
+	DEFAULT_SESSION_TIMEOUTS,
+	SessionTimeoutOptions,
+} from '../services/SessionManager.js';
+import {
+	TransactionService,
+	DEFAULT_TRANSACTION_LIMITS,
+	DEFAULT_HOLD_DURATION_MS,
+	TransactionLimits,
+} from '../services/TransactionService.js';
+import { DEFAULT_FEE_RULES, FeeRules } from '../services/FeeService.js';
+import { StatementService } from '../services/StatementService.js';
 import { JsonStorage } from '../services/JsonStorage.js';
+import { SqliteStorage } from '../services/SqliteStorage.js';
 import { IStorage } from '../services/IStorage.js';
+import { createStorage, StorageBackend } from '../services/StorageFactory.js';
 
 interface Services {
 	authService: AuthService;
+	accountService: AccountService;
 	transactionService: TransactionService;
+	statementService: StatementService;
 	sessionManager: SessionManager;
 	storage: IStorage;
 }
@@ -24,7 +44,12 @@ const ServiceContext = createContext<Services | null>(null);
 interface ServiceProviderProps {
 	children: ReactNode;
 	storage?: IStorage;
+	backend?: StorageBackend;
 	dataPath?: string;
+	lockoutPolicy?: LockoutPolicy;
+	sessionTimeouts?: SessionTimeoutOptions;
+	transactionLimits?: TransactionLimits;
+	feeRules?: FeeRules;
 }
 
 /**
@@ -32,34 +57,61 @@ interface ServiceProviderProps {
  *
  * Creates and provides all services to child components.
  * Services are created once and reused throughout the application.
+ * Storage is either injected or created for the selected backend.
+ * Failed logins lock accounts per DEFAULT_LOCKOUT_POLICY, sessions expire
+ * per DEFAULT_SESSION_TIMEOUTS, transactions are held to
+ * DEFAULT_TRANSACTION_LIMITS and charged DEFAULT_FEE_RULES unless
+ * overridden.
  */
 export const ServiceProvider: React.FC<ServiceProviderProps> = ({
 	children,
 	storage: providedStorage,
+	backend = 'json',
 	dataPath = './data',
+	lockoutPolicy = DEFAULT_LOCKOUT_POLICY,
+	sessionTimeouts = DEFAULT_SESSION_TIMEOUTS,
+	transactionLimits = DEFAULT_TRANSACTION_LIMITS,
+	feeRules = DEFAULT_FEE_RULES,
 }) => {
 	const services = useMemo(() => {
-		// Use provided storage or create default JsonStorage
-		const storage = providedStorage || new JsonStorage(dataPath);
+		// Use provided storage or create one for the selected backend
+		const storage = providedStorage || createStorage(backend, dataPath);
 
-		// Initialize storage if it's a JsonStorage instance
-		if (storage instanceof JsonStorage) {
+		// Initialize storage if it's one of the built-in backends
+		if (storage instanceof JsonStorage || storage instanceof SqliteStorage) {
 			storage.initialize().catch((error: Error) => {
 				console.error('Failed to initialize storage:', error);
 			});
 		}
 
-		const sessionManager = new SessionManager();
-		const authService = new AuthService(storage, sessionManager);
-		const transactionService = new TransactionService(storage);
+		const sessionManager = new SessionManager(sessionTimeouts);
+		const authService = new AuthService(storage, sessionManager, lockoutPolicy);
+		const accountService = new AccountService(storage);
+		const transactionService = new TransactionService(
+			storage,
+			transactionLimits,
+			DEFAULT_HOLD_DURATION_MS,
+			feeRules,
+		);
+		const statementService = new StatementService(storage);
 
 		return {
 			authService,
+			accountService,
 			transactionService,
+			statementService,
 			sessionManager,
 			storage,
 		};
-	}, [providedStorage, dataPath]);
+	}, [
+		providedStorage,
+		backend,
+		dataPath,
+		lockoutPolicy,
+		sessionTimeouts,
+		transactionLimits,
+		feeRules,
+	]);
 
 	return (
 		<ServiceContext.Provider value={services}>
@@ -89,6 +141,14 @@ export const useAuth = (): AuthService => {
 	return authService;
 };
 
+/**
+ * useAccounts - Convenience hook to access AccountService
+ */
+export const useAccounts = (): AccountService => {
+	const { accountService } = useServices();
+	return accountService;
+};
+
 /**
  * useTransactions - Convenience hook to access TransactionService
  */
@@ -97,6 +157,14 @@ export const useTransactions = (): TransactionService => {
 	return transactionService;
 };
 
+/**
+ * useStatements - Convenience hook to access StatementService
+ */
+export const useStatements = (): StatementService => {
+	const { statementService } = useServices();
+	return statementService;
+};
+
 /**
  * useSession - Convenience hook to access SessionManager
  */
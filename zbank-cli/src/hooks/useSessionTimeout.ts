@@ -0,0 +1,55 @@
+/**
+ * useSessionTimeout - Hook for session inactivity handling
+ *
+ * Counts every keypress as session activity and calls back when the
+ * session expires, so logged-in screens can return to LOGIN.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useInput } from 'ink';
+import { useSession } from '../contexts/ServiceContext.js';
+import {
+	SessionExpiredEvent,
+	SessionExpiryReason,
+} from '../services/SessionManager.js';
+
+/**
+ * Message shown on the login screen after a session expires
+ * @param reason - Why the session expired
+ */
+export function sessionExpiredMessage(reason: SessionExpiryReason): string {
+	return reason === 'idle'
+		? 'Your session timed out due to inactivity. Please log in again.'
+		: 'Your session reached its time limit. Please log in again.';
+}
+
+/**
+ * Hook to track activity and react to session expiry
+ *
+ * The expiry listener is registered once per session manager and calls the
+ * latest onExpired, so callers can pass an inline function.
+ *
+ * @param onExpired - Called when the session expires
+ *
+ * @example
+ * useSessionTimeout(event => onSessionExpired(sessionExpiredMessage(event.reason)));
+ */
+export function useSessionTimeout(
+	onExpired: (event: SessionExpiredEvent) => void,
+): void {
+	const sessionManager = useSession();
+	const onExpiredRef = useRef(onExpired);
+
+	useEffect(() => {
+		onExpiredRef.current = onExpired;
+	});
+
+	useInput(() => {
+		sessionManager.recordActivity();
+	});
+
+	useEffect(
+		() => sessionManager.onExpired(event => onExpiredRef.current(event)),
+		[sessionManager],
+	);
+}
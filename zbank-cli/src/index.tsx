@@ -5,17 +5,69 @@ import { NavigationProvider } from './contexts/NavigationContext.js';
 import { ServiceProvider } from './contexts/ServiceContext.js';
 import { App } from './components/App.js';
 import { initializeStorage } from './utils/storage-init.js';
+import {
+	createStorage,
+	isStorageBackend,
+	StorageBackend,
+	STORAGE_BACKENDS,
+} from './services/StorageFactory.js';
+import { runCli } from './cli/commands.js';
 
-// Initialize storage with seed data if needed
-(async () => {
-	await initializeStorage();
+/**
+ * Read the storage backend from --storage <backend> / --storage=<backend>,
+ * falling back to the ZBANK_STORAGE environment variable and then JSON
+ */
+function parseStorageBackend(args: string[]): StorageBackend {
+	let value = process.env.ZBANK_STORAGE;
+
+	args.forEach((arg, index) => {
+		if (arg === '--storage') {
+			value = args[index + 1];
+		} else if (arg.startsWith('--storage=')) {
+			value = arg.slice('--storage='.length);
+		}
+	});
+
+	if (value === undefined) {
+		return 'json';
+	}
+
+	if (!isStorageBackend(value)) {
+		console.error(
+			`Unknown storage backend "${value}". Use one of: ${STORAGE_BACKENDS.join(', ')}`,
+		);
+		process.exit(1);
+	}
+
+	return value;
+}
+
+const args = process.argv.slice(2);
+
+// A leading non-option argument is a subcommand (e.g. `zbank balance`)
+if (
+	args[0] !== undefined &&
+	(!args[0].startsWith('-') || args[0] === '--help' || args[0] === '-h')
+) {
+	runCli(args).then(code => process.exit(code));
+} else {
+	startInteractive();
+}
+
+/**
+ * Start the interactive Ink application
+ */
+async function startInteractive() {
+	// Initialize storage with seed data if needed
+	const storage = createStorage(parseStorageBackend(args));
+	await initializeStorage(storage);
 
 	// Render the application
 	render(
-		<ServiceProvider>
+		<ServiceProvider storage={storage}>
 			<NavigationProvider>
 				<App />
 			</NavigationProvider>
 		</ServiceProvider>,
 	);
-})();
+}
@@ -1,4 +1,42 @@
 import { z } from 'zod';
+import { TransactionType } from './Transaction.js';
+
+/**
+ * How far an account's balance may go below zero
+ */
+export enum OverdraftPolicy {
+	NONE = 'none', // Never below zero
+	LIMITED = 'limited', // Down to -overdraftLimit
+	UNLIMITED = 'unlimited', // No limit (COBOL behavior)
+}
+
+/**
+ * Kind of fee the fee engine charges
+ */
+export enum FeeType {
+	WITHDRAWAL = 'withdrawal', // Per withdrawal, past the free ones of the month
+	OVERDRAFT = 'overdraft', // Per debit that leaves the balance below zero
+	MAINTENANCE = 'maintenance', // Monthly, charged by the end-of-day batch
+}
+
+/**
+ * Kind of account, which decides the interest rates and fees that apply
+ */
+export enum AccountType {
+	CHECKING = 'checking',
+	SAVINGS = 'savings',
+}
+
+/**
+ * Per-account override of a transaction type's limits (in cents)
+ *
+ * An absent value falls back to the bank-wide TransactionLimits; null lifts
+ * that limit for the account.
+ */
+export interface TransactionLimitOverride {
+	perTransaction?: number | null; // Largest single amount
+	daily?: number | null; // Total over a rolling 24 hours
+}
 
 /**
  * Account interface representing a bank account
@@ -9,11 +47,45 @@ import { z } from 'zod';
 export interface Account {
 	accountNumber: string; // 10-digit account number
 	pin: string; // Hashed PIN (bcrypt hash)
-	balance: number; // Balance in cents (allow negative for overdrafts)
+	balance: number; // Ledger balance in cents (allow negative for overdrafts)
+	accountType?: AccountType; // Absent: CHECKING
+	heldAmount?: number; // Reserved by pending holds, in cents (absent: none)
+	overdraftPolicy?: OverdraftPolicy; // Absent: UNLIMITED, like COBOL
+	overdraftLimit?: number; // In cents, for LIMITED
+	transactionLimits?: Partial<
+		Record<TransactionType, TransactionLimitOverride>
+	>; // Overrides of the bank-wide limits
+	feeWaivers?: FeeType[]; // Fees this account is never charged
+
+	// Interest accrued by the end-of-day batch, paid or charged at month end
+	accruedInterest?: number; // Earned and not yet paid, in unrounded cents
+	accruedOverdraftInterest?: number; // Owed and not yet charged, in unrounded cents
+	interestAccruedThrough?: string; // Last business date accrued (YYYY-MM-DD)
 	createdAt: Date; // Creation timestamp
 	updatedAt: Date; // Last modification timestamp
+
+	// Login lockout state (absent on accounts that never failed a login)
+	failedLoginAttempts?: number; // Consecutive failed logins
+	lastFailedLoginAt?: Date; // Time of the most recent failed login
+	isLocked?: boolean; // Locked out after too many failed logins
+	lockedUntil?: Date; // When the lock expires (absent: until an admin unlocks)
 }
 
+const LimitAmountSchema = z
+	.number()
+	.int('Limit must be an integer (cents)')
+	.nonnegative('Limit cannot be negative')
+	.nullable()
+	.optional();
+
+/**
+ * Zod schema for TransactionLimitOverride validation
+ */
+export const TransactionLimitOverrideSchema = z.object({
+	perTransaction: LimitAmountSchema,
+	daily: LimitAmountSchema,
+});
+
 /**
  * Zod schema for Account validation
  * Ensures data integrity and type safety
@@ -25,8 +97,44 @@ export const AccountSchema = z.object({
 		.regex(/^\d{10}$/, 'Account number must contain only digits'),
 	pin: z.string().min(1, 'PIN hash is required'),
 	balance: z.number().int('Balance must be an integer (cents)'),
+	accountType: z.enum(AccountType).optional(),
+	heldAmount: z
+		.number()
+		.int('Held amount must be an integer (cents)')
+		.nonnegative('Held amount cannot be negative')
+		.optional(),
+	overdraftPolicy: z.enum(OverdraftPolicy).optional(),
+	overdraftLimit: z
+		.number()
+		.int('Overdraft limit must be an integer (cents)')
+		.nonnegative('Overdraft limit cannot be negative')
+		.optional(),
+	transactionLimits: z
+		.partialRecord(z.enum(TransactionType), TransactionLimitOverrideSchema)
+		.optional(),
+	feeWaivers: z.array(z.enum(FeeType)).optional(),
+	accruedInterest: z
+		.number()
+		.nonnegative('Accrued interest cannot be negative')
+		.optional(),
+	accruedOverdraftInterest: z
+		.number()
+		.nonnegative('Accrued overdraft interest cannot be negative')
+		.optional(),
+	interestAccruedThrough: z
+		.string()
+		.regex(/^\d{4}-\d{2}-\d{2}$/, 'Business date must be YYYY-MM-DD')
+		.optional(),
 	createdAt: z.date(),
 	updatedAt: z.date(),
+	failedLoginAttempts: z
+		.number()
+		.int('Failed login attempts must be an integer')
+		.nonnegative('Failed login attempts cannot be negative')
+		.optional(),
+	lastFailedLoginAt: z.date().optional(),
+	isLocked: z.boolean().optional(),
+	lockedUntil: z.date().optional(),
 });
 
 /**
@@ -53,3 +161,53 @@ export type CreateAccount = z.infer<typeof CreateAccountSchema>;
  * Type for updating an account
  */
 export type UpdateAccount = z.infer<typeof UpdateAccountSchema>;
+
+/**
+ * Overdraft settings of an account, with the balance they apply to
+ */
+type OverdraftFields = Pick<
+	Account,
+	'balance' | 'heldAmount' | 'overdraftPolicy' | 'overdraftLimit'
+>;
+
+/**
+ * Lowest balance an account may reach
+ * @param account - The account
+ * @returns The floor in cents (zero or below), or null when unlimited
+ */
+export function overdraftFloor(
+	account: Omit<OverdraftFields, 'balance'>,
+): number | null {
+	switch (account.overdraftPolicy ?? OverdraftPolicy.UNLIMITED) {
+		case OverdraftPolicy.NONE:
+			return 0;
+		case OverdraftPolicy.LIMITED:
+			return 0 - (account.overdraftLimit ?? 0);
+		default:
+			return null;
+	}
+}
+
+/**
+ * Ledger balance less the funds reserved by pending holds
+ * @param account - The account
+ * @returns The balance in cents (may be negative)
+ */
+export function unheldBalance(
+	account: Pick<Account, 'balance' | 'heldAmount'>,
+): number {
+	return account.balance - (account.heldAmount ?? 0);
+}
+
+/**
+ * Amount that can be withdrawn, including the overdraft headroom
+ *
+ * Funds reserved by pending holds are not available.
+ *
+ * @param account - The account
+ * @returns The amount in cents (never negative), or null when unlimited
+ */
+export function availableBalance(account: OverdraftFields): number | null {
+	const floor = overdraftFloor(account);
+	return floor === null ? null : Math.max(0, unheldBalance(account) - floor);
+}
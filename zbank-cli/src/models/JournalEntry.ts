@@ -0,0 +1,501 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+	Transaction,
+	TransactionType,
+	TransactionStatus,
+	CreateTransaction,
+	CreateTransactionSchema,
+	TransactionSchema,
+} from './Transaction.js';
+import { Account } from './Account.js';
+
+/**
+ * Bank-side ledger accounts
+ *
+ * Every movement of money has a customer side and a bank side. Postings to
+ * these accounts carry the bank side, so each journal entry sums to zero.
+ */
+export enum SystemAccount {
+	CASH = 'SYS-CASH', // Cash paid in and out (deposits, withdrawals)
+	FEES = 'SYS-FEES', // Fee income
+	INTEREST = 'SYS-INTEREST', // Interest paid to and charged on accounts
+	SUSPENSE = 'SYS-SUSPENSE', // Unexplained differences: legacy records, corrections
+	EQUITY = 'SYS-EQUITY', // Opening balances carried over from before the ledger
+}
+
+/**
+ * Check whether a ledger account is a system account
+ * @param accountNumber - Customer account number or SystemAccount
+ */
+export function isSystemAccount(
+	accountNumber: string,
+): accountNumber is SystemAccount {
+	return (Object.values(SystemAccount) as string[]).includes(accountNumber);
+}
+
+/**
+ * One line of a journal entry: a signed change to one ledger account
+ *
+ * A customer account's balance is the sum of its postings. Customer postings
+ * also record the account balance around them, which is what the
+ * Transaction view shows.
+ */
+export interface Posting {
+	id: string; // UUID (the Transaction ID for customer postings)
+	accountNumber: string; // Customer account number or SystemAccount
+	amount: number; // Cents: positive credits the account, negative debits it
+	balanceBefore?: number; // Customer postings only (in cents)
+	balanceAfter?: number; // Customer postings only (in cents)
+	description?: string; // Overrides the entry description for this account
+	reversalOf?: string; // ID of the posting a REVERSAL posting undoes
+}
+
+/**
+ * A movement of money, recorded as postings that sum to zero
+ */
+export interface JournalEntry {
+	id: string; // Unique entry ID (UUID)
+	type: TransactionType; // What kind of movement this is
+	status: TransactionStatus;
+	timestamp: Date;
+	description?: string;
+	reference?: string; // Shared reference linking related records
+	idempotencyKey?: string; // Unique within its scope (see TransactionService)
+	idempotencyScope?: string; // Ledger account the key belongs to; set with idempotencyKey
+	expiresAt?: Date; // HOLD entries only
+	chargedFor?: string; // FEE entries only: ID of the transaction that incurred the fee
+	postings: Posting[];
+}
+
+const LedgerAccountSchema = z.union([
+	z.string().regex(/^\d{10}$/, 'Account number must be exactly 10 digits'),
+	z.enum(SystemAccount),
+]);
+
+const PostingFieldsSchema = z.object({
+	id: z.string().uuid('Posting ID must be a valid UUID'),
+	accountNumber: LedgerAccountSchema,
+	amount: z
+		.number()
+		.int('Amount must be an integer (cents)')
+		.refine(amount => amount !== 0, 'Amount must not be zero'),
+	balanceBefore: z
+		.number()
+		.int('Balance before must be an integer (cents)')
+		.optional(),
+	balanceAfter: z
+		.number()
+		.int('Balance after must be an integer (cents)')
+		.optional(),
+	description: z.string().optional(),
+	reversalOf: z
+		.string()
+		.uuid('Reversed posting ID must be a valid UUID')
+		.optional(),
+});
+
+/**
+ * Customer postings need their balance snapshots for the Transaction view
+ */
+function hasSnapshots(posting: {
+	accountNumber: string;
+	balanceBefore?: number;
+	balanceAfter?: number;
+}): boolean {
+	return (
+		isSystemAccount(posting.accountNumber) ||
+		(posting.balanceBefore !== undefined && posting.balanceAfter !== undefined)
+	);
+}
+
+const SNAPSHOT_MESSAGE =
+	'Customer postings must record balanceBefore and balanceAfter';
+
+/**
+ * Zod schema for Posting validation
+ */
+export const PostingSchema = PostingFieldsSchema.refine(
+	hasSnapshots,
+	SNAPSHOT_MESSAGE,
+);
+
+/**
+ * Postings must balance: money only moves, it is never created or destroyed
+ */
+function isBalanced(postings: { amount: number }[]): boolean {
+	return postings.reduce((sum, posting) => sum + posting.amount, 0) === 0;
+}
+
+/**
+ * Zod schema for JournalEntry validation
+ */
+export const JournalEntrySchema = z.object({
+	id: z.string().uuid('Journal entry ID must be a valid UUID'),
+	type: z.nativeEnum(TransactionType),
+	status: z.nativeEnum(TransactionStatus),
+	timestamp: z.date(),
+	description: z.string().optional(),
+	reference: z.string().uuid('Reference must be a valid UUID').optional(),
+	idempotencyKey: TransactionSchema.shape.idempotencyKey,
+	idempotencyScope: LedgerAccountSchema.optional(),
+	expiresAt: TransactionSchema.shape.expiresAt,
+	chargedFor: z
+		.string()
+		.uuid('Charged transaction ID must be a valid UUID')
+		.optional(),
+	postings: z
+		.array(PostingSchema)
+		.min(2, 'A journal entry needs at least two postings')
+		.refine(isBalanced, 'Journal entry postings must sum to zero'),
+});
+
+/**
+ * Schema for posting a new journal entry (without IDs)
+ * IDs are auto-generated by the storage layer, and so is the timestamp
+ * unless the entry belongs to an earlier time (e.g. a business date closed
+ * by the end-of-day batch)
+ */
+export const CreateJournalEntrySchema = JournalEntrySchema.omit({
+	id: true,
+	timestamp: true,
+	postings: true,
+}).extend({
+	timestamp: z.date().optional(),
+	postings: z
+		.array(
+			PostingFieldsSchema.omit({ id: true }).refine(
+				hasSnapshots,
+				SNAPSHOT_MESSAGE,
+			),
+		)
+		.min(2, 'A journal entry needs at least two postings')
+		.refine(isBalanced, 'Journal entry postings must sum to zero'),
+});
+
+/**
+ * Type for posting a new journal entry
+ */
+export type CreateJournalEntry = z.infer<typeof CreateJournalEntrySchema>;
+
+/**
+ * Assign IDs (and a timestamp, unless it has one) to a new journal entry
+ * @param entry - The entry to post
+ * @returns The validated entry
+ * @throws Error if the postings are invalid or do not sum to zero, or an
+ *   idempotency key has no scope
+ */
+export function createJournalEntry(entry: CreateJournalEntry): JournalEntry {
+	if (
+		entry.idempotencyKey !== undefined &&
+		entry.idempotencyScope === undefined
+	) {
+		throw new Error('An idempotency key needs an idempotency scope');
+	}
+	return JournalEntrySchema.parse({
+		...entry,
+		id: uuidv4(),
+		timestamp: entry.timestamp ?? new Date(),
+		postings: entry.postings.map(posting => ({ ...posting, id: uuidv4() })),
+	});
+}
+
+/**
+ * Scope of an idempotency key stored before keys were scoped
+ *
+ * Keys used to be unique across the ledger. Interest and fees posted by the
+ * end-of-day batch belong to SYS-INTEREST and SYS-FEES; any other key belongs
+ * to the customer account of the entry's first posting (the source of a
+ * transfer).
+ *
+ * @param entry - An entry stored with a key but no scope
+ */
+export function legacyIdempotencyScope(entry: {
+	type: TransactionType;
+	postings: Pick<Posting, 'accountNumber'>[];
+}): string {
+	switch (entry.type) {
+		case TransactionType.INTEREST:
+		case TransactionType.OVERDRAFT_INTEREST:
+			return SystemAccount.INTEREST;
+		case TransactionType.FEE:
+			return SystemAccount.FEES;
+		default:
+			return entry.postings[0].accountNumber;
+	}
+}
+
+/**
+ * Check whether an entry's postings count towards ledger balances
+ *
+ * A HOLD only reserves funds: its postings show what settling it would
+ * post, and settling posts them again as a WITHDRAWAL. Every other entry
+ * moves money.
+ *
+ * @param entry - The journal entry
+ */
+export function affectsBalances(entry: Pick<JournalEntry, 'type'>): boolean {
+	return entry.type !== TransactionType.HOLD;
+}
+
+/**
+ * Produce the Transaction view of a journal entry
+ *
+ * Each customer posting becomes one Transaction; system postings are the
+ * bank's side and are not shown.
+ *
+ * @param entry - The journal entry
+ * @returns One Transaction per customer posting
+ */
+export function toTransactions(entry: JournalEntry): Transaction[] {
+	return entry.postings
+		.filter(posting => !isSystemAccount(posting.accountNumber))
+		.map(posting => ({
+			id: posting.id,
+			accountNumber: posting.accountNumber,
+			type: entry.type,
+			amount: Math.abs(posting.amount),
+			balanceBefore: posting.balanceBefore ?? 0,
+			balanceAfter: posting.balanceAfter ?? 0,
+			timestamp: entry.timestamp,
+			status: entry.status,
+			...((posting.description ?? entry.description) !== undefined && {
+				description: posting.description ?? entry.description,
+			}),
+			...(entry.reference !== undefined && { reference: entry.reference }),
+			...(entry.idempotencyKey !== undefined && {
+				idempotencyKey: entry.idempotencyKey,
+			}),
+			...(entry.expiresAt !== undefined && { expiresAt: entry.expiresAt }),
+			...(posting.reversalOf !== undefined && {
+				reversalOf: posting.reversalOf,
+			}),
+		}));
+}
+
+/**
+ * System account on the other side of a single-sided transaction
+ */
+const COUNTERPART_ACCOUNTS: Record<TransactionType, SystemAccount> = {
+	[TransactionType.DEPOSIT]: SystemAccount.CASH,
+	[TransactionType.WITHDRAWAL]: SystemAccount.CASH,
+	[TransactionType.TRANSFER]: SystemAccount.SUSPENSE,
+	[TransactionType.ADJUSTMENT]: SystemAccount.SUSPENSE,
+	[TransactionType.REVERSAL]: SystemAccount.SUSPENSE,
+	[TransactionType.HOLD]: SystemAccount.CASH,
+	[TransactionType.INTEREST]: SystemAccount.INTEREST,
+	[TransactionType.OVERDRAFT_INTEREST]: SystemAccount.INTEREST,
+	[TransactionType.FEE]: SystemAccount.FEES,
+};
+
+/**
+ * Signed amount of a single-sided transaction for its account
+ *
+ * Deposits and interest credit; withdrawals, overdraft interest and fees
+ * debit. A lone transfer leg, an adjustment or a reversal has no type to
+ * tell the direction, so its balance snapshots decide.
+ */
+function signedAmount(transaction: CreateTransaction): number {
+	switch (transaction.type) {
+		case TransactionType.DEPOSIT:
+		case TransactionType.INTEREST:
+			return transaction.amount;
+		case TransactionType.WITHDRAWAL:
+		case TransactionType.OVERDRAFT_INTEREST:
+		case TransactionType.FEE:
+			return -transaction.amount;
+		default:
+			return transaction.balanceAfter < transaction.balanceBefore
+				? -transaction.amount
+				: transaction.amount;
+	}
+}
+
+/**
+ * Journal entry for a single-sided transaction record
+ *
+ * The customer posting is balanced against the matching system account:
+ * cash for deposits and withdrawals, interest for interest paid or charged,
+ * fees for fees, suspense for a lone transfer leg, an adjustment or a reversal.
+ *
+ * @param record - The single-sided record
+ * @returns The equivalent journal entry
+ * @throws Error if the record is invalid
+ */
+export function journalEntryFromTransaction(
+	record: CreateTransaction,
+): CreateJournalEntry {
+	const transaction = CreateTransactionSchema.parse(record);
+	const amount = signedAmount(transaction);
+	return {
+		type: transaction.type,
+		status: transaction.status,
+		description: transaction.description,
+		reference: transaction.reference,
+		idempotencyKey: transaction.idempotencyKey,
+		...(transaction.idempotencyKey !== undefined && {
+			idempotencyScope: transaction.accountNumber,
+		}),
+		postings: [
+			{
+				accountNumber: transaction.accountNumber,
+				amount,
+				balanceBefore: transaction.balanceBefore,
+				balanceAfter: transaction.balanceAfter,
+				reversalOf: transaction.reversalOf,
+			},
+			{
+				accountNumber: COUNTERPART_ACCOUNTS[transaction.type],
+				amount: -amount,
+			},
+		],
+	};
+}
+
+/**
+ * Opening balance entries for accounts that existed before the ledger
+ *
+ * An account's opening balance is the balance before its first stored
+ * transaction, or its current balance if it has none. Each non-zero opening
+ * balance becomes an ADJUSTMENT against SYS-EQUITY dated before the
+ * account's first transaction, so the account's postings add up to its
+ * balance.
+ *
+ * @param accounts - Stored accounts
+ * @param transactions - Stored transactions, oldest first
+ * @returns One entry per account with an opening balance
+ */
+function openingBalanceEntries(
+	accounts: Pick<Account, 'accountNumber' | 'balance' | 'createdAt'>[],
+	transactions: Transaction[],
+): JournalEntry[] {
+	const openings = new Map<string, { balance: number; timestamp: Date }>();
+	for (const account of accounts) {
+		openings.set(account.accountNumber, {
+			balance: account.balance,
+			timestamp: account.createdAt,
+		});
+	}
+	// Deleted accounts still need an opening for the history they left
+	const seen = new Set<string>();
+	for (const transaction of transactions) {
+		if (seen.has(transaction.accountNumber)) {
+			continue;
+		}
+		seen.add(transaction.accountNumber);
+		const createdAt = openings.get(transaction.accountNumber)?.timestamp;
+		openings.set(transaction.accountNumber, {
+			balance: transaction.balanceBefore,
+			// Strictly earlier, so history sorted by time shows it first
+			timestamp:
+				createdAt && createdAt < transaction.timestamp
+					? createdAt
+					: new Date(transaction.timestamp.getTime() - 1),
+		});
+	}
+
+	return Array.from(openings)
+		.filter(([, opening]) => opening.balance !== 0)
+		.map(([accountNumber, opening]) =>
+			JournalEntrySchema.parse({
+				id: uuidv4(),
+				type: TransactionType.ADJUSTMENT,
+				status: TransactionStatus.COMPLETED,
+				timestamp: opening.timestamp,
+				description: 'Opening balance - carried over from before the ledger',
+				postings: [
+					{
+						id: uuidv4(),
+						accountNumber,
+						amount: opening.balance,
+						balanceBefore: 0,
+						balanceAfter: opening.balance,
+					},
+					{
+						id: uuidv4(),
+						accountNumber: SystemAccount.EQUITY,
+						amount: -opening.balance,
+					},
+				],
+			}),
+		);
+}
+
+/**
+ * Convert stored single-sided transactions into journal entries
+ *
+ * Used when upgrading data written before the ledger existed. Every account
+ * first gets an opening balance entry (see openingBalanceEntries). Transaction
+ * IDs are kept as posting IDs. The two legs of a transfer (same reference, one
+ * debit and one credit) become a single entry; everything else is balanced
+ * against a system account as in journalEntryFromTransaction.
+ *
+ * @param transactions - Stored transactions, oldest first
+ * @param accounts - Stored accounts, for their opening balances
+ * @returns Opening balance entries, then journal entries in the same order
+ */
+export function journalEntriesFromTransactions(
+	transactions: Transaction[],
+	accounts: Pick<Account, 'accountNumber' | 'balance' | 'createdAt'>[] = [],
+): JournalEntry[] {
+	const legsByReference = new Map<string, Transaction[]>();
+	for (const transaction of transactions) {
+		if (
+			transaction.type === TransactionType.TRANSFER &&
+			transaction.reference
+		) {
+			const legs = legsByReference.get(transaction.reference) ?? [];
+			legs.push(transaction);
+			legsByReference.set(transaction.reference, legs);
+		}
+	}
+
+	const entries = openingBalanceEntries(accounts, transactions);
+	const merged = new Set<string>();
+
+	for (const transaction of transactions) {
+		if (merged.has(transaction.id)) {
+			continue;
+		}
+
+		const legs = transaction.reference
+			? legsByReference.get(transaction.reference)
+			: undefined;
+		const pair =
+			legs?.length === 2 && signedAmount(legs[0]) + signedAmount(legs[1]) === 0
+				? legs
+				: [transaction];
+
+		const entry =
+			pair.length === 2
+				? {
+						type: TransactionType.TRANSFER,
+						status: transaction.status,
+						reference: transaction.reference,
+						postings: pair.map(leg => ({
+							accountNumber: leg.accountNumber,
+							amount: signedAmount(leg),
+							balanceBefore: leg.balanceBefore,
+							balanceAfter: leg.balanceAfter,
+							description: leg.description,
+						})),
+					}
+				: journalEntryFromTransaction(transaction);
+
+		pair.forEach(leg => merged.add(leg.id));
+		entries.push(
+			JournalEntrySchema.parse({
+				...entry,
+				id: uuidv4(),
+				timestamp: transaction.timestamp,
+				postings: entry.postings.map((posting, index) => ({
+					...posting,
+					// Customer postings keep the ID of the record they replace
+					id: index < pair.length ? pair[index].id : uuidv4(),
+				})),
+			}),
+		);
+	}
+
+	return entries;
+}
@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { TransactionType, TransactionStatus } from './Transaction.js';
+
+/**
+ * Unit of a schedule's repeat interval
+ */
+export enum ScheduleUnit {
+	DAY = 'day',
+	WEEK = 'week',
+	MONTH = 'month', // Same day of the month, or its last day when shorter
+}
+
+/**
+ * Transaction types a schedule can run
+ */
+export const SCHEDULED_TYPES = [
+	TransactionType.DEPOSIT,
+	TransactionType.WITHDRAWAL,
+	TransactionType.TRANSFER,
+] as const;
+
+/**
+ * Schedule interface representing a standing order
+ *
+ * Runs `type` for `amount` every `every` units, starting at startAt. Each
+ * occurrence is computed from startAt (not from the previous run), so a
+ * monthly order started on the 31st runs on the last day of shorter months
+ * and returns to the 31st afterwards.
+ */
+export interface Schedule {
+	id: string; // Unique schedule ID (UUID)
+	accountNumber: string; // Account the transaction runs on (source of a transfer)
+	type: TransactionType; // One of SCHEDULED_TYPES
+	amount: number; // Amount in cents
+	toAccountNumber?: string; // Destination of a transfer
+	description?: string;
+	every: number; // Repeat interval, in units
+	unit: ScheduleUnit;
+	startAt: Date; // First occurrence
+	endAt?: Date; // No occurrences after this
+	runCount: number; // Occurrences processed so far (the next one's index)
+	active: boolean; // False once cancelled
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * One execution of a schedule
+ */
+export interface ScheduleRun {
+	id: string; // Unique run ID (UUID)
+	scheduleId: string; // The schedule it ran for
+	dueAt: Date; // The occurrence it ran for
+	ranAt: Date; // When it actually ran (later when catching up)
+	status: TransactionStatus.COMPLETED | TransactionStatus.FAILED;
+	transactionId?: string; // The posted transaction, when it succeeded
+	errorCode?: string; // TransactionErrorCode, when it failed
+	error?: string; // Why it failed
+}
+
+const AccountNumberSchema = z
+	.string()
+	.regex(/^\d{10}$/, 'Account number must be exactly 10 digits');
+
+const ScheduleFieldsSchema = z.object({
+	id: z.string().uuid('Schedule ID must be a valid UUID'),
+	accountNumber: AccountNumberSchema,
+	type: z.enum(SCHEDULED_TYPES, {
+		message: `Type must be one of ${SCHEDULED_TYPES.join(', ')}`,
+	}),
+	amount: z
+		.number()
+		.int('Amount must be an integer (cents)')
+		.positive('Amount must be positive'),
+	toAccountNumber: AccountNumberSchema.optional(),
+	description: z.string().optional(),
+	every: z
+		.number()
+		.int('Interval must be a whole number')
+		.positive('Interval must be positive'),
+	unit: z.enum(ScheduleUnit),
+	startAt: z.date(),
+	endAt: z.date().optional(),
+	runCount: z.number().int().nonnegative(),
+	active: z.boolean(),
+	createdAt: z.date(),
+	updatedAt: z.date(),
+});
+
+/**
+ * Rules across fields, shared by the full and the create schema
+ */
+function checkSchedule(
+	schedule: Pick<
+		Schedule,
+		'type' | 'accountNumber' | 'toAccountNumber' | 'startAt' | 'endAt'
+	>,
+	ctx: z.RefinementCtx,
+): void {
+	if (
+		(schedule.type === TransactionType.TRANSFER) !==
+		(schedule.toAccountNumber !== undefined)
+	) {
+		ctx.addIssue({
+			code: 'custom',
+			message: 'A transfer needs a destination account, other types none',
+		});
+	}
+	if (schedule.toAccountNumber === schedule.accountNumber) {
+		ctx.addIssue({
+			code: 'custom',
+			message: 'Cannot schedule a transfer to the same account',
+		});
+	}
+	if (schedule.endAt !== undefined && schedule.endAt < schedule.startAt) {
+		ctx.addIssue({ code: 'custom', message: 'End must not be before start' });
+	}
+}
+
+/**
+ * Zod schema for Schedule validation
+ */
+export const ScheduleSchema = ScheduleFieldsSchema.superRefine(checkSchedule);
+
+/**
+ * Schema for creating a new schedule (without ID, progress and timestamps)
+ * These are assigned by the storage layer
+ */
+export const CreateScheduleSchema = ScheduleFieldsSchema.omit({
+	id: true,
+	runCount: true,
+	active: true,
+	createdAt: true,
+	updatedAt: true,
+}).superRefine(checkSchedule);
+
+/**
+ * Type for creating a new schedule
+ */
+export type CreateSchedule = z.infer<typeof CreateScheduleSchema>;
+
+/**
+ * Fields of a schedule that change after it is created
+ */
+export type UpdateSchedule = Partial<Pick<Schedule, 'runCount' | 'active'>>;
+
+/**
+ * Zod schema for ScheduleRun validation
+ */
+export const ScheduleRunSchema = z.object({
+	id: z.string().uuid('Run ID must be a valid UUID'),
+	scheduleId: z.string().uuid('Schedule ID must be a valid UUID'),
+	dueAt: z.date(),
+	ranAt: z.date(),
+	status: z.enum([TransactionStatus.COMPLETED, TransactionStatus.FAILED]),
+	transactionId: z.string().uuid().optional(),
+	errorCode: z.string().optional(),
+	error: z.string().optional(),
+});
+
+/**
+ * Type for recording a run (without its ID)
+ */
+export type CreateScheduleRun = Omit<ScheduleRun, 'id'>;
+
+/**
+ * Build a new schedule: assign its ID and timestamps and validate it
+ * @param data - Schedule data
+ * @returns The schedule, active and not yet run
+ * @throws ZodError if the schedule is invalid
+ */
+export function createSchedule(data: CreateSchedule): Schedule {
+	const now = new Date();
+	return ScheduleSchema.parse({
+		...data,
+		id: uuidv4(),
+		runCount: 0,
+		active: true,
+		createdAt: now,
+		updatedAt: now,
+	});
+}
+
+/**
+ * Build a run record: assign its ID and validate it
+ * @param data - Run data
+ * @returns The run
+ * @throws ZodError if the run is invalid
+ */
+export function createScheduleRun(data: CreateScheduleRun): ScheduleRun {
+	return ScheduleRunSchema.parse({ ...data, id: uuidv4() });
+}
+
+/**
+ * When the nth occurrence of a schedule falls
+ * @param schedule - The schedule
+ * @param index - Occurrence number, 0 for startAt
+ * @returns The occurrence
+ */
+export function occurrence(
+	schedule: Pick<Schedule, 'every' | 'unit' | 'startAt'>,
+	index: number,
+): Date {
+	const start = schedule.startAt;
+	const steps = schedule.every * index;
+
+	switch (schedule.unit) {
+		case ScheduleUnit.DAY:
+			return addDays(start, steps);
+		case ScheduleUnit.WEEK:
+			return addDays(start, 7 * steps);
+		default: {
+			// Clamp to the last day of the target month
+			const date = new Date(start);
+			date.setDate(1);
+			date.setMonth(date.getMonth() + steps);
+			const lastDay = new Date(
+				date.getFullYear(),
+				date.getMonth() + 1,
+				0,
+			).getDate();
+			date.setDate(Math.min(start.getDate(), lastDay));
+			return date;
+		}
+	}
+}
+
+/**
+ * Next occurrence a schedule has not processed yet
+ * @param schedule - The schedule
+ * @returns The occurrence, or null when cancelled or past endAt
+ */
+export function nextRunAt(schedule: Schedule): Date | null {
+	if (!schedule.active) {
+		return null;
+	}
+	const next = occurrence(schedule, schedule.runCount);
+	return schedule.endAt !== undefined && next > schedule.endAt ? null : next;
+}
+
+/**
+ * Calendar days later, keeping the local time of day
+ */
+function addDays(date: Date, days: number): Date {
+	const result = new Date(date);
+	result.setDate(result.getDate() + days);
+	return result;
+}
+
+/**
+ * Parse a repeat rule like "monthly", "weekly", "daily", "2w", "10d" or "3m"
+ * @param rule - The rule
+ * @returns The interval, or null if the rule is not recognized
+ */
+export function parseScheduleRule(
+	rule: string,
+): Pick<Schedule, 'every' | 'unit'> | null {
+	const named: Record<string, Pick<Schedule, 'every' | 'unit'>> = {
+		daily: { every: 1, unit: ScheduleUnit.DAY },
+		weekly: { every: 1, unit: ScheduleUnit.WEEK },
+		monthly: { every: 1, unit: ScheduleUnit.MONTH },
+	};
+	const units: Record<string, ScheduleUnit> = {
+		d: ScheduleUnit.DAY,
+		w: ScheduleUnit.WEEK,
+		m: ScheduleUnit.MONTH,
+	};
+
+	const normalized = rule.trim().toLowerCase();
+	if (named[normalized]) {
+		return named[normalized];
+	}
+	const match = /^(\d+)([dwm])$/.exec(normalized);
+	if (!match || Number(match[1]) === 0) {
+		return null;
+	}
+	return { every: Number(match[1]), unit: units[match[2]] };
+}
+
+/**
+ * Describe a schedule's repeat rule
+ * @returns e.g. "monthly", "every 2 weeks"
+ */
+export function formatScheduleRule(
+	schedule: Pick<Schedule, 'every' | 'unit'>,
+): string {
+	if (schedule.every === 1) {
+		return schedule.unit === ScheduleUnit.DAY ? 'daily' : `${schedule.unit}ly`;
+	}
+	return `every ${schedule.every} ${schedule.unit}s`;
+}
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import {
+	Transaction,
+	TransactionType,
+	TransactionSchema,
+} from './Transaction.js';
+
+/**
+ * Totals of one transaction type over a statement period
+ */
+export interface StatementTotal {
+	type: TransactionType;
+	count: number; // Transactions of the type
+	credits: number; // Paid in, in cents
+	debits: number; // Paid out, in cents (positive)
+}
+
+/**
+ * Statement interface representing an account's activity over a month
+ *
+ * Opening and closing balances are the ledger balances at the start and end
+ * of the period; the transactions are the ones posted in it, oldest first.
+ * A statement for a month that has ended is closed: it is saved when first
+ * produced and never changes afterwards, so a correction posted later shows
+ * on the statement of the month it was posted in.
+ */
+export interface Statement {
+	accountNumber: string;
+	period: string; // Calendar month, YYYY-MM
+	openingBalance: number; // In cents
+	closingBalance: number; // In cents
+	transactions: Transaction[]; // As they stood when the statement was produced
+	totals: StatementTotal[]; // One per type with transactions, in TransactionType order
+	closed: boolean; // The month has ended and the statement is frozen
+	generatedAt: Date;
+}
+
+/**
+ * Matches a statement period (YYYY-MM)
+ */
+export const STATEMENT_PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Zod schema for StatementTotal validation
+ */
+export const StatementTotalSchema = z.object({
+	type: z.enum(TransactionType),
+	count: z.number().int().positive(),
+	credits: z.number().int().nonnegative(),
+	debits: z.number().int().nonnegative(),
+});
+
+/**
+ * Zod schema for Statement validation
+ *
+ * The transactions are stored inside the statement document, so their dates
+ * are accepted as ISO strings too.
+ */
+export const StatementSchema = z.object({
+	accountNumber: z
+		.string()
+		.regex(/^\d{10}$/, 'Account number must be exactly 10 digits'),
+	period: z
+		.string()
+		.regex(STATEMENT_PERIOD_PATTERN, 'Period must be a month (YYYY-MM)'),
+	openingBalance: z.number().int('Opening balance must be an integer (cents)'),
+	closingBalance: z.number().int('Closing balance must be an integer (cents)'),
+	transactions: z.array(
+		TransactionSchema.extend({
+			timestamp: z.coerce.date(),
+			expiresAt: z.coerce.date().optional(),
+		}),
+	),
+	totals: z.array(StatementTotalSchema),
+	closed: z.boolean(),
+	generatedAt: z.coerce.date(),
+});
@@ -7,15 +7,22 @@ export enum TransactionType {
 	DEPOSIT = 'deposit',
 	WITHDRAWAL = 'withdrawal',
 	TRANSFER = 'transfer',
+	ADJUSTMENT = 'adjustment', // Correction posted by the integrity checker
+	REVERSAL = 'reversal', // Compensating entry that undoes an earlier transaction
+	HOLD = 'hold', // Authorization reserving funds until it settles or expires
+	INTEREST = 'interest', // Interest paid on a positive balance
+	OVERDRAFT_INTEREST = 'overdraft_interest', // Interest charged on a negative balance
+	FEE = 'fee', // Fee charged by the fee engine
 }
 
 /**
  * Transaction status enum
  */
 export enum TransactionStatus {
-	PENDING = 'pending',
+	PENDING = 'pending', // A hold that has not settled or expired yet
 	COMPLETED = 'completed',
 	FAILED = 'failed',
+	REVERSED = 'reversed', // Undone by a later REVERSAL
 }
 
 /**
@@ -33,6 +40,10 @@ export interface Transaction {
 	timestamp: Date; // Transaction timestamp
 	status: TransactionStatus; // Transaction status
 	description?: string; // Optional description
+	reference?: string; // Shared reference linking related postings (e.g. both legs of a transfer)
+	reversalOf?: string; // ID of the transaction a REVERSAL undoes
+	idempotencyKey?: string; // Client-chosen key; a retry with the same key is not posted again
+	expiresAt?: Date; // When a HOLD that has not settled expires
 }
 
 /**
@@ -54,8 +65,32 @@ export const TransactionSchema = z.object({
 	timestamp: z.date(),
 	status: z.nativeEnum(TransactionStatus),
 	description: z.string().optional(),
+	reference: z.string().uuid('Reference must be a valid UUID').optional(),
+	reversalOf: z
+		.string()
+		.uuid('Reversed transaction ID must be a valid UUID')
+		.optional(),
+	idempotencyKey: z
+		.string()
+		.regex(
+			/^[\x21-\x7e]{1,255}$/,
+			'Idempotency key must be 1-255 visible ASCII characters',
+		)
+		.optional(),
+	expiresAt: z.date().optional(),
 });
 
+/**
+ * Money a transaction moved into (positive) or out of (negative) its account
+ * @param transaction - The transaction
+ * @returns Signed cents; zero for a HOLD, which only reserves funds
+ */
+export function signedAmount(
+	transaction: Pick<Transaction, 'balanceBefore' | 'balanceAfter'>,
+): number {
+	return transaction.balanceAfter - transaction.balanceBefore;
+}
+
 /**
  * Schema for creating a new transaction (without ID and timestamp)
  * ID and timestamp are auto-generated by the storage layer
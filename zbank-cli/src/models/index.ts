@@ -4,12 +4,24 @@
  * Exports all model interfaces, types, and validation schemas
  */
 
-export type { Account, CreateAccount, UpdateAccount } from './Account';
+export type {
+	Account,
+	CreateAccount,
+	UpdateAccount,
+	TransactionLimitOverride,
+} from './Account';
 
 export {
+	AccountType,
+	FeeType,
+	OverdraftPolicy,
 	AccountSchema,
 	CreateAccountSchema,
 	UpdateAccountSchema,
+	TransactionLimitOverrideSchema,
+	overdraftFloor,
+	unheldBalance,
+	availableBalance,
 } from './Account';
 
 export type { Transaction, CreateTransaction } from './Transaction';
@@ -19,4 +31,51 @@ export {
 	TransactionStatus,
 	TransactionSchema,
 	CreateTransactionSchema,
+	signedAmount,
 } from './Transaction';
+
+export type { JournalEntry, CreateJournalEntry, Posting } from './JournalEntry';
+
+export {
+	SystemAccount,
+	PostingSchema,
+	JournalEntrySchema,
+	CreateJournalEntrySchema,
+	isSystemAccount,
+	affectsBalances,
+	createJournalEntry,
+	toTransactions,
+	journalEntryFromTransaction,
+	journalEntriesFromTransactions,
+	legacyIdempotencyScope,
+} from './JournalEntry';
+
+export type {
+	Schedule,
+	CreateSchedule,
+	UpdateSchedule,
+	ScheduleRun,
+	CreateScheduleRun,
+} from './Schedule';
+
+export {
+	ScheduleUnit,
+	SCHEDULED_TYPES,
+	ScheduleSchema,
+	CreateScheduleSchema,
+	ScheduleRunSchema,
+	createSchedule,
+	createScheduleRun,
+	occurrence,
+	nextRunAt,
+	parseScheduleRule,
+	formatScheduleRule,
+} from './Schedule';
+
+export type { Statement, StatementTotal } from './Statement';
+
+export {
+	STATEMENT_PERIOD_PATTERN,
+	StatementSchema,
+	StatementTotalSchema,
+} from './Statement';
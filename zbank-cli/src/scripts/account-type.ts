@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+/**
+ * Account type administration
+ * Run with: npm run account-type -- <account-number> [checking | savings]
+ *
+ * Without a type, shows the account's current type and the interest it has
+ * accrued. The type decides the interest rates the end-of-day batch
+ * (`zbank eod`) applies and the fees charged (see `npm run fees`). Uses the
+ * backend named by ZBANK_STORAGE (json by default).
+ */
+
+import { AccountService } from '../services/AccountService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { Account, AccountType } from '../models/Account.js';
+import { formatBalance } from '../utils/formatter.js';
+
+/**
+ * One-line summary of an account's type and accrued interest
+ */
+function describe(account: Account): string {
+	const accountType = account.accountType ?? AccountType.CHECKING;
+	const through = account.interestAccruedThrough ?? 'never';
+	return `${account.accountNumber}  ${accountType}  balance ${formatBalance(account.balance)}  accrued ${formatBalance(Math.floor(account.accruedInterest ?? 0))} interest, ${formatBalance(Math.floor(account.accruedOverdraftInterest ?? 0))} overdraft interest  through ${through}`;
+}
+
+async function main() {
+	const [accountNumber, setting] = process.argv.slice(2);
+	if (!accountNumber) {
+		throw new Error(
+			'Usage: npm run account-type -- <account-number> [checking | savings]',
+		);
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	if (setting === undefined) {
+		const account = await storage.getAccount(accountNumber);
+		if (!account) {
+			throw new Error(`Account ${accountNumber} not found`);
+		}
+		console.log(describe(account));
+		return;
+	}
+
+	const accountType = Object.values(AccountType).find(t => t === setting);
+	if (!accountType) {
+		throw new Error(`Invalid account type "${setting}"`);
+	}
+
+	const result = await new AccountService(storage).setAccountType(
+		accountNumber,
+		accountType,
+	);
+	if (!result.success || !result.account) {
+		throw new Error(result.error ?? 'Account type update failed');
+	}
+	console.log(describe(result.account));
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
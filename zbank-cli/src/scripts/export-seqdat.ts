@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+/**
+ * Export accounts to a SEQDAT.ZBANK / VSAM flat file for reconciliation
+ * Run with:
+ *   npm run export -- <file> --pins placeholder|omit|supplied
+ *     [--pin-source <seqdat-file>]   PINs for --pins supplied
+ *     [--negative reject|zero]       default: reject
+ *     [--cents reject|truncate|round] default: reject
+ *
+ * Uses the backend named by ZBANK_STORAGE (json by default).
+ */
+
+import { promises as fs } from 'fs';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { exportSeqdatFile } from '../utils/migration.js';
+import {
+	parseSeqdat,
+	SeqdatFractionalCentsPolicy,
+	SeqdatNegativeBalancePolicy,
+	SeqdatPinPolicy,
+} from '../utils/seqdat.js';
+
+const USAGE =
+	'Usage: npm run export -- <file> --pins placeholder|omit|supplied [--pin-source <file>] [--negative reject|zero] [--cents reject|truncate|round]';
+
+/**
+ * Read the value of --name, checking it against the allowed choices
+ */
+function option<T extends string>(
+	args: string[],
+	name: string,
+	choices: readonly T[],
+): T | undefined {
+	const index = args.indexOf(`--${name}`);
+	if (index === -1) {
+		return undefined;
+	}
+	const value = args[index + 1];
+	if (!choices.includes(value as T)) {
+		throw new Error(`--${name} must be one of: ${choices.join(', ')}`);
+	}
+	return value as T;
+}
+
+/**
+ * Load PINs from a SEQDAT file (e.g. the original mainframe extract)
+ */
+async function loadPins(filePath: string): Promise<Record<string, string>> {
+	const { records, errors } = parseSeqdat(await fs.readFile(filePath, 'utf-8'));
+	for (const error of errors) {
+		console.error(`  ${filePath} line ${error.lineNumber}: ${error.message}`);
+	}
+	return Object.fromEntries(records.map(r => [r.accountNumber, r.pin]));
+}
+
+async function main() {
+	const args = process.argv.slice(2);
+	const filePath = args[0];
+
+	const pinPolicy = option<SeqdatPinPolicy>(args, 'pins', [
+		'placeholder',
+		'omit',
+		'supplied',
+	]);
+	if (!filePath || filePath.startsWith('--') || !pinPolicy) {
+		throw new Error(USAGE);
+	}
+
+	const negativeBalances = option<SeqdatNegativeBalancePolicy>(
+		args,
+		'negative',
+		['reject', 'zero'],
+	);
+	const fractionalCents = option<SeqdatFractionalCentsPolicy>(args, 'cents', [
+		'reject',
+		'truncate',
+		'round',
+	]);
+
+	let pins: Record<string, string> | undefined;
+	if (pinPolicy === 'supplied') {
+		const sourceIndex = args.indexOf('--pin-source');
+		if (sourceIndex === -1 || !args[sourceIndex + 1]) {
+			throw new Error('--pins supplied needs --pin-source <seqdat-file>');
+		}
+		pins = await loadPins(args[sourceIndex + 1]);
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	const result = await exportSeqdatFile(storage, filePath, {
+		pinPolicy,
+		pins,
+		negativeBalances,
+		fractionalCents,
+	});
+
+	console.log(`=== zBANK SEQDAT Export: ${filePath} ===\n`);
+	for (const issue of result.adjusted) {
+		console.log(`  Adjusted ${issue.accountNumber}: ${issue.message}`);
+	}
+	for (const issue of result.errors) {
+		console.error(`  Not exported ${issue.accountNumber}: ${issue.message}`);
+	}
+
+	console.log(
+		`\nExported ${result.exported.length}, adjusted ${result.adjusted.length}, not exported ${result.errors.length}`,
+	);
+
+	if (result.errors.length > 0) {
+		process.exit(1);
+	}
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+/**
+ * Fee waiver administration
+ * Run with:
+ *   npm run fees -- <account-number>                   # show fees and waivers
+ *   npm run fees -- <account-number> waive <fee>
+ *   npm run fees -- <account-number> charge <fee>
+ *
+ * The fee is withdrawal, overdraft or maintenance. Which fees apply, and
+ * how much they are, follows the account type (see `npm run account-type`);
+ * a waived fee is never charged to the account. Uses the backend named by
+ * ZBANK_STORAGE (json by default).
+ */
+
+import { AccountService } from '../services/AccountService.js';
+import { DEFAULT_FEE_RULES } from '../services/FeeService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { Account, AccountType, FeeType } from '../models/Account.js';
+import { formatBalance } from '../utils/formatter.js';
+
+const USAGE =
+	'Usage: npm run fees -- <account-number> [waive | charge <withdrawal | overdraft | maintenance>]';
+
+/**
+ * One line per fee of the account's type, with whether it is waived
+ */
+function describe(account: Account): string[] {
+	const accountType = account.accountType ?? AccountType.CHECKING;
+	const schedule = DEFAULT_FEE_RULES[accountType];
+	return Object.values(FeeType).map(feeType => {
+		const fee = schedule[feeType];
+		const status = account.feeWaivers?.includes(feeType)
+			? 'waived'
+			: fee
+				? formatBalance(fee.amount)
+				: `none for ${accountType}`;
+		return `${account.accountNumber}  ${feeType}  ${status}`;
+	});
+}
+
+async function main() {
+	const [accountNumber, action, setting] = process.argv.slice(2);
+	if (
+		!accountNumber ||
+		(action !== undefined && action !== 'waive' && action !== 'charge')
+	) {
+		throw new Error(USAGE);
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	if (action === undefined) {
+		const account = await storage.getAccount(accountNumber);
+		if (!account) {
+			throw new Error(`Account ${accountNumber} not found`);
+		}
+		describe(account).forEach(line => console.log(line));
+		return;
+	}
+
+	const feeType = Object.values(FeeType).find(t => t === setting);
+	if (!feeType) {
+		throw new Error(setting === undefined ? USAGE : `Invalid fee "${setting}"`);
+	}
+
+	const result = await new AccountService(storage).setFeeWaiver(
+		accountNumber,
+		feeType,
+		action === 'waive',
+	);
+	if (!result.success || !result.account) {
+		throw new Error(result.error ?? 'Fee waiver update failed');
+	}
+	describe(result.account).forEach(line => console.log(line));
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
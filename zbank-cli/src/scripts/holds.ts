@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+/**
+ * Hold administration
+ * Run with:
+ *   npm run holds -- <account-number>                          # list pending holds
+ *   npm run holds -- <account-number> <amount> [description...] # place a hold
+ *   npm run holds -- settle <hold-id>                          # pay out a hold
+ *   npm run holds -- expire                                    # expire overdue holds
+ *
+ * A hold reserves funds without changing the ledger balance; it expires
+ * after seven days unless settled. Holds are checked against the
+ * application's withdrawal limits. Uses the backend named by ZBANK_STORAGE
+ * (json by default).
+ */
+
+import {
+	DEFAULT_HOLD_DURATION_MS,
+	DEFAULT_TRANSACTION_LIMITS,
+	TransactionService,
+} from '../services/TransactionService.js';
+import { DEFAULT_FEE_RULES } from '../services/FeeService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import {
+	Transaction,
+	TransactionStatus,
+	TransactionType,
+} from '../models/Transaction.js';
+import { unheldBalance } from '../models/Account.js';
+import {
+	formatBalance,
+	formatTimestamp,
+	formatTransaction,
+	parseCurrency,
+} from '../utils/formatter.js';
+
+const USAGE =
+	'Usage: npm run holds -- <account-number> [<amount> [description...]] | settle <hold-id> | expire';
+
+/**
+ * One line per hold, with its ID and expiry
+ */
+function describe(hold: Transaction): string {
+	const expiry =
+		hold.status === TransactionStatus.PENDING && hold.expiresAt
+			? `  expires ${formatTimestamp(hold.expiresAt)}`
+			: '';
+	return `${hold.id}  ${formatTransaction(hold)}${expiry}`;
+}
+
+async function main() {
+	const [command, argument, ...words] = process.argv.slice(2);
+	if (!command || (command === 'settle' && !argument)) {
+		throw new Error(USAGE);
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+	const transactions = new TransactionService(
+		storage,
+		DEFAULT_TRANSACTION_LIMITS,
+		DEFAULT_HOLD_DURATION_MS,
+		DEFAULT_FEE_RULES,
+	);
+
+	if (command === 'expire') {
+		const expired = await transactions.expireHolds();
+		expired.forEach(hold => console.log(describe(hold)));
+		console.log(`${expired.length} hold(s) expired`);
+		return;
+	}
+
+	if (command === 'settle') {
+		const result = await transactions.settleHold(argument);
+		if (!result.success || !result.transaction) {
+			throw new Error(result.error ?? 'Settlement failed');
+		}
+		[result.transaction, ...(result.fees ?? [])].forEach(transaction =>
+			console.log(
+				`${transaction.accountNumber}  ${formatTransaction(transaction)}`,
+			),
+		);
+		return;
+	}
+
+	if (argument !== undefined) {
+		const amount = parseCurrency(argument);
+		if (amount === null) {
+			throw new Error(`Invalid amount "${argument}"`);
+		}
+		const result = await transactions.placeHold(
+			command,
+			amount,
+			words.length > 0 ? words.join(' ') : undefined,
+		);
+		if (!result.success || !result.transaction) {
+			throw new Error(result.error ?? 'Hold failed');
+		}
+		console.log(describe(result.transaction));
+		return;
+	}
+
+	const account = await storage.getAccount(command);
+	if (!account) {
+		throw new Error(`Account ${command} not found`);
+	}
+	const holds = (await transactions.getHistory(command)).filter(
+		t =>
+			t.type === TransactionType.HOLD && t.status === TransactionStatus.PENDING,
+	);
+	holds.forEach(hold => console.log(describe(hold)));
+	console.log(
+		`${command}  ledger ${formatBalance(account.balance)}  available ${formatBalance(unheldBalance(account))}  on hold ${formatBalance(account.heldAmount ?? 0)}`,
+	);
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Import a SEQDAT.ZBANK / VSAM flat file into storage
+ * Run with: npm run import -- <file>
+ *
+ * Uses the backend named by ZBANK_STORAGE (json by default). Accounts that
+ * already exist are skipped, so the import can be re-run safely.
+ */
+
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { importSeqdatFile } from '../utils/migration.js';
+
+async function main() {
+	const [filePath] = process.argv.slice(2);
+	if (!filePath) {
+		throw new Error('Usage: npm run import -- <seqdat-file>');
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	const result = await importSeqdatFile(storage, filePath);
+
+	console.log(`=== zBANK SEQDAT Import: ${filePath} ===\n`);
+	for (const accountNumber of result.imported) {
+		console.log(`  Imported ${accountNumber}`);
+	}
+	for (const accountNumber of result.skipped) {
+		console.log(`  Skipped ${accountNumber} (already exists)`);
+	}
+	for (const error of result.errors) {
+		console.error(`  Line ${error.lineNumber}: ${error.message}`);
+	}
+
+	console.log(
+		`\nImported ${result.imported.length}, skipped ${result.skipped.length}, errors ${result.errors.length}`,
+	);
+
+	if (result.errors.length > 0) {
+		process.exit(1);
+	}
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+/**
+ * Transaction limit administration
+ * Run with: npm run limits -- <account-number> [<type> <per-transaction> <daily>]
+ *
+ * Without a type, shows the limits that apply to the account. Each limit is
+ * an amount like 500 or 500.00, "none" to lift it for the account or
+ * "default" to go back to the bank-wide limit. The type is deposit,
+ * withdrawal or transfer. Uses the backend named by ZBANK_STORAGE (json by
+ * default).
+ */
+
+import { AccountService } from '../services/AccountService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import {
+	DEFAULT_TRANSACTION_LIMITS,
+	resolveTransactionLimit,
+} from '../services/TransactionService.js';
+import { Account } from '../models/Account.js';
+import { TransactionType } from '../models/Transaction.js';
+import { formatBalance, parseCurrency } from '../utils/formatter.js';
+
+const USAGE =
+	'Usage: npm run limits -- <account-number> [<deposit | withdrawal | transfer> <per-transaction> <daily>]';
+
+// Transaction types that can be limited from the command line
+const LIMITED_TYPES = [
+	TransactionType.DEPOSIT,
+	TransactionType.WITHDRAWAL,
+	TransactionType.TRANSFER,
+];
+
+/**
+ * Parse one limit argument
+ * @returns Cents, null for "none" or undefined for "default"
+ */
+function parseLimit(value: string): number | null | undefined {
+	if (value === 'none') {
+		return null;
+	}
+	if (value === 'default') {
+		return undefined;
+	}
+	const limit = parseCurrency(value);
+	if (limit === null) {
+		throw new Error(`Invalid limit "${value}"`);
+	}
+	return limit;
+}
+
+/**
+ * One line per transaction type with the limits that apply
+ */
+function describe(account: Account): string {
+	const show = (limit: number | null, overridden: boolean) =>
+		`${limit === null ? 'none' : formatBalance(limit)}${overridden ? '*' : ''}`;
+
+	return LIMITED_TYPES.map(type => {
+		const limit = resolveTransactionLimit(
+			DEFAULT_TRANSACTION_LIMITS,
+			account,
+			type,
+		);
+		const override = account.transactionLimits?.[type] ?? {};
+		return `${account.accountNumber}  ${type.padEnd(10)}  per transaction ${show(limit.perTransaction, override.perTransaction !== undefined)}  daily ${show(limit.daily, override.daily !== undefined)}`;
+	})
+		.concat('* overrides the bank-wide limit')
+		.join('\n');
+}
+
+async function main() {
+	const [accountNumber, type, perTransaction, daily] = process.argv.slice(2);
+	if (!accountNumber || (type !== undefined && daily === undefined)) {
+		throw new Error(USAGE);
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	if (type === undefined) {
+		const account = await storage.getAccount(accountNumber);
+		if (!account) {
+			throw new Error(`Account ${accountNumber} not found`);
+		}
+		console.log(describe(account));
+		return;
+	}
+
+	const limitedType = LIMITED_TYPES.find(t => t === type);
+	if (!limitedType) {
+		throw new Error(`Unknown transaction type "${type}"`);
+	}
+
+	const result = await new AccountService(storage).setTransactionLimit(
+		accountNumber,
+		limitedType,
+		{ perTransaction: parseLimit(perTransaction), daily: parseLimit(daily) },
+	);
+	if (!result.success || !result.account) {
+		throw new Error(result.error ?? 'Limit update failed');
+	}
+	console.log(describe(result.account));
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Lock administration script
+ * Run with: npm run locks -- [list | break <name> | break-stale]
+ *
+ * Uses the backend named by ZBANK_STORAGE (json by default).
+ */
+
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+
+async function main() {
+	const [command = 'list', name] = process.argv.slice(2);
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+
+	switch (command) {
+		case 'list': {
+			const locks = await storage.listLocks();
+			if (locks.length === 0) {
+				console.log('No locks held.');
+				return;
+			}
+			for (const lock of locks) {
+				console.log(
+					`${lock.name.padEnd(12)} pid ${String(lock.pid).padEnd(8)} ${lock.hostname}  ${lock.lockedAt.toISOString()}${lock.stale ? '  (stale)' : ''}`,
+				);
+			}
+			return;
+		}
+
+		case 'break': {
+			if (!name) {
+				throw new Error('Usage: npm run locks -- break <name>');
+			}
+			const broken = await storage.breakLock(name);
+			console.log(broken ? `Broke lock ${name}` : `No lock held on ${name}`);
+			return;
+		}
+
+		case 'break-stale': {
+			const broken = await storage.breakStaleLocks();
+			console.log(
+				broken.length > 0
+					? `Broke stale locks: ${broken.join(', ')}`
+					: 'No stale locks found.',
+			);
+			return;
+		}
+
+		default:
+			throw new Error(
+				`Unknown command "${command}". Use list, break <name> or break-stale`,
+			);
+	}
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+/**
+ * Overdraft policy administration
+ * Run with: npm run overdraft -- <account-number> [none | unlimited | <limit>]
+ *
+ * Without a policy, shows the account's current setting. A limit is an
+ * amount like 250 or 250.00 and sets a limited overdraft of that size.
+ * Uses the backend named by ZBANK_STORAGE (json by default).
+ */
+
+import { AccountService } from '../services/AccountService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import {
+	Account,
+	OverdraftPolicy,
+	availableBalance,
+} from '../models/Account.js';
+import { formatBalance, parseCurrency } from '../utils/formatter.js';
+
+/**
+ * One-line summary of an account's overdraft setting
+ */
+function describe(account: Account): string {
+	const policy = account.overdraftPolicy ?? OverdraftPolicy.UNLIMITED;
+	const limit =
+		policy === OverdraftPolicy.LIMITED
+			? ` ${formatBalance(account.overdraftLimit ?? 0)}`
+			: '';
+	const available = availableBalance(account);
+	return `${account.accountNumber}  overdraft ${policy}${limit}  balance ${formatBalance(account.balance)}  available ${available === null ? 'unlimited' : formatBalance(available)}`;
+}
+
+async function main() {
+	const [accountNumber, setting] = process.argv.slice(2);
+	if (!accountNumber) {
+		throw new Error(
+			'Usage: npm run overdraft -- <account-number> [none | unlimited | <limit>]',
+		);
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	if (setting === undefined) {
+		const account = await storage.getAccount(accountNumber);
+		if (!account) {
+			throw new Error(`Account ${accountNumber} not found`);
+		}
+		console.log(describe(account));
+		return;
+	}
+
+	let result;
+	if (
+		setting === OverdraftPolicy.NONE ||
+		setting === OverdraftPolicy.UNLIMITED
+	) {
+		result = await new AccountService(storage).setOverdraftPolicy(
+			accountNumber,
+			setting,
+		);
+	} else {
+		const limit = parseCurrency(setting);
+		if (limit === null) {
+			throw new Error(`Invalid overdraft setting "${setting}"`);
+		}
+		result = await new AccountService(storage).setOverdraftPolicy(
+			accountNumber,
+			OverdraftPolicy.LIMITED,
+			limit,
+		);
+	}
+
+	if (!result.success || !result.account) {
+		throw new Error(result.error ?? 'Overdraft update failed');
+	}
+	console.log(describe(result.account));
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Transaction reversal
+ * Run with: npm run reverse -- <transaction-id> <reason...>
+ *
+ * Undoes a completed deposit, withdrawal, transfer, interest posting or fee
+ * with a compensating REVERSAL entry and marks it REVERSED (the ID is shown
+ * in the transaction detail view and in `zbank history --json`). Uses the backend named by
+ * ZBANK_STORAGE (json by default).
+ */
+
+import { TransactionService } from '../services/TransactionService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { formatTransaction } from '../utils/formatter.js';
+
+async function main() {
+	const [transactionId, ...words] = process.argv.slice(2);
+	if (!transactionId || words.length === 0) {
+		throw new Error('Usage: npm run reverse -- <transaction-id> <reason...>');
+	}
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+
+	const result = await new TransactionService(storage).reverse(
+		transactionId,
+		words.join(' '),
+	);
+	if (!result.success || !result.transaction) {
+		throw new Error(result.error ?? 'Reversal failed');
+	}
+	console.log(
+		`${result.transaction.accountNumber}  ${formatTransaction(result.transaction)}`,
+	);
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
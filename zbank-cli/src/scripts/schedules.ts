@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+/**
+ * Scheduled payment administration
+ * Run with:
+ *   npm run schedules -- [account-number]                      # list schedules
+ *   npm run schedules -- add <account-number> <deposit | withdrawal> <amount> <rule> [start]
+ *   npm run schedules -- add <account-number> transfer <to-account> <amount> <rule> [start]
+ *   npm run schedules -- cancel <schedule-id>
+ *   npm run schedules -- runs <schedule-id>                    # list recorded runs
+ *
+ * The rule is daily, weekly, monthly or a count and unit like 2w, 10d or 3m.
+ * The start is a date (YYYY-MM-DD, at midnight) or date and time; now when
+ * omitted. Schedules run when `zbank run-scheduler` is run. Uses the backend
+ * named by ZBANK_STORAGE (json by default).
+ */
+
+import {
+	DEFAULT_HOLD_DURATION_MS,
+	DEFAULT_TRANSACTION_LIMITS,
+	TransactionService,
+} from '../services/TransactionService.js';
+import { DEFAULT_FEE_RULES } from '../services/FeeService.js';
+import { SchedulerService } from '../services/SchedulerService.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { TransactionStatus, TransactionType } from '../models/Transaction.js';
+import {
+	SCHEDULED_TYPES,
+	Schedule,
+	formatScheduleRule,
+	nextRunAt,
+	parseScheduleRule,
+} from '../models/Schedule.js';
+import {
+	formatBalance,
+	formatTimestamp,
+	parseCurrency,
+} from '../utils/formatter.js';
+
+const USAGE =
+	'Usage: npm run schedules -- [account-number] | add <account-number> <deposit | withdrawal | transfer <to-account>> <amount> <rule> [start] | cancel <schedule-id> | runs <schedule-id>';
+
+/**
+ * One line per schedule, with what it pays and when it runs next
+ */
+function describe(schedule: Schedule): string {
+	const next = nextRunAt(schedule);
+	const target = schedule.toAccountNumber
+		? ` to ${schedule.toAccountNumber}`
+		: '';
+	const status = !schedule.active
+		? 'cancelled'
+		: next
+			? `next ${formatTimestamp(next)}`
+			: 'finished';
+	return `${schedule.id}  ${schedule.accountNumber}  ${schedule.type} ${formatBalance(schedule.amount)}${target}  ${formatScheduleRule(schedule)}  ${status}`;
+}
+
+/**
+ * Parse a start date; date-only values start at local midnight
+ */
+function parseStart(value: string | undefined): Date {
+	if (value === undefined) {
+		return new Date();
+	}
+	const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+		? new Date(`${value}T00:00:00`)
+		: new Date(value);
+	if (Number.isNaN(date.getTime())) {
+		throw new Error(`Invalid start "${value}"`);
+	}
+	return date;
+}
+
+async function main() {
+	const [command, ...args] = process.argv.slice(2);
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+	const scheduler = new SchedulerService(
+		storage,
+		new TransactionService(
+			storage,
+			DEFAULT_TRANSACTION_LIMITS,
+			DEFAULT_HOLD_DURATION_MS,
+			DEFAULT_FEE_RULES,
+		),
+	);
+
+	if (command === 'add') {
+		const [accountNumber, type, ...rest] = args;
+		const toAccountNumber =
+			type === TransactionType.TRANSFER ? rest.shift() : undefined;
+		const [amountArg, ruleArg, start] = rest;
+		if (!accountNumber || !type || !amountArg || !ruleArg) {
+			throw new Error(USAGE);
+		}
+		const scheduledType = SCHEDULED_TYPES.find(t => t === type);
+		if (!scheduledType) {
+			throw new Error(`Invalid type "${type}"`);
+		}
+
+		const amount = parseCurrency(amountArg);
+		if (amount === null) {
+			throw new Error(`Invalid amount "${amountArg}"`);
+		}
+		const rule = parseScheduleRule(ruleArg);
+		if (!rule) {
+			throw new Error(`Invalid rule "${ruleArg}"`);
+		}
+
+		const result = await scheduler.createSchedule({
+			accountNumber,
+			type: scheduledType,
+			amount,
+			...(toAccountNumber !== undefined && { toAccountNumber }),
+			...rule,
+			startAt: parseStart(start),
+		});
+		if (!result.success || !result.schedule) {
+			throw new Error(result.error ?? 'Could not create the schedule');
+		}
+		console.log(describe(result.schedule));
+		return;
+	}
+
+	if (command === 'cancel' || command === 'runs') {
+		const [id] = args;
+		if (!id) {
+			throw new Error(USAGE);
+		}
+
+		if (command === 'cancel') {
+			const result = await scheduler.cancelSchedule(id);
+			if (!result.success || !result.schedule) {
+				throw new Error(result.error ?? 'Could not cancel the schedule');
+			}
+			console.log(describe(result.schedule));
+			return;
+		}
+
+		const runs = await scheduler.getRuns(id);
+		runs.forEach(run =>
+			console.log(
+				`${formatTimestamp(run.dueAt)}  ran ${formatTimestamp(run.ranAt)}  ${
+					run.status === TransactionStatus.COMPLETED
+						? `completed ${run.transactionId}`
+						: `failed ${run.errorCode ?? ''} ${run.error}`
+				}`,
+			),
+		);
+		console.log(`${runs.length} run(s)`);
+		return;
+	}
+
+	const schedules = await scheduler.listSchedules(command);
+	schedules.forEach(schedule => console.log(describe(schedule)));
+	console.log(`${schedules.length} schedule(s)`);
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
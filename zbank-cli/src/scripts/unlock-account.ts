@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/**
+ * Failed-login lockout administration
+ * Run with: npm run unlock -- [<account-number>]
+ *
+ * Without an account number, lists the accounts that are locked out.
+ * Uses the backend named by ZBANK_STORAGE (json by default).
+ */
+
+import { AuthService } from '../services/AuthService.js';
+import { SessionManager } from '../services/SessionManager.js';
+import { createStorage, isStorageBackend } from '../services/StorageFactory.js';
+import { formatTimestamp } from '../utils/formatter.js';
+
+async function main() {
+	const [accountNumber] = process.argv.slice(2);
+
+	const backend = process.env.ZBANK_STORAGE ?? 'json';
+	if (!isStorageBackend(backend)) {
+		throw new Error(`Unknown storage backend "${backend}"`);
+	}
+
+	const storage = createStorage(backend);
+	await storage.initialize();
+	const authService = new AuthService(storage, new SessionManager());
+
+	if (!accountNumber) {
+		const locked = await authService.listLockedAccounts();
+		if (locked.length === 0) {
+			console.log('No accounts are locked.');
+			return;
+		}
+		for (const account of locked) {
+			console.log(
+				`${account.accountNumber}  ${account.failedLoginAttempts ?? 0} failed attempts  ${account.lockedUntil ? `until ${formatTimestamp(account.lockedUntil)}` : 'until unlocked'}`,
+			);
+		}
+		return;
+	}
+
+	const unlocked = await authService.unlockAccount(accountNumber);
+	if (!unlocked) {
+		throw new Error(`Account ${accountNumber} not found`);
+	}
+	console.log(`Unlocked ${accountNumber}`);
+}
+
+main().catch(error => {
+	console.error('Error:', error instanceof Error ? error.message : error);
+	process.exit(1);
+});
@@ -0,0 +1,630 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import { Buffer } from 'buffer';
+import { URL, URLSearchParams } from 'url';
+import { z } from 'zod';
+import { IStorage } from '../services/IStorage.js';
+import {
+	AuthService,
+	AuthErrorCode,
+	DEFAULT_LOCKOUT_POLICY,
+	LockoutPolicy,
+} from '../services/AuthService.js';
+import {
+	SessionManager,
+	DEFAULT_SESSION_TIMEOUTS,
+	SessionTimeoutOptions,
+} from '../services/SessionManager.js';
+import {
+	TransactionService,
+	TransactionErrorCode,
+	TransactionResult,
+	DEFAULT_TRANSACTION_LIMITS,
+	DEFAULT_HOLD_DURATION_MS,
+	TransactionLimits,
+} from '../services/TransactionService.js';
+import { DEFAULT_FEE_RULES, FeeRules } from '../services/FeeService.js';
+import {
+	JsonDocument,
+	toJsonDocument,
+	toJsonError,
+	authResultToJson,
+	transactionResultToJson,
+} from '../utils/json-formatter.js';
+import {
+	LoginRequestSchema,
+	AmountRequestSchema,
+	TransferRequestSchema,
+	HistoryQuerySchema,
+} from './requests.js';
+import { createOpenApiDocument } from './openapi.js';
+
+/**
+ * Error codes for failures outside AuthService and TransactionService
+ */
+export enum ApiErrorCode {
+	UNAUTHORIZED = 'UNAUTHORIZED', // Missing, unknown or expired token
+	FORBIDDEN = 'FORBIDDEN', // Token belongs to another account
+	NOT_FOUND = 'NOT_FOUND',
+	METHOD_NOT_ALLOWED = 'METHOD_NOT_ALLOWED',
+	INVALID_JSON = 'INVALID_JSON',
+	VALIDATION_ERROR = 'VALIDATION_ERROR',
+	PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+	INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/**
+ * API server options
+ */
+export interface ApiServerOptions {
+	lockoutPolicy?: LockoutPolicy; // Defaults to DEFAULT_LOCKOUT_POLICY
+	sessionTimeouts?: SessionTimeoutOptions; // Defaults to DEFAULT_SESSION_TIMEOUTS
+	transactionLimits?: TransactionLimits; // Defaults to DEFAULT_TRANSACTION_LIMITS
+	feeRules?: FeeRules; // Defaults to DEFAULT_FEE_RULES
+	maxBodyBytes?: number; // Largest accepted request body (default 64 KiB)
+}
+
+/**
+ * A logged-in API client
+ */
+interface ApiSession {
+	authService: AuthService;
+	sessionManager: SessionManager;
+}
+
+/**
+ * Response produced by a route handler
+ */
+interface ApiResponse {
+	status: number;
+	body?: JsonDocument | object; // Omitted for 204 No Content
+	headers?: Record<string, string>;
+}
+
+/**
+ * Parsed request handed to a route handler
+ */
+interface ApiRequest {
+	params: Record<string, string>;
+	query: URLSearchParams;
+	body: unknown;
+	idempotencyKey?: string; // Idempotency-Key header
+	session: ApiSession | null; // Set when the route requires a session
+	token: string | null;
+}
+
+/**
+ * An endpoint; handlers run only after authentication succeeds
+ */
+interface Route {
+	method: string;
+	pattern: RegExp; // Named groups become params
+	authenticated: boolean;
+	handler: (request: ApiRequest) => Promise<ApiResponse>;
+}
+
+/**
+ * Thrown inside the server to end a request with an error document
+ */
+class HttpError extends Error {
+	constructor(
+		public status: number,
+		public code: string,
+		message: string,
+		public headers?: Record<string, string>,
+	) {
+		super(message);
+	}
+}
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * ApiServer - Local REST API in front of the banking services
+ *
+ * Clients log in with POST /v1/sessions and send the returned token as
+ * `Authorization: Bearer <token>`. Each token has its own SessionManager,
+ * so API sessions expire like TUI sessions, and logins go through
+ * AuthService, so failed attempts count towards the lockout.
+ *
+ * Responses are the versioned JSON documents from json-formatter.ts, and
+ * GET /openapi.json describes every endpoint.
+ */
+export class ApiServer {
+	private server: Server;
+	private sessions = new Map<string, ApiSession>();
+	private transactionService: TransactionService;
+	private lockoutPolicy: LockoutPolicy;
+	private sessionTimeouts: SessionTimeoutOptions;
+	private maxBodyBytes: number;
+	private routes: Route[];
+
+	constructor(
+		private storage: IStorage,
+		options: ApiServerOptions = {},
+	) {
+		this.transactionService = new TransactionService(
+			storage,
+			options.transactionLimits ?? DEFAULT_TRANSACTION_LIMITS,
+			DEFAULT_HOLD_DURATION_MS,
+			options.feeRules ?? DEFAULT_FEE_RULES,
+		);
+		this.lockoutPolicy = options.lockoutPolicy ?? DEFAULT_LOCKOUT_POLICY;
+		this.sessionTimeouts = options.sessionTimeouts ?? DEFAULT_SESSION_TIMEOUTS;
+		this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+		this.routes = this.createRoutes();
+		this.server = createServer((req, res) => {
+			this.handle(req, res);
+		});
+	}
+
+	/**
+	 * Start listening
+	 * @param port - TCP port (0 picks a free one)
+	 * @param host - Interface to bind (defaults to loopback only)
+	 * @returns The bound address
+	 */
+	listen(
+		port: number = 3000,
+		host: string = '127.0.0.1',
+	): Promise<AddressInfo> {
+		return new Promise((resolve, reject) => {
+			this.server.once('error', reject);
+			this.server.listen(port, host, () => {
+				this.server.off('error', reject);
+				resolve(this.server.address() as AddressInfo);
+			});
+		});
+	}
+
+	/**
+	 * Stop listening and end all sessions
+	 */
+	async close(): Promise<void> {
+		for (const session of this.sessions.values()) {
+			await session.authService.logout();
+		}
+		this.sessions.clear();
+
+		await new Promise<void>((resolve, reject) => {
+			this.server.close(error => (error ? reject(error) : resolve()));
+			this.server.closeAllConnections();
+		});
+	}
+
+	/**
+	 * Number of live sessions
+	 */
+	get sessionCount(): number {
+		return this.sessions.size;
+	}
+
+	private createRoutes(): Route[] {
+		const account = '(?<accountNumber>\\d{10})';
+
+		return [
+			{
+				method: 'GET',
+				pattern: /^\/openapi\.json$/,
+				authenticated: false,
+				handler: async () => ({ status: 200, body: createOpenApiDocument() }),
+			},
+			{
+				method: 'POST',
+				pattern: /^\/v1\/sessions$/,
+				authenticated: false,
+				handler: request => this.login(request),
+			},
+			{
+				method: 'DELETE',
+				pattern: /^\/v1\/sessions$/,
+				authenticated: true,
+				handler: request => this.logout(request),
+			},
+			{
+				method: 'GET',
+				pattern: new RegExp(`^/v1/accounts/${account}$`),
+				authenticated: true,
+				handler: request => this.getAccount(request),
+			},
+			{
+				method: 'POST',
+				pattern: new RegExp(`^/v1/accounts/${account}/deposits$`),
+				authenticated: true,
+				handler: async request => {
+					const { amount } = parseBody(AmountRequestSchema, request.body);
+					return transactionResponse(
+						await this.transactionService.deposit(
+							request.params.accountNumber,
+							amount,
+							request.idempotencyKey,
+						),
+					);
+				},
+			},
+			{
+				method: 'POST',
+				pattern: new RegExp(`^/v1/accounts/${account}/withdrawals$`),
+				authenticated: true,
+				handler: async request => {
+					const { amount } = parseBody(AmountRequestSchema, request.body);
+					return transactionResponse(
+						await this.transactionService.withdraw(
+							request.params.accountNumber,
+							amount,
+							request.idempotencyKey,
+						),
+					);
+				},
+			},
+			{
+				method: 'POST',
+				pattern: new RegExp(`^/v1/accounts/${account}/transfers$`),
+				authenticated: true,
+				handler: async request => {
+					const { amount, toAccountNumber } = parseBody(
+						TransferRequestSchema,
+						request.body,
+					);
+					return transactionResponse(
+						await this.transactionService.transfer(
+							request.params.accountNumber,
+							toAccountNumber,
+							amount,
+							request.idempotencyKey,
+						),
+					);
+				},
+			},
+			{
+				method: 'GET',
+				pattern: new RegExp(`^/v1/accounts/${account}/transactions$`),
+				authenticated: true,
+				handler: request => this.getTransactions(request),
+			},
+		];
+	}
+
+	/**
+	 * Dispatch one request and write its response
+	 */
+	private async handle(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		let response: ApiResponse;
+		try {
+			response = await this.dispatch(req);
+		} catch (error) {
+			response =
+				error instanceof HttpError
+					? errorResponse(
+							error.status,
+							error.code,
+							error.message,
+							error.headers,
+						)
+					: errorResponse(
+							500,
+							ApiErrorCode.INTERNAL_ERROR,
+							`Request failed: ${error instanceof Error ? error.message : String(error)}`,
+						);
+		}
+
+		res.writeHead(response.status, {
+			...(response.body !== undefined && {
+				'Content-Type': 'application/json; charset=utf-8',
+			}),
+			...response.headers,
+		});
+		res.end(
+			response.body !== undefined
+				? JSON.stringify(response.body, null, 2)
+				: undefined,
+		);
+	}
+
+	private async dispatch(req: IncomingMessage): Promise<ApiResponse> {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+
+		const matching = this.routes
+			.map(route => ({ route, match: route.pattern.exec(url.pathname) }))
+			.filter(({ match }) => match !== null);
+		if (matching.length === 0) {
+			throw new HttpError(
+				404,
+				ApiErrorCode.NOT_FOUND,
+				`No such endpoint: ${url.pathname}`,
+			);
+		}
+
+		const found = matching.find(({ route }) => route.method === req.method);
+		if (!found) {
+			const allowed = matching.map(({ route }) => route.method).join(', ');
+			throw new HttpError(
+				405,
+				ApiErrorCode.METHOD_NOT_ALLOWED,
+				`Method ${req.method} not allowed for ${url.pathname}`,
+				{ Allow: allowed },
+			);
+		}
+
+		const { route, match } = found;
+		const params = { ...match?.groups };
+		const token = bearerToken(req);
+		let session: ApiSession | null = null;
+
+		if (route.authenticated) {
+			session = this.authenticate(token);
+			const accountNumber = session.sessionManager.getSession()?.accountNumber;
+			if (params.accountNumber && params.accountNumber !== accountNumber) {
+				throw new HttpError(
+					403,
+					ApiErrorCode.FORBIDDEN,
+					'Session does not belong to this account',
+				);
+			}
+			session.sessionManager.recordActivity();
+		}
+
+		const body = req.method === 'POST' ? await this.readBody(req) : undefined;
+
+		const idempotencyKey = req.headers['idempotency-key'];
+
+		return route.handler({
+			params,
+			query: url.searchParams,
+			body,
+			idempotencyKey: Array.isArray(idempotencyKey)
+				? idempotencyKey[0]
+				: idempotencyKey,
+			session,
+			token,
+		});
+	}
+
+	/**
+	 * Look up the session for a bearer token
+	 * @throws HttpError 401 if the token is missing, unknown or expired
+	 */
+	private authenticate(token: string | null): ApiSession {
+		if (!token) {
+			throw new HttpError(
+				401,
+				ApiErrorCode.UNAUTHORIZED,
+				'Missing bearer token',
+				{ 'WWW-Authenticate': 'Bearer' },
+			);
+		}
+
+		// isSessionActive() expires a timed-out session, which removes the token
+		const session = this.sessions.get(token);
+		if (!session || !session.sessionManager.isSessionActive()) {
+			throw new HttpError(
+				401,
+				ApiErrorCode.UNAUTHORIZED,
+				'Invalid or expired session',
+				{ 'WWW-Authenticate': 'Bearer error="invalid_token"' },
+			);
+		}
+		return session;
+	}
+
+	/**
+	 * Read and parse a JSON request body
+	 * @throws HttpError 413 if the body is too large, 400 if it is not JSON
+	 */
+	private async readBody(req: IncomingMessage): Promise<unknown> {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		for await (const chunk of req) {
+			size += (chunk as Buffer).length;
+			if (size > this.maxBodyBytes) {
+				throw new HttpError(
+					413,
+					ApiErrorCode.PAYLOAD_TOO_LARGE,
+					`Request body exceeds ${this.maxBodyBytes} bytes`,
+				);
+			}
+			chunks.push(chunk as Buffer);
+		}
+
+		const text = Buffer.concat(chunks).toString('utf-8');
+		try {
+			return text.trim() === '' ? {} : JSON.parse(text);
+		} catch (error) {
+			throw new HttpError(
+				400,
+				ApiErrorCode.INVALID_JSON,
+				`Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * POST /v1/sessions - log in and issue a token
+	 */
+	private async login(request: ApiRequest): Promise<ApiResponse> {
+		const { accountNumber, pin } = parseBody(LoginRequestSchema, request.body);
+
+		const sessionManager = new SessionManager(this.sessionTimeouts);
+		const authService = new AuthService(
+			this.storage,
+			sessionManager,
+			this.lockoutPolicy,
+		);
+		const result = await authService.login(accountNumber, pin);
+
+		if (!result.success || !result.account) {
+			return {
+				status: authFailureStatus(result.errorCode),
+				body: authResultToJson(result),
+				headers:
+					result.retryAfterMs !== undefined
+						? { 'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)) }
+						: undefined,
+			};
+		}
+
+		const token = randomBytes(32).toString('base64url');
+		this.sessions.set(token, { authService, sessionManager });
+		sessionManager.onExpired(() => {
+			this.sessions.delete(token);
+		});
+
+		return {
+			status: 201,
+			body: toJsonDocument('session', {
+				token,
+				expiresAt: sessionManager.getExpiresAt() ?? undefined,
+				account: result.account,
+			}),
+		};
+	}
+
+	/**
+	 * DELETE /v1/sessions - end the session for the token
+	 */
+	private async logout(request: ApiRequest): Promise<ApiResponse> {
+		await request.session?.authService.logout();
+		if (request.token) {
+			this.sessions.delete(request.token);
+		}
+		return { status: 204 };
+	}
+
+	/**
+	 * GET /v1/accounts/{accountNumber} - current balance and account details
+	 */
+	private async getAccount(request: ApiRequest): Promise<ApiResponse> {
+		const account = await this.storage.getAccount(request.params.accountNumber);
+		if (!account) {
+			throw new HttpError(
+				404,
+				TransactionErrorCode.ACCOUNT_NOT_FOUND,
+				'Account not found',
+			);
+		}
+		request.session?.sessionManager.updateSession(account);
+		return { status: 200, body: toJsonDocument('account', account) };
+	}
+
+	/**
+	 * GET /v1/accounts/{accountNumber}/transactions - history, most recent first
+	 */
+	private async getTransactions(request: ApiRequest): Promise<ApiResponse> {
+		const { limit } = parseInput(
+			HistoryQuerySchema,
+			Object.fromEntries(request.query),
+			'query',
+		);
+		const { accountNumber } = request.params;
+		const transactions = await this.transactionService.getHistory(
+			accountNumber,
+			limit,
+		);
+		return {
+			status: 200,
+			body: toJsonDocument('transactionList', { accountNumber, transactions }),
+		};
+	}
+}
+
+/**
+ * Token from an `Authorization: Bearer <token>` header
+ */
+function bearerToken(req: IncomingMessage): string | null {
+	const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+	return match ? match[1] : null;
+}
+
+/**
+ * Validate a request body against its schema
+ * @throws HttpError 400 listing every invalid field
+ */
+function parseBody<T extends z.ZodType>(schema: T, body: unknown): z.output<T> {
+	return parseInput(schema, body, 'body');
+}
+
+function parseInput<T extends z.ZodType>(
+	schema: T,
+	input: unknown,
+	source: 'body' | 'query',
+): z.output<T> {
+	const result = schema.safeParse(input);
+	if (!result.success) {
+		const issues = result.error.issues.map(issue =>
+			issue.path.length > 0
+				? `${issue.path.join('.')}: ${issue.message}`
+				: issue.message,
+		);
+		throw new HttpError(
+			400,
+			ApiErrorCode.VALIDATION_ERROR,
+			`Invalid request ${source}: ${issues.join('; ')}`,
+		);
+	}
+	return result.data;
+}
+
+function errorResponse(
+	status: number,
+	code: string,
+	message: string,
+	headers?: Record<string, string>,
+): ApiResponse {
+	return { status, body: toJsonError(code, message), headers };
+}
+
+function transactionResponse(result: TransactionResult): ApiResponse {
+	return {
+		status: result.success ? 201 : transactionFailureStatus(result.errorCode),
+		body: transactionResultToJson(result),
+	};
+}
+
+/**
+ * HTTP status for a failed login
+ */
+function authFailureStatus(errorCode: AuthErrorCode | undefined): number {
+	switch (errorCode) {
+		case AuthErrorCode.INVALID_FORMAT:
+			return 400;
+		case AuthErrorCode.ACCOUNT_NOT_FOUND:
+		case AuthErrorCode.INVALID_PIN:
+			return 401;
+		case AuthErrorCode.ACCOUNT_LOCKED:
+			return 423;
+		case AuthErrorCode.TOO_MANY_ATTEMPTS:
+			return 429;
+		default:
+			return 500;
+	}
+}
+
+/**
+ * HTTP status for a failed transaction
+ */
+function transactionFailureStatus(
+	errorCode: TransactionErrorCode | undefined,
+): number {
+	switch (errorCode) {
+		case TransactionErrorCode.INVALID_AMOUNT:
+		case TransactionErrorCode.INVALID_IDEMPOTENCY_KEY:
+			return 400;
+		case TransactionErrorCode.ACCOUNT_NOT_FOUND:
+		case TransactionErrorCode.DESTINATION_NOT_FOUND:
+			return 404;
+		case TransactionErrorCode.ACCOUNT_BUSY:
+		case TransactionErrorCode.IDEMPOTENCY_KEY_REUSED:
+			return 409;
+		case TransactionErrorCode.SAME_ACCOUNT:
+		case TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED:
+		case TransactionErrorCode.TRANSACTION_LIMIT_EXCEEDED:
+		case TransactionErrorCode.DAILY_LIMIT_EXCEEDED:
+			return 422;
+		default:
+			return 500;
+	}
+}
@@ -0,0 +1,275 @@
+import { z } from 'zod';
+import {
+	JSON_OUTPUT_VERSION,
+	JSON_DOCUMENT_SCHEMAS,
+	JsonDocumentKind,
+} from '../utils/json-formatter.js';
+import {
+	LoginRequestSchema,
+	AmountRequestSchema,
+	TransferRequestSchema,
+} from './requests.js';
+
+/**
+ * OpenAPI document for the REST API
+ *
+ * Component schemas are generated from the same zod schemas the server
+ * validates requests and builds responses with, so the document cannot
+ * drift from the implementation.
+ */
+
+const COMPONENT_PREFIX = '#/components/schemas/';
+
+/**
+ * Component name for each response data schema
+ */
+const DOCUMENT_COMPONENTS: Record<JsonDocumentKind, string> = {
+	account: 'Account',
+	transaction: 'Transaction',
+	transactionList: 'TransactionList',
+	transactionResult: 'TransactionResult',
+	authResult: 'AuthResult',
+	session: 'Session',
+	integrityReport: 'IntegrityReport',
+	scheduleRunList: 'ScheduleRunList',
+	endOfDayReport: 'EndOfDayReport',
+	statement: 'Statement',
+	error: 'Error',
+};
+
+const REQUEST_COMPONENTS = {
+	LoginRequest: LoginRequestSchema,
+	AmountRequest: AmountRequestSchema,
+	TransferRequest: TransferRequestSchema,
+};
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Convert the registered zod schemas to JSON Schema components
+ */
+function componentSchemas(): Record<string, JsonObject> {
+	const registry = z.registry<{ id: string }>();
+	for (const [kind, id] of Object.entries(DOCUMENT_COMPONENTS)) {
+		registry.add(JSON_DOCUMENT_SCHEMAS[kind as JsonDocumentKind], { id });
+	}
+	for (const [id, schema] of Object.entries(REQUEST_COMPONENTS)) {
+		registry.add(schema, { id });
+	}
+
+	const { schemas } = z.toJSONSchema(registry, {
+		target: 'draft-2020-12',
+		uri: id => `${COMPONENT_PREFIX}${id}`,
+		unrepresentable: 'any',
+		override: ctx => {
+			// Dates are serialized by JSON.stringify as ISO 8601 strings
+			if (ctx.zodSchema instanceof z.ZodDate) {
+				ctx.jsonSchema.type = 'string';
+				ctx.jsonSchema.format = 'date-time';
+			}
+		},
+	});
+
+	return Object.fromEntries(
+		Object.entries(schemas).map(([id, schema]) => {
+			// Components are embedded, so they carry no dialect or id of their own
+			const component: JsonObject = { ...schema };
+			delete component.$schema;
+			delete component.$id;
+			return [id, component];
+		}),
+	);
+}
+
+/**
+ * Schema of a `{ version, kind, data }` response document
+ */
+function documentSchema(kind: JsonDocumentKind): JsonObject {
+	return {
+		type: 'object',
+		properties: {
+			version: { const: JSON_OUTPUT_VERSION },
+			kind: { const: kind },
+			data: { $ref: `${COMPONENT_PREFIX}${DOCUMENT_COMPONENTS[kind]}` },
+		},
+		required: ['version', 'kind', 'data'],
+		additionalProperties: false,
+	};
+}
+
+function jsonResponse(description: string, kind: JsonDocumentKind): JsonObject {
+	return {
+		description,
+		content: { 'application/json': { schema: documentSchema(kind) } },
+	};
+}
+
+function jsonBody(component: keyof typeof REQUEST_COMPONENTS): JsonObject {
+	return {
+		required: true,
+		content: {
+			'application/json': {
+				schema: { $ref: `${COMPONENT_PREFIX}${component}` },
+			},
+		},
+	};
+}
+
+const ACCOUNT_PARAMETER = {
+	name: 'accountNumber',
+	in: 'path',
+	required: true,
+	description: 'Must be the account of the session',
+	schema: { type: 'string', pattern: '^\\d{10}$' },
+};
+
+const IDEMPOTENCY_KEY_PARAMETER = {
+	name: 'Idempotency-Key',
+	in: 'header',
+	required: false,
+	description:
+		"Retrying with the same key returns the first result instead of posting again. Keys are scoped to the request's account",
+	schema: { type: 'string', pattern: '^[\\x21-\\x7e]{1,255}$' },
+};
+
+const ERROR_RESPONSES = {
+	'400': jsonResponse('Invalid request', 'error'),
+	'401': jsonResponse('Missing, invalid or expired token', 'error'),
+	'403': jsonResponse('Token belongs to another account', 'error'),
+};
+
+/**
+ * Responses of a deposit, withdrawal or transfer
+ */
+function transactionResponses(): JsonObject {
+	const result = (description: string) =>
+		jsonResponse(description, 'transactionResult');
+	return {
+		'201': result('Transaction completed'),
+		...ERROR_RESPONSES,
+		'400': {
+			description: 'Invalid request body or amount',
+			content: {
+				'application/json': {
+					schema: {
+						oneOf: [
+							documentSchema('error'),
+							documentSchema('transactionResult'),
+						],
+					},
+				},
+			},
+		},
+		'404': result('Account not found'),
+		'409': result(
+			'Account busy with another transaction, or idempotency key used for a different one',
+		),
+		'422': result('Transaction rejected'),
+	};
+}
+
+/**
+ * Build the OpenAPI 3.1 document served at GET /openapi.json
+ * @returns The document
+ */
+export function createOpenApiDocument(): JsonObject {
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: 'zBANK API',
+			version: String(JSON_OUTPUT_VERSION),
+			description:
+				'Local REST API for zBANK. Log in with POST /v1/sessions and send the token as a bearer token. Amounts are integer cents.',
+		},
+		security: [{ bearerAuth: [] }],
+		paths: {
+			'/v1/sessions': {
+				post: {
+					summary: 'Log in and issue a session token',
+					security: [],
+					requestBody: jsonBody('LoginRequest'),
+					responses: {
+						'201': jsonResponse('Logged in', 'session'),
+						'400': jsonResponse('Invalid request', 'error'),
+						'401': jsonResponse('Wrong account number or PIN', 'authResult'),
+						'423': jsonResponse('Account locked', 'authResult'),
+						'429': {
+							...jsonResponse('Too many attempts; retry later', 'authResult'),
+							headers: {
+								'Retry-After': {
+									description: 'Seconds to wait',
+									schema: { type: 'integer' },
+								},
+							},
+						},
+					},
+				},
+				delete: {
+					summary: 'Log out',
+					responses: {
+						'204': { description: 'Logged out' },
+						'401': ERROR_RESPONSES['401'],
+					},
+				},
+			},
+			'/v1/accounts/{accountNumber}': {
+				get: {
+					summary: 'Get the account and its balance',
+					parameters: [ACCOUNT_PARAMETER],
+					responses: {
+						'200': jsonResponse('The account', 'account'),
+						...ERROR_RESPONSES,
+					},
+				},
+			},
+			'/v1/accounts/{accountNumber}/deposits': {
+				post: {
+					summary: 'Deposit money',
+					parameters: [ACCOUNT_PARAMETER, IDEMPOTENCY_KEY_PARAMETER],
+					requestBody: jsonBody('AmountRequest'),
+					responses: transactionResponses(),
+				},
+			},
+			'/v1/accounts/{accountNumber}/withdrawals': {
+				post: {
+					summary: 'Withdraw money',
+					parameters: [ACCOUNT_PARAMETER, IDEMPOTENCY_KEY_PARAMETER],
+					requestBody: jsonBody('AmountRequest'),
+					responses: transactionResponses(),
+				},
+			},
+			'/v1/accounts/{accountNumber}/transfers': {
+				post: {
+					summary: 'Transfer money to another account',
+					parameters: [ACCOUNT_PARAMETER, IDEMPOTENCY_KEY_PARAMETER],
+					requestBody: jsonBody('TransferRequest'),
+					responses: transactionResponses(),
+				},
+			},
+			'/v1/accounts/{accountNumber}/transactions': {
+				get: {
+					summary: 'List transactions, most recent first',
+					parameters: [
+						ACCOUNT_PARAMETER,
+						{
+							name: 'limit',
+							in: 'query',
+							required: false,
+							schema: { type: 'integer', minimum: 1 },
+						},
+					],
+					responses: {
+						'200': jsonResponse('The transactions', 'transactionList'),
+						...ERROR_RESPONSES,
+					},
+				},
+			},
+		},
+		components: {
+			schemas: componentSchemas(),
+			securitySchemes: {
+				bearerAuth: { type: 'http', scheme: 'bearer' },
+			},
+		},
+	};
+}
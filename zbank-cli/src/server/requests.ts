@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { AccountSchema } from '../models/Account.js';
+import { TransactionSchema } from '../models/Transaction.js';
+
+/**
+ * Request schemas for the REST API
+ *
+ * Built from the model schemas so the API accepts exactly what the models
+ * allow (10-digit account numbers, integer cents).
+ */
+
+/**
+ * POST /v1/sessions
+ */
+export const LoginRequestSchema = AccountSchema.pick({
+	accountNumber: true,
+}).extend({
+	// The model holds the PIN hash; requests carry the 4-digit PIN itself
+	pin: z.string().regex(/^\d{4}$/, 'PIN must be exactly 4 digits'),
+});
+
+/**
+ * POST /v1/accounts/{accountNumber}/deposits and /withdrawals
+ */
+export const AmountRequestSchema = TransactionSchema.pick({ amount: true });
+
+/**
+ * POST /v1/accounts/{accountNumber}/transfers
+ */
+export const TransferRequestSchema = TransactionSchema.pick({
+	amount: true,
+}).extend({
+	toAccountNumber: AccountSchema.shape.accountNumber,
+});
+
+/**
+ * GET /v1/accounts/{accountNumber}/transactions query string
+ */
+export const HistoryQuerySchema = z.object({
+	limit: z.coerce
+		.number()
+		.int('Limit must be an integer')
+		.positive('Limit must be positive')
+		.optional(),
+});
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+export type AmountRequest = z.infer<typeof AmountRequestSchema>;
+export type TransferRequest = z.infer<typeof TransferRequestSchema>;
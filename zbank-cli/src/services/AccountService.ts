@@ -0,0 +1,422 @@
+import { randomInt } from 'crypto';
+import {
+	Account,
+	AccountType,
+	FeeType,
+	OverdraftPolicy,
+	TransactionLimitOverride,
+} from '../models/Account.js';
+import {
+	Transaction,
+	TransactionType,
+	TransactionStatus,
+} from '../models/Transaction.js';
+import { IStorage } from './IStorage.js';
+import { hashPin } from '../utils/crypto.js';
+import {
+	isValidAccountNumber,
+	isValidPin,
+	validateTransactionAmount,
+} from '../utils/validation.js';
+
+/**
+ * Details for a new account
+ */
+export interface RegistrationRequest {
+	accountNumber?: string; // Generated when omitted
+	pin: string; // 4-digit PIN
+	confirmPin?: string; // Must match pin when given
+	openingDeposit?: number; // In cents; 0 or omitted for none
+}
+
+/**
+ * Result of a registration attempt
+ */
+export interface RegistrationResult {
+	success: boolean;
+	account?: Account;
+	transaction?: Transaction; // Opening deposit, if any
+	error?: string;
+}
+
+/**
+ * Result of changing an account's overdraft settings
+ */
+export interface OverdraftUpdateResult {
+	success: boolean;
+	account?: Account;
+	error?: string;
+}
+
+/**
+ * Result of changing an account's transaction limits
+ */
+export interface TransactionLimitUpdateResult {
+	success: boolean;
+	account?: Account;
+	error?: string;
+}
+
+/**
+ * Result of changing an account's type
+ */
+export interface AccountTypeUpdateResult {
+	success: boolean;
+	account?: Account;
+	error?: string;
+}
+
+/**
+ * Result of waiving or reinstating a fee on an account
+ */
+export interface FeeWaiverUpdateResult {
+	success: boolean;
+	account?: Account;
+	error?: string;
+}
+
+/**
+ * Account service interface
+ */
+export interface IAccountService {
+	register(request: RegistrationRequest): Promise<RegistrationResult>;
+	setOverdraftPolicy(
+		accountNumber: string,
+		policy: OverdraftPolicy,
+		limit?: number,
+	): Promise<OverdraftUpdateResult>;
+	setTransactionLimit(
+		accountNumber: string,
+		type: TransactionType,
+		override: TransactionLimitOverride,
+	): Promise<TransactionLimitUpdateResult>;
+	setAccountType(
+		accountNumber: string,
+		accountType: AccountType,
+	): Promise<AccountTypeUpdateResult>;
+	setFeeWaiver(
+		accountNumber: string,
+		feeType: FeeType,
+		waived: boolean,
+	): Promise<FeeWaiverUpdateResult>;
+	generateAccountNumber(): Promise<string>;
+	isAccountNumberAvailable(accountNumber: string): Promise<boolean>;
+}
+
+// Random account numbers to try before giving up
+const MAX_GENERATION_ATTEMPTS = 20;
+
+/**
+ * AccountService - Account registration
+ *
+ * The COBOL ZRGSTR map (SCREEN-STATE 2) had no registration logic behind it.
+ * This implements what it was meant to do: create an account with a hashed
+ * PIN, optionally funded by an opening deposit, in one unit of work.
+ */
+export class AccountService implements IAccountService {
+	constructor(private storage: IStorage) {}
+
+	/**
+	 * Register a new account
+	 * @param request - Account number (optional), PIN, PIN confirmation and opening deposit
+	 * @returns RegistrationResult with the new account or an error
+	 */
+	async register(request: RegistrationRequest): Promise<RegistrationResult> {
+		const { pin, confirmPin, openingDeposit = 0 } = request;
+
+		if (!isValidPin(pin)) {
+			return {
+				success: false,
+				error: 'Invalid PIN format. Must be 4 digits.',
+			};
+		}
+
+		if (confirmPin !== undefined && confirmPin !== pin) {
+			return { success: false, error: 'PINs do not match' };
+		}
+
+		if (openingDeposit !== 0 && !validateTransactionAmount(openingDeposit)) {
+			return { success: false, error: 'Invalid opening deposit amount' };
+		}
+
+		if (
+			request.accountNumber !== undefined &&
+			!isValidAccountNumber(request.accountNumber)
+		) {
+			return {
+				success: false,
+				error: 'Invalid account number format. Must be 10 digits.',
+			};
+		}
+
+		try {
+			const hashedPin = await hashPin(pin);
+
+			// A requested number gets one try; generated ones retry on collision
+			const attempts =
+				request.accountNumber !== undefined ? 1 : MAX_GENERATION_ATTEMPTS;
+
+			for (let attempt = 0; attempt < attempts; attempt++) {
+				const accountNumber = request.accountNumber ?? randomAccountNumber();
+
+				const created = await this.storage.runInTransaction(async tx => {
+					if (await tx.getAccount(accountNumber)) {
+						return null;
+					}
+
+					const account = await tx.createAccount({
+						accountNumber,
+						pin: hashedPin,
+						balance: openingDeposit,
+					});
+
+					const transaction =
+						openingDeposit > 0
+							? await tx.addTransaction({
+									accountNumber,
+									type: TransactionType.DEPOSIT,
+									amount: openingDeposit,
+									balanceBefore: 0,
+									balanceAfter: openingDeposit,
+									status: TransactionStatus.COMPLETED,
+									description: 'Opening deposit',
+								})
+							: undefined;
+
+					return { account, transaction };
+				});
+
+				if (created) {
+					return { success: true, ...created };
+				}
+			}
+
+			return {
+				success: false,
+				error:
+					request.accountNumber !== undefined
+						? 'Account number already exists'
+						: 'Could not generate a free account number',
+			};
+		} catch (error) {
+			return {
+				success: false,
+				error: `Registration failed: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * Change how far an account may go below zero
+	 *
+	 * Tightening the policy leaves the balance alone: an account already past
+	 * its new floor just cannot be debited until it is back within it.
+	 *
+	 * @param accountNumber - The account number
+	 * @param policy - The new policy
+	 * @param limit - Overdraft limit in cents (LIMITED only)
+	 * @returns OverdraftUpdateResult with the updated account or an error
+	 */
+	async setOverdraftPolicy(
+		accountNumber: string,
+		policy: OverdraftPolicy,
+		limit?: number,
+	): Promise<OverdraftUpdateResult> {
+		if (policy === OverdraftPolicy.LIMITED) {
+			if (limit === undefined || !Number.isInteger(limit) || limit < 0) {
+				return {
+					success: false,
+					error: 'A limited overdraft needs a limit of zero or more cents',
+				};
+			}
+		} else if (limit !== undefined) {
+			return {
+				success: false,
+				error: 'Only a limited overdraft takes a limit',
+			};
+		}
+
+		try {
+			if (!(await this.storage.getAccount(accountNumber))) {
+				return { success: false, error: 'Account not found' };
+			}
+
+			const account = await this.storage.updateAccount(accountNumber, {
+				overdraftPolicy: policy,
+				overdraftLimit: limit,
+			});
+			return { success: true, account };
+		} catch (error) {
+			return {
+				success: false,
+				error: `Overdraft update failed: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * Override the bank-wide limits on one transaction type for an account
+	 *
+	 * A number replaces the bank-wide limit, null lifts it and undefined goes
+	 * back to it. The daily limit applies from the next transaction on, to
+	 * what was already spent over the last 24 hours.
+	 *
+	 * @param accountNumber - The account number
+	 * @param type - The transaction type
+	 * @param override - Per-transaction and daily limits in cents
+	 * @returns TransactionLimitUpdateResult with the updated account or an error
+	 */
+	async setTransactionLimit(
+		accountNumber: string,
+		type: TransactionType,
+		override: TransactionLimitOverride,
+	): Promise<TransactionLimitUpdateResult> {
+		const invalid = [override.perTransaction, override.daily].some(
+			limit =>
+				limit !== undefined &&
+				limit !== null &&
+				(!Number.isInteger(limit) || limit < 0),
+		);
+		if (invalid) {
+			return {
+				success: false,
+				error: 'A transaction limit must be zero or more cents',
+			};
+		}
+
+		try {
+			const account = await this.storage.getAccount(accountNumber);
+			if (!account) {
+				return { success: false, error: 'Account not found' };
+			}
+
+			// Drop what is back to the bank-wide value so only overrides are stored
+			const limits = { ...account.transactionLimits };
+			const kept = { ...override };
+			if (kept.perTransaction === undefined) {
+				delete kept.perTransaction;
+			}
+			if (kept.daily === undefined) {
+				delete kept.daily;
+			}
+			if (Object.keys(kept).length > 0) {
+				limits[type] = kept;
+			} else {
+				delete limits[type];
+			}
+
+			const updated = await this.storage.updateAccount(accountNumber, {
+				transactionLimits: Object.keys(limits).length > 0 ? limits : undefined,
+			});
+			return { success: true, account: updated };
+		} catch (error) {
+			return {
+				success: false,
+				error: `Limit update failed: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * Change the kind of account, and with it the interest rates that apply
+	 *
+	 * Interest already accrued stays on the account; the new rates apply from
+	 * the next business date the end-of-day batch accrues.
+	 *
+	 * @param accountNumber - The account number
+	 * @param accountType - The new account type
+	 * @returns AccountTypeUpdateResult with the updated account or an error
+	 */
+	async setAccountType(
+		accountNumber: string,
+		accountType: AccountType,
+	): Promise<AccountTypeUpdateResult> {
+		try {
+			if (!(await this.storage.getAccount(accountNumber))) {
+				return { success: false, error: 'Account not found' };
+			}
+
+			const account = await this.storage.updateAccount(accountNumber, {
+				accountType,
+			});
+			return { success: true, account };
+		} catch (error) {
+			return {
+				success: false,
+				error: `Account type update failed: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * Waive a fee on an account, or charge it again
+	 *
+	 * A waiver stops the fee being charged from then on; fees already
+	 * charged are refunded by reversing them.
+	 *
+	 * @param accountNumber - The account number
+	 * @param feeType - The fee
+	 * @param waived - True to waive the fee, false to charge it again
+	 * @returns FeeWaiverUpdateResult with the updated account or an error
+	 */
+	async setFeeWaiver(
+		accountNumber: string,
+		feeType: FeeType,
+		waived: boolean,
+	): Promise<FeeWaiverUpdateResult> {
+		try {
+			const account = await this.storage.getAccount(accountNumber);
+			if (!account) {
+				return { success: false, error: 'Account not found' };
+			}
+
+			// Keep the waivers in FeeType order, without duplicates
+			const feeWaivers = Object.values(FeeType).filter(type =>
+				type === feeType ? waived : account.feeWaivers?.includes(type),
+			);
+			const updated = await this.storage.updateAccount(accountNumber, {
+				feeWaivers: feeWaivers.length > 0 ? feeWaivers : undefined,
+			});
+			return { success: true, account: updated };
+		} catch (error) {
+			return {
+				success: false,
+				error: `Fee waiver update failed: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * Suggest an account number that is not yet in use
+	 * @returns A free 10-digit account number
+	 * @throws Error if no free number was found
+	 */
+	async generateAccountNumber(): Promise<string> {
+		for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+			const accountNumber = randomAccountNumber();
+			if (await this.isAccountNumberAvailable(accountNumber)) {
+				return accountNumber;
+			}
+		}
+		throw new Error('Could not generate a free account number');
+	}
+
+	/**
+	 * Check whether an account number is valid and unused
+	 * @param accountNumber - The account number
+	 * @returns true if it can be registered
+	 */
+	async isAccountNumberAvailable(accountNumber: string): Promise<boolean> {
+		if (!isValidAccountNumber(accountNumber)) {
+			return false;
+		}
+		return (await this.storage.getAccount(accountNumber)) === null;
+	}
+}
+
+/**
+ * Random 10-digit account number (PIC 9(10), so leading zeros are allowed)
+ */
+function randomAccountNumber(): string {
+	return String(randomInt(1, 10_000_000_000)).padStart(10, '0');
+}
@@ -4,6 +4,18 @@ import { SessionManager } from './SessionManager.js';
 import { verifyPin } from '../utils/crypto.js';
 import { isValidAccountNumber, isValidPin } from '../utils/validation.js';
 
+/**
+ * Machine-readable reason for a failed login
+ */
+export enum AuthErrorCode {
+	INVALID_FORMAT = 'INVALID_FORMAT',
+	ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+	INVALID_PIN = 'INVALID_PIN',
+	ACCOUNT_LOCKED = 'ACCOUNT_LOCKED', // Locked out; see lockedUntil
+	TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS', // Progressive delay; see retryAfterMs
+	LOGIN_ERROR = 'LOGIN_ERROR',
+}
+
 /**
  * Result of an authentication attempt
  */
@@ -11,19 +23,51 @@ export interface AuthResult {
 	success: boolean;
 	account?: Account;
 	error?: string;
+	errorCode?: AuthErrorCode;
+	attemptsRemaining?: number; // Failed logins left before the account locks
+	lockedUntil?: Date; // End of the lockout (absent: until an admin unlocks)
+	retryAfterMs?: number; // Wait before the next attempt is accepted
 }
 
+/**
+ * Failed-login lockout policy
+ */
+export interface LockoutPolicy {
+	maxAttempts: number; // Consecutive failures before locking (0 = never lock)
+	lockoutDurationMs: number | null; // null = locked until an admin unlocks
+	progressiveDelayMs: number; // Delay after the first failure, doubled after each further one (0 = none)
+	maxDelayMs: number; // Cap on the progressive delay
+}
+
+/**
+ * The COBOL program's behavior: unlimited attempts, nothing tracked
+ */
+export const COBOL_LOCKOUT_POLICY: LockoutPolicy = {
+	maxAttempts: 0,
+	lockoutDurationMs: null,
+	progressiveDelayMs: 0,
+	maxDelayMs: 0,
+};
+
+/**
+ * Policy used by the application: 5 attempts, then a 15 minute lockout
+ */
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+	maxAttempts: 5,
+	lockoutDurationMs: 15 * 60 * 1000,
+	progressiveDelayMs: 1000,
+	maxDelayMs: 30 * 1000,
+};
+
 /**
  * Authentication service interface
  *
  * This service handles user login, logout, and session management.
  * Unlike the COBOL implementation, PINs are hashed for security.
  *
- * MATCHING COBOL BEHAVIOR:
- * - No account lockout after failed attempts
- * - No brute-force protection
- * - No failed attempt tracking
- * - Simple PIN verification only
+ * The COBOL program allowed unlimited PIN attempts. Failed logins are now
+ * counted on the account and limited by a LockoutPolicy; with
+ * COBOL_LOCKOUT_POLICY nothing is tracked, as before.
  */
 export interface IAuthService {
 	login(accountNumber: string, pin: string): Promise<AuthResult>;
@@ -31,6 +75,8 @@ export interface IAuthService {
 	getCurrentUser(): Account | null;
 	isAuthenticated(): boolean;
 	changePin(oldPin: string, newPin: string): Promise<boolean>;
+	unlockAccount(accountNumber: string): Promise<boolean>;
+	listLockedAccounts(): Promise<Account[]>;
 }
 
 /**
@@ -42,10 +88,16 @@ export interface IAuthService {
 export class AuthService implements IAuthService {
 	private storage: IStorage;
 	private sessionManager: SessionManager;
+	private lockoutPolicy: LockoutPolicy;
 
-	constructor(storage: IStorage, sessionManager: SessionManager) {
+	constructor(
+		storage: IStorage,
+		sessionManager: SessionManager,
+		lockoutPolicy: LockoutPolicy = COBOL_LOCKOUT_POLICY,
+	) {
 		this.storage = storage;
 		this.sessionManager = sessionManager;
+		this.lockoutPolicy = lockoutPolicy;
 	}
 
 	/**
@@ -66,6 +118,7 @@ export class AuthService implements IAuthService {
 			return {
 				success: false,
 				error: 'Invalid account number format. Must be 10 digits.',
+				errorCode: AuthErrorCode.INVALID_FORMAT,
 			};
 		}
 
@@ -73,66 +126,177 @@ export class AuthService implements IAuthService {
 			return {
 				success: false,
 				error: 'Invalid PIN format. Must be 4 digits.',
+				errorCode: AuthErrorCode.INVALID_FORMAT,
 			};
 		}
 
 		try {
-			// Get account from storage (like COBOL VSAM READ)
-			const account = await this.storage.getAccount(accountNumber);
-
-			if (!account) {
-				return {
-					success: false,
-					error: 'Account not found',
-				};
+			// Check and count the attempt before the PIN (like COBOL VSAM READ)
+			const attempt = await this.startAttempt(accountNumber);
+			if ('refused' in attempt) {
+				return attempt.refused;
 			}
 
 			// Verify PIN (enhanced from COBOL's plain text comparison)
-			const isValidPin = await verifyPin(pin, account.pin);
+			const isValidPin = await verifyPin(pin, attempt.account.pin);
 
 			if (!isValidPin) {
-				// MATCHING COBOL: No failed attempt tracking
-				// COBOL just rejects and stays on login screen
-				return {
-					success: false,
-					error: 'Invalid PIN',
-				};
+				return this.failedLoginResult(attempt.counted);
 			}
 
+			// A successful login clears any failed attempts, this one included
+			const loggedIn = hasLockoutState(attempt.counted)
+				? await this.storage.updateAccount(accountNumber, CLEARED_LOCKOUT)
+				: attempt.counted;
+
 			// Create session (like COBOL setting SCREEN-STATE to 1)
-			this.sessionManager.setSession(account);
+			this.sessionManager.setSession(loggedIn);
 
 			return {
 				success: true,
-				account,
+				account: loggedIn,
 			};
 		} catch (error) {
 			return {
 				success: false,
 				error: error instanceof Error ? error.message : 'Login failed',
+				errorCode: AuthErrorCode.LOGIN_ERROR,
 			};
 		}
 	}
 
 	/**
-	 * Log out the current user
+	 * Check that a login attempt is allowed and count it as failed
 	 *
-	 * This mimics COBOL's quit operation:
-	 * - Unlock account (like VSAM UNLOCK)
-	 * - Return to login screen (State 0)
+	 * Runs in one unit of work before the PIN is verified, so concurrent
+	 * attempts see each other: once maxAttempts have been counted the rest
+	 * are refused as locked, whatever PIN they carry. A correct PIN clears
+	 * the count afterwards.
+	 *
+	 * @param accountNumber - Account being logged in to
+	 * @returns The account as read and as counted, or the refusal
 	 */
-	async logout(): Promise<void> {
-		const currentUser = this.sessionManager.getSession();
-
-		if (currentUser) {
-			// Unlock account if it's locked (like COBOL UNLOCK)
-			try {
-				await this.storage.unlockAccount(currentUser.accountNumber);
-			} catch {
-				// Ignore unlock errors - session should be cleared anyway
+	private async startAttempt(
+		accountNumber: string,
+	): Promise<{ account: Account; counted: Account } | { refused: AuthResult }> {
+		const { maxAttempts, lockoutDurationMs, progressiveDelayMs } =
+			this.lockoutPolicy;
+
+		return this.storage.runInTransaction(async tx => {
+			const account = await tx.getAccount(accountNumber);
+			if (!account) {
+				return {
+					refused: {
+						success: false,
+						error: 'Account not found',
+						errorCode: AuthErrorCode.ACCOUNT_NOT_FOUND,
+					},
+				};
 			}
+
+			const now = new Date();
+
+			// Locked accounts are refused without checking the PIN
+			if (isLockedOut(account, now)) {
+				return { refused: lockedResult(account) };
+			}
+
+			// Attempts inside the progressive delay are refused and not counted
+			const retryAfterMs = this.retryAfterMs(account, now);
+			if (retryAfterMs > 0) {
+				return {
+					refused: {
+						success: false,
+						error: `Too many failed attempts. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
+						errorCode: AuthErrorCode.TOO_MANY_ATTEMPTS,
+						retryAfterMs,
+					},
+				};
+			}
+
+			// MATCHING COBOL: without a policy, nothing is tracked
+			if (maxAttempts === 0 && progressiveDelayMs === 0) {
+				return { account, counted: account };
+			}
+
+			// An expired lockout starts the count again
+			const previous = account.isLocked
+				? 0
+				: (account.failedLoginAttempts ?? 0);
+			const failedLoginAttempts = previous + 1;
+			const lock = maxAttempts > 0 && failedLoginAttempts >= maxAttempts;
+
+			const counted = await tx.updateAccount(accountNumber, {
+				failedLoginAttempts,
+				lastFailedLoginAt: now,
+				isLocked: lock,
+				lockedUntil:
+					lock && lockoutDurationMs !== null
+						? new Date(now.getTime() + lockoutDurationMs)
+						: undefined,
+			});
+			return { account, counted };
+		});
+	}
+
+	/**
+	 * Result for a wrong PIN, whose attempt startAttempt() already counted
+	 * @param counted - The account with the attempt counted
+	 * @returns AuthResult describing the failure
+	 */
+	private failedLoginResult(counted: Account): AuthResult {
+		const { maxAttempts } = this.lockoutPolicy;
+
+		if (counted.isLocked) {
+			return lockedResult(counted);
 		}
 
+		return {
+			success: false,
+			error: 'Invalid PIN',
+			errorCode: AuthErrorCode.INVALID_PIN,
+			attemptsRemaining:
+				maxAttempts > 0
+					? maxAttempts - (counted.failedLoginAttempts ?? 0)
+					: undefined,
+		};
+	}
+
+	/**
+	 * Time left in the progressive delay after the last failed login
+	 * @returns Milliseconds to wait, or 0 if an attempt is allowed now
+	 */
+	private retryAfterMs(account: Account, now: Date): number {
+		const { progressiveDelayMs, maxDelayMs } = this.lockoutPolicy;
+		const failures = account.isLocked ? 0 : (account.failedLoginAttempts ?? 0);
+
+		if (
+			progressiveDelayMs === 0 ||
+			failures === 0 ||
+			!account.lastFailedLoginAt
+		) {
+			return 0;
+		}
+
+		const delay = Math.min(
+			progressiveDelayMs * 2 ** (failures - 1),
+			maxDelayMs,
+		);
+		const elapsed = now.getTime() - account.lastFailedLoginAt.getTime();
+		return Math.max(0, delay - elapsed);
+	}
+
+	/**
+	 * Log out the current user
+	 *
+	 * This mimics COBOL's quit operation, returning to the login screen
+	 * (State 0). Account locks are left alone: sessions never hold them.
+	 * TransactionService locks an account for one operation and releases
+	 * the lock itself, and a server shares one process (and so one lock
+	 * holder) between all its sessions, so a logout cannot tell its own
+	 * locks from those of an operation still running.
+	 */
+	async logout(): Promise<void> {
 		// Clear session (return to State 0)
 		this.sessionManager.clearSession();
 	}
@@ -205,4 +369,76 @@ export class AuthService implements IAuthService {
 			return false;
 		}
 	}
+
+	/**
+	 * Lift a failed-login lockout (admin operation)
+	 *
+	 * Clears the lock and the failed attempt count, whether the lockout
+	 * would have expired or not.
+	 *
+	 * @param accountNumber - Account to unlock
+	 * @returns true if the account exists and was unlocked, false if not found
+	 */
+	async unlockAccount(accountNumber: string): Promise<boolean> {
+		const account = await this.storage.getAccount(accountNumber);
+		if (!account) {
+			return false;
+		}
+
+		await this.storage.updateAccount(accountNumber, CLEARED_LOCKOUT);
+		return true;
+	}
+
+	/**
+	 * List accounts currently locked out by failed logins
+	 * @returns Locked accounts, excluding those whose lockout has expired
+	 */
+	async listLockedAccounts(): Promise<Account[]> {
+		const now = new Date();
+		const accounts = await this.storage.listAccounts();
+		return accounts.filter(account => isLockedOut(account, now));
+	}
+}
+
+// Account fields that reset the failed-login state
+const CLEARED_LOCKOUT = {
+	failedLoginAttempts: 0,
+	lastFailedLoginAt: undefined,
+	isLocked: false,
+	lockedUntil: undefined,
+};
+
+/**
+ * Whether an account is locked out at the given time
+ */
+function isLockedOut(account: Account, now: Date): boolean {
+	if (!account.isLocked) {
+		return false;
+	}
+	return !account.lockedUntil || account.lockedUntil > now;
+}
+
+/**
+ * Whether an account carries any failed-login state worth clearing
+ */
+function hasLockoutState(account: Account): boolean {
+	return (
+		Boolean(account.failedLoginAttempts) ||
+		Boolean(account.isLocked) ||
+		account.lastFailedLoginAt !== undefined
+	);
+}
+
+/**
+ * Login result for a locked-out account
+ */
+function lockedResult(account: Account): AuthResult {
+	return {
+		success: false,
+		error: account.lockedUntil
+			? 'Account locked after too many failed attempts'
+			: 'Account locked after too many failed attempts. Contact an administrator.',
+		errorCode: AuthErrorCode.ACCOUNT_LOCKED,
+		lockedUntil: account.lockedUntil,
+	};
 }
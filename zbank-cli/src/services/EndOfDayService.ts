@@ -0,0 +1,368 @@
+import { IStorage } from './IStorage.js';
+import { ITransactionService } from './TransactionService.js';
+import {
+	COBOL_FEE_RULES,
+	FeeRules,
+	FeeService,
+	isMonthlyFee,
+} from './FeeService.js';
+import { AccountType } from '../models/Account.js';
+import {
+	Transaction,
+	TransactionType,
+	TransactionStatus,
+} from '../models/Transaction.js';
+import {
+	JournalEntry,
+	SystemAccount,
+	affectsBalances,
+	toTransactions,
+} from '../models/JournalEntry.js';
+import {
+	Clock,
+	systemClock,
+	nextBusinessDate,
+	parseBusinessDate,
+	toBusinessDate,
+	endOfBusinessDate,
+} from '../utils/clock.js';
+
+/**
+ * Annual interest rates of an account type, in basis points (1/100 of a percent)
+ */
+export interface InterestRate {
+	credit: number; // Paid on positive balances
+	overdraft: number; // Charged on negative balances
+}
+
+/**
+ * Interest rates for each account type
+ */
+export type InterestRates = Record<AccountType, InterestRate>;
+
+/**
+ * Interest rates matching the original COBOL program (which paid and
+ * charged no interest)
+ */
+export const COBOL_INTEREST_RATES: InterestRates = {
+	[AccountType.CHECKING]: { credit: 0, overdraft: 0 },
+	[AccountType.SAVINGS]: { credit: 0, overdraft: 0 },
+};
+
+/**
+ * Interest rates the application applies by default
+ */
+export const DEFAULT_INTEREST_RATES: InterestRates = {
+	[AccountType.CHECKING]: { credit: 10, overdraft: 1800 }, // 0.10% / 18.00%
+	[AccountType.SAVINGS]: { credit: 200, overdraft: 1800 }, // 2.00% / 18.00%
+};
+
+// Transaction types the batch posts
+const INTEREST_TYPES = [
+	TransactionType.INTEREST,
+	TransactionType.OVERDRAFT_INTEREST,
+];
+
+// Daily accrual is the annual rate over this many days, leap years included
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Machine-readable reason an end-of-day run was refused
+ */
+export enum EndOfDayErrorCode {
+	INVALID_BUSINESS_DATE = 'INVALID_BUSINESS_DATE',
+	BUSINESS_DATE_IN_FUTURE = 'BUSINESS_DATE_IN_FUTURE',
+}
+
+/**
+ * An account the run could not process
+ */
+export interface EndOfDayFailure {
+	accountNumber: string;
+	error: string;
+}
+
+/**
+ * Outcome of an end-of-day run
+ */
+export interface EndOfDayReport {
+	businessDate: string; // YYYY-MM-DD
+	accountsProcessed: number; // Accounts accrued through the business date by this run
+	accountsSkipped: number; // Already accrued through it, or opened after it
+	holdsExpired: number;
+	postings: Transaction[]; // INTEREST, OVERDRAFT_INTEREST and monthly FEE postings made by this run
+	failures: EndOfDayFailure[];
+}
+
+/**
+ * Result of an end-of-day run
+ */
+export interface EndOfDayResult {
+	success: boolean;
+	report?: EndOfDayReport;
+	error?: string;
+	errorCode?: EndOfDayErrorCode;
+}
+
+/**
+ * End-of-day service interface
+ */
+export interface IEndOfDayService {
+	run(businessDate?: string): Promise<EndOfDayResult>;
+}
+
+/**
+ * EndOfDayService - The nightly batch
+ *
+ * A run for a business date expires overdue holds, then accrues interest
+ * for every account on each day's closing ledger balance: the account
+ * type's credit rate on a positive balance, its overdraft rate on a
+ * negative one, each a 365th of the annual rate per day. Accruals are kept
+ * on the account in fractions of a cent. On the last day of a month the
+ * whole cents accrued are posted against SYS-INTEREST, as an INTEREST
+ * credit and an OVERDRAFT_INTEREST debit, and the fractions carry over to
+ * the next month. They are timed at the end of that last day, however late
+ * the run, so they fall in the month they belong to. Their idempotency keys
+ * are scoped to SYS-INTEREST, so no customer request can take them. The
+ * charge is the bank's own, so it is not held to transaction limits or
+ * overdraft policies. The month's fees (see FeeService) are then charged on
+ * the balance the month closed at, timed the same way.
+ *
+ * Each account records the last business date it was accrued through, and
+ * is accrued and posted in one unit of work, so running again for a date
+ * already processed changes nothing and a run that stopped part way
+ * through picks up the accounts it did not reach. A run for a later date
+ * catches up on the days in between; an account the batch has never
+ * processed starts accruing on the run's business date.
+ */
+export class EndOfDayService implements IEndOfDayService {
+	private fees: FeeService;
+
+	constructor(
+		private storage: IStorage,
+		private transactionService: ITransactionService,
+		private rates: InterestRates = COBOL_INTEREST_RATES,
+		feeRules: FeeRules = COBOL_FEE_RULES,
+		private clock: Clock = systemClock,
+	) {
+		this.fees = new FeeService(feeRules);
+	}
+
+	/**
+	 * Run the batch for a business date
+	 * @param businessDate - YYYY-MM-DD, today when omitted; not in the future
+	 * @returns EndOfDayResult with the report, or an error if the date is refused
+	 */
+	async run(businessDate?: string): Promise<EndOfDayResult> {
+		const now = this.clock.now();
+		const date = businessDate ?? toBusinessDate(now);
+		if (!parseBusinessDate(date)) {
+			return {
+				success: false,
+				error: `Invalid business date "${date}" (expected YYYY-MM-DD)`,
+				errorCode: EndOfDayErrorCode.INVALID_BUSINESS_DATE,
+			};
+		}
+		if (date > toBusinessDate(now)) {
+			return {
+				success: false,
+				error: `Business date ${date} is in the future`,
+				errorCode: EndOfDayErrorCode.BUSINESS_DATE_IN_FUTURE,
+			};
+		}
+
+		const report: EndOfDayReport = {
+			businessDate: date,
+			accountsProcessed: 0,
+			accountsSkipped: 0,
+			holdsExpired: (await this.transactionService.expireHolds(now)).length,
+			postings: [],
+			failures: [],
+		};
+
+		for (const { accountNumber } of await this.storage.listAccounts()) {
+			try {
+				const postings = await this.storage.runInTransaction(tx =>
+					this.accrue(tx, accountNumber, date),
+				);
+				if (postings) {
+					report.accountsProcessed++;
+					report.postings.push(...postings);
+				} else {
+					report.accountsSkipped++;
+				}
+			} catch (error) {
+				report.failures.push({
+					accountNumber,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+
+		return { success: true, report };
+	}
+
+	/**
+	 * Accrue one account through the business date, posting at month ends
+	 * @returns The postings made, or null if the account was skipped
+	 */
+	private async accrue(
+		tx: IStorage,
+		accountNumber: string,
+		businessDate: string,
+	): Promise<Transaction[] | null> {
+		const account = await tx.getAccount(accountNumber);
+		if (
+			!account ||
+			toBusinessDate(account.createdAt) > businessDate ||
+			(account.interestAccruedThrough !== undefined &&
+				account.interestAccruedThrough >= businessDate)
+		) {
+			return null;
+		}
+
+		const rate = this.rates[account.accountType ?? AccountType.CHECKING];
+		// Interest and monthly fees posted by earlier runs belong to months
+		// already accrued, however late the run that posted them
+		const entries = (await tx.getJournalEntries(accountNumber)).filter(
+			entry =>
+				affectsBalances(entry) &&
+				!INTEREST_TYPES.includes(entry.type) &&
+				!isMonthlyFee(entry),
+		);
+		const postings: Transaction[] = [];
+		let balance = account.balance;
+		let accrued = account.accruedInterest ?? 0;
+		let accruedOverdraft = account.accruedOverdraftInterest ?? 0;
+
+		const first =
+			account.interestAccruedThrough === undefined
+				? businessDate
+				: nextBusinessDate(account.interestAccruedThrough);
+		for (let day = first; day <= businessDate; day = nextBusinessDate(day)) {
+			// Postings made by this run are already in balance
+			const closing =
+				balance - postedAfter(entries, accountNumber, nextBusinessDate(day));
+			if (closing > 0) {
+				accrued += (closing * rate.credit) / 10000 / DAYS_PER_YEAR;
+			} else if (closing < 0) {
+				accruedOverdraft += (-closing * rate.overdraft) / 10000 / DAYS_PER_YEAR;
+			}
+
+			// Post at the end of the month
+			const month = day.slice(0, 7);
+			if (nextBusinessDate(day).startsWith(month)) {
+				continue;
+			}
+			const beforeInterest = balance;
+
+			const interest = Math.floor(accrued);
+			if (interest > 0) {
+				postings.push(
+					await postInterest(tx, TransactionType.INTEREST, {
+						accountNumber,
+						balance,
+						amount: interest,
+						description: `Interest for ${month}`,
+						idempotencyKey: `interest:${accountNumber}:${month}`,
+						timestamp: endOfBusinessDate(day),
+					}),
+				);
+				balance += interest;
+				accrued -= interest;
+			}
+
+			const charge = Math.floor(accruedOverdraft);
+			if (charge > 0) {
+				postings.push(
+					await postInterest(tx, TransactionType.OVERDRAFT_INTEREST, {
+						accountNumber,
+						balance,
+						amount: -charge,
+						description: `Overdraft interest for ${month}`,
+						idempotencyKey: `overdraft-interest:${accountNumber}:${month}`,
+						timestamp: endOfBusinessDate(day),
+					}),
+				);
+				balance -= charge;
+				accruedOverdraft -= charge;
+			}
+
+			// The month closed at its last day's balance plus the interest
+			const fees = await this.fees.chargeMonthlyFees(tx, account, month, {
+				closing: closing + balance - beforeInterest,
+				balance,
+			});
+			postings.push(...fees);
+			balance = fees.at(-1)?.balanceAfter ?? balance;
+		}
+
+		await tx.updateAccount(accountNumber, {
+			balance,
+			accruedInterest: accrued,
+			accruedOverdraftInterest: accruedOverdraft,
+			interestAccruedThrough: businessDate,
+			updatedAt: new Date(),
+		});
+		return postings;
+	}
+}
+
+/**
+ * Net amount posted to an account from the start of a business date on
+ * @param entries - The account's journal entries that move money, other
+ *   than interest
+ * @param accountNumber - The account
+ * @param from - The business date
+ * @returns Signed cents, to take off the current balance for the balance
+ *   before the date
+ */
+function postedAfter(
+	entries: JournalEntry[],
+	accountNumber: string,
+	from: string,
+): number {
+	const start = parseBusinessDate(from) ?? new Date(0);
+	return entries
+		.filter(entry => entry.timestamp >= start)
+		.flatMap(entry => entry.postings)
+		.filter(posting => posting.accountNumber === accountNumber)
+		.reduce((sum, posting) => sum + posting.amount, 0);
+}
+
+/**
+ * Post interest paid to or charged on an account
+ * @returns The customer transaction
+ */
+async function postInterest(
+	tx: IStorage,
+	type: TransactionType.INTEREST | TransactionType.OVERDRAFT_INTEREST,
+	posting: {
+		accountNumber: string;
+		balance: number; // Balance before the posting, in cents
+		amount: number; // Signed cents (negative for a charge)
+		description: string;
+		idempotencyKey: string;
+		timestamp: Date; // End of the business date it is posted for
+	},
+): Promise<Transaction> {
+	const entry = await tx.postJournalEntry({
+		type,
+		status: TransactionStatus.COMPLETED,
+		timestamp: posting.timestamp,
+		description: posting.description,
+		idempotencyKey: posting.idempotencyKey,
+		// Out of reach of customer keys, which are scoped to their accounts
+		idempotencyScope: SystemAccount.INTEREST,
+		postings: [
+			{
+				accountNumber: posting.accountNumber,
+				amount: posting.amount,
+				balanceBefore: posting.balance,
+				balanceAfter: posting.balance + posting.amount,
+			},
+			{ accountNumber: SystemAccount.INTEREST, amount: -posting.amount },
+		],
+	});
+	return toTransactions(entry)[0];
+}
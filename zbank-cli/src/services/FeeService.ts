@@ -0,0 +1,278 @@
+import { IStorage } from './IStorage.js';
+import { Account, AccountType, FeeType } from '../models/Account.js';
+import {
+	Transaction,
+	TransactionType,
+	TransactionStatus,
+} from '../models/Transaction.js';
+import {
+	JournalEntry,
+	SystemAccount,
+	toTransactions,
+} from '../models/JournalEntry.js';
+import { formatBalance } from '../utils/formatter.js';
+import { endOfBusinessDate, toBusinessDate } from '../utils/clock.js';
+
+/**
+ * Fees of an account type; a fee that is absent is not charged
+ */
+export interface FeeSchedule {
+	[FeeType.WITHDRAWAL]?: {
+		amount: number; // In cents
+		freePerMonth: number; // Withdrawals each calendar month before the fee applies
+	};
+	[FeeType.OVERDRAFT]?: {
+		amount: number; // In cents
+	};
+	[FeeType.MAINTENANCE]?: {
+		amount: number; // In cents
+		minimumBalance?: number; // Waived when the month closes at or above this (in cents)
+	};
+}
+
+/**
+ * Fees for each account type
+ */
+export type FeeRules = Record<AccountType, FeeSchedule>;
+
+/**
+ * Fee rules matching the original COBOL program (which charged no fees)
+ */
+export const COBOL_FEE_RULES: FeeRules = {
+	[AccountType.CHECKING]: {},
+	[AccountType.SAVINGS]: {},
+};
+
+/**
+ * Fee rules the application applies by default
+ */
+export const DEFAULT_FEE_RULES: FeeRules = {
+	[AccountType.CHECKING]: {
+		[FeeType.OVERDRAFT]: { amount: 3500 }, // $35.00
+		[FeeType.MAINTENANCE]: { amount: 500, minimumBalance: 150000 }, // $5.00, none from $1,500.00
+	},
+	[AccountType.SAVINGS]: {
+		[FeeType.WITHDRAWAL]: { amount: 500, freePerMonth: 6 }, // $5.00 from the 7th
+		[FeeType.OVERDRAFT]: { amount: 3500 }, // $35.00
+	},
+};
+
+// Prefix of the idempotency key a monthly maintenance fee is posted under,
+// in the SYS-FEES scope where customer keys cannot reach
+const MAINTENANCE_KEY_PREFIX = 'maintenance-fee:';
+
+/**
+ * A fee to post
+ */
+interface Charge {
+	amount: number; // In cents
+	description: string;
+	idempotencyKey?: string;
+	chargedFor?: string; // ID of the transaction that incurred it
+	timestamp?: Date; // When it is posted, if not now
+}
+
+/**
+ * Balances of an account when its monthly fees are charged
+ */
+export interface MonthEndBalances {
+	closing: number; // Balance the month closed at, in cents
+	balance: number; // Current balance the fees are posted from, in cents
+}
+
+/**
+ * Fee service interface
+ */
+export interface IFeeService {
+	chargeTransactionFees(
+		tx: IStorage,
+		transaction: Transaction,
+	): Promise<Transaction[]>;
+	chargeMonthlyFees(
+		tx: IStorage,
+		account: Account,
+		month: string,
+		balances: MonthEndBalances,
+	): Promise<Transaction[]>;
+}
+
+/**
+ * FeeService - Rule-based fee engine
+ *
+ * Fees are set per account type by FeeRules and charged as FEE entries
+ * against SYS-FEES, one per fee, each described with what it is for:
+ * - WITHDRAWAL: each withdrawal past the free ones of its calendar month
+ * - OVERDRAFT: each debit that leaves the balance below zero
+ * - MAINTENANCE: once a month, unless the month closes at or above the
+ *   minimum balance
+ *
+ * An account's feeWaivers name the fees it is never charged.
+ *
+ * The engine posts inside the caller's unit of work and leaves the account
+ * balance to the caller: TransactionService charges transaction fees after
+ * each posting, and the end-of-day batch charges monthly fees on the last
+ * day of the month. Fees are the bank's own charges, so they are not held to
+ * transaction limits or overdraft policies, and they do not incur fees
+ * themselves.
+ */
+export class FeeService implements IFeeService {
+	constructor(private rules: FeeRules = COBOL_FEE_RULES) {}
+
+	/**
+	 * Charge the fees a posted transaction incurs
+	 * @param tx - Storage of the running unit of work
+	 * @param transaction - The posted transaction
+	 * @returns The fees posted, continuing from the transaction's balance
+	 */
+	async chargeTransactionFees(
+		tx: IStorage,
+		transaction: Transaction,
+	): Promise<Transaction[]> {
+		const account = await tx.getAccount(transaction.accountNumber);
+		if (!account) {
+			return [];
+		}
+		const fees = this.feesFor(account);
+		const charges: Charge[] = [];
+
+		const withdrawalFee = fees[FeeType.WITHDRAWAL];
+		if (transaction.type === TransactionType.WITHDRAWAL && withdrawalFee) {
+			const month = toBusinessDate(transaction.timestamp).slice(0, 7);
+			const count = (
+				await tx.getTransactionHistory(account.accountNumber)
+			).filter(
+				t =>
+					t.type === TransactionType.WITHDRAWAL &&
+					t.status === TransactionStatus.COMPLETED &&
+					toBusinessDate(t.timestamp).startsWith(month),
+			).length;
+			if (count > withdrawalFee.freePerMonth) {
+				charges.push({
+					amount: withdrawalFee.amount,
+					description: `Withdrawal fee (withdrawal ${count} this month, ${withdrawalFee.freePerMonth} free)`,
+					chargedFor: transaction.id,
+				});
+			}
+		}
+
+		const overdraftFee = fees[FeeType.OVERDRAFT];
+		if (
+			overdraftFee &&
+			transaction.balanceAfter < 0 &&
+			transaction.balanceAfter < transaction.balanceBefore
+		) {
+			charges.push({
+				amount: overdraftFee.amount,
+				description: `Overdraft fee (balance ${formatBalance(transaction.balanceAfter)})`,
+				chargedFor: transaction.id,
+			});
+		}
+
+		return post(tx, account.accountNumber, transaction.balanceAfter, charges);
+	}
+
+	/**
+	 * Charge an account's monthly fees
+	 * @param tx - Storage of the running unit of work
+	 * @param account - The account
+	 * @param month - The month, as YYYY-MM
+	 * @param balances - Its balance at the close of the month and now
+	 * @returns The fees posted, continuing from the current balance, and
+	 *   timed at the end of the month's last day
+	 */
+	async chargeMonthlyFees(
+		tx: IStorage,
+		account: Account,
+		month: string,
+		{ closing, balance }: MonthEndBalances,
+	): Promise<Transaction[]> {
+		const maintenanceFee = this.feesFor(account)[FeeType.MAINTENANCE];
+		if (
+			!maintenanceFee ||
+			(maintenanceFee.minimumBalance !== undefined &&
+				closing >= maintenanceFee.minimumBalance)
+		) {
+			return [];
+		}
+
+		const [year, monthNumber] = month.split('-').map(Number);
+		const lastDay = toBusinessDate(new Date(year, monthNumber, 0));
+		return post(tx, account.accountNumber, balance, [
+			{
+				amount: maintenanceFee.amount,
+				description: `Monthly maintenance fee for ${month}`,
+				idempotencyKey: `${MAINTENANCE_KEY_PREFIX}${account.accountNumber}:${month}`,
+				timestamp: endOfBusinessDate(lastDay),
+			},
+		]);
+	}
+
+	/**
+	 * The fees of an account's type, less the ones it has waived
+	 */
+	private feesFor(account: Account): FeeSchedule {
+		const fees = { ...this.rules[account.accountType ?? AccountType.CHECKING] };
+		for (const waived of account.feeWaivers ?? []) {
+			delete fees[waived];
+		}
+		return fees;
+	}
+}
+
+/**
+ * Check whether an entry is a monthly fee charged by the end-of-day batch
+ * @param entry - The journal entry
+ */
+export function isMonthlyFee(
+	entry: Pick<JournalEntry, 'type' | 'idempotencyKey' | 'idempotencyScope'>,
+): boolean {
+	return (
+		entry.type === TransactionType.FEE &&
+		entry.idempotencyScope === SystemAccount.FEES &&
+		entry.idempotencyKey?.startsWith(MAINTENANCE_KEY_PREFIX) === true
+	);
+}
+
+/**
+ * Post fees against SYS-FEES, one entry each
+ * @param tx - Storage of the running unit of work
+ * @param accountNumber - The account charged
+ * @param balance - Its balance before the first fee, in cents
+ * @param charges - The fees
+ * @returns The customer transactions, in order
+ */
+async function post(
+	tx: IStorage,
+	accountNumber: string,
+	balance: number,
+	charges: Charge[],
+): Promise<Transaction[]> {
+	const fees: Transaction[] = [];
+	for (const charge of charges.filter(c => c.amount > 0)) {
+		const entry = await tx.postJournalEntry({
+			type: TransactionType.FEE,
+			status: TransactionStatus.COMPLETED,
+			description: charge.description,
+			...(charge.timestamp !== undefined && { timestamp: charge.timestamp }),
+			...(charge.chargedFor !== undefined && {
+				chargedFor: charge.chargedFor,
+			}),
+			...(charge.idempotencyKey !== undefined && {
+				idempotencyKey: charge.idempotencyKey,
+				idempotencyScope: SystemAccount.FEES,
+			}),
+			postings: [
+				{
+					accountNumber,
+					amount: -charge.amount,
+					balanceBefore: balance,
+					balanceAfter: balance - charge.amount,
+				},
+				{ accountNumber: SystemAccount.FEES, amount: charge.amount },
+			],
+		});
+		fees.push(...toTransactions(entry));
+		balance -= charge.amount;
+	}
+	return fees;
+}
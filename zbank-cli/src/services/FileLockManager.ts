@@ -0,0 +1,323 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Contents of a lock file
+ */
+export interface LockInfo {
+	name: string; // Locked resource (account number or 'store')
+	pid: number; // Process holding the lock
+	hostname: string; // Host of the holding process
+	lockedAt: Date; // When the lock was taken
+	stale?: boolean; // Set by list(): holder is gone, or too old to tell
+}
+
+/**
+ * Options for lock acquisition and stale-lock detection
+ */
+export interface FileLockOptions {
+	staleLockMs?: number; // Age after which a lock whose holder cannot be checked counts as stale
+	lockTimeoutMs?: number; // How long acquireWait() keeps retrying
+	retryIntervalMs?: number; // Delay between acquireWait() attempts
+}
+
+export const DEFAULT_STALE_LOCK_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const DEFAULT_RETRY_INTERVAL_MS = 20;
+
+/**
+ * FileLockManager - Advisory locks shared between processes
+ *
+ * Each lock is a file `<name>.lock` in the lock directory, created with the
+ * exclusive 'wx' flag so only one process can hold it. The file records the
+ * holder's PID, hostname and a timestamp.
+ *
+ * This gives JSON storage the same guarantee VSAM READ UPDATE gave the COBOL
+ * program: one holder per record, across every process sharing ./data.
+ *
+ * A lock is stale when its holder is a dead process on this host. A live
+ * holder on this host keeps its lock however long it takes; a lock from
+ * another host (or a half-written one) is stale once it is older than
+ * staleLockMs. Stale locks are taken over automatically on acquire.
+ *
+ * Taking over a stale lock and releasing a lock both first rename the lock
+ * file to a name only this call knows, then check it is still the lock that
+ * was read. A lock another process took in between is put back instead of
+ * being deleted, so two processes never both believe they hold a lock.
+ */
+export class FileLockManager {
+	private lockDir: string;
+	private staleLockMs: number;
+	private lockTimeoutMs: number;
+	private retryIntervalMs: number;
+
+	/**
+	 * Create a lock manager
+	 * @param lockDir - Directory holding the lock files
+	 * @param options - Timing options
+	 */
+	constructor(lockDir: string, options: FileLockOptions = {}) {
+		this.lockDir = lockDir;
+		this.staleLockMs = options.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+		this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+		this.retryIntervalMs = options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL_MS;
+	}
+
+	private lockFile(name: string): string {
+		return path.join(this.lockDir, `${name}.lock`);
+	}
+
+	/**
+	 * Try to take a lock once
+	 * @param name - Resource to lock
+	 * @returns true if acquired, false if held by a live holder
+	 */
+	async acquire(name: string): Promise<boolean> {
+		await fs.mkdir(this.lockDir, { recursive: true });
+
+		const info = {
+			name,
+			pid: process.pid,
+			hostname: os.hostname(),
+			lockedAt: new Date().toISOString(),
+		};
+
+		// Second attempt only happens after the lock was removed or released
+		for (let attempt = 0; attempt < 2; attempt++) {
+			try {
+				await fs.writeFile(this.lockFile(name), JSON.stringify(info), {
+					flag: 'wx',
+				});
+				return true;
+			} catch (error) {
+				if ((error as { code?: string }).code !== 'EEXIST') {
+					throw new Error(
+						`Failed to acquire lock ${name}: ${error instanceof Error ? error.message : String(error)}`,
+						{
+							cause: error,
+						},
+					);
+				}
+			}
+
+			const existing = await this.read(name);
+			if (!existing) {
+				continue; // Released meanwhile
+			}
+			if (!this.isStale(existing) || !(await this.claim(existing))) {
+				return false;
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Take a lock, retrying until lockTimeoutMs has passed
+	 * @param name - Resource to lock
+	 * @throws Error if the lock could not be acquired in time
+	 */
+	async acquireWait(name: string): Promise<void> {
+		const deadline = Date.now() + this.lockTimeoutMs;
+
+		while (!(await this.acquire(name))) {
+			if (Date.now() >= deadline) {
+				throw new Error(`Timed out waiting for lock ${name}`);
+			}
+			await new Promise(resolve =>
+				globalThis.setTimeout(resolve, this.retryIntervalMs),
+			);
+		}
+	}
+
+	/**
+	 * Release a lock held by this process
+	 * @param name - Resource to unlock
+	 * @returns true if released, false if not locked or held by someone else
+	 */
+	async release(name: string): Promise<boolean> {
+		const existing = await this.read(name);
+		if (
+			!existing ||
+			existing.pid !== process.pid ||
+			existing.hostname !== os.hostname()
+		) {
+			return false;
+		}
+		return this.claim(existing);
+	}
+
+	/**
+	 * List all current locks, flagging stale ones
+	 */
+	async list(): Promise<LockInfo[]> {
+		let files: string[];
+		try {
+			files = await fs.readdir(this.lockDir);
+		} catch {
+			return []; // No lock directory yet
+		}
+
+		const locks: LockInfo[] = [];
+		for (const file of files.filter(f => f.endsWith('.lock')).sort()) {
+			const name = file.slice(0, -'.lock'.length);
+			const info = await this.read(name);
+			if (info) {
+				locks.push({ ...info, stale: this.isStale(info) });
+			}
+		}
+		return locks;
+	}
+
+	/**
+	 * Forcibly remove a lock regardless of its holder
+	 * @param name - Resource to unlock
+	 * @returns true if a lock was removed
+	 */
+	async breakLock(name: string): Promise<boolean> {
+		return this.remove(name);
+	}
+
+	/**
+	 * Remove every stale lock
+	 * @returns Names of the locks that were removed
+	 */
+	async breakStaleLocks(): Promise<string[]> {
+		const broken: string[] = [];
+		for (const lock of await this.list()) {
+			if (lock.stale && (await this.claim(lock))) {
+				broken.push(lock.name);
+			}
+		}
+		return broken;
+	}
+
+	/**
+	 * Remove a lock file, provided it still holds the lock that was read
+	 *
+	 * The file is renamed away first, so no other process can replace it
+	 * between the check and the removal. If it turns out to be a newer lock
+	 * (the one read was released or taken over meanwhile), it is put back.
+	 *
+	 * @param expected - The lock as read
+	 * @returns true if that lock was removed
+	 */
+	private async claim(expected: LockInfo): Promise<boolean> {
+		const lockFile = this.lockFile(expected.name);
+		const claimed = `${lockFile}.${process.pid}.${randomUUID()}`;
+		try {
+			await fs.rename(lockFile, claimed);
+		} catch {
+			return false; // Removed by someone else first
+		}
+
+		const moved = await this.readFile(expected.name, claimed);
+		if (moved && sameLock(moved, expected)) {
+			await fs.unlink(claimed);
+			return true;
+		}
+
+		// Not the lock we read: restore it unless a new one is already there
+		try {
+			await fs.link(claimed, lockFile);
+		} catch {
+			// EEXIST: the lock was taken again meanwhile, which wins
+		}
+		await fs.unlink(claimed);
+		return false;
+	}
+
+	/**
+	 * Read a lock file
+	 *
+	 * A lock file that exists but cannot be parsed (e.g. caught between
+	 * create and write) is reported with its file time and no live holder.
+	 */
+	private async read(name: string): Promise<LockInfo | null> {
+		return this.readFile(name, this.lockFile(name));
+	}
+
+	private async readFile(name: string, file: string): Promise<LockInfo | null> {
+		let data: string;
+		try {
+			data = await fs.readFile(file, 'utf-8');
+		} catch {
+			return null;
+		}
+
+		try {
+			const parsed = JSON.parse(data);
+			return {
+				name,
+				pid: Number(parsed.pid),
+				hostname: String(parsed.hostname),
+				lockedAt: new Date(parsed.lockedAt),
+			};
+		} catch {
+			try {
+				const stats = await fs.stat(file);
+				return { name, pid: 0, hostname: '', lockedAt: stats.mtime };
+			} catch {
+				return null;
+			}
+		}
+	}
+
+	private isStale(info: LockInfo): boolean {
+		return isStaleLock(info, this.staleLockMs);
+	}
+
+	private async remove(name: string): Promise<boolean> {
+		try {
+			await fs.unlink(this.lockFile(name));
+			return true;
+		} catch {
+			return false;
+		}
+	}
+}
+
+/**
+ * Whether a lock's holder is gone
+ *
+ * PIDs are only meaningful on the host that wrote them: there the holder's
+ * liveness decides, whatever the lock's age. Locks from other hosts, and
+ * half-written ones (pid 0), can only be judged by age.
+ *
+ * @param info - The lock
+ * @param staleLockMs - Age after which an unverifiable lock is stale
+ */
+export function isStaleLock(info: LockInfo, staleLockMs: number): boolean {
+	if (info.pid !== 0 && info.hostname === os.hostname()) {
+		return !isProcessAlive(info.pid);
+	}
+
+	const age = Date.now() - info.lockedAt.getTime();
+	return Number.isNaN(age) || age > staleLockMs;
+}
+
+/**
+ * Whether two reads of a lock file are the same lock
+ */
+function sameLock(a: LockInfo, b: LockInfo): boolean {
+	return (
+		a.pid === b.pid &&
+		a.hostname === b.hostname &&
+		a.lockedAt.getTime() === b.lockedAt.getTime()
+	);
+}
+
+/**
+ * Check whether a process exists on this host
+ */
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to another user
+		return (error as { code?: string }).code === 'EPERM';
+	}
+}
@@ -1,5 +1,18 @@
 import { Account, CreateAccount, UpdateAccount } from '../models/Account';
-import { Transaction, CreateTransaction } from '../models/Transaction';
+import {
+	Transaction,
+	CreateTransaction,
+	TransactionStatus,
+} from '../models/Transaction';
+import { JournalEntry, CreateJournalEntry } from '../models/JournalEntry';
+import {
+	Schedule,
+	CreateSchedule,
+	UpdateSchedule,
+	ScheduleRun,
+	CreateScheduleRun,
+} from '../models/Schedule';
+import { Statement } from '../models/Statement';
 
 /**
  * Storage interface abstraction for account and transaction operations
@@ -49,10 +62,60 @@ export interface IStorage {
 	 */
 	listAccounts(): Promise<Account[]>;
 
-	// Transaction operations
+	// Ledger operations
 
 	/**
-	 * Add a new transaction
+	 * Post a journal entry
+	 * @param entry - Entry data (without IDs and timestamp)
+	 * @returns The posted entry with IDs and timestamp
+	 * @throws Error if the postings are invalid or do not sum to zero, or the
+	 *   idempotency key has already been used in its scope
+	 */
+	postJournalEntry(entry: CreateJournalEntry): Promise<JournalEntry>;
+
+	/**
+	 * Get journal entries in the order they were posted
+	 * @param accountNumber - Only entries with a posting to this ledger account
+	 *   (customer account number or SystemAccount); all entries when omitted
+	 * @returns Array of journal entries, oldest first
+	 */
+	getJournalEntries(accountNumber?: string): Promise<JournalEntry[]>;
+
+	/**
+	 * Find the journal entry posted with an idempotency key
+	 * @param idempotencyScope - Ledger account the key belongs to
+	 * @param idempotencyKey - The key
+	 * @returns The entry if found, null otherwise
+	 */
+	getJournalEntryByIdempotencyKey(
+		idempotencyScope: string,
+		idempotencyKey: string,
+	): Promise<JournalEntry | null>;
+
+	/**
+	 * Change the status of a posted journal entry
+	 *
+	 * The only change ever made to a posted entry: its postings stay as
+	 * written (e.g. an entry undone by a reversal becomes REVERSED).
+	 *
+	 * @param id - The journal entry ID
+	 * @param status - The new status
+	 * @returns The updated entry
+	 * @throws Error if the entry is not found
+	 */
+	updateJournalEntryStatus(
+		id: string,
+		status: TransactionStatus,
+	): Promise<JournalEntry>;
+
+	// Transaction operations (a view of the ledger)
+
+	/**
+	 * Add a single-sided transaction
+	 *
+	 * Posted as a journal entry balanced against the matching system account
+	 * (see journalEntryFromTransaction).
+	 *
 	 * @param transaction - Transaction data (without ID and timestamp)
 	 * @returns The created transaction with ID and timestamp
 	 */
@@ -60,6 +123,9 @@ export interface IStorage {
 
 	/**
 	 * Get transaction history for an account
+	 *
+	 * One Transaction per posting to the account (see toTransactions).
+	 *
 	 * @param accountNumber - The account number
 	 * @param limit - Optional limit on number of transactions (most recent first)
 	 * @returns Array of transactions for the account
@@ -69,6 +135,91 @@ export interface IStorage {
 		limit?: number,
 	): Promise<Transaction[]>;
 
+	// Schedule operations (standing orders and their runs)
+
+	/**
+	 * Add a schedule
+	 * @param schedule - Schedule data (without ID, progress and timestamps)
+	 * @returns The created schedule, active and not yet run
+	 * @throws Error if the schedule is invalid
+	 */
+	addSchedule(schedule: CreateSchedule): Promise<Schedule>;
+
+	/**
+	 * Retrieve a schedule by ID
+	 * @param id - The schedule ID
+	 * @returns The schedule if found, null otherwise
+	 */
+	getSchedule(id: string): Promise<Schedule | null>;
+
+	/**
+	 * List schedules in the order they were created
+	 * @param accountNumber - Only schedules paying from or to this account;
+	 *   all schedules when omitted
+	 * @returns Array of schedules, cancelled ones included
+	 */
+	listSchedules(accountNumber?: string): Promise<Schedule[]>;
+
+	/**
+	 * Record a schedule's progress or cancel it
+	 * @param id - The schedule ID
+	 * @param updates - New run count and/or active flag
+	 * @returns The updated schedule
+	 * @throws Error if the schedule is not found
+	 */
+	updateSchedule(id: string, updates: UpdateSchedule): Promise<Schedule>;
+
+	/**
+	 * Record one execution of a schedule
+	 * @param run - Run data (without ID)
+	 * @returns The recorded run with its ID
+	 */
+	addScheduleRun(run: CreateScheduleRun): Promise<ScheduleRun>;
+
+	/**
+	 * Get recorded schedule runs in the order they ran
+	 * @param scheduleId - Only runs of this schedule; all runs when omitted
+	 * @returns Array of runs, oldest first
+	 */
+	getScheduleRuns(scheduleId?: string): Promise<ScheduleRun[]>;
+
+	// Statement operations (closed monthly statements)
+
+	/**
+	 * Save a closed statement
+	 * @param statement - The statement to freeze
+	 * @returns The saved statement
+	 * @throws Error if the statement is invalid or one is already saved for
+	 *   the account and period
+	 */
+	saveStatement(statement: Statement): Promise<Statement>;
+
+	/**
+	 * Retrieve a saved statement
+	 * @param accountNumber - The account number
+	 * @param period - The month (YYYY-MM)
+	 * @returns The statement if saved, null otherwise
+	 */
+	getStatement(
+		accountNumber: string,
+		period: string,
+	): Promise<Statement | null>;
+
+	// Unit of work
+
+	/**
+	 * Run several storage operations as one atomic unit of work
+	 *
+	 * Reads and writes made through `tx` see each other, but nothing is
+	 * persisted until `fn` resolves. If `fn` rejects, every write is discarded.
+	 * Balance updates and their transaction records therefore always land
+	 * together or not at all.
+	 *
+	 * @param fn - Callback performing the work through the transactional view
+	 * @returns The value resolved by `fn`
+	 */
+	runInTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+
 	// Locking for concurrent access (similar to VSAM UPDATE lock)
 
 	/**
@@ -0,0 +1,295 @@
+import { IStorage } from './IStorage.js';
+import { Account } from '../models/Account.js';
+import {
+	Transaction,
+	TransactionType,
+	TransactionStatus,
+} from '../models/Transaction.js';
+import {
+	JournalEntry,
+	Posting,
+	SystemAccount,
+	affectsBalances,
+	isSystemAccount,
+	toTransactions,
+} from '../models/JournalEntry.js';
+import { formatBalance } from '../utils/formatter.js';
+
+/**
+ * Kind of inconsistency found in an account's history
+ */
+export enum IntegrityIssueType {
+	GAP = 'GAP', // balanceBefore does not continue from the previous balanceAfter
+	FORK = 'FORK', // Two postings made from the same balance (a lost update)
+	SNAPSHOT_MISMATCH = 'SNAPSHOT_MISMATCH', // balanceAfter is not balanceBefore + amount
+	BALANCE_MISMATCH = 'BALANCE_MISMATCH', // Account.balance differs from the sum of its postings
+	ORPHANED_TRANSACTION = 'ORPHANED_TRANSACTION', // Posting for an account that no longer exists
+}
+
+/**
+ * One inconsistency
+ */
+export interface IntegrityIssue {
+	type: IntegrityIssueType;
+	accountNumber: string;
+	transactionId?: string; // Posting the issue was found at (none for BALANCE_MISMATCH)
+	expected?: number; // In cents
+	actual?: number; // In cents
+	message: string;
+	corrected: boolean; // A later correction entry accounts for it
+}
+
+/**
+ * Outcome of a verification run
+ */
+export interface IntegrityReport {
+	checkedAt: Date;
+	accountsChecked: number; // Customer accounts, including deleted ones with history
+	transactionsChecked: number; // Customer postings replayed
+	issues: IntegrityIssue[];
+	corrections: Transaction[]; // Correction postings written by this run (repair only)
+	valid: boolean; // No uncorrected issues
+}
+
+/**
+ * Integrity service interface
+ */
+export interface IIntegrityService {
+	verify(): Promise<IntegrityReport>;
+	repair(): Promise<IntegrityReport>;
+}
+
+/**
+ * IntegrityService - Replays account histories against the stored balances
+ *
+ * Every customer posting records the balance before and after it, so the
+ * history of an account can be checked on its own and against
+ * Account.balance:
+ * - balanceAfter must be balanceBefore + amount (SNAPSHOT_MISMATCH)
+ * - balanceBefore must continue from the previous balanceAfter, or from
+ *   zero for the first posting (GAP, or FORK when it repeats the previous
+ *   balanceBefore)
+ * - the postings must sum to Account.balance (BALANCE_MISMATCH); a balance
+ *   without postings counts as a mismatch too
+ * - postings must belong to an existing account (ORPHANED_TRANSACTION)
+ *
+ * Holds do not move money and are not replayed.
+ *
+ * Repair never edits stored records. For each account whose replayed
+ * balance differs from Account.balance (or from zero, for a deleted account)
+ * it posts an ADJUSTMENT entry against SYS-SUSPENSE for the difference, so
+ * the history adds up to the balance the customer sees and the suspense
+ * account shows what is left to investigate. A correction continues from the
+ * replayed balance and marks the issues before it as corrected.
+ */
+export class IntegrityService implements IIntegrityService {
+	constructor(private storage: IStorage) {}
+
+	/**
+	 * Check every account's history
+	 * @returns The issues found (nothing is written)
+	 */
+	async verify(): Promise<IntegrityReport> {
+		return replayLedger(
+			await this.storage.listAccounts(),
+			await this.storage.getJournalEntries(),
+		).report;
+	}
+
+	/**
+	 * Post correction entries for every balance difference
+	 *
+	 * Checks and corrects in one unit of work, so no transaction can slip in
+	 * between, then verifies again.
+	 *
+	 * @returns The report after the corrections, listing what was posted
+	 * @throws Error if the corrections could not be written
+	 */
+	async repair(): Promise<IntegrityReport> {
+		const corrections = await this.storage.runInTransaction(async tx => {
+			const { differences } = replayLedger(
+				await tx.listAccounts(),
+				await tx.getJournalEntries(),
+			);
+
+			const posted: Transaction[] = [];
+			for (const { accountNumber, replayed, target } of differences) {
+				const entry = await tx.postJournalEntry({
+					type: TransactionType.ADJUSTMENT,
+					status: TransactionStatus.COMPLETED,
+					description: `Integrity correction: history adds up to ${formatBalance(replayed)}, balance is ${formatBalance(target)}`,
+					postings: [
+						{
+							accountNumber,
+							amount: target - replayed,
+							balanceBefore: replayed,
+							balanceAfter: target,
+						},
+						{
+							accountNumber: SystemAccount.SUSPENSE,
+							amount: replayed - target,
+						},
+					],
+				});
+				posted.push(...toTransactions(entry));
+			}
+			return posted;
+		});
+
+		return { ...(await this.verify()), corrections };
+	}
+}
+
+/**
+ * An account whose history does not add up to its balance
+ */
+interface BalanceDifference {
+	accountNumber: string;
+	replayed: number; // What the history adds up to
+	target: number; // Account.balance, or 0 for a deleted account
+}
+
+/**
+ * Replay every customer account and collect issues
+ */
+function replayLedger(
+	accounts: Account[],
+	entries: JournalEntry[],
+): { report: IntegrityReport; differences: BalanceDifference[] } {
+	// Customer postings per account, in the order they were written
+	const histories = new Map<
+		string,
+		{ entry: JournalEntry; posting: Posting }[]
+	>();
+	for (const entry of entries.filter(affectsBalances)) {
+		for (const posting of entry.postings) {
+			if (isSystemAccount(posting.accountNumber)) {
+				continue;
+			}
+			const history = histories.get(posting.accountNumber) ?? [];
+			history.push({ entry, posting });
+			histories.set(posting.accountNumber, history);
+		}
+	}
+
+	const balances = new Map(
+		accounts.map(account => [account.accountNumber, account.balance]),
+	);
+	const issues: IntegrityIssue[] = [];
+	const differences: BalanceDifference[] = [];
+	let transactionsChecked = 0;
+
+	const accountNumbers = new Set([...histories.keys(), ...balances.keys()]);
+
+	for (const accountNumber of accountNumbers) {
+		const history = histories.get(accountNumber) ?? [];
+		const stored = balances.get(accountNumber);
+		const accountIssues: { index: number; issue: IntegrityIssue }[] = [];
+		// Balances come from postings alone, so every account starts at zero
+		let replayed = 0;
+		let lastCorrection = -1;
+
+		history.forEach(({ entry, posting }, index) => {
+			const before = posting.balanceBefore ?? 0;
+			const after = posting.balanceAfter ?? 0;
+			const previous = history[index - 1]?.posting;
+			const add = (
+				issue: Omit<IntegrityIssue, 'accountNumber' | 'corrected'>,
+			) =>
+				accountIssues.push({
+					index,
+					issue: {
+						accountNumber,
+						transactionId: posting.id,
+						...issue,
+						corrected: false,
+					},
+				});
+
+			// A correction on a deleted account is what closes it out
+			const correction = entry.type === TransactionType.ADJUSTMENT;
+
+			if (stored === undefined && !correction) {
+				add({
+					type: IntegrityIssueType.ORPHANED_TRANSACTION,
+					message: `Transaction ${posting.id} belongs to deleted account ${accountNumber}`,
+				});
+			}
+
+			if (correction) {
+				// Corrections continue from the replayed balance they reconcile
+				lastCorrection = index;
+				if (before !== replayed) {
+					add({
+						type: IntegrityIssueType.GAP,
+						expected: replayed,
+						actual: before,
+						message: `Correction ${posting.id} starts at ${formatBalance(before)}, history adds up to ${formatBalance(replayed)}`,
+					});
+				}
+			} else if (!previous && before !== 0) {
+				add({
+					type: IntegrityIssueType.GAP,
+					expected: 0,
+					actual: before,
+					message: `Transaction ${posting.id} is the first for the account but starts at ${formatBalance(before)}`,
+				});
+			} else if (previous && before !== (previous.balanceAfter ?? 0)) {
+				const forked = before === (previous.balanceBefore ?? 0);
+				add({
+					type: forked ? IntegrityIssueType.FORK : IntegrityIssueType.GAP,
+					expected: previous.balanceAfter ?? 0,
+					actual: before,
+					message: forked
+						? `Transaction ${posting.id} was made from the same balance (${formatBalance(before)}) as ${previous.id}`
+						: `Transaction ${posting.id} starts at ${formatBalance(before)}, previous transaction ended at ${formatBalance(previous.balanceAfter ?? 0)}`,
+				});
+			}
+
+			if (after !== before + posting.amount) {
+				add({
+					type: IntegrityIssueType.SNAPSHOT_MISMATCH,
+					expected: before + posting.amount,
+					actual: after,
+					message: `Transaction ${posting.id} ends at ${formatBalance(after)}, expected ${formatBalance(before + posting.amount)}`,
+				});
+			}
+
+			replayed += posting.amount;
+			transactionsChecked++;
+		});
+
+		for (const { index, issue } of accountIssues) {
+			issues.push({ ...issue, corrected: index < lastCorrection });
+		}
+
+		const target = stored ?? 0;
+		if (replayed !== target) {
+			differences.push({ accountNumber, replayed, target });
+			if (stored !== undefined) {
+				issues.push({
+					type: IntegrityIssueType.BALANCE_MISMATCH,
+					accountNumber,
+					expected: replayed,
+					actual: stored,
+					message: `Account ${accountNumber} has balance ${formatBalance(stored)}, its postings add up to ${formatBalance(replayed)}`,
+					corrected: false,
+				});
+			}
+		}
+	}
+
+	const accountsChecked = accountNumbers.size;
+
+	return {
+		report: {
+			checkedAt: new Date(),
+			accountsChecked,
+			transactionsChecked,
+			issues,
+			corrections: [],
+			valid: issues.every(issue => issue.corrected),
+		},
+		differences,
+	};
+}
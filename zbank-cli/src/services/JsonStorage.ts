@@ -1,7 +1,7 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { v4 as uuidv4 } from 'uuid';
 import { IStorage } from './IStorage';
+import { FileLockManager, FileLockOptions, LockInfo } from './FileLockManager';
 import {
 	Account,
 	CreateAccount,
@@ -12,30 +12,137 @@ import {
 	Transaction,
 	CreateTransaction,
 	TransactionSchema,
+	TransactionStatus,
 } from '../models/Transaction';
+import {
+	JournalEntry,
+	CreateJournalEntry,
+	JournalEntrySchema,
+	createJournalEntry,
+	journalEntryFromTransaction,
+	journalEntriesFromTransactions,
+	legacyIdempotencyScope,
+	toTransactions,
+} from '../models/JournalEntry';
+import {
+	Schedule,
+	CreateSchedule,
+	UpdateSchedule,
+	ScheduleRun,
+	CreateScheduleRun,
+	ScheduleSchema,
+	ScheduleRunSchema,
+	createSchedule,
+	createScheduleRun,
+} from '../models/Schedule';
+import { Statement, StatementSchema } from '../models/Statement';
+
+/**
+ * Contents of schedules.json
+ */
+interface ScheduleBook {
+	schedules: Schedule[];
+	runs: ScheduleRun[];
+}
+
+/**
+ * Pending writes of a unit of work, held in memory until commit
+ */
+interface StagedChanges {
+	accounts: Map<string, Account>;
+	entries: JournalEntry[];
+	schedules: ScheduleBook;
+	statements: Statement[];
+	dirty: boolean;
+}
+
+// Lock name guarding the data files themselves (account numbers are digits)
+const STORE_LOCK = 'store';
+
+// Account fields stored as ISO date strings
+const ACCOUNT_DATE_FIELDS = new Set([
+	'createdAt',
+	'updatedAt',
+	'lastFailedLoginAt',
+	'lockedUntil',
+]);
+
+// Schedule and run fields stored as ISO date strings
+const SCHEDULE_DATE_FIELDS = new Set([
+	'startAt',
+	'endAt',
+	'createdAt',
+	'updatedAt',
+	'dueAt',
+	'ranAt',
+]);
 
 /**
  * JSON-based storage implementation with file locking
  *
- * Stores data in JSON files with atomic write operations
- * Implements simple in-memory locking for concurrent access
+ * Stores data in JSON files with atomic write operations: accounts.json and
+ * the ledger (journal entries with their postings) in ledger.json, and
+ * standing orders with their runs in schedules.json, and closed statements
+ * in statements.json.
+ * Uses lock files in <dataDir>/locks so several processes can share one data
+ * directory: account locks behave like VSAM READ UPDATE, and a store-wide
+ * lock serializes commits so no process overwrites another's changes.
+ *
+ * Units of work (runInTransaction) are committed through a journal file:
+ * the combined new state is written to journal.json first, then applied to
+ * the data files, then the journal is removed. A journal left behind by a
+ * crash is rolled forward on the next load, so the data files can never stay
+ * out of step.
+ *
+ * A transactions.json from before the ledger is converted to ledger.json on
+ * initialize() and kept as transactions.legacy.json.
  */
 export class JsonStorage implements IStorage {
+	private dataDir: string;
 	private accountsFile: string;
-	private transactionsFile: string;
-	private locks: Set<string> = new Set();
+	private ledgerFile: string;
+	private schedulesFile: string;
+	private statementsFile: string;
+	private legacyTransactionsFile: string;
+	private journalFile: string;
+	private lockManager: FileLockManager;
+	private holdsStoreLock = false;
+	private committing = false;
+	private recovery: Promise<void> | null = null;
 
-	// In-memory caches
+	// In-memory caches, dropped when another process changes the file
 	private accountsCache: Map<string, Account> | null = null;
-	private transactionsCache: Transaction[] | null = null;
+	private accountsVersion = '';
+	private ledgerCache: JournalEntry[] | null = null;
+	private ledgerVersion = '';
+	private schedulesCache: ScheduleBook | null = null;
+	private schedulesVersion = '';
+	private statementsCache: Statement[] | null = null;
+	private statementsVersion = '';
+
+	// Set on the transactional view handed to runInTransaction callbacks
+	private staged: StagedChanges | null = null;
+
+	// Serializes units of work within this process
+	private commitQueue: Promise<void> = Promise.resolve();
 
 	/**
 	 * Create a new JSON storage instance
 	 * @param dataDir - Directory to store JSON files (defaults to ./data)
+	 * @param lockOptions - Stale-lock and lock-wait timing
 	 */
-	constructor(dataDir: string = './data') {
+	constructor(dataDir: string = './data', lockOptions: FileLockOptions = {}) {
+		this.dataDir = dataDir;
 		this.accountsFile = path.join(dataDir, 'accounts.json');
-		this.transactionsFile = path.join(dataDir, 'transactions.json');
+		this.ledgerFile = path.join(dataDir, 'ledger.json');
+		this.schedulesFile = path.join(dataDir, 'schedules.json');
+		this.statementsFile = path.join(dataDir, 'statements.json');
+		this.legacyTransactionsFile = path.join(dataDir, 'transactions.json');
+		this.journalFile = path.join(dataDir, 'journal.json');
+		this.lockManager = new FileLockManager(
+			path.join(dataDir, 'locks'),
+			lockOptions,
+		);
 	}
 
 	/**
@@ -58,40 +165,210 @@ export class JsonStorage implements IStorage {
 			await this.saveAccounts({});
 		}
 
-		// Initialize transactions file if it doesn't exist
+		// Initialize the ledger if it doesn't exist
+		try {
+			await fs.access(this.ledgerFile);
+		} catch {
+			await this.createLedger();
+		}
+
+		// Initialize schedules file if it doesn't exist
+		try {
+			await fs.access(this.schedulesFile);
+		} catch {
+			await this.saveSchedules({ schedules: [], runs: [] });
+		}
+
+		// Initialize statements file if it doesn't exist
 		try {
-			await fs.access(this.transactionsFile);
+			await fs.access(this.statementsFile);
 		} catch {
-			await this.saveTransactions([]);
+			await this.saveStatements([]);
+		}
+
+		// Finish any unit of work interrupted by a crash
+		await this.recoverJournal();
+	}
+
+	/**
+	 * Parse accounts JSON, reviving dates and validating each record
+	 */
+	private parseAccounts(data: string): Map<string, Account> {
+		const accountsObj = JSON.parse(data, (key, value) => {
+			// Convert ISO date strings back to Date objects
+			if (ACCOUNT_DATE_FIELDS.has(key)) {
+				return new Date(value);
+			}
+			return value;
+		});
+
+		const accounts = new Map<string, Account>();
+		for (const [accountNumber, account] of Object.entries(accountsObj)) {
+			// Validate account data
+			const validated = AccountSchema.parse(account);
+			accounts.set(accountNumber, validated);
+		}
+		return accounts;
+	}
+
+	/**
+	 * Create ledger.json, converting transactions.json if there is one
+	 *
+	 * Accounts already in accounts.json get their opening balances posted
+	 * (see journalEntriesFromTransactions).
+	 *
+	 * Runs under the store lock so two processes cannot both convert.
+	 */
+	private async createLedger(): Promise<void> {
+		await this.lockManager.acquireWait(STORE_LOCK);
+		try {
+			try {
+				await fs.access(this.ledgerFile);
+				return; // Created by another process meanwhile
+			} catch {
+				// Still missing
+			}
+
+			let accountsData: string | null = null;
+			try {
+				accountsData = await fs.readFile(this.accountsFile, 'utf-8');
+			} catch {
+				// No accounts yet
+			}
+			const accounts = accountsData
+				? Array.from(this.parseAccounts(accountsData).values())
+				: [];
+
+			let legacy: string;
+			try {
+				legacy = await fs.readFile(this.legacyTransactionsFile, 'utf-8');
+			} catch {
+				// Accounts from before the ledger still get their opening balances
+				await this.saveLedger(journalEntriesFromTransactions([], accounts));
+				return;
+			}
+
+			await this.saveLedger(
+				journalEntriesFromTransactions(
+					this.parseTransactions(legacy),
+					accounts,
+				),
+			);
+			await fs.rename(
+				this.legacyTransactionsFile,
+				path.join(this.dataDir, 'transactions.legacy.json'),
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to create ledger: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		} finally {
+			await this.lockManager.release(STORE_LOCK);
+		}
+	}
+
+	/**
+	 * Parse ledger JSON, reviving dates and validating each entry
+	 */
+	private parseLedger(data: string): JournalEntry[] {
+		const entriesArray = JSON.parse(data, (key, value) => {
+			// Convert ISO date strings back to Date objects
+			if (key === 'timestamp' || key === 'expiresAt') {
+				return new Date(value);
+			}
+			return value;
+		});
+
+		const entries: JournalEntry[] = [];
+		for (const entry of entriesArray) {
+			// Validate entry data (including that its postings balance)
+			const parsed = JournalEntrySchema.parse(entry);
+			// Keys stored before they were scoped
+			if (
+				parsed.idempotencyKey !== undefined &&
+				parsed.idempotencyScope === undefined
+			) {
+				parsed.idempotencyScope = legacyIdempotencyScope(parsed);
+			}
+			entries.push(parsed);
+		}
+		return entries;
+	}
+
+	/**
+	 * Parse schedules JSON, reviving dates and validating each record
+	 */
+	private parseSchedules(data: string): ScheduleBook {
+		const book = JSON.parse(data, (key, value) => {
+			// Convert ISO date strings back to Date objects
+			if (SCHEDULE_DATE_FIELDS.has(key)) {
+				return new Date(value);
+			}
+			return value;
+		});
+
+		return {
+			schedules: book.schedules.map((schedule: unknown) =>
+				ScheduleSchema.parse(schedule),
+			),
+			runs: book.runs.map((run: unknown) => ScheduleRunSchema.parse(run)),
+		};
+	}
+
+	/**
+	 * Parse statements JSON, validating each record (the schema revives dates)
+	 */
+	private parseStatements(data: string): Statement[] {
+		return JSON.parse(data).map((statement: unknown) =>
+			StatementSchema.parse(statement),
+		);
+	}
+
+	/**
+	 * Parse pre-ledger transactions JSON, reviving dates and validating each record
+	 */
+	private parseTransactions(data: string): Transaction[] {
+		const transactionsArray = JSON.parse(data, (key, value) => {
+			// Convert ISO date strings back to Date objects
+			if (key === 'timestamp') {
+				return new Date(value);
+			}
+			return value;
+		});
+
+		const transactions: Transaction[] = [];
+		for (const transaction of transactionsArray) {
+			// Validate transaction data
+			const validated = TransactionSchema.parse(transaction);
+			transactions.push(validated);
 		}
+		return transactions;
 	}
 
 	/**
 	 * Load accounts from JSON file
 	 */
 	private async loadAccounts(): Promise<Map<string, Account>> {
-		if (this.accountsCache) {
+		if (this.staged) {
+			return this.staged.accounts;
+		}
+
+		const version = await this.fileVersion(this.accountsFile);
+		if (this.accountsCache && version === this.accountsVersion) {
 			return this.accountsCache;
 		}
 
+		await this.recoverJournal();
+
 		try {
 			const data = await fs.readFile(this.accountsFile, 'utf-8');
-			const accountsObj = JSON.parse(data, (key, value) => {
-				// Convert ISO date strings back to Date objects
-				if (key === 'createdAt' || key === 'updatedAt') {
-					return new Date(value);
-				}
-				return value;
-			});
-
-			const accounts = new Map<string, Account>();
-			for (const [accountNumber, account] of Object.entries(accountsObj)) {
-				// Validate account data
-				const validated = AccountSchema.parse(account);
-				accounts.set(accountNumber, validated);
-			}
+			const accounts = this.parseAccounts(data);
 
 			this.accountsCache = accounts;
+			this.accountsVersion = version;
 			return accounts;
 		} catch (error) {
 			throw new Error(
@@ -109,6 +386,13 @@ export class JsonStorage implements IStorage {
 	private async saveAccounts(
 		accounts: Record<string, Account> | Map<string, Account>,
 	): Promise<void> {
+		if (this.staged) {
+			this.staged.accounts =
+				accounts instanceof Map ? accounts : new Map(Object.entries(accounts));
+			this.staged.dirty = true;
+			return;
+		}
+
 		const accountsObj: Record<string, Account> = {};
 
 		if (accounts instanceof Map) {
@@ -151,35 +435,180 @@ export class JsonStorage implements IStorage {
 	}
 
 	/**
-	 * Load transactions from JSON file
+	 * Load journal entries from the ledger file
 	 */
-	private async loadTransactions(): Promise<Transaction[]> {
-		if (this.transactionsCache) {
-			return this.transactionsCache;
+	private async loadLedger(): Promise<JournalEntry[]> {
+		if (this.staged) {
+			return this.staged.entries;
+		}
+
+		const version = await this.fileVersion(this.ledgerFile);
+		if (this.ledgerCache && version === this.ledgerVersion) {
+			return this.ledgerCache;
 		}
 
+		await this.recoverJournal();
+
 		try {
-			const data = await fs.readFile(this.transactionsFile, 'utf-8');
-			const transactionsArray = JSON.parse(data, (key, value) => {
-				// Convert ISO date strings back to Date objects
-				if (key === 'timestamp') {
-					return new Date(value);
-				}
-				return value;
-			});
+			const data = await fs.readFile(this.ledgerFile, 'utf-8');
+			const entries = this.parseLedger(data);
+
+			this.ledgerCache = entries;
+			this.ledgerVersion = version;
+			return entries;
+		} catch (error) {
+			throw new Error(
+				`Failed to load ledger: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Save journal entries to the ledger file atomically
+	 */
+	private async saveLedger(entries: JournalEntry[]): Promise<void> {
+		if (this.staged) {
+			this.staged.entries = entries;
+			this.staged.dirty = true;
+			return;
+		}
+
+		const tempFile = `${this.ledgerFile}.tmp`;
+
+		try {
+			// Write to temporary file first
+			await fs.writeFile(tempFile, JSON.stringify(entries, null, 2), 'utf-8');
+
+			// Atomic rename
+			await fs.rename(tempFile, this.ledgerFile);
+
+			// Invalidate cache
+			this.ledgerCache = null;
+		} catch (error) {
+			// Clean up temp file if it exists
+			try {
+				await fs.unlink(tempFile);
+			} catch {
+				// Ignore cleanup errors
+			}
+			throw new Error(
+				`Failed to save ledger: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Load schedules and their runs from the schedules file
+	 */
+	private async loadSchedules(): Promise<ScheduleBook> {
+		if (this.staged) {
+			return this.staged.schedules;
+		}
+
+		const version = await this.fileVersion(this.schedulesFile);
+		if (this.schedulesCache && version === this.schedulesVersion) {
+			return this.schedulesCache;
+		}
+
+		await this.recoverJournal();
+
+		try {
+			let data: string;
+			try {
+				data = await fs.readFile(this.schedulesFile, 'utf-8');
+			} catch {
+				// Data directory from before schedules
+				return { schedules: [], runs: [] };
+			}
+			const book = this.parseSchedules(data);
+
+			this.schedulesCache = book;
+			this.schedulesVersion = version;
+			return book;
+		} catch (error) {
+			throw new Error(
+				`Failed to load schedules: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Save schedules and their runs to the schedules file atomically
+	 */
+	private async saveSchedules(book: ScheduleBook): Promise<void> {
+		if (this.staged) {
+			this.staged.schedules = book;
+			this.staged.dirty = true;
+			return;
+		}
+
+		const tempFile = `${this.schedulesFile}.tmp`;
+
+		try {
+			// Write to temporary file first
+			await fs.writeFile(tempFile, JSON.stringify(book, null, 2), 'utf-8');
+
+			// Atomic rename
+			await fs.rename(tempFile, this.schedulesFile);
+
+			// Invalidate cache
+			this.schedulesCache = null;
+		} catch (error) {
+			// Clean up temp file if it exists
+			try {
+				await fs.unlink(tempFile);
+			} catch {
+				// Ignore cleanup errors
+			}
+			throw new Error(
+				`Failed to save schedules: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Load closed statements from the statements file
+	 */
+	private async loadStatements(): Promise<Statement[]> {
+		if (this.staged) {
+			return this.staged.statements;
+		}
+
+		const version = await this.fileVersion(this.statementsFile);
+		if (this.statementsCache && version === this.statementsVersion) {
+			return this.statementsCache;
+		}
+
+		await this.recoverJournal();
 
-			const transactions: Transaction[] = [];
-			for (const transaction of transactionsArray) {
-				// Validate transaction data
-				const validated = TransactionSchema.parse(transaction);
-				transactions.push(validated);
+		try {
+			let data: string;
+			try {
+				data = await fs.readFile(this.statementsFile, 'utf-8');
+			} catch {
+				// Data directory from before statements
+				return [];
 			}
+			const statements = this.parseStatements(data);
 
-			this.transactionsCache = transactions;
-			return transactions;
+			this.statementsCache = statements;
+			this.statementsVersion = version;
+			return statements;
 		} catch (error) {
 			throw new Error(
-				`Failed to load transactions: ${error instanceof Error ? error.message : String(error)}`,
+				`Failed to load statements: ${error instanceof Error ? error.message : String(error)}`,
 				{
 					cause: error,
 				},
@@ -188,24 +617,30 @@ export class JsonStorage implements IStorage {
 	}
 
 	/**
-	 * Save transactions to JSON file atomically
+	 * Save closed statements to the statements file atomically
 	 */
-	private async saveTransactions(transactions: Transaction[]): Promise<void> {
-		const tempFile = `${this.transactionsFile}.tmp`;
+	private async saveStatements(statements: Statement[]): Promise<void> {
+		if (this.staged) {
+			this.staged.statements = statements;
+			this.staged.dirty = true;
+			return;
+		}
+
+		const tempFile = `${this.statementsFile}.tmp`;
 
 		try {
 			// Write to temporary file first
 			await fs.writeFile(
 				tempFile,
-				JSON.stringify(transactions, null, 2),
+				JSON.stringify(statements, null, 2),
 				'utf-8',
 			);
 
 			// Atomic rename
-			await fs.rename(tempFile, this.transactionsFile);
+			await fs.rename(tempFile, this.statementsFile);
 
 			// Invalidate cache
-			this.transactionsCache = null;
+			this.statementsCache = null;
 		} catch (error) {
 			// Clean up temp file if it exists
 			try {
@@ -214,12 +649,167 @@ export class JsonStorage implements IStorage {
 				// Ignore cleanup errors
 			}
 			throw new Error(
-				`Failed to save transactions: ${error instanceof Error ? error.message : String(error)}`,
+				`Failed to save statements: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Identify the current version of a data file
+	 *
+	 * Every save renames a fresh file into place, so the inode changes even
+	 * when two writes land within the same mtime tick.
+	 */
+	private async fileVersion(file: string): Promise<string> {
+		try {
+			const stats = await fs.stat(file);
+			return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+		} catch {
+			return '';
+		}
+	}
+
+	/**
+	 * Roll forward a journal left behind by an interrupted commit
+	 *
+	 * Runs under the store lock so it cannot race a commit in progress
+	 * in another process.
+	 */
+	private async recoverJournal(): Promise<void> {
+		try {
+			await fs.access(this.journalFile);
+		} catch {
+			return; // No journal - nothing to recover
+		}
+
+		// Our own commit is writing the journal out right now
+		if (this.committing) {
+			return;
+		}
+
+		if (!this.recovery) {
+			this.recovery = this.recoverUnderLock().finally(() => {
+				this.recovery = null;
+			});
+		}
+		return this.recovery;
+	}
+
+	private async recoverUnderLock(): Promise<void> {
+		if (this.holdsStoreLock) {
+			return this.applyJournal();
+		}
+
+		await this.lockManager.acquireWait(STORE_LOCK);
+		try {
+			await this.applyJournal();
+		} finally {
+			await this.lockManager.release(STORE_LOCK);
+		}
+	}
+
+	/**
+	 * Apply the journal to the data files and remove it
+	 *
+	 * The journal only exists once a unit of work has fully committed, so
+	 * applying it again is always safe.
+	 */
+	private async applyJournal(): Promise<void> {
+		let data: string;
+		try {
+			data = await fs.readFile(this.journalFile, 'utf-8');
+		} catch {
+			return; // Already recovered by another process
+		}
+
+		try {
+			const journal = JSON.parse(data);
+			const accounts = this.parseAccounts(JSON.stringify(journal.accounts));
+			const entries =
+				journal.entries !== undefined
+					? this.parseLedger(JSON.stringify(journal.entries))
+					: // Journal written by a version before the ledger
+						journalEntriesFromTransactions(
+							this.parseTransactions(JSON.stringify(journal.transactions)),
+							Array.from(accounts.values()),
+						);
+
+			await this.saveAccounts(accounts);
+			await this.saveLedger(entries);
+			// Journals from before schedules leave schedules.json as it is
+			if (journal.schedules !== undefined) {
+				await this.saveSchedules(
+					this.parseSchedules(JSON.stringify(journal.schedules)),
+				);
+			}
+			// ...and journals from before statements leave statements.json
+			if (journal.statements !== undefined) {
+				await this.saveStatements(
+					this.parseStatements(JSON.stringify(journal.statements)),
+				);
+			}
+			await fs.unlink(this.journalFile);
+		} catch (error) {
+			throw new Error(
+				`Failed to recover journal: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Commit staged changes: journal first, then the data files
+	 */
+	private async commit(changes: StagedChanges): Promise<void> {
+		const tempFile = `${this.journalFile}.tmp`;
+		const journal = {
+			accounts: Object.fromEntries(changes.accounts),
+			entries: changes.entries,
+			schedules: changes.schedules,
+			statements: changes.statements,
+		};
+
+		try {
+			await fs.writeFile(tempFile, JSON.stringify(journal, null, 2), 'utf-8');
+
+			// Commit point - once the journal exists the changes will be applied
+			await fs.rename(tempFile, this.journalFile);
+		} catch (error) {
+			try {
+				await fs.unlink(tempFile);
+			} catch {
+				// Ignore cleanup errors
+			}
+			throw new Error(
+				`Failed to write journal: ${error instanceof Error ? error.message : String(error)}`,
 				{
 					cause: error,
 				},
 			);
 		}
+
+		this.committing = true;
+		try {
+			await this.saveAccounts(changes.accounts);
+			await this.saveLedger(changes.entries);
+			await this.saveSchedules(changes.schedules);
+			await this.saveStatements(changes.statements);
+			await fs.unlink(this.journalFile);
+		} catch (error) {
+			// Drop caches so the next read recovers from the journal
+			this.accountsCache = null;
+			this.ledgerCache = null;
+			this.schedulesCache = null;
+			this.statementsCache = null;
+			throw error;
+		} finally {
+			this.committing = false;
+		}
 	}
 
 	// IStorage implementation
@@ -230,6 +820,10 @@ export class JsonStorage implements IStorage {
 	}
 
 	async createAccount(account: CreateAccount): Promise<Account> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.createAccount(account));
+		}
+
 		const accounts = await this.loadAccounts();
 
 		// Check if account already exists
@@ -259,6 +853,12 @@ export class JsonStorage implements IStorage {
 		accountNumber: string,
 		updates: UpdateAccount,
 	): Promise<Account> {
+		if (!this.staged) {
+			return this.runInTransaction(tx =>
+				tx.updateAccount(accountNumber, updates),
+			);
+		}
+
 		const accounts = await this.loadAccounts();
 
 		const existingAccount = accounts.get(accountNumber);
@@ -285,6 +885,10 @@ export class JsonStorage implements IStorage {
 	}
 
 	async deleteAccount(accountNumber: string): Promise<boolean> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.deleteAccount(accountNumber));
+		}
+
 		const accounts = await this.loadAccounts();
 
 		if (!accounts.has(accountNumber)) {
@@ -302,34 +906,101 @@ export class JsonStorage implements IStorage {
 		return Array.from(accounts.values());
 	}
 
-	async addTransaction(transaction: CreateTransaction): Promise<Transaction> {
-		const transactions = await this.loadTransactions();
+	async postJournalEntry(entry: CreateJournalEntry): Promise<JournalEntry> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.postJournalEntry(entry));
+		}
 
-		// Create transaction with ID and timestamp
-		const newTransaction: Transaction = {
-			...transaction,
-			id: uuidv4(),
-			timestamp: new Date(),
-		};
+		const entries = await this.loadLedger();
 
-		// Validate
-		TransactionSchema.parse(newTransaction);
+		// Assign IDs and validate (postings must sum to zero)
+		const newEntry = createJournalEntry(entry);
 
-		// Add to storage
-		transactions.push(newTransaction);
-		await this.saveTransactions(transactions);
+		const key = newEntry.idempotencyKey;
+		const scope = newEntry.idempotencyScope;
+		if (
+			key !== undefined &&
+			entries.some(
+				e => e.idempotencyKey === key && e.idempotencyScope === scope,
+			)
+		) {
+			throw new Error(
+				`Idempotency key "${key}" has already been used for ${scope}`,
+			);
+		}
+
+		entries.push(newEntry);
+		await this.saveLedger(entries);
+
+		return newEntry;
+	}
+
+	async getJournalEntries(accountNumber?: string): Promise<JournalEntry[]> {
+		const entries = await this.loadLedger();
+		return accountNumber === undefined
+			? [...entries]
+			: entries.filter(entry =>
+					entry.postings.some(
+						posting => posting.accountNumber === accountNumber,
+					),
+				);
+	}
 
-		return newTransaction;
+	async getJournalEntryByIdempotencyKey(
+		idempotencyScope: string,
+		idempotencyKey: string,
+	): Promise<JournalEntry | null> {
+		const entries = await this.loadLedger();
+		return (
+			entries.find(
+				entry =>
+					entry.idempotencyKey === idempotencyKey &&
+					entry.idempotencyScope === idempotencyScope,
+			) ?? null
+		);
+	}
+
+	async updateJournalEntryStatus(
+		id: string,
+		status: TransactionStatus,
+	): Promise<JournalEntry> {
+		if (!this.staged) {
+			return this.runInTransaction(tx =>
+				tx.updateJournalEntryStatus(id, status),
+			);
+		}
+
+		const entries = await this.loadLedger();
+
+		const index = entries.findIndex(entry => entry.id === id);
+		if (index === -1) {
+			throw new Error(`Journal entry ${id} not found`);
+		}
+
+		// Replace rather than mutate: the entry may be shared with the cache
+		const updatedEntry = { ...entries[index], status };
+		entries[index] = updatedEntry;
+		await this.saveLedger(entries);
+
+		return updatedEntry;
+	}
+
+	async addTransaction(transaction: CreateTransaction): Promise<Transaction> {
+		const entry = await this.postJournalEntry(
+			journalEntryFromTransaction(transaction),
+		);
+		return toTransactions(entry)[0];
 	}
 
 	async getTransactionHistory(
 		accountNumber: string,
 		limit?: number,
 	): Promise<Transaction[]> {
-		const transactions = await this.loadTransactions();
+		const entries = await this.getJournalEntries(accountNumber);
 
-		// Filter by account number and sort by timestamp (most recent first)
-		const accountTransactions = transactions
+		// Postings to the account, sorted by timestamp (most recent first)
+		const accountTransactions = entries
+			.flatMap(toTransactions)
 			.filter(t => t.accountNumber === accountNumber)
 			.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
@@ -341,21 +1012,210 @@ export class JsonStorage implements IStorage {
 		return accountTransactions;
 	}
 
-	async lockAccount(accountNumber: string): Promise<boolean> {
-		if (this.locks.has(accountNumber)) {
-			return false; // Already locked
+	async addSchedule(schedule: CreateSchedule): Promise<Schedule> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.addSchedule(schedule));
 		}
 
-		this.locks.add(accountNumber);
-		return true;
+		const book = await this.loadSchedules();
+
+		// Assign ID and timestamps and validate
+		const newSchedule = createSchedule(schedule);
+
+		book.schedules.push(newSchedule);
+		await this.saveSchedules(book);
+
+		return newSchedule;
+	}
+
+	async getSchedule(id: string): Promise<Schedule | null> {
+		const { schedules } = await this.loadSchedules();
+		return schedules.find(schedule => schedule.id === id) ?? null;
+	}
+
+	async listSchedules(accountNumber?: string): Promise<Schedule[]> {
+		const { schedules } = await this.loadSchedules();
+		return accountNumber === undefined
+			? [...schedules]
+			: schedules.filter(
+					schedule =>
+						schedule.accountNumber === accountNumber ||
+						schedule.toAccountNumber === accountNumber,
+				);
+	}
+
+	async updateSchedule(id: string, updates: UpdateSchedule): Promise<Schedule> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.updateSchedule(id, updates));
+		}
+
+		const book = await this.loadSchedules();
+
+		const index = book.schedules.findIndex(schedule => schedule.id === id);
+		if (index === -1) {
+			throw new Error(`Schedule ${id} not found`);
+		}
+
+		// Replace rather than mutate: the schedule may be shared with the cache
+		const updatedSchedule = ScheduleSchema.parse({
+			...book.schedules[index],
+			...updates,
+			updatedAt: new Date(),
+		});
+		book.schedules[index] = updatedSchedule;
+		await this.saveSchedules(book);
+
+		return updatedSchedule;
+	}
+
+	async addScheduleRun(run: CreateScheduleRun): Promise<ScheduleRun> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.addScheduleRun(run));
+		}
+
+		const book = await this.loadSchedules();
+
+		const newRun = createScheduleRun(run);
+
+		book.runs.push(newRun);
+		await this.saveSchedules(book);
+
+		return newRun;
+	}
+
+	async getScheduleRuns(scheduleId?: string): Promise<ScheduleRun[]> {
+		const { runs } = await this.loadSchedules();
+		return scheduleId === undefined
+			? [...runs]
+			: runs.filter(run => run.scheduleId === scheduleId);
+	}
+
+	async saveStatement(statement: Statement): Promise<Statement> {
+		if (!this.staged) {
+			return this.runInTransaction(tx => tx.saveStatement(statement));
+		}
+
+		const statements = await this.loadStatements();
+		if (
+			statements.some(
+				saved =>
+					saved.accountNumber === statement.accountNumber &&
+					saved.period === statement.period,
+			)
+		) {
+			throw new Error(
+				`Statement for ${statement.accountNumber} ${statement.period} already exists`,
+			);
+		}
+
+		const savedStatement = StatementSchema.parse(statement);
+		await this.saveStatements([...statements, savedStatement]);
+
+		return savedStatement;
+	}
+
+	async getStatement(
+		accountNumber: string,
+		period: string,
+	): Promise<Statement | null> {
+		const statements = await this.loadStatements();
+		return (
+			statements.find(
+				statement =>
+					statement.accountNumber === accountNumber &&
+					statement.period === period,
+			) ?? null
+		);
+	}
+
+	async lockAccount(accountNumber: string): Promise<boolean> {
+		return this.lockManager.acquire(accountNumber);
 	}
 
 	async unlockAccount(accountNumber: string): Promise<boolean> {
-		if (!this.locks.has(accountNumber)) {
-			return false; // Not locked
+		return this.lockManager.release(accountNumber);
+	}
+
+	// Lock administration
+
+	/**
+	 * List all locks held on this data directory, by any process
+	 * @returns Lock details, with stale locks flagged
+	 */
+	async listLocks(): Promise<LockInfo[]> {
+		return this.lockManager.list();
+	}
+
+	/**
+	 * Forcibly remove a stuck lock, whoever holds it
+	 * @param name - Account number (or 'store' for the commit lock)
+	 * @returns true if a lock was removed
+	 */
+	async breakLock(name: string): Promise<boolean> {
+		return this.lockManager.breakLock(name);
+	}
+
+	/**
+	 * Remove every lock whose holder is gone or which is too old
+	 * @returns Names of the locks that were removed
+	 */
+	async breakStaleLocks(): Promise<string[]> {
+		return this.lockManager.breakStaleLocks();
+	}
+
+	/**
+	 * Copy of the schedules a unit of work can change without touching the cache
+	 */
+	private async copySchedules(): Promise<ScheduleBook> {
+		const { schedules, runs } = await this.loadSchedules();
+		return { schedules: [...schedules], runs: [...runs] };
+	}
+
+	async runInTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+		// Nested units of work join the enclosing one
+		if (this.staged) {
+			return fn(this);
 		}
 
-		this.locks.delete(accountNumber);
-		return true;
+		const run = async (): Promise<T> => {
+			// Hold the store lock from read to commit so no other process can
+			// write in between, then start from what is on disk now
+			await this.lockManager.acquireWait(STORE_LOCK);
+			this.holdsStoreLock = true;
+
+			try {
+				this.accountsCache = null;
+				this.ledgerCache = null;
+				this.schedulesCache = null;
+				this.statementsCache = null;
+
+				const tx = new JsonStorage(this.dataDir);
+				tx.lockManager = this.lockManager;
+				tx.staged = {
+					accounts: new Map(await this.loadAccounts()),
+					entries: [...(await this.loadLedger())],
+					schedules: await this.copySchedules(),
+					statements: [...(await this.loadStatements())],
+					dirty: false,
+				};
+
+				const result = await fn(tx);
+
+				if (tx.staged.dirty) {
+					await this.commit(tx.staged);
+				}
+				return result;
+			} finally {
+				this.holdsStoreLock = false;
+				await this.lockManager.release(STORE_LOCK);
+			}
+		};
+
+		const result = this.commitQueue.then(run, run);
+		this.commitQueue = result.then(
+			() => undefined,
+			() => undefined,
+		);
+		return result;
 	}
 }
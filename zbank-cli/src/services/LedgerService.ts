@@ -0,0 +1,68 @@
+import { IStorage } from './IStorage.js';
+import { JournalEntry, affectsBalances } from '../models/JournalEntry.js';
+
+/**
+ * Balance of one ledger account
+ */
+export interface LedgerBalance {
+	accountNumber: string; // Customer account number or SystemAccount
+	balance: number; // Sum of its postings, in cents
+}
+
+/**
+ * Ledger service interface
+ */
+export interface ILedgerService {
+	getBalance(accountNumber: string): Promise<number>;
+	getTrialBalance(): Promise<LedgerBalance[]>;
+}
+
+/**
+ * LedgerService - Balances derived from the journal
+ *
+ * Account.balance is kept up to date by TransactionService for fast reads;
+ * the postings are the record it is derived from. Because every entry sums
+ * to zero, the balances of all ledger accounts together always sum to zero.
+ * Holds reserve funds without moving them, so their postings are left out.
+ */
+export class LedgerService implements ILedgerService {
+	constructor(private storage: IStorage) {}
+
+	/**
+	 * Derive a ledger account's balance from its postings
+	 * @param accountNumber - Customer account number or SystemAccount
+	 * @returns The sum of its postings in cents (0 without postings)
+	 */
+	async getBalance(accountNumber: string): Promise<number> {
+		const entries = await this.storage.getJournalEntries(accountNumber);
+		return sumPostings(entries).get(accountNumber) ?? 0;
+	}
+
+	/**
+	 * Derive the balance of every ledger account that has postings
+	 * @returns Balances sorted by account (customer accounts first)
+	 */
+	async getTrialBalance(): Promise<LedgerBalance[]> {
+		const balances = sumPostings(await this.storage.getJournalEntries());
+		return Array.from(balances, ([accountNumber, balance]) => ({
+			accountNumber,
+			balance,
+		})).sort((a, b) => a.accountNumber.localeCompare(b.accountNumber));
+	}
+}
+
+/**
+ * Sum postings per ledger account
+ */
+function sumPostings(entries: JournalEntry[]): Map<string, number> {
+	const balances = new Map<string, number>();
+	for (const entry of entries.filter(affectsBalances)) {
+		for (const posting of entry.postings) {
+			balances.set(
+				posting.accountNumber,
+				(balances.get(posting.accountNumber) ?? 0) + posting.amount,
+			);
+		}
+	}
+	return balances;
+}
@@ -0,0 +1,288 @@
+import { IStorage } from './IStorage.js';
+import {
+	ITransactionService,
+	TransactionResult,
+} from './TransactionService.js';
+import { TransactionType, TransactionStatus } from '../models/Transaction.js';
+import {
+	Schedule,
+	CreateSchedule,
+	CreateScheduleSchema,
+	ScheduleRun,
+	nextRunAt,
+} from '../models/Schedule.js';
+import { Clock, systemClock } from '../utils/clock.js';
+
+/**
+ * Machine-readable reason a schedule could not be created or cancelled
+ */
+export enum ScheduleErrorCode {
+	INVALID_SCHEDULE = 'INVALID_SCHEDULE',
+	ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+	DESTINATION_NOT_FOUND = 'DESTINATION_NOT_FOUND',
+	SCHEDULE_NOT_FOUND = 'SCHEDULE_NOT_FOUND',
+	ALREADY_CANCELLED = 'ALREADY_CANCELLED',
+}
+
+/**
+ * Result of creating or cancelling a schedule
+ */
+export interface ScheduleResult {
+	success: boolean;
+	schedule?: Schedule;
+	error?: string;
+	errorCode?: ScheduleErrorCode;
+}
+
+/**
+ * Scheduler service interface
+ */
+export interface ISchedulerService {
+	createSchedule(schedule: CreateSchedule): Promise<ScheduleResult>;
+	cancelSchedule(id: string): Promise<ScheduleResult>;
+	listSchedules(accountNumber?: string): Promise<Schedule[]>;
+	getRuns(scheduleId?: string): Promise<ScheduleRun[]>;
+	runDue(): Promise<ScheduleRun[]>;
+}
+
+/**
+ * SchedulerService - Standing orders
+ *
+ * A schedule runs a deposit, withdrawal or transfer through
+ * TransactionService at every occurrence of its interval, so limits,
+ * overdraft policies and holds apply as if a customer had made it.
+ *
+ * runDue() runs every occurrence that is due by the clock's time, oldest
+ * first across all schedules, so a scheduler that was not run for a while
+ * catches up on the occurrences it missed. Each occurrence is run once and
+ * recorded as a ScheduleRun: COMPLETED with the posted transaction, or
+ * FAILED with the reason. A failed occurrence is not retried; the next run
+ * is the schedule's next occurrence.
+ *
+ * Each occurrence is posted with the idempotency key
+ * `schedule:<id>:<occurrence>`. If the process stops after posting but
+ * before recording the run, running again replays the posted transaction
+ * instead of paying twice.
+ */
+export class SchedulerService implements ISchedulerService {
+	constructor(
+		private storage: IStorage,
+		private transactionService: ITransactionService,
+		private clock: Clock = systemClock,
+	) {}
+
+	/**
+	 * Create a standing order
+	 * @param schedule - What to run, how often and from when
+	 * @returns ScheduleResult with the new schedule or an error
+	 */
+	async createSchedule(schedule: CreateSchedule): Promise<ScheduleResult> {
+		const validation = CreateScheduleSchema.safeParse(schedule);
+		if (!validation.success) {
+			return {
+				success: false,
+				error: validation.error.issues[0]?.message ?? 'Invalid schedule',
+				errorCode: ScheduleErrorCode.INVALID_SCHEDULE,
+			};
+		}
+
+		if (!(await this.storage.getAccount(schedule.accountNumber))) {
+			return {
+				success: false,
+				error: 'Account not found',
+				errorCode: ScheduleErrorCode.ACCOUNT_NOT_FOUND,
+			};
+		}
+
+		if (
+			schedule.toAccountNumber !== undefined &&
+			!(await this.storage.getAccount(schedule.toAccountNumber))
+		) {
+			return {
+				success: false,
+				error: 'Destination account not found',
+				errorCode: ScheduleErrorCode.DESTINATION_NOT_FOUND,
+			};
+		}
+
+		return {
+			success: true,
+			schedule: await this.storage.addSchedule(validation.data),
+		};
+	}
+
+	/**
+	 * Stop a standing order; its recorded runs are kept
+	 * @param id - The schedule ID
+	 * @returns ScheduleResult with the cancelled schedule or an error
+	 */
+	async cancelSchedule(id: string): Promise<ScheduleResult> {
+		return this.storage.runInTransaction(async tx => {
+			const schedule = await tx.getSchedule(id);
+			if (!schedule) {
+				return {
+					success: false,
+					error: 'Schedule not found',
+					errorCode: ScheduleErrorCode.SCHEDULE_NOT_FOUND,
+				};
+			}
+			if (!schedule.active) {
+				return {
+					success: false,
+					error: 'Schedule is already cancelled',
+					errorCode: ScheduleErrorCode.ALREADY_CANCELLED,
+				};
+			}
+
+			return {
+				success: true,
+				schedule: await tx.updateSchedule(id, { active: false }),
+			};
+		});
+	}
+
+	/**
+	 * List standing orders
+	 * @param accountNumber - Only those paying from or to this account
+	 * @returns Schedules in the order they were created
+	 */
+	async listSchedules(accountNumber?: string): Promise<Schedule[]> {
+		return this.storage.listSchedules(accountNumber);
+	}
+
+	/**
+	 * Recorded executions
+	 * @param scheduleId - Only those of this schedule
+	 * @returns Runs in the order they ran
+	 */
+	async getRuns(scheduleId?: string): Promise<ScheduleRun[]> {
+		return this.storage.getScheduleRuns(scheduleId);
+	}
+
+	/**
+	 * Run every occurrence due by now, catching up on missed ones
+	 * @returns The runs recorded, in the order they ran
+	 */
+	async runDue(): Promise<ScheduleRun[]> {
+		const now = this.clock.now();
+		const pending = (await this.storage.listSchedules()).filter(
+			schedule => schedule.active,
+		);
+		const runs: ScheduleRun[] = [];
+
+		for (;;) {
+			// The oldest occurrence still due, across all schedules
+			let next: { schedule: Schedule; dueAt: Date } | null = null;
+			for (const schedule of pending) {
+				const dueAt = nextRunAt(schedule);
+				if (dueAt && dueAt <= now && (!next || dueAt < next.dueAt)) {
+					next = { schedule, dueAt };
+				}
+			}
+			if (!next) {
+				return runs;
+			}
+
+			const { schedule, dueAt } = next;
+			const result = await this.execute(schedule, dueAt);
+			const recorded = await this.record(schedule, dueAt, result);
+
+			if (!recorded) {
+				// Run by another scheduler meanwhile - take its progress
+				pending.splice(pending.indexOf(schedule), 1);
+				const current = await this.storage.getSchedule(schedule.id);
+				if (current?.active) {
+					pending.push(current);
+				}
+				continue;
+			}
+
+			runs.push(recorded.run);
+			pending[pending.indexOf(schedule)] = recorded.schedule;
+		}
+	}
+
+	/**
+	 * Run one occurrence through TransactionService
+	 */
+	private async execute(
+		schedule: Schedule,
+		dueAt: Date,
+	): Promise<TransactionResult> {
+		const key = `schedule:${schedule.id}:${schedule.runCount}`;
+
+		try {
+			switch (schedule.type) {
+				case TransactionType.DEPOSIT:
+					return await this.transactionService.deposit(
+						schedule.accountNumber,
+						schedule.amount,
+						key,
+					);
+				case TransactionType.WITHDRAWAL:
+					return await this.transactionService.withdraw(
+						schedule.accountNumber,
+						schedule.amount,
+						key,
+					);
+				case TransactionType.TRANSFER:
+					return await this.transactionService.transfer(
+						schedule.accountNumber,
+						schedule.toAccountNumber ?? '',
+						schedule.amount,
+						key,
+					);
+				default:
+					return {
+						success: false,
+						error: `Cannot schedule ${schedule.type} transactions`,
+					};
+			}
+		} catch (error) {
+			return {
+				success: false,
+				error: `Scheduled run for ${dueAt.toISOString()} failed: ${error instanceof Error ? error.message : String(error)}`,
+			};
+		}
+	}
+
+	/**
+	 * Record a run and move the schedule on to its next occurrence
+	 * @returns The run and updated schedule, or null if another scheduler
+	 *   already recorded this occurrence
+	 */
+	private async record(
+		schedule: Schedule,
+		dueAt: Date,
+		result: TransactionResult,
+	): Promise<{ run: ScheduleRun; schedule: Schedule } | null> {
+		return this.storage.runInTransaction(async tx => {
+			const current = await tx.getSchedule(schedule.id);
+			if (!current || current.runCount !== schedule.runCount) {
+				return null;
+			}
+
+			const run = await tx.addScheduleRun({
+				scheduleId: schedule.id,
+				dueAt,
+				ranAt: this.clock.now(),
+				...(result.success && result.transaction
+					? {
+							status: TransactionStatus.COMPLETED,
+							transactionId: result.transaction.id,
+						}
+					: {
+							status: TransactionStatus.FAILED,
+							...(result.errorCode !== undefined && {
+								errorCode: result.errorCode,
+							}),
+							error: result.error ?? 'Transaction failed',
+						}),
+			});
+			const updated = await tx.updateSchedule(schedule.id, {
+				runCount: schedule.runCount + 1,
+			});
+			return { run, schedule: updated };
+		});
+	}
+}
@@ -1,14 +1,63 @@
 import { Account } from '../models/Account.js';
 
+/**
+ * Session timeouts (null or 0 disables a timeout)
+ */
+export interface SessionTimeoutOptions {
+	idleTimeoutMs?: number | null; // Expire after this long without activity
+	absoluteTimeoutMs?: number | null; // Expire this long after login, active or not
+}
+
+/**
+ * Timeouts used by the application: 5 minutes idle, 30 minutes in total
+ */
+export const DEFAULT_SESSION_TIMEOUTS: SessionTimeoutOptions = {
+	idleTimeoutMs: 5 * 60 * 1000,
+	absoluteTimeoutMs: 30 * 60 * 1000,
+};
+
+/**
+ * Why a session expired
+ */
+export type SessionExpiryReason = 'idle' | 'absolute';
+
+/**
+ * Passed to listeners when a session expires
+ */
+export interface SessionExpiredEvent {
+	account: Account; // The account that was logged in
+	reason: SessionExpiryReason;
+	expiredAt: Date;
+}
+
+export type SessionExpiredListener = (event: SessionExpiredEvent) => void;
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 /**
  * SessionManager handles user session state during application runtime
  *
  * This is similar to COBOL's VSAM record locking mechanism, but simpler.
- * The session persists only during the application runtime.
+ * The session persists only during the application runtime, and ends on
+ * its own after the configured idle or absolute timeout.
  */
 export class SessionManager {
 	private currentAccount: Account | null = null;
 	private loginTime: Date | null = null;
+	private lastActivityTime: Date | null = null;
+	private idleTimeoutMs: number | null;
+	private absoluteTimeoutMs: number | null;
+	private expiryTimer: ReturnType<typeof globalThis.setTimeout> | null = null;
+	private listeners = new Set<SessionExpiredListener>();
+
+	/**
+	 * @param options - Idle and absolute timeouts (none by default)
+	 */
+	constructor(options: SessionTimeoutOptions = {}) {
+		this.idleTimeoutMs = options.idleTimeoutMs || null;
+		this.absoluteTimeoutMs = options.absoluteTimeoutMs || null;
+	}
 
 	/**
 	 * Set the current session with an authenticated account
@@ -17,6 +66,8 @@ export class SessionManager {
 	setSession(account: Account): void {
 		this.currentAccount = account;
 		this.loginTime = new Date();
+		this.lastActivityTime = this.loginTime;
+		this.scheduleExpiry();
 	}
 
 	/**
@@ -25,6 +76,8 @@ export class SessionManager {
 	clearSession(): void {
 		this.currentAccount = null;
 		this.loginTime = null;
+		this.lastActivityTime = null;
+		this.cancelExpiry();
 	}
 
 	/**
@@ -32,6 +85,7 @@ export class SessionManager {
 	 * @returns The current account or null if not authenticated
 	 */
 	getSession(): Account | null {
+		this.checkExpiry();
 		return this.currentAccount;
 	}
 
@@ -40,6 +94,7 @@ export class SessionManager {
 	 * @returns true if a user is logged in, false otherwise
 	 */
 	isSessionActive(): boolean {
+		this.checkExpiry();
 		return this.currentAccount !== null;
 	}
 
@@ -51,6 +106,14 @@ export class SessionManager {
 		return this.loginTime;
 	}
 
+	/**
+	 * Get the time of the last recorded activity
+	 * @returns The activity timestamp or null if not logged in
+	 */
+	getLastActivityTime(): Date | null {
+		return this.lastActivityTime;
+	}
+
 	/**
 	 * Update the session account (e.g., after balance changes)
 	 * @param account - The updated account
@@ -63,4 +126,128 @@ export class SessionManager {
 			this.currentAccount = account;
 		}
 	}
+
+	/**
+	 * Record user activity (a keypress or transaction), restarting the idle timeout
+	 *
+	 * Does nothing without a session or once the session has expired.
+	 */
+	recordActivity(): void {
+		if (!this.isSessionActive()) {
+			return;
+		}
+		this.lastActivityTime = new Date();
+		this.scheduleExpiry();
+	}
+
+	/**
+	 * Get when the session will expire if there is no further activity
+	 * @returns The expiry time, or null if not logged in or no timeout applies
+	 */
+	getExpiresAt(): Date | null {
+		if (!this.loginTime || !this.lastActivityTime) {
+			return null;
+		}
+
+		const deadlines: number[] = [];
+		if (this.idleTimeoutMs) {
+			deadlines.push(this.lastActivityTime.getTime() + this.idleTimeoutMs);
+		}
+		if (this.absoluteTimeoutMs) {
+			deadlines.push(this.loginTime.getTime() + this.absoluteTimeoutMs);
+		}
+		return deadlines.length > 0 ? new Date(Math.min(...deadlines)) : null;
+	}
+
+	/**
+	 * Subscribe to session expiry
+	 * @param listener - Called once each time a session expires
+	 * @returns Function that removes the listener
+	 */
+	onExpired(listener: SessionExpiredListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Expire the session if a timeout has passed
+	 *
+	 * Runs from a timer, and on every session read so a session cannot
+	 * outlive its timeout while the timer is delayed.
+	 *
+	 * @returns The expiry reason, or null if the session is still valid
+	 */
+	checkExpiry(): SessionExpiryReason | null {
+		const account = this.currentAccount;
+		if (!account || !this.loginTime || !this.lastActivityTime) {
+			return null;
+		}
+
+		const now = Date.now();
+		let reason: SessionExpiryReason | null = null;
+		if (
+			this.absoluteTimeoutMs &&
+			now >= this.loginTime.getTime() + this.absoluteTimeoutMs
+		) {
+			reason = 'absolute';
+		} else if (
+			this.idleTimeoutMs &&
+			now >= this.lastActivityTime.getTime() + this.idleTimeoutMs
+		) {
+			reason = 'idle';
+		}
+
+		if (!reason) {
+			return null;
+		}
+
+		this.clearSession();
+		const event: SessionExpiredEvent = {
+			account,
+			reason,
+			expiredAt: new Date(now),
+		};
+		for (const listener of [...this.listeners]) {
+			listener(event);
+		}
+		return reason;
+	}
+
+	/**
+	 * (Re)start the timer that expires the session
+	 */
+	private scheduleExpiry(): void {
+		this.cancelExpiry();
+
+		const expiresAt = this.getExpiresAt();
+		if (!expiresAt) {
+			return;
+		}
+
+		const delay = Math.min(
+			Math.max(0, expiresAt.getTime() - Date.now()),
+			MAX_TIMER_DELAY_MS,
+		);
+		this.expiryTimer = globalThis.setTimeout(() => {
+			this.expiryTimer = null;
+			// A capped delay fires early; reschedule for the remainder
+			if (!this.checkExpiry()) {
+				this.scheduleExpiry();
+			}
+		}, delay);
+		// The timer alone should not keep the process running
+		this.expiryTimer.unref?.();
+	}
+
+	/**
+	 * Stop the expiry timer
+	 */
+	private cancelExpiry(): void {
+		if (this.expiryTimer) {
+			globalThis.clearTimeout(this.expiryTimer);
+			this.expiryTimer = null;
+		}
+	}
 }
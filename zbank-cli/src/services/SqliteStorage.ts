@@ -0,0 +1,1285 @@
+import { mkdirSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { IStorage } from './IStorage';
+import {
+	LockInfo,
+	FileLockOptions,
+	DEFAULT_STALE_LOCK_MS,
+	isStaleLock,
+} from './FileLockManager';
+import {
+	Account,
+	CreateAccount,
+	UpdateAccount,
+	AccountSchema,
+} from '../models/Account';
+import {
+	Transaction,
+	CreateTransaction,
+	TransactionSchema,
+	TransactionStatus,
+	TransactionType,
+} from '../models/Transaction';
+import {
+	JournalEntry,
+	CreateJournalEntry,
+	Posting,
+	PostingSchema,
+	JournalEntrySchema,
+	createJournalEntry,
+	journalEntryFromTransaction,
+	journalEntriesFromTransactions,
+	legacyIdempotencyScope,
+	toTransactions,
+} from '../models/JournalEntry';
+import {
+	Schedule,
+	CreateSchedule,
+	UpdateSchedule,
+	ScheduleRun,
+	CreateScheduleRun,
+	ScheduleSchema,
+	ScheduleRunSchema,
+	createSchedule,
+	createScheduleRun,
+} from '../models/Schedule';
+import { Statement, StatementSchema } from '../models/Statement';
+
+/**
+ * How a model field is stored in a SQLite column
+ */
+type ColumnType = 'text' | 'integer' | 'real' | 'boolean' | 'date' | 'json';
+
+/**
+ * Mapping between a model field and its table column
+ */
+interface Column {
+	field: string;
+	column: string;
+	type: ColumnType;
+	primaryKey?: boolean;
+	optional?: boolean;
+}
+
+/**
+ * Account table layout
+ *
+ * New Account fields only need an entry here - missing columns are added to
+ * existing databases when they are opened.
+ */
+const ACCOUNT_COLUMNS: Column[] = [
+	{
+		field: 'accountNumber',
+		column: 'account_number',
+		type: 'text',
+		primaryKey: true,
+	},
+	{ field: 'pin', column: 'pin', type: 'text' },
+	{ field: 'balance', column: 'balance', type: 'integer' },
+	{
+		field: 'accountType',
+		column: 'account_type',
+		type: 'text',
+		optional: true,
+	},
+	{
+		field: 'heldAmount',
+		column: 'held_amount',
+		type: 'integer',
+		optional: true,
+	},
+	{
+		field: 'overdraftPolicy',
+		column: 'overdraft_policy',
+		type: 'text',
+		optional: true,
+	},
+	{
+		field: 'overdraftLimit',
+		column: 'overdraft_limit',
+		type: 'integer',
+		optional: true,
+	},
+	{
+		field: 'transactionLimits',
+		column: 'transaction_limits',
+		type: 'json',
+		optional: true,
+	},
+	{
+		field: 'feeWaivers',
+		column: 'fee_waivers',
+		type: 'json',
+		optional: true,
+	},
+	{
+		field: 'accruedInterest',
+		column: 'accrued_interest',
+		type: 'real',
+		optional: true,
+	},
+	{
+		field: 'accruedOverdraftInterest',
+		column: 'accrued_overdraft_interest',
+		type: 'real',
+		optional: true,
+	},
+	{
+		field: 'interestAccruedThrough',
+		column: 'interest_accrued_through',
+		type: 'text',
+		optional: true,
+	},
+	{ field: 'createdAt', column: 'created_at', type: 'date' },
+	{ field: 'updatedAt', column: 'updated_at', type: 'date' },
+	{
+		field: 'failedLoginAttempts',
+		column: 'failed_login_attempts',
+		type: 'integer',
+		optional: true,
+	},
+	{
+		field: 'lastFailedLoginAt',
+		column: 'last_failed_login_at',
+		type: 'date',
+		optional: true,
+	},
+	{ field: 'isLocked', column: 'is_locked', type: 'boolean', optional: true },
+	{
+		field: 'lockedUntil',
+		column: 'locked_until',
+		type: 'date',
+		optional: true,
+	},
+];
+
+/**
+ * Journal entry table layout
+ */
+const JOURNAL_ENTRY_COLUMNS: Column[] = [
+	{ field: 'id', column: 'id', type: 'text', primaryKey: true },
+	{ field: 'type', column: 'type', type: 'text' },
+	{ field: 'status', column: 'status', type: 'text' },
+	{ field: 'timestamp', column: 'timestamp', type: 'date' },
+	{ field: 'description', column: 'description', type: 'text', optional: true },
+	{ field: 'reference', column: 'reference', type: 'text', optional: true },
+	{
+		field: 'idempotencyKey',
+		column: 'idempotency_key',
+		type: 'text',
+		optional: true,
+	},
+	{
+		field: 'idempotencyScope',
+		column: 'idempotency_scope',
+		type: 'text',
+		optional: true,
+	},
+	{ field: 'expiresAt', column: 'expires_at', type: 'date', optional: true },
+	{ field: 'chargedFor', column: 'charged_for', type: 'text', optional: true },
+];
+
+/**
+ * Posting table layout (entryId links each posting to its journal entry)
+ */
+const POSTING_COLUMNS: Column[] = [
+	{ field: 'id', column: 'id', type: 'text', primaryKey: true },
+	{ field: 'entryId', column: 'entry_id', type: 'text' },
+	{ field: 'accountNumber', column: 'account_number', type: 'text' },
+	{ field: 'amount', column: 'amount', type: 'integer' },
+	{
+		field: 'balanceBefore',
+		column: 'balance_before',
+		type: 'integer',
+		optional: true,
+	},
+	{
+		field: 'balanceAfter',
+		column: 'balance_after',
+		type: 'integer',
+		optional: true,
+	},
+	{ field: 'description', column: 'description', type: 'text', optional: true },
+	{ field: 'reversalOf', column: 'reversal_of', type: 'text', optional: true },
+];
+
+/**
+ * Schedule table layout
+ */
+const SCHEDULE_COLUMNS: Column[] = [
+	{ field: 'id', column: 'id', type: 'text', primaryKey: true },
+	{ field: 'accountNumber', column: 'account_number', type: 'text' },
+	{ field: 'type', column: 'type', type: 'text' },
+	{ field: 'amount', column: 'amount', type: 'integer' },
+	{
+		field: 'toAccountNumber',
+		column: 'to_account_number',
+		type: 'text',
+		optional: true,
+	},
+	{ field: 'description', column: 'description', type: 'text', optional: true },
+	{ field: 'every', column: 'every', type: 'integer' },
+	{ field: 'unit', column: 'unit', type: 'text' },
+	{ field: 'startAt', column: 'start_at', type: 'date' },
+	{ field: 'endAt', column: 'end_at', type: 'date', optional: true },
+	{ field: 'runCount', column: 'run_count', type: 'integer' },
+	{ field: 'active', column: 'active', type: 'boolean' },
+	{ field: 'createdAt', column: 'created_at', type: 'date' },
+	{ field: 'updatedAt', column: 'updated_at', type: 'date' },
+];
+
+/**
+ * Schedule run table layout
+ */
+const SCHEDULE_RUN_COLUMNS: Column[] = [
+	{ field: 'id', column: 'id', type: 'text', primaryKey: true },
+	{ field: 'scheduleId', column: 'schedule_id', type: 'text' },
+	{ field: 'dueAt', column: 'due_at', type: 'date' },
+	{ field: 'ranAt', column: 'ran_at', type: 'date' },
+	{ field: 'status', column: 'status', type: 'text' },
+	{
+		field: 'transactionId',
+		column: 'transaction_id',
+		type: 'text',
+		optional: true,
+	},
+	{ field: 'errorCode', column: 'error_code', type: 'text', optional: true },
+	{ field: 'error', column: 'error', type: 'text', optional: true },
+];
+
+/**
+ * Statement table layout
+ *
+ * A statement's transactions and totals are frozen with it, so they are
+ * stored as JSON rather than as references into the ledger.
+ */
+const STATEMENT_COLUMNS: Column[] = [
+	{ field: 'accountNumber', column: 'account_number', type: 'text' },
+	{ field: 'period', column: 'period', type: 'text' },
+	{ field: 'openingBalance', column: 'opening_balance', type: 'integer' },
+	{ field: 'closingBalance', column: 'closing_balance', type: 'integer' },
+	{ field: 'transactions', column: 'transactions', type: 'json' },
+	{ field: 'totals', column: 'totals', type: 'json' },
+	{ field: 'closed', column: 'closed', type: 'boolean' },
+	{ field: 'generatedAt', column: 'generated_at', type: 'date' },
+];
+
+/**
+ * Layout of the transactions table used before the ledger, read once to
+ * convert it
+ */
+const TRANSACTION_COLUMNS: Column[] = [
+	{ field: 'id', column: 'id', type: 'text', primaryKey: true },
+	{ field: 'accountNumber', column: 'account_number', type: 'text' },
+	{ field: 'type', column: 'type', type: 'text' },
+	{ field: 'amount', column: 'amount', type: 'integer' },
+	{ field: 'balanceBefore', column: 'balance_before', type: 'integer' },
+	{ field: 'balanceAfter', column: 'balance_after', type: 'integer' },
+	{ field: 'timestamp', column: 'timestamp', type: 'date' },
+	{ field: 'status', column: 'status', type: 'text' },
+	{ field: 'description', column: 'description', type: 'text', optional: true },
+	{ field: 'reference', column: 'reference', type: 'text', optional: true },
+];
+
+const INDEXES = [
+	'CREATE INDEX IF NOT EXISTS idx_postings_account ON postings (account_number)',
+	'CREATE INDEX IF NOT EXISTS idx_postings_entry ON postings (entry_id)',
+	'CREATE INDEX IF NOT EXISTS idx_journal_entries_timestamp ON journal_entries (timestamp)',
+	'CREATE INDEX IF NOT EXISTS idx_journal_entries_reference ON journal_entries (reference)',
+	'CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_idempotency ON journal_entries (idempotency_scope, idempotency_key)',
+	'CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs (schedule_id)',
+	'CREATE UNIQUE INDEX IF NOT EXISTS idx_statements_account_period ON statements (account_number, period)',
+];
+
+type Row = Record<string, unknown>;
+
+/**
+ * SQLite type of the column a field is stored in (booleans as 0/1)
+ */
+function sqlType(type: ColumnType): string {
+	switch (type) {
+		case 'integer':
+		case 'boolean':
+			return 'INTEGER';
+		case 'real':
+			return 'REAL';
+		default:
+			return 'TEXT';
+	}
+}
+
+/**
+ * Build a CREATE TABLE statement from a column layout
+ */
+function createTableSql(table: string, columns: Column[]): string {
+	const definitions = columns.map(column => {
+		const constraint = column.primaryKey
+			? ' PRIMARY KEY'
+			: column.optional
+				? ''
+				: ' NOT NULL';
+		return `${column.column} ${sqlType(column.type)}${constraint}`;
+	});
+	return `CREATE TABLE IF NOT EXISTS ${table} (${definitions.join(', ')})`;
+}
+
+/**
+ * Convert a model object into named statement parameters
+ */
+function toRow(record: object, columns: Column[]): Row {
+	const values = record as Record<string, unknown>;
+	const row: Row = {};
+	for (const column of columns) {
+		const value = values[column.field];
+		if (value === undefined || value === null) {
+			row[column.column] = null;
+		} else if (column.type === 'date') {
+			row[column.column] = (value as Date).toISOString();
+		} else if (column.type === 'boolean') {
+			row[column.column] = value ? 1 : 0;
+		} else if (column.type === 'json') {
+			row[column.column] = JSON.stringify(value);
+		} else {
+			row[column.column] = value;
+		}
+	}
+	return row;
+}
+
+/**
+ * Convert a table row back into a plain model object
+ */
+function fromRow(row: Row, columns: Column[]): Record<string, unknown> {
+	const record: Record<string, unknown> = {};
+	for (const column of columns) {
+		const value = row[column.column];
+		if (value === null || value === undefined) {
+			continue; // Optional fields stay absent, like in JSON storage
+		}
+		record[column.field] =
+			column.type === 'date'
+				? new Date(value as string)
+				: column.type === 'boolean'
+					? Number(value) === 1 // Also '1' in a column once added as TEXT
+					: column.type === 'json'
+						? JSON.parse(value as string)
+						: value;
+	}
+	return record;
+}
+
+/**
+ * Build an INSERT statement from a column layout
+ */
+function insertSql(table: string, columns: Column[]): string {
+	const names = columns.map(column => column.column);
+	return `INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(c => `@${c}`).join(', ')})`;
+}
+
+/**
+ * Write a journal entry and its postings
+ */
+function insertJournalEntry(db: Database.Database, entry: JournalEntry): void {
+	db.prepare(insertSql('journal_entries', JOURNAL_ENTRY_COLUMNS)).run(
+		toRow(entry, JOURNAL_ENTRY_COLUMNS),
+	);
+	const insertPosting = db.prepare(insertSql('postings', POSTING_COLUMNS));
+	for (const posting of entry.postings) {
+		insertPosting.run(
+			toRow({ ...posting, entryId: entry.id }, POSTING_COLUMNS),
+		);
+	}
+}
+
+/**
+ * A journal_entries row read without its postings
+ */
+const JournalEntryFieldsSchema = JournalEntrySchema.omit({ postings: true });
+
+/**
+ * Convert a postings row back into a Posting
+ */
+function postingFromRow(row: Row): Posting {
+	// The entry_id column is left out by the schema
+	return PostingSchema.parse(fromRow(row, POSTING_COLUMNS));
+}
+
+/**
+ * An account_locks row in the lock database
+ */
+interface LockRow {
+	account_number: string;
+	pid: number;
+	hostname: string;
+	locked_at: string;
+}
+
+function fromLockRow(row: LockRow): LockInfo {
+	return {
+		name: row.account_number,
+		pid: row.pid,
+		hostname: row.hostname,
+		lockedAt: new Date(row.locked_at),
+	};
+}
+
+/**
+ * Read the lock on an account, if any
+ */
+function readLock(
+	db: Database.Database,
+	accountNumber: string,
+): LockInfo | null {
+	const row = db
+		.prepare('SELECT * FROM account_locks WHERE account_number = ?')
+		.get(accountNumber) as LockRow | undefined;
+	return row ? fromLockRow(row) : null;
+}
+
+/**
+ * SQLite-based storage implementation
+ *
+ * Stores accounts and the ledger (journal_entries and their postings) in
+ * real tables with indexes on account number and timestamp, so postings no
+ * longer rewrite the whole history. Standing orders live in schedules, with
+ * one schedule_runs row per execution, and closed statements in statements.
+ * A transactions table from before the
+ * ledger is converted when the database is opened and kept as
+ * legacy_transactions. Units of work map onto native SQLite transactions
+ * (BEGIN IMMEDIATE), which also serialize writers across processes. Reads
+ * outside a unit of work use a second, read-only connection, so they only
+ * see committed data (like JsonStorage) and never wait on a unit of work.
+ *
+ * Account locks live in an account_locks table in a separate file next to
+ * the database (zbank-locks.db for zbank.db), so they are visible to every
+ * process sharing the database (like VSAM READ UPDATE). Keeping them out of
+ * the main connection means a lock never joins - or waits on - an open unit
+ * of work, and a rollback cannot undo it. Each lock records its holder's PID,
+ * hostname and time; stale locks are detected the same way as by
+ * FileLockManager and taken over automatically.
+ */
+export class SqliteStorage implements IStorage {
+	private dbPath: string;
+	private db: Database.Database | null = null;
+	private readDb: Database.Database | null = null;
+	private locksDb: Database.Database | null = null;
+	private staleLockMs: number;
+
+	// Set on the transactional view handed to runInTransaction callbacks
+	private parent: SqliteStorage | null = null;
+
+	// Serializes units of work on this connection
+	private commitQueue: Promise<void> = Promise.resolve();
+
+	/**
+	 * Create a new SQLite storage instance
+	 * @param dbPath - Database file (defaults to ./data/zbank.db)
+	 * @param lockOptions - Stale-lock detection for account locks
+	 */
+	constructor(
+		dbPath: string = './data/zbank.db',
+		lockOptions: Pick<FileLockOptions, 'staleLockMs'> = {},
+	) {
+		this.dbPath = dbPath;
+		this.staleLockMs = lockOptions.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+	}
+
+	/**
+	 * Initialize storage by opening the databases and creating the schema
+	 */
+	async initialize(): Promise<void> {
+		this.database();
+		this.lockDatabase();
+	}
+
+	/**
+	 * Close the database connections
+	 */
+	close(): void {
+		if (this.readDb && this.readDb !== this.db) {
+			this.readDb.close();
+		}
+		this.readDb = null;
+		if (this.db) {
+			this.db.close();
+			this.db = null;
+		}
+		if (this.locksDb) {
+			this.locksDb.close();
+			this.locksDb = null;
+		}
+	}
+
+	/**
+	 * Connection for this instance's statements
+	 *
+	 * A transactional view uses the connection its unit of work is open on;
+	 * anything else reads committed data through the read connection.
+	 */
+	private database(): Database.Database {
+		return this.parent ? this.parent.writeDatabase() : this.readDatabase();
+	}
+
+	/**
+	 * Open the read connection on first use
+	 *
+	 * An in-memory database cannot be shared between connections, so it is
+	 * read through the write connection.
+	 */
+	private readDatabase(): Database.Database {
+		if (this.readDb) {
+			return this.readDb;
+		}
+
+		const writeDb = this.writeDatabase(); // Creates the schema first
+		if (this.dbPath === ':memory:') {
+			this.readDb = writeDb;
+			return writeDb;
+		}
+
+		try {
+			const db = new Database(this.dbPath, { readonly: true });
+			db.pragma('busy_timeout = 5000');
+			this.readDb = db;
+			return db;
+		} catch (error) {
+			throw new Error(
+				`Failed to open database: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Open the database on first use and bring the schema up to date
+	 */
+	private writeDatabase(): Database.Database {
+		if (this.parent) {
+			return this.parent.writeDatabase();
+		}
+
+		if (this.db) {
+			return this.db;
+		}
+
+		if (this.dbPath !== ':memory:') {
+			mkdirSync(path.dirname(this.dbPath), { recursive: true });
+		}
+
+		try {
+			const db = new Database(this.dbPath);
+			db.pragma('journal_mode = WAL');
+			db.pragma('busy_timeout = 5000');
+
+			db.exec(createTableSql('accounts', ACCOUNT_COLUMNS));
+			db.exec(createTableSql('journal_entries', JOURNAL_ENTRY_COLUMNS));
+			db.exec(createTableSql('postings', POSTING_COLUMNS));
+			db.exec(createTableSql('schedules', SCHEDULE_COLUMNS));
+			db.exec(createTableSql('schedule_runs', SCHEDULE_RUN_COLUMNS));
+			db.exec(createTableSql('statements', STATEMENT_COLUMNS));
+			this.addMissingColumns(db, 'accounts', ACCOUNT_COLUMNS);
+			this.addMissingColumns(db, 'journal_entries', JOURNAL_ENTRY_COLUMNS);
+			this.addMissingColumns(db, 'postings', POSTING_COLUMNS);
+			this.addMissingColumns(db, 'schedules', SCHEDULE_COLUMNS);
+			this.addMissingColumns(db, 'schedule_runs', SCHEDULE_RUN_COLUMNS);
+			this.addMissingColumns(db, 'statements', STATEMENT_COLUMNS);
+			this.upgradeLegacyTransactions(db);
+			this.scopeIdempotencyKeys(db);
+			this.moveAccountLocks(db);
+			for (const index of INDEXES) {
+				db.exec(index);
+			}
+
+			this.db = db;
+			return db;
+		} catch (error) {
+			throw new Error(
+				`Failed to open database: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Scope idempotency keys stored when they were unique across the ledger
+	 */
+	private scopeIdempotencyKeys(db: Database.Database): void {
+		const findUnscoped = db.prepare(
+			'SELECT id, type FROM journal_entries WHERE idempotency_key IS NOT NULL AND idempotency_scope IS NULL',
+		);
+		const hasOldIndex = () =>
+			db
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE type = 'index' AND name = 'idx_journal_entries_idempotency_key'",
+				)
+				.get() !== undefined;
+
+		if (!hasOldIndex() && findUnscoped.get() === undefined) {
+			return;
+		}
+
+		db.transaction(() => {
+			const unscoped = findUnscoped.all() as {
+				id: string;
+				type: TransactionType;
+			}[];
+			const postings = db.prepare(
+				'SELECT account_number FROM postings WHERE entry_id = ? ORDER BY rowid',
+			);
+			const update = db.prepare(
+				'UPDATE journal_entries SET idempotency_scope = ? WHERE id = ?',
+			);
+			for (const { id, type } of unscoped) {
+				const accounts = postings.all(id) as { account_number: string }[];
+				const scope = legacyIdempotencyScope({
+					type,
+					postings: accounts.map(row => ({
+						accountNumber: row.account_number,
+					})),
+				});
+				update.run(scope, id);
+			}
+			// Replaced by the index on (idempotency_scope, idempotency_key)
+			db.exec('DROP INDEX IF EXISTS idx_journal_entries_idempotency_key');
+		}).immediate();
+	}
+
+	/**
+	 * Open the account lock database on first use
+	 */
+	private lockDatabase(): Database.Database {
+		if (this.parent) {
+			return this.parent.lockDatabase();
+		}
+
+		if (this.locksDb) {
+			return this.locksDb;
+		}
+
+		const locksPath =
+			this.dbPath === ':memory:'
+				? ':memory:'
+				: this.dbPath.replace(/(\.db)?$/, '-locks.db');
+		if (locksPath !== ':memory:') {
+			mkdirSync(path.dirname(locksPath), { recursive: true });
+		}
+
+		try {
+			const db = new Database(locksPath);
+			db.pragma('journal_mode = WAL');
+			db.pragma('busy_timeout = 5000');
+			db.exec(
+				'CREATE TABLE IF NOT EXISTS account_locks (account_number TEXT PRIMARY KEY, pid INTEGER NOT NULL, hostname TEXT NOT NULL, locked_at TEXT NOT NULL)',
+			);
+			this.locksDb = db;
+			return db;
+		} catch (error) {
+			throw new Error(
+				`Failed to open lock database: ${error instanceof Error ? error.message : String(error)}`,
+				{
+					cause: error,
+				},
+			);
+		}
+	}
+
+	/**
+	 * Move locks from the account_locks table earlier versions kept in the
+	 * main database (without a hostname) into the lock database
+	 */
+	private moveAccountLocks(db: Database.Database): void {
+		const hasOldTable = () =>
+			db
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'account_locks'",
+				)
+				.get() !== undefined;
+
+		if (!hasOldTable()) {
+			return;
+		}
+
+		const locksDb = this.lockDatabase();
+		db.transaction(() => {
+			// Another process may have moved them meanwhile
+			if (!hasOldTable()) {
+				return;
+			}
+
+			const rows = db
+				.prepare('SELECT account_number, pid, locked_at FROM account_locks')
+				.all() as { account_number: string; pid: number; locked_at: string }[];
+			const insert = locksDb.prepare(
+				'INSERT OR IGNORE INTO account_locks (account_number, pid, hostname, locked_at) VALUES (?, ?, ?, ?)',
+			);
+			for (const row of rows) {
+				insert.run(row.account_number, row.pid, os.hostname(), row.locked_at);
+			}
+			db.exec('DROP TABLE account_locks');
+		}).immediate();
+	}
+
+	/**
+	 * Add columns introduced after the database was created
+	 */
+	private addMissingColumns(
+		db: Database.Database,
+		table: string,
+		columns: Column[],
+	): void {
+		const existing = new Set(
+			(db.pragma(`table_info(${table})`) as { name: string }[]).map(
+				info => info.name,
+			),
+		);
+		for (const column of columns) {
+			if (!existing.has(column.column)) {
+				db.exec(
+					`ALTER TABLE ${table} ADD COLUMN ${column.column} ${sqlType(column.type)}`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Convert a transactions table from before the ledger into journal entries
+	 */
+	private upgradeLegacyTransactions(db: Database.Database): void {
+		const hasLegacyTable = () =>
+			db
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'transactions'",
+				)
+				.get() !== undefined;
+
+		if (!hasLegacyTable()) {
+			return;
+		}
+
+		db.transaction(() => {
+			// Another process may have converted it meanwhile
+			if (!hasLegacyTable()) {
+				return;
+			}
+
+			this.addMissingColumns(db, 'transactions', TRANSACTION_COLUMNS);
+			const rows = db
+				.prepare('SELECT * FROM transactions ORDER BY rowid')
+				.all() as Row[];
+			const transactions = rows.map(row =>
+				TransactionSchema.parse(fromRow(row, TRANSACTION_COLUMNS)),
+			);
+			const accounts = (
+				db.prepare('SELECT * FROM accounts ORDER BY rowid').all() as Row[]
+			).map(row => AccountSchema.parse(fromRow(row, ACCOUNT_COLUMNS)));
+			for (const entry of journalEntriesFromTransactions(
+				transactions,
+				accounts,
+			)) {
+				insertJournalEntry(db, entry);
+			}
+			db.exec('ALTER TABLE transactions RENAME TO legacy_transactions');
+		}).immediate();
+	}
+
+	/**
+	 * Run a write on its own unit of work unless one is already open
+	 */
+	private write<T>(fn: (tx: SqliteStorage) => T): Promise<T> {
+		if (this.parent) {
+			return Promise.resolve(fn(this));
+		}
+		return this.runInTransaction(async tx => fn(tx as SqliteStorage));
+	}
+
+	private readAccount(accountNumber: string): Account | null {
+		const row = this.database()
+			.prepare('SELECT * FROM accounts WHERE account_number = ?')
+			.get(accountNumber) as Row | undefined;
+		return row ? AccountSchema.parse(fromRow(row, ACCOUNT_COLUMNS)) : null;
+	}
+
+	private saveAccount(account: Account, insert: boolean): void {
+		const columns = ACCOUNT_COLUMNS.map(column => column.column);
+		const sql = insert
+			? `INSERT INTO accounts (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`
+			: `UPDATE accounts SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE account_number = @account_number`;
+		this.database().prepare(sql).run(toRow(account, ACCOUNT_COLUMNS));
+	}
+
+	private readSchedule(id: string): Schedule | null {
+		const row = this.database()
+			.prepare('SELECT * FROM schedules WHERE id = ?')
+			.get(id) as Row | undefined;
+		return row ? ScheduleSchema.parse(fromRow(row, SCHEDULE_COLUMNS)) : null;
+	}
+
+	private readStatement(
+		accountNumber: string,
+		period: string,
+	): Statement | null {
+		const row = this.database()
+			.prepare(
+				'SELECT * FROM statements WHERE account_number = ? AND period = ?',
+			)
+			.get(accountNumber, period) as Row | undefined;
+		return row ? StatementSchema.parse(fromRow(row, STATEMENT_COLUMNS)) : null;
+	}
+
+	// IStorage implementation
+
+	async getAccount(accountNumber: string): Promise<Account | null> {
+		return this.readAccount(accountNumber);
+	}
+
+	async createAccount(account: CreateAccount): Promise<Account> {
+		return this.write(tx => {
+			// Check if account already exists
+			if (tx.readAccount(account.accountNumber)) {
+				throw new Error(`Account ${account.accountNumber} already exists`);
+			}
+
+			// Create account with timestamps
+			const now = new Date();
+			const newAccount: Account = {
+				...account,
+				createdAt: now,
+				updatedAt: now,
+			};
+
+			// Validate
+			AccountSchema.parse(newAccount);
+
+			tx.saveAccount(newAccount, true);
+			return newAccount;
+		});
+	}
+
+	async updateAccount(
+		accountNumber: string,
+		updates: UpdateAccount,
+	): Promise<Account> {
+		return this.write(tx => {
+			const existingAccount = tx.readAccount(accountNumber);
+			if (!existingAccount) {
+				throw new Error(`Account ${accountNumber} not found`);
+			}
+
+			// Apply updates
+			const updatedAccount: Account = {
+				...existingAccount,
+				...updates,
+				accountNumber, // Ensure account number doesn't change
+				updatedAt: new Date(),
+			};
+
+			// Validate
+			AccountSchema.parse(updatedAccount);
+
+			tx.saveAccount(updatedAccount, false);
+			return updatedAccount;
+		});
+	}
+
+	async deleteAccount(accountNumber: string): Promise<boolean> {
+		return this.write(
+			tx =>
+				tx
+					.database()
+					.prepare('DELETE FROM accounts WHERE account_number = ?')
+					.run(accountNumber).changes > 0,
+		);
+	}
+
+	async listAccounts(): Promise<Account[]> {
+		const rows = this.database()
+			.prepare('SELECT * FROM accounts ORDER BY rowid')
+			.all() as Row[];
+		return rows.map(row => AccountSchema.parse(fromRow(row, ACCOUNT_COLUMNS)));
+	}
+
+	async postJournalEntry(entry: CreateJournalEntry): Promise<JournalEntry> {
+		return this.write(tx => {
+			// Assign IDs and validate (postings must sum to zero)
+			const newEntry = createJournalEntry(entry);
+
+			const key = newEntry.idempotencyKey;
+			const scope = newEntry.idempotencyScope;
+			if (
+				key !== undefined &&
+				tx
+					.database()
+					.prepare(
+						'SELECT 1 FROM journal_entries WHERE idempotency_scope = ? AND idempotency_key = ?',
+					)
+					.get(scope, key)
+			) {
+				throw new Error(
+					`Idempotency key "${key}" has already been used for ${scope}`,
+				);
+			}
+
+			insertJournalEntry(tx.database(), newEntry);
+			return newEntry;
+		});
+	}
+
+	async getJournalEntries(accountNumber?: string): Promise<JournalEntry[]> {
+		return accountNumber === undefined
+			? this.selectJournalEntries()
+			: this.selectJournalEntries(
+					'id IN (SELECT entry_id FROM postings WHERE account_number = @accountNumber)',
+					{ accountNumber },
+				);
+	}
+
+	async getJournalEntryByIdempotencyKey(
+		idempotencyScope: string,
+		idempotencyKey: string,
+	): Promise<JournalEntry | null> {
+		const [entry] = this.selectJournalEntries(
+			'idempotency_scope = @idempotencyScope AND idempotency_key = @idempotencyKey',
+			{ idempotencyScope, idempotencyKey },
+		);
+		return entry ?? null;
+	}
+
+	/**
+	 * Read journal entries with their postings, in the order they were posted
+	 * @param where - Condition on journal_entries (all entries when omitted)
+	 * @param params - Named parameters used by the condition
+	 */
+	private selectJournalEntries(
+		where?: string,
+		params: Row = {},
+	): JournalEntry[] {
+		const db = this.database();
+		const filter = where === undefined ? '' : ` WHERE ${where}`;
+
+		const entryRows = db
+			.prepare(`SELECT * FROM journal_entries${filter} ORDER BY rowid`)
+			.all(params) as Row[];
+		const postingRows = db
+			.prepare(
+				where === undefined
+					? 'SELECT * FROM postings ORDER BY rowid'
+					: `SELECT * FROM postings WHERE entry_id IN (SELECT id FROM journal_entries${filter}) ORDER BY rowid`,
+			)
+			.all(params) as Row[];
+
+		const postings = new Map<string, Posting[]>();
+		for (const row of postingRows) {
+			const entryId = row.entry_id as string;
+			postings.set(entryId, [
+				...(postings.get(entryId) ?? []),
+				postingFromRow(row),
+			]);
+		}
+
+		return entryRows.map(row =>
+			JournalEntrySchema.parse({
+				...fromRow(row, JOURNAL_ENTRY_COLUMNS),
+				postings: postings.get(row.id as string) ?? [],
+			}),
+		);
+	}
+
+	async updateJournalEntryStatus(
+		id: string,
+		status: TransactionStatus,
+	): Promise<JournalEntry> {
+		return this.write(tx => {
+			tx.database()
+				.prepare('UPDATE journal_entries SET status = ? WHERE id = ?')
+				.run(status, id);
+
+			const [entry] = tx.selectJournalEntries('id = @id', { id });
+			if (!entry) {
+				throw new Error(`Journal entry ${id} not found`);
+			}
+			return entry;
+		});
+	}
+
+	async addTransaction(transaction: CreateTransaction): Promise<Transaction> {
+		const entry = await this.postJournalEntry(
+			journalEntryFromTransaction(transaction),
+		);
+		return toTransactions(entry)[0];
+	}
+
+	async getTransactionHistory(
+		accountNumber: string,
+		limit?: number,
+	): Promise<Transaction[]> {
+		// Postings to the account, most recent first; ties keep insertion
+		// order like JsonStorage
+		let sql =
+			'SELECT p.*, e.type AS entry_type, e.status AS entry_status, e.timestamp AS entry_timestamp, e.description AS entry_description, e.reference AS entry_reference, e.idempotency_key AS entry_idempotency_key, e.idempotency_scope AS entry_idempotency_scope, e.expires_at AS entry_expires_at FROM postings p JOIN journal_entries e ON e.id = p.entry_id WHERE p.account_number = ? ORDER BY e.timestamp DESC, p.rowid ASC';
+		const params: unknown[] = [accountNumber];
+
+		// Apply limit if specified
+		if (limit !== undefined && limit > 0) {
+			sql += ' LIMIT ?';
+			params.push(limit);
+		}
+
+		const rows = this.database()
+			.prepare(sql)
+			.all(...params) as Row[];
+		return rows.map(row => {
+			// The entry columns, with only this account's posting
+			const entry = JournalEntryFieldsSchema.parse(
+				fromRow(
+					{
+						id: row.entry_id,
+						type: row.entry_type,
+						status: row.entry_status,
+						timestamp: row.entry_timestamp,
+						description: row.entry_description,
+						reference: row.entry_reference,
+						idempotency_key: row.entry_idempotency_key,
+						idempotency_scope: row.entry_idempotency_scope,
+						expires_at: row.entry_expires_at,
+					},
+					JOURNAL_ENTRY_COLUMNS,
+				),
+			);
+			const [transaction] = toTransactions({
+				...entry,
+				postings: [postingFromRow(row)],
+			});
+			return TransactionSchema.parse(transaction);
+		});
+	}
+
+	async addSchedule(schedule: CreateSchedule): Promise<Schedule> {
+		return this.write(tx => {
+			// Assign ID and timestamps and validate
+			const newSchedule = createSchedule(schedule);
+
+			tx.database()
+				.prepare(insertSql('schedules', SCHEDULE_COLUMNS))
+				.run(toRow(newSchedule, SCHEDULE_COLUMNS));
+			return newSchedule;
+		});
+	}
+
+	async getSchedule(id: string): Promise<Schedule | null> {
+		return this.readSchedule(id);
+	}
+
+	async listSchedules(accountNumber?: string): Promise<Schedule[]> {
+		const rows = (
+			accountNumber === undefined
+				? this.database()
+						.prepare('SELECT * FROM schedules ORDER BY rowid')
+						.all()
+				: this.database()
+						.prepare(
+							'SELECT * FROM schedules WHERE account_number = @accountNumber OR to_account_number = @accountNumber ORDER BY rowid',
+						)
+						.all({ accountNumber })
+		) as Row[];
+		return rows.map(row =>
+			ScheduleSchema.parse(fromRow(row, SCHEDULE_COLUMNS)),
+		);
+	}
+
+	async updateSchedule(id: string, updates: UpdateSchedule): Promise<Schedule> {
+		return this.write(tx => {
+			const existingSchedule = tx.readSchedule(id);
+			if (!existingSchedule) {
+				throw new Error(`Schedule ${id} not found`);
+			}
+
+			const updatedSchedule = ScheduleSchema.parse({
+				...existingSchedule,
+				...updates,
+				updatedAt: new Date(),
+			});
+
+			const columns = SCHEDULE_COLUMNS.map(column => column.column);
+			tx.database()
+				.prepare(
+					`UPDATE schedules SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`,
+				)
+				.run(toRow(updatedSchedule, SCHEDULE_COLUMNS));
+			return updatedSchedule;
+		});
+	}
+
+	async addScheduleRun(run: CreateScheduleRun): Promise<ScheduleRun> {
+		return this.write(tx => {
+			const newRun = createScheduleRun(run);
+
+			tx.database()
+				.prepare(insertSql('schedule_runs', SCHEDULE_RUN_COLUMNS))
+				.run(toRow(newRun, SCHEDULE_RUN_COLUMNS));
+			return newRun;
+		});
+	}
+
+	async getScheduleRuns(scheduleId?: string): Promise<ScheduleRun[]> {
+		const rows = (
+			scheduleId === undefined
+				? this.database()
+						.prepare('SELECT * FROM schedule_runs ORDER BY rowid')
+						.all()
+				: this.database()
+						.prepare(
+							'SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY rowid',
+						)
+						.all(scheduleId)
+		) as Row[];
+		return rows.map(row =>
+			ScheduleRunSchema.parse(fromRow(row, SCHEDULE_RUN_COLUMNS)),
+		);
+	}
+
+	async saveStatement(statement: Statement): Promise<Statement> {
+		return this.write(tx => {
+			if (tx.readStatement(statement.accountNumber, statement.period)) {
+				throw new Error(
+					`Statement for ${statement.accountNumber} ${statement.period} already exists`,
+				);
+			}
+
+			const savedStatement = StatementSchema.parse(statement);
+			tx.database()
+				.prepare(insertSql('statements', STATEMENT_COLUMNS))
+				.run(toRow(savedStatement, STATEMENT_COLUMNS));
+			return savedStatement;
+		});
+	}
+
+	async getStatement(
+		accountNumber: string,
+		period: string,
+	): Promise<Statement | null> {
+		return this.readStatement(accountNumber, period);
+	}
+
+	async lockAccount(accountNumber: string): Promise<boolean> {
+		const db = this.lockDatabase();
+		// Check and take over in one write transaction on the lock database
+		return db
+			.transaction(() => {
+				const existing = readLock(db, accountNumber);
+				if (existing && !isStaleLock(existing, this.staleLockMs)) {
+					return false;
+				}
+				db.prepare(
+					'INSERT OR REPLACE INTO account_locks (account_number, pid, hostname, locked_at) VALUES (?, ?, ?, ?)',
+				).run(
+					accountNumber,
+					process.pid,
+					os.hostname(),
+					new Date().toISOString(),
+				);
+				return true;
+			})
+			.immediate();
+	}
+
+	async unlockAccount(accountNumber: string): Promise<boolean> {
+		// Only the holder releases; breakLock() removes anyone's lock
+		const result = this.lockDatabase()
+			.prepare(
+				'DELETE FROM account_locks WHERE account_number = ? AND pid = ? AND hostname = ?',
+			)
+			.run(accountNumber, process.pid, os.hostname());
+		return result.changes > 0;
+	}
+
+	// Lock administration (not part of IStorage)
+
+	/**
+	 * List current account locks, flagging stale ones
+	 */
+	async listLocks(): Promise<LockInfo[]> {
+		const rows = this.lockDatabase()
+			.prepare('SELECT * FROM account_locks ORDER BY account_number')
+			.all() as LockRow[];
+		return rows.map(row => {
+			const lock = fromLockRow(row);
+			return { ...lock, stale: isStaleLock(lock, this.staleLockMs) };
+		});
+	}
+
+	/**
+	 * Forcibly remove a lock, e.g. one left behind by a crashed session
+	 * @param name - Account number
+	 * @returns true if a lock was removed
+	 */
+	async breakLock(name: string): Promise<boolean> {
+		const result = this.lockDatabase()
+			.prepare('DELETE FROM account_locks WHERE account_number = ?')
+			.run(name);
+		return result.changes > 0;
+	}
+
+	/**
+	 * Remove every stale lock
+	 * @returns Names of the locks that were removed
+	 */
+	async breakStaleLocks(): Promise<string[]> {
+		const db = this.lockDatabase();
+		return db
+			.transaction(() => {
+				const rows = db
+					.prepare('SELECT * FROM account_locks ORDER BY account_number')
+					.all() as LockRow[];
+				const stale = rows
+					.map(fromLockRow)
+					.filter(lock => isStaleLock(lock, this.staleLockMs))
+					.map(lock => lock.name);
+				const remove = db.prepare(
+					'DELETE FROM account_locks WHERE account_number = ?',
+				);
+				for (const name of stale) {
+					remove.run(name);
+				}
+				return stale;
+			})
+			.immediate();
+	}
+
+	async runInTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+		// Nested units of work join the enclosing one
+		if (this.parent) {
+			return fn(this);
+		}
+
+		const run = async (): Promise<T> => {
+			const db = this.writeDatabase();
+			const tx = new SqliteStorage(this.dbPath);
+			tx.parent = this;
+
+			db.exec('BEGIN IMMEDIATE');
+			try {
+				const result = await fn(tx);
+				db.exec('COMMIT');
+				return result;
+			} catch (error) {
+				if (db.inTransaction) {
+					db.exec('ROLLBACK');
+				}
+				throw error;
+			}
+		};
+
+		const result = this.commitQueue.then(run, run);
+		this.commitQueue = result.then(
+			() => undefined,
+			() => undefined,
+		);
+		return result;
+	}
+}
@@ -0,0 +1,194 @@
+import { IStorage } from './IStorage.js';
+import { Account } from '../models/Account.js';
+import {
+	Transaction,
+	TransactionType,
+	signedAmount,
+} from '../models/Transaction.js';
+import { affectsBalances } from '../models/JournalEntry.js';
+import {
+	Statement,
+	StatementTotal,
+	STATEMENT_PERIOD_PATTERN,
+} from '../models/Statement.js';
+import { Clock, systemClock, toBusinessDate } from '../utils/clock.js';
+
+/**
+ * Machine-readable reason a statement was refused
+ */
+export enum StatementErrorCode {
+	ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+	INVALID_PERIOD = 'INVALID_PERIOD',
+	PERIOD_IN_FUTURE = 'PERIOD_IN_FUTURE',
+	PERIOD_BEFORE_ACCOUNT_OPENED = 'PERIOD_BEFORE_ACCOUNT_OPENED',
+}
+
+/**
+ * Result of a statement request
+ */
+export interface StatementResult {
+	success: boolean;
+	statement?: Statement;
+	error?: string;
+	errorCode?: StatementErrorCode;
+}
+
+/**
+ * Statement service interface
+ */
+export interface IStatementService {
+	getStatement(
+		accountNumber: string,
+		period?: string,
+	): Promise<StatementResult>;
+}
+
+/**
+ * StatementService - Monthly account statements
+ *
+ * A statement covers one calendar month (local time, like business dates)
+ * and is derived from the account's transaction history: the balance the
+ * month opened at, every transaction posted in it, totals by type and the
+ * balance it closed at. Holds only reserve funds, so they are left out;
+ * a settled hold appears as its withdrawal.
+ *
+ * The current month's statement is built afresh on every request. A month
+ * that has ended is closed: its statement is saved the first time it is
+ * requested and returned unchanged from then on, so a reversal or
+ * adjustment posted later appears on the statement of the month it was
+ * posted in, never on one already issued.
+ */
+export class StatementService implements IStatementService {
+	constructor(
+		private storage: IStorage,
+		private clock: Clock = systemClock,
+	) {}
+
+	/**
+	 * Get an account's statement for a month
+	 * @param accountNumber - The account number
+	 * @param period - YYYY-MM, the current month when omitted; not in the future
+	 * @returns StatementResult with the statement, or an error if refused
+	 */
+	async getStatement(
+		accountNumber: string,
+		period?: string,
+	): Promise<StatementResult> {
+		const now = this.clock.now();
+		const currentPeriod = toBusinessDate(now).slice(0, 7);
+		const month = period ?? currentPeriod;
+		if (!STATEMENT_PERIOD_PATTERN.test(month)) {
+			return {
+				success: false,
+				error: `Invalid statement month "${month}" (expected YYYY-MM)`,
+				errorCode: StatementErrorCode.INVALID_PERIOD,
+			};
+		}
+		if (month > currentPeriod) {
+			return {
+				success: false,
+				error: `Statement month ${month} is in the future`,
+				errorCode: StatementErrorCode.PERIOD_IN_FUTURE,
+			};
+		}
+
+		const account = await this.storage.getAccount(accountNumber);
+		if (!account) {
+			return {
+				success: false,
+				error: 'Account not found',
+				errorCode: StatementErrorCode.ACCOUNT_NOT_FOUND,
+			};
+		}
+		if (month < toBusinessDate(account.createdAt).slice(0, 7)) {
+			return {
+				success: false,
+				error: `Account ${accountNumber} was not open in ${month}`,
+				errorCode: StatementErrorCode.PERIOD_BEFORE_ACCOUNT_OPENED,
+			};
+		}
+
+		if (month === currentPeriod) {
+			return {
+				success: true,
+				statement: await buildStatement(
+					this.storage,
+					account,
+					month,
+					false,
+					now,
+				),
+			};
+		}
+
+		// Freeze a closed month the first time it is asked for
+		const statement =
+			(await this.storage.getStatement(accountNumber, month)) ??
+			(await this.storage.runInTransaction(
+				async tx =>
+					(await tx.getStatement(accountNumber, month)) ??
+					tx.saveStatement(await buildStatement(tx, account, month, true, now)),
+			));
+		return { success: true, statement };
+	}
+}
+
+/**
+ * Build an account's statement for a month from its transaction history
+ */
+async function buildStatement(
+	storage: IStorage,
+	account: Account,
+	period: string,
+	closed: boolean,
+	generatedAt: Date,
+): Promise<Statement> {
+	// Oldest first; ties keep the order they were posted in
+	const history = (await storage.getTransactionHistory(account.accountNumber))
+		.filter(affectsBalances)
+		.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+	const periodOf = (transaction: Transaction) =>
+		toBusinessDate(transaction.timestamp).slice(0, 7);
+
+	const before = history.filter(t => periodOf(t) < period);
+	const transactions = history.filter(t => periodOf(t) === period);
+	const after = history.filter(t => periodOf(t) > period);
+
+	const openingBalance =
+		before.at(-1)?.balanceAfter ??
+		transactions[0]?.balanceBefore ??
+		after[0]?.balanceBefore ??
+		account.balance;
+
+	return {
+		accountNumber: account.accountNumber,
+		period,
+		openingBalance,
+		closingBalance: transactions.at(-1)?.balanceAfter ?? openingBalance,
+		transactions,
+		totals: totalsByType(transactions),
+		closed,
+		generatedAt,
+	};
+}
+
+/**
+ * Totals of each transaction type present, in TransactionType order
+ */
+function totalsByType(transactions: Transaction[]): StatementTotal[] {
+	return Object.values(TransactionType).flatMap(type => {
+		const ofType = transactions.filter(t => t.type === type);
+		if (ofType.length === 0) {
+			return [];
+		}
+		const moved = ofType.map(signedAmount);
+		return [
+			{
+				type,
+				count: ofType.length,
+				credits: moved.filter(m => m > 0).reduce((sum, m) => sum + m, 0),
+				debits: moved.filter(m => m < 0).reduce((sum, m) => sum - m, 0),
+			},
+		];
+	});
+}
@@ -0,0 +1,46 @@
+import * as path from 'path';
+import { JsonStorage } from './JsonStorage.js';
+import { SqliteStorage } from './SqliteStorage.js';
+
+/**
+ * Available storage backends
+ */
+export type StorageBackend = 'json' | 'sqlite';
+
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ['json', 'sqlite'];
+
+/**
+ * Check whether a string names a known storage backend
+ * @param value - Value to check (e.g. from a CLI flag)
+ * @returns true if the value is a StorageBackend
+ */
+export function isStorageBackend(value: string): value is StorageBackend {
+	return (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Create a storage instance for the selected backend
+ *
+ * Both backends keep their files inside the data directory:
+ * - json: accounts.json, ledger.json (journal entries with their postings),
+ *   schedules.json, statements.json, journal.json (while a unit of work
+ *   commits) and locks/ (lock files); a transactions.json from before the
+ *   ledger is kept as transactions.legacy.json once converted
+ * - sqlite: zbank.db, zbank-locks.db (account locks)
+ *
+ * @param backend - Storage backend to use
+ * @param dataDir - Data directory (defaults to ./data)
+ * @returns Uninitialized storage instance
+ */
+export function createStorage(
+	backend: StorageBackend = 'json',
+	dataDir: string = './data',
+): JsonStorage | SqliteStorage {
+	switch (backend) {
+		case 'sqlite':
+			return new SqliteStorage(path.join(dataDir, 'zbank.db'));
+		case 'json':
+		default:
+			return new JsonStorage(dataDir);
+	}
+}
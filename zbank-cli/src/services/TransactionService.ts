@@ -1,9 +1,45 @@
+import { v4 as uuidv4 } from 'uuid';
 import { IStorage } from './IStorage.js';
+import { COBOL_FEE_RULES, FeeRules, FeeService } from './FeeService.js';
 import {
 	Transaction,
+	TransactionSchema,
 	TransactionType,
 	TransactionStatus,
 } from '../models/Transaction.js';
+import { Account, availableBalance } from '../models/Account.js';
+import {
+	CreateJournalEntry,
+	JournalEntry,
+	SystemAccount,
+	isSystemAccount,
+	toTransactions,
+} from '../models/JournalEntry.js';
+import { formatBalance } from '../utils/formatter.js';
+import { MAX_TRANSACTION_AMOUNT } from '../utils/validation.js';
+
+/**
+ * Machine-readable reason for a failed transaction
+ */
+export enum TransactionErrorCode {
+	INVALID_AMOUNT = 'INVALID_AMOUNT',
+	ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+	DESTINATION_NOT_FOUND = 'DESTINATION_NOT_FOUND',
+	SAME_ACCOUNT = 'SAME_ACCOUNT',
+	ACCOUNT_BUSY = 'ACCOUNT_BUSY', // Locked by another operation
+	OVERDRAFT_LIMIT_EXCEEDED = 'OVERDRAFT_LIMIT_EXCEEDED', // Debit exceeds the available balance
+	TRANSACTION_LIMIT_EXCEEDED = 'TRANSACTION_LIMIT_EXCEEDED', // Above the per-transaction limit
+	DAILY_LIMIT_EXCEEDED = 'DAILY_LIMIT_EXCEEDED', // Above what is left of the daily limit
+	TRANSACTION_NOT_FOUND = 'TRANSACTION_NOT_FOUND',
+	ALREADY_REVERSED = 'ALREADY_REVERSED',
+	NOT_REVERSIBLE = 'NOT_REVERSIBLE', // Not a completed deposit, withdrawal, transfer, interest posting or fee
+	REASON_REQUIRED = 'REASON_REQUIRED',
+	INVALID_IDEMPOTENCY_KEY = 'INVALID_IDEMPOTENCY_KEY',
+	IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED', // Same key, different parameters
+	HOLD_NOT_PENDING = 'HOLD_NOT_PENDING', // Already settled or expired
+	HOLD_EXPIRED = 'HOLD_EXPIRED', // Expired before it was settled
+	TRANSACTION_ERROR = 'TRANSACTION_ERROR',
+}
 
 /**
  * Result of a transaction operation
@@ -11,8 +47,11 @@ import {
 export interface TransactionResult {
 	success: boolean;
 	transaction?: Transaction;
-	newBalance?: number;
+	newBalance?: number; // After any fees
+	fees?: Transaction[]; // Fees the transaction incurred, when there were any
 	error?: string;
+	errorCode?: TransactionErrorCode;
+	limitRemaining?: number; // Left of today's limit, on limit rejections (in cents)
 }
 
 /**
@@ -23,18 +62,86 @@ export interface ValidationResult {
 	error?: string;
 }
 
+/**
+ * Limits on one transaction type, in cents (null = no limit)
+ */
+export interface TransactionLimit {
+	perTransaction: number | null; // Largest single amount
+	daily: number | null; // Total over a rolling 24 hours
+}
+
+/**
+ * Bank-wide limits per transaction type
+ *
+ * Types without an entry are only held to MAX_TRANSACTION_AMOUNT. Accounts
+ * can override any value through Account.transactionLimits.
+ */
+export type TransactionLimits = Partial<
+	Record<TransactionType, TransactionLimit>
+>;
+
+/**
+ * The COBOL program's behavior: no limits beyond MAX_TRANSACTION_AMOUNT
+ */
+export const COBOL_TRANSACTION_LIMITS: TransactionLimits = {};
+
+/**
+ * Limits used by the application
+ */
+export const DEFAULT_TRANSACTION_LIMITS: TransactionLimits = {
+	[TransactionType.DEPOSIT]: { perTransaction: 1000000, daily: null }, // $10,000
+	[TransactionType.WITHDRAWAL]: { perTransaction: 100000, daily: 200000 }, // $1,000 / $2,000
+	[TransactionType.TRANSFER]: { perTransaction: 500000, daily: 1000000 }, // $5,000 / $10,000
+};
+
+// Transaction types reverse() can undo
+const REVERSIBLE_TYPES = [
+	TransactionType.DEPOSIT,
+	TransactionType.WITHDRAWAL,
+	TransactionType.TRANSFER,
+	TransactionType.INTEREST,
+	TransactionType.OVERDRAFT_INTEREST,
+	TransactionType.FEE,
+];
+
+// Length of the rolling window for daily limits
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a hold reserves funds before it expires, unless settled
+ */
+export const DEFAULT_HOLD_DURATION_MS = 7 * DAY_MS;
+
 /**
  * Transaction service interface
  */
 export interface ITransactionService {
-	deposit(accountNumber: string, amount: number): Promise<TransactionResult>;
-	withdraw(accountNumber: string, amount: number): Promise<TransactionResult>;
+	deposit(
+		accountNumber: string,
+		amount: number,
+		idempotencyKey?: string,
+	): Promise<TransactionResult>;
+	withdraw(
+		accountNumber: string,
+		amount: number,
+		idempotencyKey?: string,
+	): Promise<TransactionResult>;
 	transfer(
 		fromAccount: string,
 		toAccount: string,
 		amount: number,
+		idempotencyKey?: string,
+	): Promise<TransactionResult>;
+	reverse(transactionId: string, reason: string): Promise<TransactionResult>;
+	placeHold(
+		accountNumber: string,
+		amount: number,
+		description?: string,
 	): Promise<TransactionResult>;
+	settleHold(holdId: string): Promise<TransactionResult>;
+	expireHolds(now?: Date): Promise<Transaction[]>;
 	getBalance(accountNumber: string): Promise<number>;
+	getHistory(accountNumber: string, limit?: number): Promise<Transaction[]>;
 	validateAmount(amount: number): ValidationResult;
 }
 
@@ -42,127 +149,656 @@ export interface ITransactionService {
  * TransactionService - Core banking transaction logic
  *
  * Implements deposit and withdrawal operations matching COBOL behavior:
- * - Allows negative balances (no overdraft protection)
+ * - Allows negative balances (unlimited unless the account has an
+ *   OverdraftPolicy)
  * - Records transaction history
  * - Validates amounts
+ * - Enforces per-transaction and daily limits when constructed with
+ *   TransactionLimits (the COBOL program had none)
  *
- * Transfer functionality remains a placeholder (matching COBOL)
+ * Every operation posts one balanced journal entry: deposits and
+ * withdrawals against SystemAccount.CASH, transfers between the two
+ * customer accounts. Transfers go beyond the COBOL program (where 'T' was
+ * never implemented). Posted entries are never edited: a mistake is undone
+ * by a REVERSAL entry, and the original is marked REVERSED.
+ *
+ * Deposits, withdrawals and transfers take an optional idempotency key,
+ * stored with the entry. Keys belong to the account the call is for (the
+ * source of a transfer), so one account's keys never collide with another's.
+ * Calling again with a key that was already posted
+ * returns the original result without posting anything, so a client can
+ * safely retry after a timeout; the same key with different parameters is
+ * refused with IDEMPOTENCY_KEY_REUSED. Failed calls post nothing and keep
+ * no key, so retrying one runs it again.
+ *
+ * A hold reserves funds for a withdrawal that has been authorized but not
+ * yet paid out. It is a PENDING HOLD entry that leaves the ledger balance
+ * alone and adds to Account.heldAmount, which the available balance (and
+ * so the overdraft check) leaves out. Settling it posts the WITHDRAWAL and
+ * marks the hold COMPLETED; a hold not settled within the hold duration
+ * expires into FAILED and its funds are released.
+ *
+ * Deposits, withdrawals, transfers and settled holds are passed to the fee
+ * engine once posted, in the same unit of work, when constructed with
+ * FeeRules (the COBOL program charged no fees). Fees are separate FEE
+ * entries, reported with the result and included in its new balance, also
+ * when a call is replayed.
  */
 export class TransactionService implements ITransactionService {
-	constructor(private storage: IStorage) {}
+	private fees: FeeService;
+
+	constructor(
+		private storage: IStorage,
+		private limits: TransactionLimits = COBOL_TRANSACTION_LIMITS,
+		private holdDurationMs: number = DEFAULT_HOLD_DURATION_MS,
+		feeRules: FeeRules = COBOL_FEE_RULES,
+	) {
+		this.fees = new FeeService(feeRules);
+	}
 
 	/**
 	 * Deposit funds into an account
 	 * @param accountNumber - The account number
 	 * @param amount - The amount in cents
+	 * @param idempotencyKey - Optional key that makes retries safe
 	 * @returns TransactionResult with success status and new balance
 	 */
 	async deposit(
 		accountNumber: string,
 		amount: number,
+		idempotencyKey?: string,
 	): Promise<TransactionResult> {
-		// Validate amount
-		const validation = this.validateAmount(amount);
-		if (!validation.valid) {
-			return { success: false, error: validation.error };
+		// Validate amount and key
+		const invalid = invalidRequest(this.validateAmount(amount), idempotencyKey);
+		if (invalid) {
+			return invalid;
 		}
 
-		// Get current account
-		const account = await this.storage.getAccount(accountNumber);
-		if (!account) {
-			return { success: false, error: 'Account not found' };
-		}
+		// Record the posting and the new balance as one unit of work
+		return this.storage.runInTransaction(async tx => {
+			const replayed = await replay(tx, idempotencyKey, accountNumber, {
+				type: TransactionType.DEPOSIT,
+				postings: [[accountNumber, amount]],
+			});
+			if (replayed) {
+				return replayed;
+			}
 
-		// Calculate new balance
-		const newBalance = account.balance + amount;
+			// Get current account
+			const account = await tx.getAccount(accountNumber);
+			if (!account) {
+				return {
+					success: false,
+					error: 'Account not found',
+					errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+				};
+			}
 
-		// Create transaction record
-		const transaction = await this.storage.addTransaction({
-			accountNumber,
-			type: TransactionType.DEPOSIT,
-			amount,
-			balanceBefore: account.balance,
-			balanceAfter: newBalance,
-			status: TransactionStatus.COMPLETED,
-		});
+			const overLimit = await this.limitRefusal(
+				tx,
+				account,
+				TransactionType.DEPOSIT,
+				amount,
+			);
+			if (overLimit) {
+				return overLimit;
+			}
 
-		// Update account
-		await this.storage.updateAccount(accountNumber, {
-			balance: newBalance,
-			updatedAt: new Date(),
-		});
+			// Calculate new balance
+			const newBalance = account.balance + amount;
+
+			// Credit the account, debit cash
+			const [transaction] = await post(tx, {
+				type: TransactionType.DEPOSIT,
+				status: TransactionStatus.COMPLETED,
+				idempotencyKey,
+				...(idempotencyKey !== undefined && {
+					idempotencyScope: accountNumber,
+				}),
+				postings: [
+					customerPosting(account, amount),
+					{ accountNumber: SystemAccount.CASH, amount: -amount },
+				],
+			});
 
-		return { success: true, transaction, newBalance };
+			// Update account
+			await tx.updateAccount(accountNumber, {
+				balance: newBalance,
+				updatedAt: new Date(),
+			});
+
+			return this.chargeFees(tx, transaction);
+		});
 	}
 
 	/**
 	 * Withdraw funds from an account
 	 *
-	 * IMPORTANT: COBOL allows negative balances, so we do NOT check sufficient funds
-	 * This matches the original COBOL behavior (see docs/overview.md line 386)
+	 * IMPORTANT: COBOL allows negative balances, so accounts without an
+	 * overdraft policy are not checked for sufficient funds (see
+	 * docs/overview.md line 386). Accounts with OverdraftPolicy.NONE or
+	 * LIMITED are refused with OVERDRAFT_LIMIT_EXCEEDED.
 	 *
 	 * @param accountNumber - The account number
 	 * @param amount - The amount in cents
+	 * @param idempotencyKey - Optional key that makes retries safe
 	 * @returns TransactionResult with success status and new balance
 	 */
 	async withdraw(
 		accountNumber: string,
 		amount: number,
+		idempotencyKey?: string,
 	): Promise<TransactionResult> {
-		// Validate amount
-		const validation = this.validateAmount(amount);
-		if (!validation.valid) {
-			return { success: false, error: validation.error };
+		// Validate amount and key
+		const invalid = invalidRequest(this.validateAmount(amount), idempotencyKey);
+		if (invalid) {
+			return invalid;
 		}
 
-		// Get current account
-		const account = await this.storage.getAccount(accountNumber);
-		if (!account) {
-			return { success: false, error: 'Account not found' };
-		}
+		// Record the posting and the new balance as one unit of work
+		return this.storage.runInTransaction(async tx => {
+			const replayed = await replay(tx, idempotencyKey, accountNumber, {
+				type: TransactionType.WITHDRAWAL,
+				postings: [[accountNumber, -amount]],
+			});
+			if (replayed) {
+				return replayed;
+			}
 
-		// Calculate new balance (may go negative like COBOL)
-		const newBalance = account.balance - amount;
+			// Get current account
+			const found = await tx.getAccount(accountNumber);
+			if (!found) {
+				return {
+					success: false,
+					error: 'Account not found',
+					errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+				};
+			}
+			const account = await releaseExpiredHolds(tx, found);
 
-		// Create transaction record
-		const transaction = await this.storage.addTransaction({
-			accountNumber,
-			type: TransactionType.WITHDRAWAL,
-			amount,
-			balanceBefore: account.balance,
-			balanceAfter: newBalance,
-			status: TransactionStatus.COMPLETED,
-		});
+			const refusal =
+				(await this.limitRefusal(
+					tx,
+					account,
+					TransactionType.WITHDRAWAL,
+					amount,
+				)) ?? overdraftRefusal(account, amount);
+			if (refusal) {
+				return refusal;
+			}
 
-		// Update account
-		await this.storage.updateAccount(accountNumber, {
-			balance: newBalance,
-			updatedAt: new Date(),
-		});
+			// Calculate new balance (may go negative, within the overdraft policy)
+			const newBalance = account.balance - amount;
 
-		return { success: true, transaction, newBalance };
+			// Debit the account, credit cash
+			const [transaction] = await post(tx, {
+				type: TransactionType.WITHDRAWAL,
+				status: TransactionStatus.COMPLETED,
+				idempotencyKey,
+				...(idempotencyKey !== undefined && {
+					idempotencyScope: accountNumber,
+				}),
+				postings: [
+					customerPosting(account, -amount),
+					{ accountNumber: SystemAccount.CASH, amount },
+				],
+			});
+
+			// Update account
+			await tx.updateAccount(accountNumber, {
+				balance: newBalance,
+				updatedAt: new Date(),
+			});
+
+			return this.chargeFees(tx, transaction);
+		});
 	}
 
 	/**
 	 * Transfer funds between accounts
 	 *
-	 * Transfer not implemented in COBOL - return placeholder
-	 * This matches the original COBOL behavior where transfer is not implemented
+	 * Debits the source account and credits the destination account in one
+	 * journal entry, seen as two TRANSFER transactions sharing one reference.
+	 * Both accounts are locked for the duration (like VSAM READ UPDATE), and
+	 * both legs run in one unit of work, so a failure on either leg leaves
+	 * neither balance changed.
 	 *
-	 * @param _fromAccount - Source account number
-	 * @param _toAccount - Destination account number
-	 * @param _amount - The amount in cents
-	 * @returns TransactionResult with error indicating not implemented
+	 * Like withdrawals, the source account may go negative within its
+	 * overdraft policy.
+	 *
+	 * @param fromAccount - Source account number
+	 * @param toAccount - Destination account number
+	 * @param amount - The amount in cents
+	 * @param idempotencyKey - Optional key that makes retries safe
+	 * @returns TransactionResult with the source posting and new source balance
 	 */
 	async transfer(
-		_fromAccount: string,
-		_toAccount: string,
-		_amount: number,
+		fromAccount: string,
+		toAccount: string,
+		amount: number,
+		idempotencyKey?: string,
 	): Promise<TransactionResult> {
-		return {
-			success: false,
-			error: 'Transfer functionality not implemented (matching COBOL behavior)',
-		};
+		// Validate amount and key
+		const invalid = invalidRequest(this.validateAmount(amount), idempotencyKey);
+		if (invalid) {
+			return invalid;
+		}
+
+		if (fromAccount === toAccount) {
+			return {
+				success: false,
+				error: 'Cannot transfer to the same account',
+				errorCode: TransactionErrorCode.SAME_ACCOUNT,
+			};
+		}
+
+		// Lock in a fixed order so two opposing transfers cannot deadlock
+		const lockOrder = [fromAccount, toAccount].sort();
+		const acquired: string[] = [];
+
+		try {
+			for (const accountNumber of lockOrder) {
+				if (!(await this.storage.lockAccount(accountNumber))) {
+					return {
+						success: false,
+						error: `Account ${accountNumber} is locked by another operation`,
+						errorCode: TransactionErrorCode.ACCOUNT_BUSY,
+					};
+				}
+				acquired.push(accountNumber);
+			}
+
+			// Both legs commit together or not at all
+			return await this.storage.runInTransaction(async tx => {
+				const replayed = await replay(tx, idempotencyKey, fromAccount, {
+					type: TransactionType.TRANSFER,
+					postings: [
+						[fromAccount, -amount],
+						[toAccount, amount],
+					],
+				});
+				if (replayed) {
+					return replayed;
+				}
+
+				const found = await tx.getAccount(fromAccount);
+				if (!found) {
+					return {
+						success: false,
+						error: 'Account not found',
+						errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+					};
+				}
+				const source = await releaseExpiredHolds(tx, found);
+
+				const destination = await tx.getAccount(toAccount);
+				if (!destination) {
+					return {
+						success: false,
+						error: 'Destination account not found',
+						errorCode: TransactionErrorCode.DESTINATION_NOT_FOUND,
+					};
+				}
+
+				const refusal =
+					(await this.limitRefusal(
+						tx,
+						source,
+						TransactionType.TRANSFER,
+						amount,
+					)) ?? overdraftRefusal(source, amount);
+				if (refusal) {
+					return refusal;
+				}
+
+				const sourceBalance = source.balance - amount;
+				const destinationBalance = destination.balance + amount;
+
+				await tx.updateAccount(fromAccount, {
+					balance: sourceBalance,
+					updatedAt: new Date(),
+				});
+				await tx.updateAccount(toAccount, {
+					balance: destinationBalance,
+					updatedAt: new Date(),
+				});
+
+				const [transaction] = await post(tx, {
+					type: TransactionType.TRANSFER,
+					status: TransactionStatus.COMPLETED,
+					reference: uuidv4(),
+					idempotencyKey,
+					...(idempotencyKey !== undefined && {
+						idempotencyScope: fromAccount,
+					}),
+					postings: [
+						customerPosting(source, -amount, `Transfer to ${toAccount}`),
+						customerPosting(
+							destination,
+							amount,
+							`Transfer from ${fromAccount}`,
+						),
+					],
+				});
+
+				return this.chargeFees(tx, transaction);
+			});
+		} catch (error) {
+			return {
+				success: false,
+				error: `Transfer failed: ${error instanceof Error ? error.message : String(error)}`,
+				errorCode: TransactionErrorCode.TRANSACTION_ERROR,
+			};
+		} finally {
+			for (const accountNumber of acquired.reverse()) {
+				await this.storage.unlockAccount(accountNumber);
+			}
+		}
+	}
+
+	/**
+	 * Undo a completed deposit, withdrawal, transfer, interest posting or fee
+	 *
+	 * Posts a REVERSAL entry with every posting of the original negated, each
+	 * customer posting linked to the one it undoes through reversalOf, and
+	 * marks the original REVERSED. Reversing a transfer undoes both legs. The
+	 * accounts involved are locked for the duration, as for a transfer.
+	 *
+	 * A reversal corrects the bank's own record, so it is not held to
+	 * transaction limits or overdraft policies.
+	 *
+	 * @param transactionId - ID of any customer transaction of the entry
+	 * @param reason - Why the transaction is undone (kept as its description)
+	 * @returns TransactionResult with the reversal posting and new balance of
+	 *   the account transactionId belongs to
+	 */
+	async reverse(
+		transactionId: string,
+		reason: string,
+	): Promise<TransactionResult> {
+		if (reason.trim() === '') {
+			return {
+				success: false,
+				error: 'A reversal needs a reason',
+				errorCode: TransactionErrorCode.REASON_REQUIRED,
+			};
+		}
+
+		const original = (await this.storage.getJournalEntries()).find(entry =>
+			entry.postings.some(
+				posting =>
+					posting.id === transactionId &&
+					!isSystemAccount(posting.accountNumber),
+			),
+		);
+		if (!original) {
+			return {
+				success: false,
+				error: 'Transaction not found',
+				errorCode: TransactionErrorCode.TRANSACTION_NOT_FOUND,
+			};
+		}
+
+		const accountNumbers = original.postings
+			.map(posting => posting.accountNumber)
+			.filter(accountNumber => !isSystemAccount(accountNumber));
+
+		// Lock in a fixed order so a reversal cannot deadlock with a transfer
+		const lockOrder = [...accountNumbers].sort();
+		const acquired: string[] = [];
+
+		try {
+			for (const accountNumber of lockOrder) {
+				if (!(await this.storage.lockAccount(accountNumber))) {
+					return {
+						success: false,
+						error: `Account ${accountNumber} is locked by another operation`,
+						errorCode: TransactionErrorCode.ACCOUNT_BUSY,
+					};
+				}
+				acquired.push(accountNumber);
+			}
+
+			return await this.storage.runInTransaction(async tx => {
+				// Read again inside the unit of work: it may have been reversed since
+				const entry = (await tx.getJournalEntries()).find(
+					e => e.id === original.id,
+				);
+				if (entry?.status === TransactionStatus.REVERSED) {
+					return {
+						success: false,
+						error: 'Transaction has already been reversed',
+						errorCode: TransactionErrorCode.ALREADY_REVERSED,
+					};
+				}
+				if (
+					!entry ||
+					entry.status !== TransactionStatus.COMPLETED ||
+					!REVERSIBLE_TYPES.includes(entry.type)
+				) {
+					return {
+						success: false,
+						error: `Only completed ${REVERSIBLE_TYPES.join(', ')} transactions can be reversed`,
+						errorCode: TransactionErrorCode.NOT_REVERSIBLE,
+					};
+				}
+
+				const accounts = new Map<string, Account>();
+				for (const accountNumber of accountNumbers) {
+					const account = await tx.getAccount(accountNumber);
+					if (!account) {
+						return {
+							success: false,
+							error: `Account ${accountNumber} not found`,
+							errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+						};
+					}
+					accounts.set(accountNumber, account);
+				}
+
+				const transactions = await post(tx, {
+					type: TransactionType.REVERSAL,
+					status: TransactionStatus.COMPLETED,
+					description: `Reversal: ${reason.trim()}`,
+					postings: entry.postings.map(posting => {
+						const account = accounts.get(posting.accountNumber);
+						return account
+							? {
+									...customerPosting(account, -posting.amount),
+									reversalOf: posting.id,
+								}
+							: {
+									accountNumber: posting.accountNumber,
+									amount: -posting.amount,
+								};
+					}),
+				});
+
+				for (const transaction of transactions) {
+					await tx.updateAccount(transaction.accountNumber, {
+						balance: transaction.balanceAfter,
+						updatedAt: new Date(),
+					});
+				}
+				await tx.updateJournalEntryStatus(entry.id, TransactionStatus.REVERSED);
+
+				const transaction = transactions.find(
+					t => t.reversalOf === transactionId,
+				);
+				return {
+					success: true,
+					transaction,
+					newBalance: transaction?.balanceAfter,
+				};
+			});
+		} catch (error) {
+			return {
+				success: false,
+				error: `Reversal failed: ${error instanceof Error ? error.message : String(error)}`,
+				errorCode: TransactionErrorCode.TRANSACTION_ERROR,
+			};
+		} finally {
+			for (const accountNumber of acquired.reverse()) {
+				await this.storage.unlockAccount(accountNumber);
+			}
+		}
+	}
+
+	/**
+	 * Reserve funds for a withdrawal that will be settled later
+	 *
+	 * Held to the account's withdrawal limits and overdraft policy like a
+	 * withdrawal, against the funds not already held. The ledger balance does
+	 * not change until the hold settles.
+	 *
+	 * @param accountNumber - The account number
+	 * @param amount - The amount in cents
+	 * @param description - Optional description, kept by the settlement
+	 * @returns TransactionResult with the PENDING hold and the (unchanged)
+	 *   ledger balance
+	 */
+	async placeHold(
+		accountNumber: string,
+		amount: number,
+		description?: string,
+	): Promise<TransactionResult> {
+		const invalid = invalidRequest(this.validateAmount(amount));
+		if (invalid) {
+			return invalid;
+		}
+
+		return this.storage.runInTransaction(async tx => {
+			const found = await tx.getAccount(accountNumber);
+			if (!found) {
+				return {
+					success: false,
+					error: 'Account not found',
+					errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+				};
+			}
+			const account = await releaseExpiredHolds(tx, found);
+
+			const refusal =
+				(await this.limitRefusal(
+					tx,
+					account,
+					TransactionType.WITHDRAWAL,
+					amount,
+				)) ?? overdraftRefusal(account, amount);
+			if (refusal) {
+				return refusal;
+			}
+
+			// The postings settling will make; the balance stays where it is
+			const [transaction] = await post(tx, {
+				type: TransactionType.HOLD,
+				status: TransactionStatus.PENDING,
+				description,
+				reference: uuidv4(),
+				expiresAt: new Date(Date.now() + this.holdDurationMs),
+				postings: [
+					{
+						accountNumber,
+						amount: -amount,
+						balanceBefore: account.balance,
+						balanceAfter: account.balance,
+					},
+					{ accountNumber: SystemAccount.CASH, amount },
+				],
+			});
+
+			await tx.updateAccount(accountNumber, {
+				heldAmount: (account.heldAmount ?? 0) + amount,
+				updatedAt: new Date(),
+			});
+
+			return { success: true, transaction, newBalance: account.balance };
+		});
+	}
+
+	/**
+	 * Pay out a pending hold
+	 *
+	 * Posts a WITHDRAWAL for the held amount, sharing the hold's reference,
+	 * and marks the hold COMPLETED. The funds were checked when the hold was
+	 * placed, so limits and overdraft policies are not applied again. A hold
+	 * past its expiry is expired instead.
+	 *
+	 * @param holdId - ID of the hold transaction
+	 * @returns TransactionResult with the withdrawal and new balance
+	 */
+	async settleHold(holdId: string): Promise<TransactionResult> {
+		return this.storage.runInTransaction(async tx => {
+			const hold = (await tx.getJournalEntries()).find(
+				entry =>
+					entry.type === TransactionType.HOLD &&
+					entry.postings.some(posting => posting.id === holdId),
+			);
+			if (!hold) {
+				return {
+					success: false,
+					error: 'Hold not found',
+					errorCode: TransactionErrorCode.TRANSACTION_NOT_FOUND,
+				};
+			}
+
+			if ((await expireHoldEntries(tx, [hold], new Date())).length > 0) {
+				return {
+					success: false,
+					error: 'Hold has expired',
+					errorCode: TransactionErrorCode.HOLD_EXPIRED,
+				};
+			}
+			if (hold.status !== TransactionStatus.PENDING) {
+				return {
+					success: false,
+					error: `Hold has already ${hold.status === TransactionStatus.COMPLETED ? 'settled' : 'expired'}`,
+					errorCode: TransactionErrorCode.HOLD_NOT_PENDING,
+				};
+			}
+
+			const [held] = toTransactions(hold);
+			const account = await tx.getAccount(held.accountNumber);
+			if (!account) {
+				return {
+					success: false,
+					error: 'Account not found',
+					errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+				};
+			}
+
+			const newBalance = account.balance - held.amount;
+			const [transaction] = await post(tx, {
+				type: TransactionType.WITHDRAWAL,
+				status: TransactionStatus.COMPLETED,
+				description: hold.description,
+				reference: hold.reference,
+				postings: [
+					customerPosting(account, -held.amount),
+					{ accountNumber: SystemAccount.CASH, amount: held.amount },
+				],
+			});
+
+			await tx.updateAccount(account.accountNumber, {
+				balance: newBalance,
+				heldAmount: Math.max(0, (account.heldAmount ?? 0) - held.amount),
+				updatedAt: new Date(),
+			});
+			await tx.updateJournalEntryStatus(hold.id, TransactionStatus.COMPLETED);
+
+			return this.chargeFees(tx, transaction);
+		});
+	}
+
+	/**
+	 * Expire every pending hold past its expiry and release its funds
+	 * @param now - The time to expire against (defaults to now)
+	 * @returns The expired holds, now FAILED
+	 */
+	async expireHolds(now: Date = new Date()): Promise<Transaction[]> {
+		return this.storage.runInTransaction(async tx =>
+			expireHoldEntries(tx, await tx.getJournalEntries(), now),
+		);
 	}
 
 	/**
@@ -179,6 +815,117 @@ export class TransactionService implements ITransactionService {
 		return account.balance;
 	}
 
+	/**
+	 * Get the transaction history of an account
+	 * @param accountNumber - The account number
+	 * @param limit - Optional limit on number of transactions
+	 * @returns Transactions, most recent first
+	 * @throws Error if account not found
+	 */
+	async getHistory(
+		accountNumber: string,
+		limit?: number,
+	): Promise<Transaction[]> {
+		const account = await this.storage.getAccount(accountNumber);
+		if (!account) {
+			throw new Error('Account not found');
+		}
+		return this.storage.getTransactionHistory(accountNumber, limit);
+	}
+
+	/**
+	 * Charge the fees a posted transaction incurs and report it
+	 * @param tx - Storage of the running unit of work
+	 * @param transaction - The posted transaction, its account already updated
+	 * @returns The successful result, with the fees and the balance after them
+	 */
+	private async chargeFees(
+		tx: IStorage,
+		transaction: Transaction,
+	): Promise<TransactionResult> {
+		const fees = await this.fees.chargeTransactionFees(tx, transaction);
+		if (fees.length === 0) {
+			return {
+				success: true,
+				transaction,
+				newBalance: transaction.balanceAfter,
+			};
+		}
+
+		const newBalance = fees[fees.length - 1].balanceAfter;
+		await tx.updateAccount(transaction.accountNumber, {
+			balance: newBalance,
+			updatedAt: new Date(),
+		});
+		return { success: true, transaction, newBalance, fees };
+	}
+
+	/**
+	 * Refuse an amount above the account's per-transaction or daily limit
+	 *
+	 * The daily total is the sum of the account's completed transactions of
+	 * the type over the last 24 hours (outgoing legs only, for transfers),
+	 * plus pending holds for withdrawals.
+	 *
+	 * @param tx - Storage of the running unit of work
+	 * @param account - The account the limit applies to
+	 * @param type - The transaction type
+	 * @param amount - The amount in cents
+	 * @returns The failed result, or null if the amount is within the limits
+	 */
+	private async limitRefusal(
+		tx: IStorage,
+		account: Account,
+		type: TransactionType,
+		amount: number,
+	): Promise<TransactionResult | null> {
+		const limit = resolveTransactionLimit(this.limits, account, type);
+
+		let limitRemaining: number | undefined;
+		if (limit.daily !== null) {
+			const since = Date.now() - DAY_MS;
+			const used = (await tx.getTransactionHistory(account.accountNumber))
+				.filter(
+					t =>
+						((t.type === type && t.status === TransactionStatus.COMPLETED) ||
+							// Pending holds will settle as withdrawals
+							(type === TransactionType.WITHDRAWAL &&
+								t.type === TransactionType.HOLD &&
+								t.status === TransactionStatus.PENDING)) &&
+						t.timestamp.getTime() > since &&
+						// Incoming transfers do not count against the limit
+						(type !== TransactionType.TRANSFER ||
+							t.balanceAfter < t.balanceBefore),
+				)
+				.reduce((sum, t) => sum + t.amount, 0);
+			limitRemaining = Math.max(0, limit.daily - used);
+		}
+		const left =
+			limitRemaining === undefined
+				? ''
+				: ` (${formatBalance(limitRemaining)} of today's ${formatBalance(limit.daily ?? 0)} left)`;
+
+		if (limit.perTransaction !== null && amount > limit.perTransaction) {
+			return {
+				success: false,
+				error: `Amount exceeds the ${type} limit of ${formatBalance(limit.perTransaction)} per transaction${left}`,
+				errorCode: TransactionErrorCode.TRANSACTION_LIMIT_EXCEEDED,
+				limitRemaining,
+			};
+		}
+
+		if (limitRemaining !== undefined && amount > limitRemaining) {
+			return {
+				success: false,
+				error: `Daily ${type} limit reached${left}`,
+				errorCode: TransactionErrorCode.DAILY_LIMIT_EXCEEDED,
+				limitRemaining,
+			};
+		}
+
+		return null;
+	}
+
 	/**
 	 * Validate transaction amount
 	 * @param amount - The amount in cents
@@ -191,10 +938,251 @@ export class TransactionService implements ITransactionService {
 		if (!Number.isInteger(amount)) {
 			return { valid: false, error: 'Amount must be in cents (whole number)' };
 		}
-		if (amount > 1000000000) {
-			// $10 million limit
+		if (amount > MAX_TRANSACTION_AMOUNT) {
 			return { valid: false, error: 'Amount exceeds maximum limit' };
 		}
 		return { valid: true };
 	}
 }
+
+/**
+ * Limits that apply to one account and transaction type
+ * @param limits - Bank-wide limits
+ * @param account - The account, with its overrides
+ * @param type - The transaction type
+ * @returns The bank-wide limit with the account's overrides applied
+ */
+export function resolveTransactionLimit(
+	limits: TransactionLimits,
+	account: Pick<Account, 'transactionLimits'>,
+	type: TransactionType,
+): TransactionLimit {
+	const base = limits[type] ?? { perTransaction: null, daily: null };
+	const override = account.transactionLimits?.[type] ?? {};
+	return {
+		perTransaction:
+			override.perTransaction === undefined
+				? base.perTransaction
+				: override.perTransaction,
+		daily: override.daily === undefined ? base.daily : override.daily,
+	};
+}
+
+/**
+ * Refuse an invalid amount or idempotency key
+ * @param validation - Result of validateAmount
+ * @param idempotencyKey - The key, if any
+ * @returns The failed result, or null if both are valid
+ */
+function invalidRequest(
+	validation: ValidationResult,
+	idempotencyKey?: string,
+): TransactionResult | null {
+	if (!validation.valid) {
+		return {
+			success: false,
+			error: validation.error,
+			errorCode: TransactionErrorCode.INVALID_AMOUNT,
+		};
+	}
+	const key = TransactionSchema.shape.idempotencyKey.safeParse(idempotencyKey);
+	if (!key.success) {
+		return {
+			success: false,
+			error: key.error.issues[0]?.message ?? 'Invalid idempotency key',
+			errorCode: TransactionErrorCode.INVALID_IDEMPOTENCY_KEY,
+		};
+	}
+	return null;
+}
+
+/**
+ * What a call would post, to compare with an entry posted under its key
+ */
+interface IdempotentRequest {
+	type: TransactionType;
+	postings: [accountNumber: string, amount: number][]; // Customer postings, signed
+}
+
+/**
+ * Result of an earlier call with the same idempotency key
+ * @param tx - Storage of the running unit of work
+ * @param idempotencyKey - The key, if any
+ * @param accountNumber - Account the key belongs to, whose posting the
+ *   result reports
+ * @param request - What this call would post
+ * @returns The original result, with the fees it was charged, a refusal if
+ *   the key was used for something else, or null if the key is new (or none
+ *   was given)
+ */
+async function replay(
+	tx: IStorage,
+	idempotencyKey: string | undefined,
+	accountNumber: string,
+	request: IdempotentRequest,
+): Promise<TransactionResult | null> {
+	if (idempotencyKey === undefined) {
+		return null;
+	}
+	const entry = await tx.getJournalEntryByIdempotencyKey(
+		accountNumber,
+		idempotencyKey,
+	);
+	if (!entry) {
+		return null;
+	}
+
+	const posted = entry.postings
+		.filter(posting => !isSystemAccount(posting.accountNumber))
+		.map(posting => [posting.accountNumber, posting.amount]);
+	if (
+		entry.type !== request.type ||
+		JSON.stringify(posted) !== JSON.stringify(request.postings)
+	) {
+		return {
+			success: false,
+			error: 'Idempotency key was already used for a different transaction',
+			errorCode: TransactionErrorCode.IDEMPOTENCY_KEY_REUSED,
+		};
+	}
+
+	const transaction = toTransactions(entry).find(
+		t => t.accountNumber === accountNumber,
+	);
+	const fees = transaction
+		? (await tx.getJournalEntries(accountNumber))
+				.filter(
+					e =>
+						e.type === TransactionType.FEE && e.chargedFor === transaction.id,
+				)
+				.flatMap(toTransactions)
+		: [];
+	if (fees.length === 0) {
+		return {
+			success: true,
+			transaction,
+			newBalance: transaction?.balanceAfter,
+		};
+	}
+	return {
+		success: true,
+		transaction,
+		newBalance: fees[fees.length - 1].balanceAfter,
+		fees,
+	};
+}
+
+/**
+ * Mark pending holds past their expiry FAILED and release their funds
+ * @param tx - Storage of the running unit of work
+ * @param entries - Journal entries to look through
+ * @param now - The time to expire against
+ * @returns The expired holds
+ */
+async function expireHoldEntries(
+	tx: IStorage,
+	entries: JournalEntry[],
+	now: Date,
+): Promise<Transaction[]> {
+	const expired: Transaction[] = [];
+	for (const entry of entries) {
+		if (
+			entry.type !== TransactionType.HOLD ||
+			entry.status !== TransactionStatus.PENDING ||
+			entry.expiresAt === undefined ||
+			entry.expiresAt > now
+		) {
+			continue;
+		}
+
+		const holds = toTransactions(
+			await tx.updateJournalEntryStatus(entry.id, TransactionStatus.FAILED),
+		);
+		for (const hold of holds) {
+			const account = await tx.getAccount(hold.accountNumber);
+			if (account) {
+				await tx.updateAccount(hold.accountNumber, {
+					heldAmount: Math.max(0, (account.heldAmount ?? 0) - hold.amount),
+					updatedAt: new Date(),
+				});
+			}
+		}
+		expired.push(...holds);
+	}
+	return expired;
+}
+
+/**
+ * Expire an account's overdue holds before its funds are checked
+ * @param tx - Storage of the running unit of work
+ * @param account - The account
+ * @returns The account with its held amount up to date
+ */
+async function releaseExpiredHolds(
+	tx: IStorage,
+	account: Account,
+): Promise<Account> {
+	if (!account.heldAmount) {
+		return account;
+	}
+	const expired = await expireHoldEntries(
+		tx,
+		await tx.getJournalEntries(account.accountNumber),
+		new Date(),
+	);
+	return expired.length > 0
+		? ((await tx.getAccount(account.accountNumber)) ?? account)
+		: account;
+}
+
+/**
+ * Refuse a debit that would take an account past its overdraft policy
+ * @param account - The account to debit
+ * @param amount - The amount in cents
+ * @returns The failed result, or null if the debit is allowed
+ */
+function overdraftRefusal(
+	account: Account,
+	amount: number,
+): TransactionResult | null {
+	const available = availableBalance(account);
+	if (available === null || amount <= available) {
+		return null;
+	}
+	return {
+		success: false,
+		error: `Insufficient funds: ${formatBalance(available)} available`,
+		errorCode: TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED,
+	};
+}
+
+/**
+ * Posting that changes a customer account, with its balance snapshots
+ * @param account - The account before the posting
+ * @param amount - Signed amount in cents (negative debits the account)
+ * @param description - Optional description for this account's view
+ */
+function customerPosting(
+	account: Account,
+	amount: number,
+	description?: string,
+): CreateJournalEntry['postings'][number] {
+	return {
+		accountNumber: account.accountNumber,
+		amount,
+		balanceBefore: account.balance,
+		balanceAfter: account.balance + amount,
+		...(description !== undefined && { description }),
+	};
+}
+
+/**
+ * Post a journal entry and return its Transaction view
+ * @returns One transaction per customer posting, in posting order
+ */
+async function post(
+	tx: IStorage,
+	entry: CreateJournalEntry,
+): Promise<Transaction[]> {
+	return toTransactions(await tx.postJournalEntry(entry));
+}
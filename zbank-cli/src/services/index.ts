@@ -6,15 +6,100 @@
 
 export type { IStorage } from './IStorage.js';
 export { JsonStorage } from './JsonStorage.js';
+export { SqliteStorage } from './SqliteStorage.js';
+export {
+	FileLockManager,
+	type FileLockOptions,
+	type LockInfo,
+} from './FileLockManager.js';
+export {
+	createStorage,
+	isStorageBackend,
+	STORAGE_BACKENDS,
+	type StorageBackend,
+} from './StorageFactory.js';
 export {
 	AuthService,
+	AuthErrorCode,
+	COBOL_LOCKOUT_POLICY,
+	DEFAULT_LOCKOUT_POLICY,
 	type IAuthService,
 	type AuthResult,
+	type LockoutPolicy,
 } from './AuthService.js';
-export { SessionManager } from './SessionManager.js';
+export {
+	AccountService,
+	type IAccountService,
+	type RegistrationRequest,
+	type RegistrationResult,
+	type OverdraftUpdateResult,
+	type TransactionLimitUpdateResult,
+	type AccountTypeUpdateResult,
+	type FeeWaiverUpdateResult,
+} from './AccountService.js';
+export {
+	SessionManager,
+	DEFAULT_SESSION_TIMEOUTS,
+	type SessionTimeoutOptions,
+	type SessionExpiryReason,
+	type SessionExpiredEvent,
+	type SessionExpiredListener,
+} from './SessionManager.js';
 export {
 	TransactionService,
+	TransactionErrorCode,
+	COBOL_TRANSACTION_LIMITS,
+	DEFAULT_TRANSACTION_LIMITS,
+	resolveTransactionLimit,
 	type ITransactionService,
 	type TransactionResult,
 	type ValidationResult,
+	type TransactionLimit,
+	type TransactionLimits,
 } from './TransactionService.js';
+export {
+	LedgerService,
+	type ILedgerService,
+	type LedgerBalance,
+} from './LedgerService.js';
+export {
+	IntegrityService,
+	IntegrityIssueType,
+	type IIntegrityService,
+	type IntegrityIssue,
+	type IntegrityReport,
+} from './IntegrityService.js';
+export {
+	SchedulerService,
+	ScheduleErrorCode,
+	type ISchedulerService,
+	type ScheduleResult,
+} from './SchedulerService.js';
+export {
+	EndOfDayService,
+	EndOfDayErrorCode,
+	COBOL_INTEREST_RATES,
+	DEFAULT_INTEREST_RATES,
+	type IEndOfDayService,
+	type InterestRate,
+	type InterestRates,
+	type EndOfDayFailure,
+	type EndOfDayReport,
+	type EndOfDayResult,
+} from './EndOfDayService.js';
+export {
+	FeeService,
+	COBOL_FEE_RULES,
+	DEFAULT_FEE_RULES,
+	isMonthlyFee,
+	type IFeeService,
+	type FeeSchedule,
+	type FeeRules,
+	type MonthEndBalances,
+} from './FeeService.js';
+export {
+	StatementService,
+	StatementErrorCode,
+	type IStatementService,
+	type StatementResult,
+} from './StatementService.js';
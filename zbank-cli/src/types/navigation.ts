@@ -10,6 +10,8 @@
  * Additional states for enhanced UX:
  * - Splash Screen: Shown on startup
  * - Help Screen: User guidance and shortcuts
+ * - History Screen: Transaction history for the logged-in account
+ * - Statement Screen: Monthly statements for the logged-in account
  */
 
 /**
@@ -22,6 +24,8 @@ export enum AppState {
 	HOME = 'HOME',
 	REGISTER = 'REGISTER',
 	HELP = 'HELP',
+	HISTORY = 'HISTORY',
+	STATEMENT = 'STATEMENT',
 	EXIT = 'EXIT',
 }
 
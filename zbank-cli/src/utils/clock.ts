@@ -0,0 +1,66 @@
+/**
+ * Source of the current time
+ *
+ * Services that act on due dates take a Clock instead of calling
+ * `new Date()`, so tests (and runs for a past date) can decide what "now" is.
+ */
+export interface Clock {
+	now(): Date;
+}
+
+/**
+ * The system time
+ */
+export const systemClock: Clock = {
+	now: () => new Date(),
+};
+
+/**
+ * The local calendar date of a time, as a business date
+ * @param date - The time
+ * @returns The date as YYYY-MM-DD
+ */
+export function toBusinessDate(date: Date): string {
+	const year = date.getFullYear();
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a business date
+ * @param value - The date as YYYY-MM-DD
+ * @returns Local midnight at the start of the date, or null if it is not a
+ *   valid calendar date
+ */
+export function parseBusinessDate(value: string): Date | null {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		return null;
+	}
+	const date = new Date(`${value}T00:00:00`);
+	return !Number.isNaN(date.getTime()) && toBusinessDate(date) === value
+		? date
+		: null;
+}
+
+/**
+ * The last moment of a business date
+ * @param value - A valid business date (YYYY-MM-DD)
+ * @returns One millisecond before local midnight at the end of the date
+ */
+export function endOfBusinessDate(value: string): Date {
+	return new Date(
+		new Date(`${nextBusinessDate(value)}T00:00:00`).getTime() - 1,
+	);
+}
+
+/**
+ * The business date after another
+ * @param value - A valid business date (YYYY-MM-DD)
+ * @returns The next calendar date as YYYY-MM-DD
+ */
+export function nextBusinessDate(value: string): string {
+	const date = new Date(`${value}T00:00:00`);
+	date.setDate(date.getDate() + 1);
+	return toBusinessDate(date);
+}
@@ -0,0 +1,252 @@
+import { Statement } from '../models/Statement.js';
+import { signedAmount } from '../models/Transaction.js';
+import { formatTimestamp } from './formatter.js';
+import {
+	TransactionExport,
+	ParsedTransaction,
+	toFitId,
+	formatDecimal,
+	parseDecimal,
+} from './export.js';
+
+/**
+ * CSV output (RFC 4180 quoting, one record per line)
+ *
+ * Amounts are written as plain decimal dollars ("-12.50"), which
+ * spreadsheets read as numbers; dates use the formatTimestamp layout.
+ * Descriptions come from customers, so one a spreadsheet would run as a
+ * formula (starting with =, +, -, @, tab or carriage return) is written
+ * behind an apostrophe, which spreadsheets show it without.
+ */
+
+/**
+ * Columns of a transaction history CSV
+ */
+const EXPORT_COLUMNS = [
+	'account',
+	'date',
+	'fitid',
+	'type', // TransactionType
+	'description',
+	'amount', // Signed: credits positive, debits negative
+	'balance', // After the transaction
+];
+
+/**
+ * Columns of a statement CSV
+ */
+const STATEMENT_COLUMNS = [
+	'record', // opening, transaction, total or closing
+	'date',
+	'type',
+	'id',
+	'description',
+	'count', // Transactions of the type, on total rows
+	'credit',
+	'debit',
+	'balance',
+];
+
+/**
+ * Quote a field if it holds a delimiter, quote or line break
+ */
+function formatField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Keep free text from being read as a formula
+ *
+ * Text already starting with an apostrophe gets another one, so that
+ * parseText() can always take the first one off.
+ */
+function formatText(value: string): string {
+	return /^['=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Undo formatText()
+ */
+function parseText(value: string): string {
+	return value.startsWith("'") ? value.slice(1) : value;
+}
+
+/**
+ * Build CSV text from rows of fields
+ * @param rows - The rows, header first
+ * @returns One line per row, each ending with a line break
+ */
+export function toCsv(rows: string[][]): string {
+	return rows.map(row => `${row.map(formatField).join(',')}\n`).join('');
+}
+
+/**
+ * Format a monthly statement as CSV
+ *
+ * An opening row, one row per transaction (its amount in the credit or
+ * debit column), one row per type total and a closing row.
+ *
+ * @param statement - The statement to format
+ * @returns CSV text with a header row
+ */
+export function statementToCsv(statement: Statement): string {
+	const [year, month] = statement.period.split('-').map(Number);
+	const lastDay = new Date(year, month, 0).getDate();
+
+	return toCsv([
+		STATEMENT_COLUMNS,
+		[
+			'opening',
+			`${statement.period}-01`,
+			'',
+			'',
+			'',
+			'',
+			'',
+			'',
+			formatDecimal(statement.openingBalance),
+		],
+		...statement.transactions.map(transaction => {
+			const moved = signedAmount(transaction);
+			return [
+				'transaction',
+				formatTimestamp(transaction.timestamp),
+				transaction.type,
+				transaction.id,
+				formatText(transaction.description ?? ''),
+				'',
+				moved > 0 ? formatDecimal(moved) : '',
+				moved < 0 ? formatDecimal(-moved) : '',
+				formatDecimal(transaction.balanceAfter),
+			];
+		}),
+		...statement.totals.map(total => [
+			'total',
+			'',
+			total.type,
+			'',
+			'',
+			String(total.count),
+			formatDecimal(total.credits),
+			formatDecimal(total.debits),
+			'',
+		]),
+		[
+			'closing',
+			`${statement.period}-${String(lastDay).padStart(2, '0')}`,
+			'',
+			'',
+			'',
+			'',
+			'',
+			'',
+			formatDecimal(statement.closingBalance),
+		],
+	]);
+}
+
+/**
+ * Format a transaction history export as CSV
+ * @param data - The export
+ * @returns CSV text with a header row and one row per transaction
+ */
+export function transactionsToCsv(data: TransactionExport): string {
+	return toCsv([
+		EXPORT_COLUMNS,
+		...data.transactions.map(transaction => [
+			data.accountNumber,
+			formatTimestamp(transaction.timestamp),
+			toFitId(transaction.id),
+			transaction.type,
+			formatText(transaction.description ?? ''),
+			formatDecimal(signedAmount(transaction)),
+			formatDecimal(transaction.balanceAfter),
+		]),
+	]);
+}
+
+/**
+ * Split CSV text into rows of fields
+ * @param text - CSV text (LF or CRLF line breaks)
+ * @returns The rows, header included; blank lines are skipped
+ * @throws Error if a quoted field is not closed
+ */
+export function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			row.push(field);
+			if (row.length > 1 || row[0] !== '') {
+				rows.push(row);
+			}
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+
+	if (quoted) {
+		throw new Error('Unterminated quoted field');
+	}
+	row.push(field);
+	if (row.length > 1 || row[0] !== '') {
+		rows.push(row);
+	}
+	return rows;
+}
+
+/**
+ * Read back a transaction history CSV written by transactionsToCsv()
+ * @param text - The CSV text
+ * @returns The transactions, in file order
+ * @throws Error if the header or a row is not in the export layout
+ */
+export function parseTransactionsCsv(text: string): ParsedTransaction[] {
+	const [header = [], ...rows] = parseCsv(text);
+	if (header.join(',') !== EXPORT_COLUMNS.join(',')) {
+		throw new Error(`Expected the columns ${EXPORT_COLUMNS.join(',')}`);
+	}
+
+	return rows.map((row, index) => {
+		const [, date, fitId, type, description, amount] = row;
+		const parsedDate = new Date((date ?? '').replace(' ', 'T'));
+		const parsedAmount = parseDecimal(amount ?? '');
+		if (
+			row.length !== EXPORT_COLUMNS.length ||
+			Number.isNaN(parsedDate.getTime()) ||
+			parsedAmount === null
+		) {
+			throw new Error(`Invalid transaction on row ${index + 2}`);
+		}
+		return {
+			fitId,
+			date: parsedDate,
+			type,
+			amount: parsedAmount,
+			...(description !== '' && { description: parseText(description) }),
+		};
+	});
+}
@@ -0,0 +1,158 @@
+import { Account, AccountType } from '../models/Account.js';
+import { Transaction } from '../models/Transaction.js';
+import { affectsBalances } from '../models/JournalEntry.js';
+import { toBusinessDate } from './clock.js';
+
+/**
+ * Transaction history export
+ *
+ * The exporters in csv.ts, ofx.ts and qif.ts all write a TransactionExport:
+ * one account's transactions over a range of business dates, with signed
+ * amounts (credits positive, debits negative) and a FITID per transaction.
+ * Each also has a parser for what it writes, returning ParsedTransactions,
+ * so exports can be checked by reading them back.
+ */
+
+/**
+ * File formats transactions can be exported to
+ */
+export const EXPORT_FORMATS = ['csv', 'ofx', 'qif'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Check whether a string names an export format
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+	return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Business dates an export covers, both inclusive (YYYY-MM-DD)
+ */
+export interface ExportRange {
+	from?: string; // The first transaction's date when omitted
+	to: string;
+}
+
+/**
+ * One account's transactions, ready to be written in any export format
+ */
+export interface TransactionExport {
+	accountNumber: string;
+	accountType: AccountType;
+	from: string; // YYYY-MM-DD
+	to: string; // YYYY-MM-DD
+	transactions: Transaction[]; // Oldest first; holds left out
+	closingBalance: number; // Ledger balance at the end of the range, in cents
+	generatedAt: Date;
+}
+
+/**
+ * A transaction read back from an export
+ */
+export interface ParsedTransaction {
+	fitId: string;
+	date: Date;
+	type: string; // The format's own code: OFX TRNTYPE, QIF category, zBANK type in CSV
+	amount: number; // Signed cents
+	description?: string;
+}
+
+/**
+ * Select an account's transactions in a range of business dates
+ *
+ * Holds only reserve funds, so they are left out; a settled hold is
+ * exported as its withdrawal.
+ *
+ * @param account - The account (its balance is the closing balance when it
+ *   has no transactions at all)
+ * @param history - The account's transactions, in any order as long as
+ *   transactions with the same timestamp stay in the order they were posted
+ * @param range - Business dates to cover
+ * @param generatedAt - When the export is made
+ * @returns The export
+ */
+export function buildExport(
+	account: Pick<Account, 'accountNumber' | 'accountType' | 'balance'>,
+	history: Transaction[],
+	range: ExportRange,
+	generatedAt: Date = new Date(),
+): TransactionExport {
+	// Oldest first; ties keep the order they were posted in
+	const posted = history
+		.filter(
+			t => t.accountNumber === account.accountNumber && affectsBalances(t),
+		)
+		.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+	const from =
+		range.from ??
+		(posted.length > 0 ? toBusinessDate(posted[0].timestamp) : range.to);
+
+	const dateOf = (transaction: Transaction) =>
+		toBusinessDate(transaction.timestamp);
+	const transactions = posted.filter(
+		t => dateOf(t) >= from && dateOf(t) <= range.to,
+	);
+	const closingBalance =
+		posted.filter(t => dateOf(t) <= range.to).at(-1)?.balanceAfter ??
+		posted[0]?.balanceBefore ??
+		account.balance;
+
+	return {
+		accountNumber: account.accountNumber,
+		accountType: account.accountType ?? AccountType.CHECKING,
+		from,
+		to: range.to,
+		transactions,
+		closingBalance,
+		generatedAt,
+	};
+}
+
+/**
+ * Financial institution transaction ID for a transaction
+ *
+ * The UUID without dashes, upper case: 32 characters, within the FITID
+ * limit of every OFX version, and the same on every export so importers
+ * can skip transactions they already have.
+ *
+ * @param id - The transaction ID (UUID)
+ * @returns The FITID
+ */
+export function toFitId(id: string): string {
+	return id.replace(/-/g, '').toUpperCase();
+}
+
+/**
+ * Transaction ID a FITID was made from
+ * @param fitId - A FITID from toFitId()
+ * @returns The UUID, or null if the FITID is not one of ours
+ */
+export function fromFitId(fitId: string): string | null {
+	const match =
+		/^([0-9A-F]{8})([0-9A-F]{4})([0-9A-F]{4})([0-9A-F]{4})([0-9A-F]{12})$/.exec(
+			fitId,
+		);
+	return match ? match.slice(1).join('-').toLowerCase() : null;
+}
+
+/**
+ * Cents as decimal dollars, e.g. "-12.50"
+ */
+export function formatDecimal(cents: number): string {
+	return (cents / 100).toFixed(2);
+}
+
+/**
+ * Parse decimal dollars into cents
+ * @param value - e.g. "-12.50", "+3", "1,234.56"
+ * @returns Cents, or null if the value is not an amount
+ */
+export function parseDecimal(value: string): number | null {
+	const cleaned = value.trim().replace(/,/g, '');
+	if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(cleaned)) {
+		return null;
+	}
+	return Math.round(Number(cleaned) * 100) + 0; // No negative zero
+}
@@ -1,4 +1,9 @@
-import { Transaction, TransactionType } from '../models/Transaction.js';
+import {
+	Transaction,
+	TransactionType,
+	TransactionStatus,
+} from '../models/Transaction.js';
+import { Statement } from '../models/Statement.js';
 
 /**
  * Formatter utilities for zBANK CLI
@@ -15,8 +20,47 @@ export function formatTransaction(transaction: Transaction): string {
 	const amount = formatBalance(transaction.amount);
 	const timestamp = formatTimestamp(transaction.timestamp);
 	const balance = formatBalance(transaction.balanceAfter);
+	const link = formatReversalLink(transaction) || formatHoldStatus(transaction);
 
-	return `${timestamp} | ${type} | ${amount} | Balance: ${balance}`;
+	return `${timestamp} | ${type} | ${amount} | Balance: ${balance}${link ? ` | ${link}` : ''}`;
+}
+
+/**
+ * Where a hold stands
+ * @param transaction - The transaction
+ * @returns "Pending" / "Settled" / "Expired" for a hold, '' for anything else
+ */
+export function formatHoldStatus(transaction: Transaction): string {
+	if (transaction.type !== TransactionType.HOLD) {
+		return '';
+	}
+	switch (transaction.status) {
+		case TransactionStatus.PENDING:
+			return 'Pending';
+		case TransactionStatus.COMPLETED:
+			return 'Settled';
+		default:
+			return 'Expired';
+	}
+}
+
+/**
+ * Link between a reversed transaction and its reversal
+ *
+ * Both sides name the reversed transaction by the start of its ID, so the
+ * pair can be matched up in a list.
+ *
+ * @param transaction - The transaction
+ * @returns e.g. "Reversed #1a2b3c4d" / "Reversal of #1a2b3c4d", or '' if neither
+ */
+export function formatReversalLink(transaction: Transaction): string {
+	if (transaction.reversalOf) {
+		return `Reversal of #${transaction.reversalOf.slice(0, 8)}`;
+	}
+	if (transaction.status === TransactionStatus.REVERSED) {
+		return `Reversed #${transaction.id.slice(0, 8)}`;
+	}
+	return '';
 }
 
 /**
@@ -32,11 +76,48 @@ function formatTransactionType(type: TransactionType): string {
 			return 'WITHDRAWAL';
 		case TransactionType.TRANSFER:
 			return 'TRANSFER  ';
+		case TransactionType.ADJUSTMENT:
+			return 'ADJUSTMENT';
+		case TransactionType.REVERSAL:
+			return 'REVERSAL  ';
+		case TransactionType.HOLD:
+			return 'HOLD      ';
+		case TransactionType.INTEREST:
+			return 'INTEREST  ';
+		case TransactionType.OVERDRAFT_INTEREST:
+			return 'INT CHARGE';
+		case TransactionType.FEE:
+			return 'FEE       ';
 		default:
 			return 'UNKNOWN   ';
 	}
 }
 
+/**
+ * Format a monthly statement as lines of text
+ *
+ * Transactions use the formatTransaction layout; each total row lists the
+ * type, how many transactions it had and the money paid in and out.
+ *
+ * @param statement - The statement to format
+ * @returns One string per line
+ */
+export function formatStatement(statement: Statement): string[] {
+	const status = statement.closed ? 'closed' : 'in progress';
+	return [
+		`Statement for ${statement.accountNumber}, ${statement.period} (${status})`,
+		`Opening balance: ${formatBalance(statement.openingBalance)}`,
+		...(statement.transactions.length > 0
+			? statement.transactions.map(formatTransaction)
+			: ['No transactions this month']),
+		...statement.totals.map(
+			total =>
+				`Total ${formatTransactionType(total.type)} | ${total.count} | In: ${formatBalance(total.credits)} | Out: ${formatBalance(total.debits)}`,
+		),
+		`Closing balance: ${formatBalance(statement.closingBalance)}`,
+	];
+}
+
 /**
  * Format balance/amount as currency string
  * @param balance - The balance in cents
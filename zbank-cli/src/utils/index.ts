@@ -1,7 +1,7 @@
 /**
  * Utility modules for zBANK CLI application
  *
- * Exports validation, crypto, formatter, and migration utilities
+ * Exports validation, crypto, formatter, export, and migration utilities
  */
 
 export {
@@ -9,6 +9,7 @@ export {
 	isValidPin,
 	isValidAmount,
 	validateTransactionAmount,
+	MAX_TRANSACTION_AMOUNT,
 	hashPin,
 	comparePin,
 	dollarsToCents,
@@ -25,12 +26,104 @@ export {
 	formatTransaction,
 	formatBalance,
 	formatTimestamp,
+	formatReversalLink,
+	formatHoldStatus,
+	formatStatement,
 	parseCurrency,
 	formatAccountNumber,
 } from './formatter.js';
 
+export { paginate, type Page } from './pagination.js';
+
+export {
+	toCsv,
+	statementToCsv,
+	transactionsToCsv,
+	parseCsv,
+	parseTransactionsCsv,
+} from './csv.js';
+
+export {
+	EXPORT_FORMATS,
+	isExportFormat,
+	buildExport,
+	toFitId,
+	fromFitId,
+	formatDecimal,
+	parseDecimal,
+	type ExportFormat,
+	type ExportRange,
+	type TransactionExport,
+	type ParsedTransaction,
+} from './export.js';
+
+export {
+	transactionsToOfx,
+	parseOfx,
+	OFX_BANK_ID,
+	type ParsedOfx,
+} from './ofx.js';
+
+export { transactionsToQif, parseQif, type ParsedQif } from './qif.js';
+
+export {
+	systemClock,
+	toBusinessDate,
+	parseBusinessDate,
+	nextBusinessDate,
+	endOfBusinessDate,
+	type Clock,
+} from './clock.js';
+
 export {
 	seedTestAccounts,
+	importSeqdat,
+	importSeqdatFile,
+	exportSeqdat,
+	exportSeqdatFile,
 	displayAccounts,
 	displayTransactionHistory,
+	type SeqdatImportResult,
+	type SeqdatExportOptions,
+	type SeqdatExportIssue,
+	type SeqdatExportResult,
 } from './migration.js';
+
+export {
+	parseSeqdat,
+	SEQDAT_RECORD_LENGTH,
+	SEQDAT_SEED,
+	SEQDAT_PLACEHOLDER_PIN,
+	SEQDAT_OMITTED_PIN,
+	toSeqdatBalance,
+	formatSeqdatRecord,
+	type SeqdatPinPolicy,
+	type SeqdatNegativeBalancePolicy,
+	type SeqdatFractionalCentsPolicy,
+	type SeqdatBalanceResult,
+	type SeqdatRecord,
+	type SeqdatError,
+	type SeqdatParseResult,
+} from './seqdat.js';
+
+export {
+	JSON_OUTPUT_VERSION,
+	JSON_DOCUMENT_SCHEMAS,
+	AccountJsonSchema,
+	TransactionJsonSchema,
+	TransactionListJsonSchema,
+	TransactionResultJsonSchema,
+	AuthResultJsonSchema,
+	SessionJsonSchema,
+	ScheduleRunListJsonSchema,
+	EndOfDayReportJsonSchema,
+	StatementJsonSchema,
+	JsonErrorSchema,
+	toJsonDocument,
+	toJsonError,
+	authResultToJson,
+	transactionResultToJson,
+	formatJson,
+	type JsonDocument,
+	type JsonDocumentKind,
+} from './json-formatter.js';
@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { AccountSchema } from '../models/Account.js';
+import { TransactionSchema } from '../models/Transaction.js';
+import { ScheduleRunSchema } from '../models/Schedule.js';
+import { StatementSchema } from '../models/Statement.js';
+import { AuthResult } from '../services/AuthService.js';
+import { TransactionResult } from '../services/TransactionService.js';
+import { IntegrityIssueType } from '../services/IntegrityService.js';
+
+/**
+ * JSON formatter utilities for zBANK CLI
+ * Machine-readable counterpart of formatter.ts, used by --json output
+ *
+ * Every document is `{ version, kind, data }`. The data schemas are built
+ * from the model schemas, so a field added to Account or Transaction shows
+ * up in the JSON without changes here. Dates are ISO 8601 strings and
+ * amounts are integer cents. Bump JSON_OUTPUT_VERSION when a field is
+ * renamed or removed; adding fields does not change the version.
+ */
+
+export const JSON_OUTPUT_VERSION = 1;
+
+/**
+ * Structured error: a stable code plus a human-readable message
+ */
+export const JsonErrorSchema = z.object({
+	code: z.string(),
+	message: z.string(),
+});
+
+/**
+ * Account as exposed in JSON (the PIN hash is never included)
+ */
+export const AccountJsonSchema = AccountSchema.omit({ pin: true });
+
+export const TransactionJsonSchema = TransactionSchema;
+
+export const TransactionListJsonSchema = z.object({
+	accountNumber: AccountSchema.shape.accountNumber,
+	transactions: z.array(TransactionJsonSchema),
+});
+
+export const TransactionResultJsonSchema = z.object({
+	success: z.boolean(),
+	transaction: TransactionJsonSchema.optional(),
+	newBalance: AccountSchema.shape.balance.optional(),
+	fees: z.array(TransactionJsonSchema).optional(), // FEE postings the transaction incurred
+	error: JsonErrorSchema.optional(),
+	limitRemaining: z.number().int().nonnegative().optional(),
+});
+
+export const AuthResultJsonSchema = z.object({
+	success: z.boolean(),
+	account: AccountJsonSchema.optional(),
+	error: JsonErrorSchema.optional(),
+	attemptsRemaining: z.number().int().optional(),
+	lockedUntil: AccountSchema.shape.lockedUntil,
+	retryAfterMs: z.number().int().optional(),
+});
+
+/**
+ * API session issued by POST /v1/sessions
+ */
+export const SessionJsonSchema = z.object({
+	token: z.string(), // Bearer token for the Authorization header
+	expiresAt: z.date().optional(), // Current expiry; activity extends it
+	account: AccountJsonSchema,
+});
+
+/**
+ * Report from `zbank verify`
+ */
+export const IntegrityReportJsonSchema = z.object({
+	checkedAt: z.date(),
+	accountsChecked: z.number().int(),
+	transactionsChecked: z.number().int(),
+	valid: z.boolean(), // No uncorrected issues
+	issues: z.array(
+		z.object({
+			type: z.enum(IntegrityIssueType),
+			accountNumber: z.string(),
+			transactionId: z.string().optional(),
+			expected: z.number().int().optional(),
+			actual: z.number().int().optional(),
+			message: z.string(),
+			corrected: z.boolean(),
+		}),
+	),
+	corrections: z.array(TransactionJsonSchema), // Posted by --repair
+});
+
+/**
+ * Runs recorded by `zbank run-scheduler`
+ */
+export const ScheduleRunListJsonSchema = z.object({
+	runs: z.array(ScheduleRunSchema),
+});
+
+/**
+ * Report from `zbank eod`
+ */
+export const EndOfDayReportJsonSchema = z.object({
+	businessDate: z.string(), // YYYY-MM-DD
+	accountsProcessed: z.number().int(),
+	accountsSkipped: z.number().int(), // Already run for the date, or opened after it
+	holdsExpired: z.number().int(),
+	postings: z.array(TransactionJsonSchema), // Interest paid and charged
+	failures: z.array(
+		z.object({
+			accountNumber: z.string(),
+			error: z.string(),
+		}),
+	),
+});
+
+/**
+ * Monthly statement from `zbank statement`
+ */
+export const StatementJsonSchema = StatementSchema.extend({
+	transactions: z.array(TransactionJsonSchema), // Oldest first
+});
+
+/**
+ * Data schema for each document kind
+ */
+export const JSON_DOCUMENT_SCHEMAS = {
+	account: AccountJsonSchema,
+	transaction: TransactionJsonSchema,
+	transactionList: TransactionListJsonSchema,
+	transactionResult: TransactionResultJsonSchema,
+	authResult: AuthResultJsonSchema,
+	session: SessionJsonSchema,
+	integrityReport: IntegrityReportJsonSchema,
+	scheduleRunList: ScheduleRunListJsonSchema,
+	endOfDayReport: EndOfDayReportJsonSchema,
+	statement: StatementJsonSchema,
+	error: JsonErrorSchema,
+} as const;
+
+export type JsonDocumentKind = keyof typeof JSON_DOCUMENT_SCHEMAS;
+
+/**
+ * A versioned JSON output document
+ */
+export interface JsonDocument<K extends JsonDocumentKind = JsonDocumentKind> {
+	version: typeof JSON_OUTPUT_VERSION;
+	kind: K;
+	data: z.output<(typeof JSON_DOCUMENT_SCHEMAS)[K]>;
+}
+
+/**
+ * Build a JSON document, checking and trimming the data against its schema
+ * @param kind - Document kind
+ * @param data - Data for the kind; fields outside the schema (e.g. pin) are dropped
+ * @returns The document
+ * @throws Error if the data does not match the schema
+ */
+export function toJsonDocument<K extends JsonDocumentKind>(
+	kind: K,
+	data: z.input<(typeof JSON_DOCUMENT_SCHEMAS)[K]>,
+): JsonDocument<K> {
+	return {
+		version: JSON_OUTPUT_VERSION,
+		kind,
+		data: JSON_DOCUMENT_SCHEMAS[kind].parse(data) as JsonDocument<K>['data'],
+	};
+}
+
+/**
+ * Build an error document
+ * @param code - Stable error code (e.g. ACCOUNT_NOT_FOUND)
+ * @param message - Human-readable message
+ */
+export function toJsonError(
+	code: string,
+	message: string,
+): JsonDocument<'error'> {
+	return toJsonDocument('error', { code, message });
+}
+
+/**
+ * Build an authResult document
+ * @param result - Result of AuthService.login
+ */
+export function authResultToJson(
+	result: AuthResult,
+): JsonDocument<'authResult'> {
+	return toJsonDocument('authResult', {
+		success: result.success,
+		account: result.account,
+		error: result.success
+			? undefined
+			: {
+					code: result.errorCode ?? 'LOGIN_ERROR',
+					message: result.error ?? 'Login failed',
+				},
+		attemptsRemaining: result.attemptsRemaining,
+		lockedUntil: result.lockedUntil,
+		retryAfterMs: result.retryAfterMs,
+	});
+}
+
+/**
+ * Build a transactionResult document
+ * @param result - Result of a TransactionService operation
+ */
+export function transactionResultToJson(
+	result: TransactionResult,
+): JsonDocument<'transactionResult'> {
+	return toJsonDocument('transactionResult', {
+		success: result.success,
+		transaction: result.transaction,
+		newBalance: result.newBalance,
+		fees: result.fees,
+		error: result.success
+			? undefined
+			: {
+					code: result.errorCode ?? 'TRANSACTION_ERROR',
+					message: result.error ?? 'Transaction failed',
+				},
+		limitRemaining: result.limitRemaining,
+	});
+}
+
+/**
+ * Serialize a document (dates become ISO 8601 strings)
+ * @param document - The document
+ * @returns Pretty-printed JSON
+ */
+export function formatJson(document: JsonDocument): string {
+	return JSON.stringify(document, null, 2);
+}
@@ -1,5 +1,19 @@
+import { promises as fs } from 'fs';
 import { JsonStorage } from '../services/JsonStorage';
-import { hashPin, dollarsToCents } from './validation';
+import { IStorage } from '../services/IStorage';
+import { comparePin, hashPin, padPinForCobol } from './validation';
+import {
+	formatSeqdatRecord,
+	parseSeqdat,
+	SeqdatError,
+	SeqdatFractionalCentsPolicy,
+	SeqdatNegativeBalancePolicy,
+	SeqdatPinPolicy,
+	SEQDAT_OMITTED_PIN,
+	SEQDAT_PLACEHOLDER_PIN,
+	SEQDAT_SEED,
+	toSeqdatBalance,
+} from './seqdat';
 import { TransactionStatus, TransactionType } from '../models/Transaction';
 
 /**
@@ -7,72 +21,261 @@ import { TransactionStatus, TransactionType } from '../models/Transaction';
  */
 
 /**
- * Seed initial test accounts from COBOL SEQDAT.ZBANK
- *
- * Original COBOL test data:
- * - Account: 0000012345, PIN: 0000001111 (user enters 1111), Balance: $100
- * - Account: 1234567890, PIN: 0000001234 (user enters 1234), Balance: $200
+ * Result of importing a SEQDAT/VSAM file
  */
-export async function seedTestAccounts(storage: JsonStorage): Promise<void> {
-	await storage.initialize();
-
-	// Define test accounts
-	const testAccounts = [
-		{
-			accountNumber: '0000012345',
-			pin: '1111', // Will be hashed
-			balanceDollars: 100,
-		},
-		{
-			accountNumber: '1234567890',
-			pin: '1234', // Will be hashed
-			balanceDollars: 200,
-		},
-	];
+export interface SeqdatImportResult {
+	imported: string[]; // Account numbers created
+	skipped: string[]; // Account numbers that already existed - left untouched
+	errors: SeqdatError[]; // Malformed records and failed writes, by line
+}
 
-	console.log('Seeding test accounts...');
+/**
+ * Import SEQDAT/VSAM records into storage
+ *
+ * Each record becomes an account with a bcrypt-hashed PIN and its balance in
+ * cents, plus an opening deposit so the history accounts for the balance.
+ * Accounts that already exist are skipped, so re-running an import is safe.
+ *
+ * @param storage - Storage to import into
+ * @param content - SEQDAT file content
+ * @returns Imported and skipped account numbers and per-line errors
+ */
+export async function importSeqdat(
+	storage: IStorage,
+	content: string,
+): Promise<SeqdatImportResult> {
+	const { records, errors } = parseSeqdat(content);
+	const result: SeqdatImportResult = { imported: [], skipped: [], errors };
 
-	for (const testAccount of testAccounts) {
+	for (const record of records) {
 		try {
-			// Check if account already exists
-			const existing = await storage.getAccount(testAccount.accountNumber);
-			if (existing) {
-				console.log(
-					`  Account ${testAccount.accountNumber} already exists, skipping.`,
-				);
+			if (await storage.getAccount(record.accountNumber)) {
+				result.skipped.push(record.accountNumber);
 				continue;
 			}
 
-			// Hash the PIN
-			const hashedPin = await hashPin(testAccount.pin);
+			const hashedPin = await hashPin(record.pin);
 
-			// Create account
-			const account = await storage.createAccount({
-				accountNumber: testAccount.accountNumber,
-				pin: hashedPin,
-				balance: dollarsToCents(testAccount.balanceDollars),
-			});
+			const created = await storage.runInTransaction(async tx => {
+				// Another import may have created it while the PIN was hashing
+				if (await tx.getAccount(record.accountNumber)) {
+					return false;
+				}
+
+				await tx.createAccount({
+					accountNumber: record.accountNumber,
+					pin: hashedPin,
+					balance: record.balance,
+				});
 
-			console.log(
-				`  Created account ${account.accountNumber} with balance ${testAccount.balanceDollars}`,
-			);
-
-			// Add initial transaction for account creation
-			await storage.addTransaction({
-				accountNumber: account.accountNumber,
-				type: TransactionType.DEPOSIT,
-				amount: dollarsToCents(testAccount.balanceDollars),
-				balanceBefore: 0,
-				balanceAfter: dollarsToCents(testAccount.balanceDollars),
-				status: TransactionStatus.COMPLETED,
-				description: 'Initial deposit - Account creation',
+				if (record.balance > 0) {
+					await tx.addTransaction({
+						accountNumber: record.accountNumber,
+						type: TransactionType.DEPOSIT,
+						amount: record.balance,
+						balanceBefore: 0,
+						balanceAfter: record.balance,
+						status: TransactionStatus.COMPLETED,
+						description: 'Initial deposit - Imported from SEQDAT',
+					});
+				}
+				return true;
 			});
+
+			(created ? result.imported : result.skipped).push(record.accountNumber);
 		} catch (error) {
-			console.error(
-				`  Failed to create account ${testAccount.accountNumber}:`,
-				error,
-			);
+			result.errors.push({
+				lineNumber: record.lineNumber,
+				message: `Failed to import account ${record.accountNumber}: ${error instanceof Error ? error.message : String(error)}`,
+			});
+		}
+	}
+
+	result.errors.sort((a, b) => a.lineNumber - b.lineNumber);
+	return result;
+}
+
+/**
+ * Import a SEQDAT/VSAM flat file into storage
+ * @param storage - Storage to import into
+ * @param filePath - Path to the flat file
+ * @returns Imported and skipped account numbers and per-line errors
+ * @throws Error if the file cannot be read
+ */
+export async function importSeqdatFile(
+	storage: IStorage,
+	filePath: string,
+): Promise<SeqdatImportResult> {
+	let content: string;
+	try {
+		content = await fs.readFile(filePath, 'utf-8');
+	} catch (error) {
+		throw new Error(
+			`Failed to read SEQDAT file: ${error instanceof Error ? error.message : String(error)}`,
+			{
+				cause: error,
+			},
+		);
+	}
+
+	return importSeqdat(storage, content);
+}
+
+/**
+ * Options for exporting accounts to SEQDAT/VSAM records
+ */
+export interface SeqdatExportOptions {
+	pinPolicy: SeqdatPinPolicy;
+	pins?: Record<string, string>; // Account number → 4-digit PIN, for 'supplied'
+	negativeBalances?: SeqdatNegativeBalancePolicy; // Defaults to 'reject'
+	fractionalCents?: SeqdatFractionalCentsPolicy; // Defaults to 'reject'
+}
+
+/**
+ * A note about one account in an export
+ */
+export interface SeqdatExportIssue {
+	accountNumber: string;
+	message: string;
+}
+
+/**
+ * Result of exporting accounts to SEQDAT/VSAM records
+ */
+export interface SeqdatExportResult {
+	content: string; // The records, one per line, in ascending ACCNO order
+	exported: string[]; // Account numbers written
+	adjusted: SeqdatExportIssue[]; // Written, but with a changed balance
+	errors: SeqdatExportIssue[]; // Not written
+}
+
+/**
+ * Export accounts as 30-byte SEQDAT/VSAM records
+ *
+ * Records are sorted by account number, as REPRO into the KSDS
+ * (CICS.JCL_COPY2VSM_.cbl) requires ascending keys. Accounts that cannot be
+ * represented under the chosen policies are left out and reported.
+ *
+ * @param storage - Storage to export from
+ * @param options - PIN, negative balance and fractional cents policies
+ * @returns Record content plus per-account adjustments and errors
+ */
+export async function exportSeqdat(
+	storage: IStorage,
+	options: SeqdatExportOptions,
+): Promise<SeqdatExportResult> {
+	const negativeBalances = options.negativeBalances ?? 'reject';
+	const fractionalCents = options.fractionalCents ?? 'reject';
+
+	const accounts = (await storage.listAccounts()).sort((a, b) =>
+		a.accountNumber.localeCompare(b.accountNumber),
+	);
+
+	const lines: string[] = [];
+	const result: SeqdatExportResult = {
+		content: '',
+		exported: [],
+		adjusted: [],
+		errors: [],
+	};
+
+	for (const account of accounts) {
+		const { accountNumber } = account;
+
+		let pinField: string;
+		if (options.pinPolicy === 'supplied') {
+			const pin = options.pins?.[accountNumber];
+			if (!pin) {
+				result.errors.push({ accountNumber, message: 'No PIN supplied' });
+				continue;
+			}
+			if (!(await comparePin(pin, account.pin))) {
+				result.errors.push({
+					accountNumber,
+					message: 'Supplied PIN does not match the stored PIN',
+				});
+				continue;
+			}
+			pinField = padPinForCobol(pin);
+		} else {
+			pinField =
+				options.pinPolicy === 'omit'
+					? SEQDAT_OMITTED_PIN
+					: SEQDAT_PLACEHOLDER_PIN;
+		}
+
+		const balance = toSeqdatBalance(
+			account.balance,
+			negativeBalances,
+			fractionalCents,
+		);
+		if ('error' in balance) {
+			result.errors.push({ accountNumber, message: balance.error });
+			continue;
+		}
+		if (balance.adjustment) {
+			result.adjusted.push({ accountNumber, message: balance.adjustment });
 		}
+
+		lines.push(formatSeqdatRecord(accountNumber, pinField, balance.dollars));
+		result.exported.push(accountNumber);
+	}
+
+	result.content = lines.map(line => `${line}\n`).join('');
+	return result;
+}
+
+/**
+ * Export accounts to a SEQDAT/VSAM flat file
+ * @param storage - Storage to export from
+ * @param filePath - File to write
+ * @param options - PIN, negative balance and fractional cents policies
+ * @returns Exported account numbers plus per-account adjustments and errors
+ * @throws Error if the file cannot be written
+ */
+export async function exportSeqdatFile(
+	storage: IStorage,
+	filePath: string,
+	options: SeqdatExportOptions,
+): Promise<SeqdatExportResult> {
+	const result = await exportSeqdat(storage, options);
+
+	try {
+		await fs.writeFile(filePath, result.content, 'utf-8');
+	} catch (error) {
+		throw new Error(
+			`Failed to write SEQDAT file: ${error instanceof Error ? error.message : String(error)}`,
+			{
+				cause: error,
+			},
+		);
+	}
+
+	return result;
+}
+
+/**
+ * Seed initial test accounts from COBOL SEQDAT.ZBANK
+ *
+ * Original COBOL test data:
+ * - Account: 0000012345, PIN: 0000001111 (user enters 1111), Balance: $100
+ * - Account: 1234567890, PIN: 0000001234 (user enters 1234), Balance: $200
+ */
+export async function seedTestAccounts(storage: JsonStorage): Promise<void> {
+	await storage.initialize();
+
+	console.log('Seeding test accounts...');
+
+	const result = await importSeqdat(storage, SEQDAT_SEED);
+
+	for (const accountNumber of result.skipped) {
+		console.log(`  Account ${accountNumber} already exists, skipping.`);
+	}
+	for (const accountNumber of result.imported) {
+		console.log(`  Created account ${accountNumber}`);
+	}
+	for (const error of result.errors) {
+		console.error(`  Line ${error.lineNumber}: ${error.message}`);
 	}
 
 	console.log('Seeding complete!');
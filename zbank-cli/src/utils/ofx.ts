@@ -0,0 +1,265 @@
+import { AccountType } from '../models/Account.js';
+import { TransactionType, signedAmount } from '../models/Transaction.js';
+import {
+	TransactionExport,
+	ParsedTransaction,
+	toFitId,
+	formatDecimal,
+	parseDecimal,
+} from './export.js';
+
+/**
+ * OFX 2.2 (XML) bank statement export
+ *
+ * A single signon response and bank statement response: the account in
+ * BANKACCTFROM, one STMTTRN per transaction and the closing ledger balance.
+ * Times are written in UTC ("20240315120000.000[0:GMT]"); the range covered
+ * is written as the plain business dates ("20240301").
+ */
+
+/**
+ * Identifies zBANK as the bank (OFX expects a routing number here, which
+ * zBANK does not have)
+ */
+export const OFX_BANK_ID = 'ZBANK';
+
+/**
+ * OFX TRNTYPE of each transaction type; adjustments and reversals are
+ * CREDIT or DEBIT by the direction the money moved
+ */
+const OFX_TRANSACTION_TYPES: Record<TransactionType, string | null> = {
+	[TransactionType.DEPOSIT]: 'DEP',
+	[TransactionType.WITHDRAWAL]: 'CASH',
+	[TransactionType.TRANSFER]: 'XFER',
+	[TransactionType.ADJUSTMENT]: null,
+	[TransactionType.REVERSAL]: null,
+	[TransactionType.HOLD]: null, // Never exported
+	[TransactionType.INTEREST]: 'INT',
+	[TransactionType.OVERDRAFT_INTEREST]: 'INT',
+	[TransactionType.FEE]: 'FEE',
+};
+
+/**
+ * Payee name shown for each transaction type
+ */
+const OFX_NAMES: Record<TransactionType, string> = {
+	[TransactionType.DEPOSIT]: 'Deposit',
+	[TransactionType.WITHDRAWAL]: 'Withdrawal',
+	[TransactionType.TRANSFER]: 'Transfer',
+	[TransactionType.ADJUSTMENT]: 'Adjustment',
+	[TransactionType.REVERSAL]: 'Reversal',
+	[TransactionType.HOLD]: 'Hold',
+	[TransactionType.INTEREST]: 'Interest',
+	[TransactionType.OVERDRAFT_INTEREST]: 'Overdraft interest',
+	[TransactionType.FEE]: 'Fee',
+};
+
+const XML_ENTITIES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&apos;',
+};
+
+function escapeXml(value: string): string {
+	return value.replace(/[&<>"']/g, char => XML_ENTITIES[char]);
+}
+
+function unescapeXml(value: string): string {
+	return value.replace(
+		/&(amp|lt|gt|quot|apos);/g,
+		entity =>
+			Object.keys(XML_ENTITIES).find(char => XML_ENTITIES[char] === entity) ??
+			entity,
+	);
+}
+
+/**
+ * OFX datetime in UTC
+ */
+function formatOfxDate(date: Date): string {
+	const iso = date.toISOString(); // 2024-03-15T12:00:00.000Z
+	return `${iso.slice(0, 19).replace(/[-:T]/g, '')}${iso.slice(19, 23)}[0:GMT]`;
+}
+
+/**
+ * Parse an OFX datetime: YYYYMMDD[HHMMSS[.XXX]][[offset[:name]]]
+ * @returns The time, or null if the value is not an OFX datetime
+ */
+function parseOfxDate(value: string): Date | null {
+	const match =
+		/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})(?:\.(\d{3}))?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[^\]]*)?\])?$/.exec(
+			value.trim(),
+		);
+	if (!match) {
+		return null;
+	}
+	const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+	const millis = match[7] ?? '0';
+	const offsetHours = Number(match[8] ?? '0');
+	return new Date(
+		Date.UTC(
+			Number(year),
+			Number(month) - 1,
+			Number(day),
+			Number(hours),
+			Number(minutes),
+			Number(seconds),
+			Number(millis),
+		) -
+			offsetHours * 60 * 60 * 1000,
+	);
+}
+
+/**
+ * Format a transaction history export as an OFX 2.2 document
+ * @param data - The export
+ * @returns The OFX (XML) text
+ */
+export function transactionsToOfx(data: TransactionExport): string {
+	const generatedAt = formatOfxDate(data.generatedAt);
+	const status = [
+		'<STATUS>',
+		'  <CODE>0</CODE>',
+		'  <SEVERITY>INFO</SEVERITY>',
+		'</STATUS>',
+	];
+	const statementTransactions = data.transactions.flatMap(transaction => {
+		const amount = signedAmount(transaction);
+		const type =
+			OFX_TRANSACTION_TYPES[transaction.type] ??
+			(amount < 0 ? 'DEBIT' : 'CREDIT');
+		return [
+			'<STMTTRN>',
+			`  <TRNTYPE>${type}</TRNTYPE>`,
+			`  <DTPOSTED>${formatOfxDate(transaction.timestamp)}</DTPOSTED>`,
+			`  <TRNAMT>${formatDecimal(amount)}</TRNAMT>`,
+			`  <FITID>${toFitId(transaction.id)}</FITID>`,
+			`  <NAME>${OFX_NAMES[transaction.type]}</NAME>`,
+			...(transaction.description
+				? [`  <MEMO>${escapeXml(transaction.description)}</MEMO>`]
+				: []),
+			'</STMTTRN>',
+		];
+	});
+
+	const lines = [
+		'<OFX>',
+		...indent([
+			'<SIGNONMSGSRSV1>',
+			...indent([
+				'<SONRS>',
+				...indent([
+					...status,
+					`<DTSERVER>${generatedAt}</DTSERVER>`,
+					'<LANGUAGE>ENG</LANGUAGE>',
+				]),
+				'</SONRS>',
+			]),
+			'</SIGNONMSGSRSV1>',
+			'<BANKMSGSRSV1>',
+			...indent([
+				'<STMTTRNRS>',
+				...indent([
+					'<TRNUID>0</TRNUID>',
+					...status,
+					'<STMTRS>',
+					...indent([
+						'<CURDEF>USD</CURDEF>',
+						'<BANKACCTFROM>',
+						...indent([
+							`<BANKID>${OFX_BANK_ID}</BANKID>`,
+							`<ACCTID>${data.accountNumber}</ACCTID>`,
+							`<ACCTTYPE>${data.accountType === AccountType.SAVINGS ? 'SAVINGS' : 'CHECKING'}</ACCTTYPE>`,
+						]),
+						'</BANKACCTFROM>',
+						'<BANKTRANLIST>',
+						...indent([
+							`<DTSTART>${data.from.replace(/-/g, '')}</DTSTART>`,
+							`<DTEND>${data.to.replace(/-/g, '')}</DTEND>`,
+							...statementTransactions,
+						]),
+						'</BANKTRANLIST>',
+						'<LEDGERBAL>',
+						...indent([
+							`<BALAMT>${formatDecimal(data.closingBalance)}</BALAMT>`,
+							`<DTASOF>${generatedAt}</DTASOF>`,
+						]),
+						'</LEDGERBAL>',
+					]),
+					'</STMTRS>',
+				]),
+				'</STMTTRNRS>',
+			]),
+			'</BANKMSGSRSV1>',
+		]),
+		'</OFX>',
+	];
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+		'<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+		...lines,
+		'',
+	].join('\n');
+}
+
+function indent(lines: string[]): string[] {
+	return lines.map(line => `  ${line}`);
+}
+
+/**
+ * Contents of an OFX bank statement read back
+ */
+export interface ParsedOfx {
+	accountNumber: string;
+	ledgerBalance: number; // In cents
+	transactions: ParsedTransaction[];
+}
+
+/**
+ * Text of the first element with a tag inside some XML, unescaped
+ */
+function elementText(xml: string, tag: string): string | undefined {
+	const match = new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml);
+	return match ? unescapeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * Read back an OFX 2.x bank statement, such as one from transactionsToOfx()
+ * @param text - The OFX (XML) text
+ * @returns The account, ledger balance and transactions in file order
+ * @throws Error if the statement or a transaction is incomplete
+ */
+export function parseOfx(text: string): ParsedOfx {
+	const accountNumber = elementText(text, 'ACCTID');
+	const ledger = /<LEDGERBAL>([\s\S]*?)<\/LEDGERBAL>/.exec(text);
+	const ledgerBalance = parseDecimal(
+		(ledger && elementText(ledger[1], 'BALAMT')) ?? '',
+	);
+	if (accountNumber === undefined || ledgerBalance === null) {
+		throw new Error('Not an OFX bank statement');
+	}
+
+	const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/g) ?? [];
+	const transactions = blocks.map((block, index) => {
+		const type = elementText(block, 'TRNTYPE');
+		const date = parseOfxDate(elementText(block, 'DTPOSTED') ?? '');
+		const amount = parseDecimal(elementText(block, 'TRNAMT') ?? '');
+		const fitId = elementText(block, 'FITID');
+		const description = elementText(block, 'MEMO');
+		if (!type || !date || amount === null || !fitId) {
+			throw new Error(`Invalid transaction ${index + 1}`);
+		}
+		return {
+			fitId,
+			date,
+			type,
+			amount,
+			...(description !== undefined && { description }),
+		};
+	});
+
+	return { accountNumber, ledgerBalance, transactions };
+}
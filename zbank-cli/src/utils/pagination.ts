@@ -0,0 +1,42 @@
+/**
+ * Pagination utilities for zBANK CLI
+ * Splits long lists (e.g. transaction history) into screen-sized pages
+ */
+
+/**
+ * One page of a list
+ */
+export interface Page<T> {
+	items: T[]; // Items on this page
+	page: number; // Zero-based page index (clamped to a valid page)
+	totalPages: number; // Always at least 1, even for an empty list
+	totalItems: number;
+}
+
+/**
+ * Get one page of a list
+ * @param items - The full list
+ * @param page - Zero-based page index; out-of-range values are clamped
+ * @param pageSize - Items per page (must be positive)
+ * @returns The requested page with paging information
+ */
+export function paginate<T>(
+	items: T[],
+	page: number,
+	pageSize: number,
+): Page<T> {
+	if (!Number.isInteger(pageSize) || pageSize <= 0) {
+		throw new Error('Page size must be a positive integer');
+	}
+
+	const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+	const current = Math.min(Math.max(0, Math.trunc(page)), totalPages - 1);
+	const start = current * pageSize;
+
+	return {
+		items: items.slice(start, start + pageSize),
+		page: current,
+		totalPages,
+		totalItems: items.length,
+	};
+}
@@ -0,0 +1,170 @@
+import { TransactionType, signedAmount } from '../models/Transaction.js';
+import {
+	TransactionExport,
+	ParsedTransaction,
+	toFitId,
+	formatDecimal,
+	parseDecimal,
+} from './export.js';
+
+/**
+ * QIF (Quicken Interchange Format) export
+ *
+ * An !Account block naming the account, then one !Type:Bank record per
+ * transaction ending in "^". QIF has no time of day or time zone, so dates
+ * are local calendar days (MM/DD/YYYY).
+ */
+
+/**
+ * QIF category (L field) of each transaction type
+ */
+const QIF_CATEGORIES: Record<TransactionType, string> = {
+	[TransactionType.DEPOSIT]: 'Deposit',
+	[TransactionType.WITHDRAWAL]: 'Cash Withdrawal',
+	[TransactionType.TRANSFER]: 'Transfer',
+	[TransactionType.ADJUSTMENT]: 'Adjustment',
+	[TransactionType.REVERSAL]: 'Reversal',
+	[TransactionType.HOLD]: 'Hold', // Never exported
+	[TransactionType.INTEREST]: 'Interest Income',
+	[TransactionType.OVERDRAFT_INTEREST]: 'Interest Expense',
+	[TransactionType.FEE]: 'Bank Charges',
+};
+
+/**
+ * Payee (P field) when a transaction has no description
+ */
+const QIF_PAYEES: Record<TransactionType, string> = {
+	[TransactionType.DEPOSIT]: 'Deposit',
+	[TransactionType.WITHDRAWAL]: 'Withdrawal',
+	[TransactionType.TRANSFER]: 'Transfer',
+	[TransactionType.ADJUSTMENT]: 'Adjustment',
+	[TransactionType.REVERSAL]: 'Reversal',
+	[TransactionType.HOLD]: 'Hold',
+	[TransactionType.INTEREST]: 'Interest',
+	[TransactionType.OVERDRAFT_INTEREST]: 'Overdraft interest',
+	[TransactionType.FEE]: 'Fee',
+};
+
+/**
+ * Local calendar day as MM/DD/YYYY
+ */
+function formatQifDate(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+}
+
+/**
+ * Parse a QIF date: MM/DD/YYYY, or Quicken's M/D'YY (years 2000 on)
+ * @returns Local midnight of the day, or null if the value is not a date
+ */
+function parseQifDate(value: string): Date | null {
+	const match = /^(\d{1,2})\/\s*(\d{1,2})(?:\/(\d{4})|'\s*(\d{1,2}))$/.exec(
+		value.trim(),
+	);
+	if (!match) {
+		return null;
+	}
+	const year = match[3] ? Number(match[3]) : 2000 + Number(match[4]);
+	const date = new Date(year, Number(match[1]) - 1, Number(match[2]));
+	return date.getMonth() === Number(match[1]) - 1 ? date : null;
+}
+
+/**
+ * Keep a value on one line; QIF fields end at the line break
+ */
+function singleLine(value: string): string {
+	return value.replace(/\s*[\r\n]+\s*/g, ' ');
+}
+
+/**
+ * Format a transaction history export as QIF
+ * @param data - The export
+ * @returns The QIF text
+ */
+export function transactionsToQif(data: TransactionExport): string {
+	const lines = [
+		'!Account',
+		`N${data.accountNumber}`,
+		'TBank',
+		'^',
+		'!Type:Bank',
+		...data.transactions.flatMap(transaction => [
+			`D${formatQifDate(transaction.timestamp)}`,
+			`T${formatDecimal(signedAmount(transaction))}`,
+			`N${toFitId(transaction.id)}`,
+			`P${singleLine(transaction.description ?? QIF_PAYEES[transaction.type])}`,
+			`L${QIF_CATEGORIES[transaction.type]}`,
+			'^',
+		]),
+	];
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Contents of a QIF file read back
+ */
+export interface ParsedQif {
+	accountNumber?: string; // From the !Account block, when there is one
+	transactions: ParsedTransaction[];
+}
+
+/**
+ * Read back a QIF bank register, such as one from transactionsToQif()
+ *
+ * The N field (check number) holds the FITID and the P field (payee) the
+ * description.
+ *
+ * @param text - The QIF text
+ * @returns The account and transactions in file order
+ * @throws Error if there is no !Type:Bank section or a record is incomplete
+ */
+export function parseQif(text: string): ParsedQif {
+	let section = '';
+	let accountNumber: string | undefined;
+	let fields = new Map<string, string>();
+	const transactions: ParsedTransaction[] = [];
+
+	for (const line of text.split(/\r?\n/)) {
+		if (line.startsWith('!')) {
+			section = line.trim();
+			fields = new Map();
+			continue;
+		}
+		if (line.trim() === '') {
+			continue;
+		}
+		if (line !== '^') {
+			fields.set(line[0], line.slice(1).trim());
+			continue;
+		}
+
+		// "^" ends a record
+		if (section === '!Account') {
+			accountNumber = fields.get('N');
+		} else if (section === '!Type:Bank') {
+			const date = parseQifDate(fields.get('D') ?? '');
+			const amount = parseDecimal(fields.get('T') ?? fields.get('U') ?? '');
+			const fitId = fields.get('N');
+			const description = fields.get('P');
+			if (!date || amount === null || !fitId) {
+				throw new Error(`Invalid transaction ${transactions.length + 1}`);
+			}
+			transactions.push({
+				fitId,
+				date,
+				type: fields.get('L') ?? '',
+				amount,
+				...(description !== undefined && { description }),
+			});
+		}
+		fields = new Map();
+	}
+
+	if (!/^!Type:Bank\s*$/m.test(text)) {
+		throw new Error('Not a QIF bank register');
+	}
+	return {
+		...(accountNumber !== undefined && { accountNumber }),
+		transactions,
+	};
+}
@@ -0,0 +1,254 @@
+import { dollarsToCents, padPinForCobol } from './validation.js';
+
+/**
+ * SEQDAT.ZBANK / VSAM record parsing
+ *
+ * Each record matches WS-FILE-REC in CICS.COB_ZBANK3_.cbl and the
+ * RECSZ(30 30) KEYS(10 0) cluster from CICS.JCL_VSAMSET_.cbl:
+ *
+ *   05 WS-ACCNO   PIC 9(10).  columns  1-10
+ *   05 WS-PIN     PIC 9(10).  columns 11-20 (4-digit PIN, zero padded)
+ *   05 WS-BALANCE PIC 9(10).  columns 21-30 (whole dollars)
+ */
+
+export const SEQDAT_RECORD_LENGTH = 30;
+
+/**
+ * The records shipped in SEQDAT.ZBANK
+ */
+export const SEQDAT_SEED = [
+	'000001234500000011110000000100',
+	'123456789000000012340000000200',
+].join('\n');
+
+/**
+ * A parsed SEQDAT record
+ */
+export interface SeqdatRecord {
+	lineNumber: number; // 1-based line (or record) number in the file
+	accountNumber: string; // 10 digits
+	pin: string; // 4-digit PIN as the user types it, not yet hashed
+	balance: number; // In cents
+}
+
+/**
+ * A record that could not be parsed
+ */
+export interface SeqdatError {
+	lineNumber: number;
+	message: string;
+}
+
+export interface SeqdatParseResult {
+	records: SeqdatRecord[];
+	errors: SeqdatError[];
+}
+
+/**
+ * Split file content into numbered records
+ *
+ * Line-based files are split on newlines. A file copied off the mainframe
+ * without line breaks (RECFM=F) is split into 30-byte records instead.
+ */
+function splitRecords(content: string): { lineNumber: number; text: string }[] {
+	const body = content.replace(/\r?\n$/, '');
+
+	if (
+		!body.includes('\n') &&
+		body.length > SEQDAT_RECORD_LENGTH &&
+		body.length % SEQDAT_RECORD_LENGTH === 0
+	) {
+		const records = [];
+		for (let i = 0; i < body.length; i += SEQDAT_RECORD_LENGTH) {
+			records.push({
+				lineNumber: i / SEQDAT_RECORD_LENGTH + 1,
+				text: body.slice(i, i + SEQDAT_RECORD_LENGTH),
+			});
+		}
+		return records;
+	}
+
+	return body.split('\n').map((line, index) => ({
+		lineNumber: index + 1,
+		text: line.replace(/\r$/, ''),
+	}));
+}
+
+/**
+ * Parse a single 30-byte record
+ * @returns The record, or an error message
+ */
+function parseRecord(text: string, lineNumber: number): SeqdatRecord | string {
+	// Trailing blanks are card padding, not data
+	const record = text.trimEnd();
+
+	if (record.length !== SEQDAT_RECORD_LENGTH) {
+		return `Expected a ${SEQDAT_RECORD_LENGTH}-byte record, got ${record.length} bytes`;
+	}
+
+	const accno = record.slice(0, 10);
+	const pinField = record.slice(10, 20);
+	const balanceField = record.slice(20, 30);
+
+	if (!/^\d{10}$/.test(accno)) {
+		return 'ACCNO must be 10 digits';
+	}
+	if (!/^\d{10}$/.test(pinField)) {
+		return 'PIN must be 10 digits';
+	}
+	if (!/^\d{10}$/.test(balanceField)) {
+		return 'BALANCE must be 10 digits';
+	}
+
+	// The COBOL PIN is the 4-digit PIN zero padded to 10 digits
+	const pin = pinField.slice(-4);
+	if (padPinForCobol(pin) !== pinField) {
+		return 'PIN has more than 4 significant digits';
+	}
+
+	return {
+		lineNumber,
+		accountNumber: accno,
+		pin,
+		balance: dollarsToCents(Number(balanceField)),
+	};
+}
+
+/**
+ * Parse SEQDAT/VSAM flat file content
+ *
+ * Blank lines are ignored. Malformed records and repeated account numbers
+ * are reported with their line numbers; the remaining records are returned.
+ *
+ * @param content - File content
+ * @returns Parsed records and per-line errors
+ */
+export function parseSeqdat(content: string): SeqdatParseResult {
+	const records: SeqdatRecord[] = [];
+	const errors: SeqdatError[] = [];
+	const seen = new Map<string, number>();
+
+	for (const { lineNumber, text } of splitRecords(content)) {
+		if (text.trim() === '') {
+			continue;
+		}
+
+		const parsed = parseRecord(text, lineNumber);
+		if (typeof parsed === 'string') {
+			errors.push({ lineNumber, message: parsed });
+			continue;
+		}
+
+		const firstLine = seen.get(parsed.accountNumber);
+		if (firstLine !== undefined) {
+			errors.push({
+				lineNumber,
+				message: `Duplicate ACCNO ${parsed.accountNumber} (first seen on line ${firstLine})`,
+			});
+			continue;
+		}
+
+		seen.set(parsed.accountNumber, lineNumber);
+		records.push(parsed);
+	}
+
+	return { records, errors };
+}
+
+// Export
+
+/**
+ * How to fill the PIN columns on export, since stored PINs are hashed:
+ * - placeholder: all zeros - accounts must have their PIN reset on the mainframe
+ * - supplied: the real PINs, given by the caller and checked against the hashes
+ * - omit: blanks - the record keeps its 30-byte shape but cannot be used to log in
+ */
+export type SeqdatPinPolicy = 'placeholder' | 'supplied' | 'omit';
+
+/**
+ * PIC 9(10) is unsigned: reject negative balances, or export them as zero
+ */
+export type SeqdatNegativeBalancePolicy = 'reject' | 'zero';
+
+/**
+ * PIC 9(10) holds whole dollars: reject balances with cents, drop the cents
+ * (what a COBOL MOVE would do), or round to the nearest dollar
+ */
+export type SeqdatFractionalCentsPolicy = 'reject' | 'truncate' | 'round';
+
+export const SEQDAT_PLACEHOLDER_PIN = '0'.repeat(10);
+export const SEQDAT_OMITTED_PIN = ' '.repeat(10);
+
+const MAX_SEQDAT_DOLLARS = 9999999999;
+
+/**
+ * Result of converting a balance to PIC 9(10) whole dollars
+ */
+export type SeqdatBalanceResult =
+	{ dollars: number; adjustment?: string } | { error: string };
+
+/**
+ * Convert a balance in cents to whole dollars for the BALANCE field
+ * @param cents - Balance in cents
+ * @param negativeBalances - Policy for balances below zero
+ * @param fractionalCents - Policy for balances that are not whole dollars
+ * @returns Dollars (with a note if the value was changed), or an error
+ */
+export function toSeqdatBalance(
+	cents: number,
+	negativeBalances: SeqdatNegativeBalancePolicy,
+	fractionalCents: SeqdatFractionalCentsPolicy,
+): SeqdatBalanceResult {
+	const adjustments: string[] = [];
+	let value = cents;
+
+	if (value < 0) {
+		if (negativeBalances === 'reject') {
+			return {
+				error: `Negative balance ${formatCents(cents)} cannot be stored in PIC 9(10)`,
+			};
+		}
+		adjustments.push(`negative balance ${formatCents(cents)} exported as $0`);
+		value = 0;
+	}
+
+	let dollars = value / 100;
+	if (!Number.isInteger(dollars)) {
+		if (fractionalCents === 'reject') {
+			return {
+				error: `Balance ${formatCents(value)} is not a whole number of dollars`,
+			};
+		}
+		const whole =
+			fractionalCents === 'round' ? Math.round(dollars) : Math.trunc(dollars);
+		adjustments.push(`balance ${formatCents(value)} exported as $${whole}`);
+		dollars = whole;
+	}
+
+	if (dollars > MAX_SEQDAT_DOLLARS) {
+		return { error: `Balance ${formatCents(value)} exceeds PIC 9(10)` };
+	}
+
+	return adjustments.length > 0
+		? { dollars, adjustment: adjustments.join('; ') }
+		: { dollars };
+}
+
+function formatCents(cents: number): string {
+	const sign = cents < 0 ? '-' : '';
+	return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+/**
+ * Build one 30-byte record
+ * @param accountNumber - 10-digit account number
+ * @param pinField - 10-character PIN columns (padded PIN, placeholder or blanks)
+ * @param dollars - Whole-dollar balance
+ */
+export function formatSeqdatRecord(
+	accountNumber: string,
+	pinField: string,
+	dollars: number,
+): string {
+	return `${accountNumber}${pinField}${String(dollars).padStart(10, '0')}`;
+}
@@ -7,16 +7,21 @@
  */
 
 import { JsonStorage } from '../services/JsonStorage.js';
-import { hashPin } from './crypto.js';
+import { SqliteStorage } from '../services/SqliteStorage.js';
+import { importSeqdat } from './migration.js';
+import { SEQDAT_SEED } from './seqdat.js';
 
 /**
  * Initialize storage with seed data if needed
  * Loads test accounts matching COBOL mainframe test data:
  * - Account: 0000012345, PIN: 1111, Balance: $100.00
  * - Account: 1234567890, PIN: 1234, Balance: $200.00
+ *
+ * @param storage - Storage to seed (defaults to JSON storage in ./data)
  */
-export async function initializeStorage(): Promise<void> {
-	const storage = new JsonStorage();
+export async function initializeStorage(
+	storage: JsonStorage | SqliteStorage = new JsonStorage(),
+): Promise<void> {
 	await storage.initialize();
 
 	// Check if data already exists
@@ -25,27 +30,8 @@ export async function initializeStorage(): Promise<void> {
 		return; // Already initialized
 	}
 
-	// Load seed data (matching COBOL SEQDAT.ZBANK)
-	const seedAccounts = [
-		{
-			accountNumber: '0000012345',
-			pin: await hashPin('1111'),
-			balance: 10000, // $100.00 in cents
-			isLocked: false,
-			failedLoginAttempts: 0,
-		},
-		{
-			accountNumber: '1234567890',
-			pin: await hashPin('1234'),
-			balance: 20000, // $200.00 in cents
-			isLocked: false,
-			failedLoginAttempts: 0,
-		},
-	];
-
-	for (const account of seedAccounts) {
-		await storage.createAccount(account);
-	}
+	// Load seed data from the records shipped in COBOL SEQDAT.ZBANK
+	await importSeqdat(storage, SEQDAT_SEED);
 
 	console.log('✓ Initialized storage with seed data');
 }
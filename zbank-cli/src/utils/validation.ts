@@ -4,6 +4,11 @@ import bcrypt from 'bcrypt';
  * Validation utilities for zBANK CLI
  */
 
+/**
+ * Largest amount any single transaction may move ($10 million, in cents)
+ */
+export const MAX_TRANSACTION_AMOUNT = 1000000000;
+
 /**
  * Validate account number format
  * @param accountNumber - The account number to validate
@@ -47,8 +52,8 @@ export function validateTransactionAmount(amount: number): boolean {
 		return false;
 	}
 
-	// Must not exceed maximum limit ($10 million = 1,000,000,000 cents)
-	if (amount > 1000000000) {
+	// Must not exceed maximum limit
+	if (amount > MAX_TRANSACTION_AMOUNT) {
 		return false;
 	}
 
@@ -0,0 +1,703 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli, CliIO, ExitCode, CLI_USAGE } from '../../src/cli/commands';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { hashPin } from '../../src/utils/crypto';
+import { ScheduleUnit } from '../../src/models/Schedule';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+import { SystemAccount } from '../../src/models/JournalEntry';
+import { toBusinessDate } from '../../src/utils/clock';
+
+// Fake process IO that records output
+function createIO(env: Record<string, string> = {}, stdin: string | null = null) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = {
+    stdout: line => out.push(line),
+    stderr: line => err.push(line),
+    readStdin: async () => stdin,
+    env,
+    waitForShutdown: async () => {},
+  };
+  return { io, out, err };
+}
+
+describe('runCli', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-cli-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    const pin = await hashPin('1111');
+    await storage.createAccount({ accountNumber: '0000012345', pin, balance: 10000 });
+    await storage.createAccount({ accountNumber: '1234567890', pin, balance: 20000 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('balance', () => {
+    it('should print the balance with the PIN from ZBANK_PIN', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['balance', '--account', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toEqual(['Account: 0000012345', 'Balance: $100.00']);
+    });
+
+    it('should show the available balance when funds are on hold', async () => {
+      await storage.updateAccount('0000012345', { heldAmount: 2500 });
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['balance', '--account', '0000012345'], io, storage);
+
+      expect(out).toEqual(['Account: 0000012345', 'Balance: $100.00', 'Available: $75.00 ($25.00 on hold)']);
+    });
+
+    it('should read the PIN from the first line of stdin', async () => {
+      const { io, out } = createIO({}, '1111\nignored\n');
+
+      const code = await runCli(['balance', '-a', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out[1]).toBe('Balance: $100.00');
+    });
+
+    it('should work against a storage created from --data', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['balance', '-a', '0000012345', '--data', dataDir], io);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out[1]).toBe('Balance: $100.00');
+    });
+  });
+
+  describe('deposit and withdraw', () => {
+    it('should deposit and print the new balance', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(
+        ['deposit', '-a', '0000012345', '--amount', '25.50'],
+        io,
+        storage
+      );
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toEqual(['Deposited $25.50', 'New balance: $125.50']);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(12550);
+    });
+
+    it('should withdraw and print the new balance', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(
+        ['withdraw', '-a', '0000012345', '--amount', '$40'],
+        io,
+        storage
+      );
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toEqual(['Withdrew $40.00', 'New balance: $60.00']);
+    });
+
+    it('should list the fees a withdrawal incurred', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['withdraw', '-a', '0000012345', '--amount', '150'], io, storage);
+
+      expect(out).toEqual(['Withdrew $150.00', 'Overdraft fee (balance -$50.00): $35.00', 'New balance: -$85.00']);
+    });
+
+    it('should reject a missing or invalid amount as a usage error', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['deposit', '-a', '0000012345'], io, storage)).toBe(ExitCode.USAGE);
+      expect(
+        await runCli(['deposit', '-a', '0000012345', '--amount', 'abc'], io, storage)
+      ).toBe(ExitCode.USAGE);
+      expect(err.join('\n')).toContain('Invalid amount "abc"');
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+    });
+
+    it('should report a rejected transaction', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(
+        ['deposit', '-a', '0000012345', '--amount', '99999999'],
+        io,
+        storage
+      );
+
+      expect(code).toBe(ExitCode.TRANSACTION_FAILED);
+      expect(err[0]).toMatch(/^Transaction failed: /);
+    });
+
+    it('should apply a retried deposit with the same idempotency key once', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+      const args = ['deposit', '-a', '0000012345', '--amount', '25.00', '--idempotency-key', 'atm-7-0042'];
+
+      expect(await runCli(args, io, storage)).toBe(ExitCode.SUCCESS);
+      expect(await runCli(args, io, storage)).toBe(ExitCode.SUCCESS);
+
+      expect(out).toEqual([
+        'Deposited $25.00',
+        'New balance: $125.00',
+        'Deposited $25.00',
+        'New balance: $125.00',
+      ]);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(12500);
+    });
+  });
+
+  describe('transfer', () => {
+    it('should move funds to the destination account', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(
+        ['transfer', '-a', '0000012345', '--to', '1234567890', '--amount', '30'],
+        io,
+        storage
+      );
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toEqual(['Transferred $30.00 to 1234567890', 'New balance: $70.00']);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(23000);
+    });
+
+    it('should require a destination account', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['transfer', '-a', '0000012345', '--amount', '30'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('history', () => {
+    it('should list transactions most recent first', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+      await runCli(['deposit', '-a', '0000012345', '--amount', '1'], io, storage);
+      await runCli(['withdraw', '-a', '0000012345', '--amount', '2'], io, storage);
+      out.length = 0;
+
+      const code = await runCli(['history', '-a', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toHaveLength(2);
+      expect(out[0]).toContain('WITHDRAWAL');
+      expect(out[1]).toContain('DEPOSIT');
+    });
+
+    it('should honour --limit', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+      await runCli(['deposit', '-a', '0000012345', '--amount', '1'], io, storage);
+      await runCli(['deposit', '-a', '0000012345', '--amount', '2'], io, storage);
+      out.length = 0;
+
+      await runCli(['history', '-a', '0000012345', '--limit', '1'], io, storage);
+
+      expect(out).toHaveLength(1);
+    });
+
+    it('should say when there are no transactions', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['history', '-a', '0000012345'], io, storage);
+
+      expect(out).toEqual(['No transactions.']);
+    });
+
+    it('should reject an invalid limit', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['history', '-a', '0000012345', '--limit', '0'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('statement', () => {
+    const month = toBusinessDate(new Date()).slice(0, 7);
+
+    it('should print this month by default', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+      await runCli(['deposit', '-a', '0000012345', '--amount', '1'], io, storage);
+      out.length = 0;
+
+      const code = await runCli(['statement', '-a', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toHaveLength(5);
+      expect(out[0]).toBe(`Statement for 0000012345, ${month} (in progress)`);
+      expect(out[1]).toBe('Opening balance: $100.00');
+      expect(out[2]).toContain('DEPOSIT');
+      expect(out[3]).toBe('Total DEPOSIT    | 1 | In: $1.00 | Out: $0.00');
+      expect(out[4]).toBe('Closing balance: $101.00');
+    });
+
+    it('should print CSV with --csv', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['statement', '-a', '0000012345', '--month', month, '--csv'], io, storage);
+
+      const lines = out.join('\n').split('\n');
+      expect(lines[0]).toBe('record,date,type,id,description,count,credit,debit,balance');
+      expect(lines[1]).toBe(`opening,${month}-01,,,,,,,100.00`);
+      expect(lines[2]).toMatch(new RegExp(`^closing,${month}-\\d{2},,,,,,,100.00$`));
+    });
+
+    it('should print a statement document with --json', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['statement', '-a', '0000012345', '--json'], io, storage);
+
+      const document = JSON.parse(out[0]);
+      expect(document.kind).toBe('statement');
+      expect(document.data).toMatchObject({ period: month, openingBalance: 10000, closed: false });
+    });
+
+    it('should refuse a month in the future', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['statement', '-a', '0000012345', '--month', '9999-12'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+      expect(err[0]).toContain('in the future');
+    });
+
+    it('should refuse --csv with --json', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['statement', '-a', '0000012345', '--csv', '--json'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('export', () => {
+    const today = toBusinessDate(new Date());
+
+    beforeEach(async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+      await runCli(['deposit', '-a', '0000012345', '--amount', '12.50'], io, storage);
+      await runCli(['withdraw', '-a', '0000012345', '--amount', '2'], io, storage);
+    });
+
+    it('should write the history as CSV', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['export', '-a', '0000012345', '--format', 'csv'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      const lines = out.join('\n').split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toBe('account,date,fitid,type,description,amount,balance');
+      expect(lines[1]).toMatch(/^0000012345,.*,deposit,,12\.50,112\.50$/);
+      expect(lines[2]).toMatch(/^0000012345,.*,withdrawal,,-2\.00,110\.50$/);
+    });
+
+    it('should write OFX and QIF', async () => {
+      const ofx = createIO({ ZBANK_PIN: '1111' });
+      const qif = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['export', '-a', '0000012345', '--format', 'ofx'], ofx.io, storage);
+      await runCli(['export', '-a', '0000012345', '--format', 'qif'], qif.io, storage);
+
+      const ofxText = ofx.out.join('\n');
+      expect(ofxText).toContain('<ACCTID>0000012345</ACCTID>');
+      expect(ofxText).toContain('<TRNAMT>-2.00</TRNAMT>');
+      expect(ofxText).toContain('<BALAMT>110.50</BALAMT>');
+      expect(ofxText).toContain(`<DTEND>${today.replace(/-/g, '')}</DTEND>`);
+      expect(qif.out.join('\n')).toContain('\nT12.50\n');
+    });
+
+    it('should only export the dates asked for', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['export', '-a', '0000012345', '--format', 'csv', '--from', '2000-01-01', '--until', '2000-12-31'], io, storage);
+
+      expect(out).toEqual(['account,date,fitid,type,description,amount,balance']);
+    });
+
+    it('should refuse a missing or unknown format', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['export', '-a', '0000012345'], io, storage)).toBe(ExitCode.USAGE);
+      expect(await runCli(['export', '-a', '0000012345', '--format', 'xlsx'], io, storage)).toBe(ExitCode.USAGE);
+      expect(err[0]).toContain('--format <csv|ofx|qif>');
+    });
+
+    it('should refuse invalid or reversed dates', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['export', '-a', '0000012345', '--format', 'csv', '--from', '2024-02-30'], io, storage)).toBe(
+        ExitCode.USAGE
+      );
+      expect(err[0]).toContain('Invalid date "2024-02-30"');
+      expect(
+        await runCli(['export', '-a', '0000012345', '--format', 'csv', '--from', '2024-03-02', '--until', '2024-03-01'], io, storage)
+      ).toBe(ExitCode.USAGE);
+      expect(err[1]).toContain('--from must not be after --until');
+    });
+
+    it('should refuse --to, which names a transfer destination', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['export', '-a', '0000012345', '--format', 'csv', '--to', '2024-03-01'], io, storage)).toBe(
+        ExitCode.USAGE
+      );
+      expect(err[0]).toContain('not --to');
+    });
+
+    it('should refuse --json', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['export', '-a', '0000012345', '--format', 'csv', '--json'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should fail with AUTH_FAILED on a wrong PIN', async () => {
+      const { io, out, err } = createIO({ ZBANK_PIN: '9999' });
+
+      const code = await runCli(['balance', '-a', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.AUTH_FAILED);
+      expect(out).toHaveLength(0);
+      expect(err).toEqual(['Login failed: Invalid PIN']);
+    });
+
+    it('should fail with AUTH_FAILED on an unknown account', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['balance', '-a', '5555555555'], io, storage)).toBe(
+        ExitCode.AUTH_FAILED
+      );
+    });
+
+    it('should fail with ACCOUNT_LOCKED on a locked account', async () => {
+      await storage.updateAccount('0000012345', { isLocked: true });
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['balance', '-a', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.ACCOUNT_LOCKED);
+    });
+
+    it('should record failed attempts on the account', async () => {
+      const { io } = createIO({ ZBANK_PIN: '9999' });
+
+      await runCli(['balance', '-a', '0000012345'], io, storage);
+
+      expect((await storage.getAccount('0000012345'))?.failedLoginAttempts).toBe(1);
+    });
+
+    it('should require a PIN', async () => {
+      const { io, err } = createIO({}, null);
+
+      const code = await runCli(['balance', '-a', '0000012345'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+      expect(err[0]).toContain('PIN required');
+    });
+
+    it('should treat a malformed account number as a usage error', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['balance', '-a', '123'], io, storage)).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('usage', () => {
+    it('should print usage for --help and help', async () => {
+      for (const args of [['--help'], ['help'], ['balance', '-h']]) {
+        const { io, out } = createIO();
+        expect(await runCli(args, io, storage)).toBe(ExitCode.SUCCESS);
+        expect(out).toEqual([CLI_USAGE]);
+      }
+    });
+
+    it('should reject unknown commands, options and arguments', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['frobnicate'], io, storage)).toBe(ExitCode.USAGE);
+      expect(await runCli(['balance', '-a', '0000012345', '--bogus'], io, storage)).toBe(
+        ExitCode.USAGE
+      );
+      expect(await runCli(['balance', '-a', '0000012345', 'extra'], io, storage)).toBe(
+        ExitCode.USAGE
+      );
+    });
+
+    it('should require --account', async () => {
+      const { io, err } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(await runCli(['balance'], io, storage)).toBe(ExitCode.USAGE);
+      expect(err[0]).toContain('balance requires --account <number>');
+    });
+
+    it('should reject an unknown storage backend', async () => {
+      const { io } = createIO({ ZBANK_PIN: '1111' });
+
+      expect(
+        await runCli(['balance', '-a', '0000012345', '--storage', 'tape'], io)
+      ).toBe(ExitCode.USAGE);
+    });
+  });
+
+  describe('--json', () => {
+    it('should print the account as a versioned document', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(['balance', '-a', '0000012345', '--json'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      const document = JSON.parse(out.join('\n'));
+      expect(document).toMatchObject({
+        version: 1,
+        kind: 'account',
+        data: { accountNumber: '0000012345', balance: 10000 },
+      });
+      expect(document.data).not.toHaveProperty('pin');
+    });
+
+    it('should print transaction results', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['deposit', '-a', '0000012345', '--amount', '5', '--json'], io, storage);
+
+      const document = JSON.parse(out.join('\n'));
+      expect(document.kind).toBe('transactionResult');
+      expect(document.data.success).toBe(true);
+      expect(document.data.newBalance).toBe(10500);
+      expect(document.data.transaction.type).toBe('deposit');
+    });
+
+    it('should print transaction lists', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+
+      await runCli(['history', '-a', '0000012345', '--json'], io, storage);
+
+      expect(JSON.parse(out.join('\n'))).toEqual({
+        version: 1,
+        kind: 'transactionList',
+        data: { accountNumber: '0000012345', transactions: [] },
+      });
+    });
+
+    it('should print a failed transaction with an error code on stdout', async () => {
+      const { io, out, err } = createIO({ ZBANK_PIN: '1111' });
+
+      const code = await runCli(
+        ['transfer', '-a', '0000012345', '--to', '5555555555', '--amount', '5', '--json'],
+        io,
+        storage
+      );
+
+      expect(code).toBe(ExitCode.TRANSACTION_FAILED);
+      expect(err).toHaveLength(0);
+      expect(JSON.parse(out.join('\n')).data.error).toEqual({
+        code: 'DESTINATION_NOT_FOUND',
+        message: 'Destination account not found',
+      });
+    });
+
+    it('should print a failed login as an authResult', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '9999' });
+
+      const code = await runCli(['balance', '-a', '0000012345', '--json'], io, storage);
+
+      expect(code).toBe(ExitCode.AUTH_FAILED);
+      const document = JSON.parse(out.join('\n'));
+      expect(document.kind).toBe('authResult');
+      expect(document.data.error.code).toBe('INVALID_PIN');
+      expect(document.data.attemptsRemaining).toBe(4);
+    });
+
+    it('should print usage errors as error documents', async () => {
+      for (const args of [
+        ['balance', '-a', '0000012345', '--bogus', '--json'],
+        ['deposit', '-a', '0000012345', '--json'],
+      ]) {
+        const { io, out } = createIO({ ZBANK_PIN: '1111' });
+        expect(await runCli(args, io, storage)).toBe(ExitCode.USAGE);
+        expect(JSON.parse(out.join('\n'))).toMatchObject({
+          version: 1,
+          kind: 'error',
+          data: { code: 'USAGE_ERROR' },
+        });
+      }
+    });
+
+    it('should report a missing PIN with its own code', async () => {
+      const { io, out } = createIO({}, null);
+
+      await runCli(['balance', '-a', '0000012345', '--json'], io, storage);
+
+      expect(JSON.parse(out.join('\n')).data.code).toBe('PIN_REQUIRED');
+    });
+  });
+
+  describe('serve', () => {
+    it('should serve the API until shutdown', async () => {
+      const { io, err } = createIO();
+      let status: number | undefined;
+      io.waitForShutdown = async () => {
+        const url = /http:\/\/\S+/.exec(err[0])![0];
+        status = (await fetch(`${url}/openapi.json`)).status;
+      };
+
+      const code = await runCli(['serve', '--port', '0'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(err[0]).toMatch(/^zBANK API listening on http:\/\/127\.0\.0\.1:\d+/);
+      expect(status).toBe(200);
+    });
+
+    it('should not need an account or PIN', async () => {
+      const { io } = createIO({}, null);
+
+      expect(await runCli(['serve', '--port', '0'], io, storage)).toBe(ExitCode.SUCCESS);
+    });
+
+    it('should reject an invalid port', async () => {
+      const { io, err } = createIO();
+
+      const code = await runCli(['serve', '--port', '70000'], io, storage);
+
+      expect(code).toBe(ExitCode.USAGE);
+      expect(err[0]).toContain('Invalid port "70000"');
+    });
+  });
+  describe('verify', () => {
+    // Account balances must come from postings, so open the fixture accounts
+    beforeEach(async () => {
+      for (const [accountNumber, balance] of [['0000012345', 10000], ['1234567890', 20000]] as const) {
+        await storage.postJournalEntry({
+          type: TransactionType.ADJUSTMENT,
+          status: TransactionStatus.COMPLETED,
+          postings: [
+            { accountNumber, amount: balance, balanceBefore: 0, balanceAfter: balance },
+            { accountNumber: SystemAccount.EQUITY, amount: -balance },
+          ],
+        });
+      }
+    });
+
+    it('should pass a consistent store', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+      await runCli(['deposit', '-a', '0000012345', '--amount', '25.00'], io, storage);
+
+      const code = await runCli(['verify'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out).toContain('Checked 2 accounts, 3 transactions');
+      expect(out).toContain('No uncorrected issues.');
+    });
+
+    it('should fail on a balance that differs from the history', async () => {
+      const { io, out } = createIO({ ZBANK_PIN: '1111' });
+      await runCli(['deposit', '-a', '0000012345', '--amount', '25.00'], io, storage);
+      await storage.updateAccount('0000012345', { balance: 99999 });
+
+      const code = await runCli(['verify'], io, storage);
+
+      expect(code).toBe(ExitCode.INTEGRITY_ISSUES);
+      expect(out.some(line => line.startsWith('BALANCE_MISMATCH'))).toBe(true);
+      expect(out[out.length - 1]).toContain('zbank verify --repair');
+    });
+
+    it('should post corrections with --repair', async () => {
+      await runCli(['deposit', '-a', '0000012345', '--amount', '25.00'], createIO({ ZBANK_PIN: '1111' }).io, storage);
+      await storage.updateAccount('0000012345', { balance: 99999 });
+      const { io, out } = createIO();
+
+      const code = await runCli(['verify', '--repair', '--json'], io, storage);
+      const document = JSON.parse(out.join('\n'));
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(document.kind).toBe('integrityReport');
+      expect(document.data.valid).toBe(true);
+      expect(document.data.corrections[0].type).toBe('adjustment');
+      expect(await runCli(['verify'], createIO().io, storage)).toBe(ExitCode.SUCCESS);
+    });
+  });
+
+  describe('run-scheduler', () => {
+    const yesterday = () => new Date(Date.now() - 24 * 60 * 60 * 1000 - 60 * 1000);
+
+    it('should run due payments without a PIN', async () => {
+      await storage.addSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.TRANSFER,
+        toAccountNumber: '1234567890',
+        amount: 2500,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: yesterday(),
+      });
+      const { io, out } = createIO();
+
+      const code = await runCli(['run-scheduler'], io, storage);
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(out[out.length - 1]).toBe('Ran 2 scheduled payment(s), 0 failed.');
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(25000);
+      expect(await runCli(['run-scheduler'], createIO().io, storage)).toBe(ExitCode.SUCCESS);
+    });
+
+    it('should exit with TRANSACTION_FAILED when a payment fails', async () => {
+      await storage.addSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 150000,
+        every: 1,
+        unit: ScheduleUnit.MONTH,
+        startAt: yesterday(),
+      });
+      const { io, out } = createIO();
+
+      const code = await runCli(['run-scheduler', '--json'], io, storage);
+      const document = JSON.parse(out.join('\n'));
+
+      expect(code).toBe(ExitCode.TRANSACTION_FAILED);
+      expect(document.kind).toBe('scheduleRunList');
+      expect(document.data.runs[0]).toMatchObject({ status: 'failed', errorCode: 'TRANSACTION_LIMIT_EXCEEDED' });
+    });
+  });
+
+  describe('eod', () => {
+    it('should run the batch for today without a PIN, once', async () => {
+      const { io, out } = createIO();
+
+      const code = await runCli(['eod', '--json'], io, storage);
+      const document = JSON.parse(out.join('\n'));
+
+      expect(code).toBe(ExitCode.SUCCESS);
+      expect(document.kind).toBe('endOfDayReport');
+      expect(document.data).toMatchObject({ accountsProcessed: 2, accountsSkipped: 0, failures: [] });
+      expect((await storage.getAccount('0000012345'))?.interestAccruedThrough).toBe(document.data.businessDate);
+
+      const again = createIO();
+      expect(await runCli(['eod'], again.io, storage)).toBe(ExitCode.SUCCESS);
+      expect(again.out).toContain('Processed 0 account(s), skipped 2 (already run for the date, or opened after it)');
+    });
+
+    it('should refuse an invalid or future --date', async () => {
+      const { io, err } = createIO();
+
+      expect(await runCli(['eod', '--date', '2024-13-01'], io, storage)).toBe(ExitCode.USAGE);
+      expect(await runCli(['eod', '--date', '2999-01-01'], io, storage)).toBe(ExitCode.USAGE);
+      expect(err[0]).toContain('Invalid business date "2024-13-01"');
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from '@jest/globals';
 import { formatBalance } from '../../../src/utils/formatter.js';
+import { OverdraftPolicy, availableBalance, unheldBalance } from '../../../src/models/Account.js';
 
 describe('BalanceDisplay Logic', () => {
   describe('Balance Formatting', () => {
@@ -69,4 +70,36 @@ describe('BalanceDisplay Logic', () => {
       expect(formatBalance(100000)).toBe('$1000.00'); // $1000
     });
   });
+
+  describe('Available Balance', () => {
+    it('should not show an available balance for unlimited overdrafts', () => {
+      expect(availableBalance({ balance: 10000 })).toBeNull();
+      expect(availableBalance({ balance: 10000, overdraftPolicy: OverdraftPolicy.UNLIMITED })).toBeNull();
+    });
+
+    it('should include the overdraft headroom', () => {
+      const available = availableBalance({
+        balance: 10000,
+        overdraftPolicy: OverdraftPolicy.LIMITED,
+        overdraftLimit: 5000,
+      });
+      expect(formatBalance(available!)).toBe('$150.00');
+    });
+
+    it('should leave out funds on hold', () => {
+      const account = {
+        balance: 10000,
+        heldAmount: 2500,
+        overdraftPolicy: OverdraftPolicy.LIMITED,
+        overdraftLimit: 5000,
+      };
+      expect(availableBalance(account)).toBe(12500);
+      expect(availableBalance({ ...account, heldAmount: 20000 })).toBe(0);
+    });
+
+    it('should fall back to the ledger balance less holds for unlimited overdrafts', () => {
+      expect(unheldBalance({ balance: 10000, heldAmount: 2500 })).toBe(7500);
+      expect(unheldBalance({ balance: 10000 })).toBe(10000);
+    });
+  });
 });
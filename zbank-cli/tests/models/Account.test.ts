@@ -1,5 +1,15 @@
 import { describe, it, expect } from '@jest/globals';
-import { AccountSchema, CreateAccountSchema, UpdateAccountSchema } from '../../src/models/Account';
+import {
+  AccountSchema,
+  CreateAccountSchema,
+  UpdateAccountSchema,
+  AccountType,
+  FeeType,
+  OverdraftPolicy,
+  overdraftFloor,
+  availableBalance,
+} from '../../src/models/Account';
+import { TransactionType } from '../../src/models/Transaction';
 
 describe('Account Model', () => {
   describe('AccountSchema', () => {
@@ -135,4 +145,112 @@ describe('Account Model', () => {
       expect(() => UpdateAccountSchema.parse(invalidUpdate)).toThrow();
     });
   });
+
+  describe('overdraft settings', () => {
+    const account = {
+      accountNumber: '1234567890',
+      pin: '$2b$10$hashedpinexample',
+      balance: 10000,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should accept an overdraft policy and limit', () => {
+      expect(() =>
+        AccountSchema.parse({ ...account, overdraftPolicy: OverdraftPolicy.LIMITED, overdraftLimit: 5000 })
+      ).not.toThrow();
+    });
+
+    it('should reject unknown policies and negative limits', () => {
+      expect(() => AccountSchema.parse({ ...account, overdraftPolicy: 'sometimes' })).toThrow();
+      expect(() => AccountSchema.parse({ ...account, overdraftLimit: -1 })).toThrow();
+    });
+
+    it('should treat accounts without a policy as unlimited (COBOL behavior)', () => {
+      expect(overdraftFloor(account)).toBeNull();
+      expect(availableBalance(account)).toBeNull();
+    });
+
+    it('should floor at zero without an overdraft', () => {
+      expect(overdraftFloor({ overdraftPolicy: OverdraftPolicy.NONE })).toBe(0);
+      expect(availableBalance({ ...account, overdraftPolicy: OverdraftPolicy.NONE })).toBe(10000);
+    });
+
+    it('should include the overdraft headroom in the available balance', () => {
+      const limited = { ...account, overdraftPolicy: OverdraftPolicy.LIMITED, overdraftLimit: 5000 };
+
+      expect(overdraftFloor(limited)).toBe(-5000);
+      expect(availableBalance(limited)).toBe(15000);
+      expect(availableBalance({ ...limited, balance: -3000 })).toBe(2000);
+    });
+
+    it('should never report a negative available balance', () => {
+      expect(availableBalance({ ...account, balance: -500, overdraftPolicy: OverdraftPolicy.NONE })).toBe(0);
+    });
+  });
+
+  describe('transaction limit overrides', () => {
+    const account = {
+      accountNumber: '1234567890',
+      pin: '$2b$10$hashedpinexample',
+      balance: 10000,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should accept overrides per transaction type', () => {
+      expect(() =>
+        AccountSchema.parse({
+          ...account,
+          transactionLimits: {
+            [TransactionType.WITHDRAWAL]: { perTransaction: 50000, daily: null },
+            [TransactionType.TRANSFER]: { daily: 0 },
+          },
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject unknown types and invalid amounts', () => {
+      expect(() => AccountSchema.parse({ ...account, transactionLimits: { loan: { daily: 100 } } })).toThrow();
+      expect(() =>
+        AccountSchema.parse({ ...account, transactionLimits: { withdrawal: { perTransaction: -1 } } })
+      ).toThrow();
+      expect(() =>
+        AccountSchema.parse({ ...account, transactionLimits: { withdrawal: { daily: 12.5 } } })
+      ).toThrow();
+    });
+  });
+
+  describe('interest fields', () => {
+    const account = {
+      accountNumber: '1234567890',
+      pin: '$2b$10$hashedpinexample',
+      balance: 10000,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    it('should accept an account type and fractional accruals', () => {
+      expect(() =>
+        AccountSchema.parse({
+          ...account,
+          accountType: AccountType.SAVINGS,
+          accruedInterest: 12.345,
+          accruedOverdraftInterest: 0,
+          interestAccruedThrough: '2024-03-14',
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject unknown types, negative accruals and malformed dates', () => {
+      expect(() => AccountSchema.parse({ ...account, accountType: 'loan' })).toThrow();
+      expect(() => AccountSchema.parse({ ...account, accruedInterest: -0.5 })).toThrow();
+      expect(() => AccountSchema.parse({ ...account, interestAccruedThrough: '14/03/2024' })).toThrow();
+    });
+
+    it('should accept known fee waivers only', () => {
+      expect(() => AccountSchema.parse({ ...account, feeWaivers: [FeeType.OVERDRAFT, FeeType.MAINTENANCE] })).not.toThrow();
+      expect(() => AccountSchema.parse({ ...account, feeWaivers: ['wire'] })).toThrow();
+    });
+  });
 });
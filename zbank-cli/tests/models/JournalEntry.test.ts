@@ -0,0 +1,293 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  SystemAccount,
+  isSystemAccount,
+  createJournalEntry,
+  toTransactions,
+  journalEntryFromTransaction,
+  journalEntriesFromTransactions,
+} from '../../src/models/JournalEntry';
+import { Transaction, TransactionType, TransactionStatus } from '../../src/models/Transaction';
+
+describe('JournalEntry Model', () => {
+  const deposit = {
+    type: TransactionType.DEPOSIT,
+    status: TransactionStatus.COMPLETED,
+    postings: [
+      { accountNumber: '0000012345', amount: 5000, balanceBefore: 10000, balanceAfter: 15000 },
+      { accountNumber: SystemAccount.CASH, amount: -5000 },
+    ],
+  };
+
+  describe('isSystemAccount', () => {
+    it('should tell system accounts from customer accounts', () => {
+      expect(isSystemAccount('SYS-CASH')).toBe(true);
+      expect(isSystemAccount('0000012345')).toBe(false);
+    });
+  });
+
+  describe('createJournalEntry', () => {
+    it('should assign IDs and a timestamp', () => {
+      const entry = createJournalEntry(deposit);
+
+      expect(entry.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(entry.timestamp).toBeInstanceOf(Date);
+      expect(new Set(entry.postings.map((p) => p.id)).size).toBe(2);
+    });
+
+    it('should reject postings that do not sum to zero', () => {
+      expect(() =>
+        createJournalEntry({
+          ...deposit,
+          postings: [deposit.postings[0], { accountNumber: SystemAccount.CASH, amount: -4000 }],
+        })
+      ).toThrow('must sum to zero');
+    });
+
+    it('should reject an entry with a single posting', () => {
+      expect(() => createJournalEntry({ ...deposit, postings: [deposit.postings[0]] })).toThrow(
+        'at least two postings'
+      );
+    });
+
+    it('should require balance snapshots on customer postings', () => {
+      expect(() =>
+        createJournalEntry({
+          ...deposit,
+          postings: [
+            { accountNumber: '0000012345', amount: 5000 },
+            { accountNumber: SystemAccount.CASH, amount: -5000 },
+          ],
+        })
+      ).toThrow('balanceBefore and balanceAfter');
+    });
+  });
+
+  describe('toTransactions', () => {
+    it('should show one transaction per customer posting', () => {
+      const entry = createJournalEntry({ ...deposit, description: 'Payday' });
+
+      const transactions = toTransactions(entry);
+
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toEqual({
+        id: entry.postings[0].id,
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 15000,
+        timestamp: entry.timestamp,
+        status: TransactionStatus.COMPLETED,
+        description: 'Payday',
+      });
+    });
+
+    it('should show both legs of a transfer with their own descriptions', () => {
+      const entry = createJournalEntry({
+        type: TransactionType.TRANSFER,
+        status: TransactionStatus.COMPLETED,
+        reference: '123e4567-e89b-12d3-a456-426614174000',
+        postings: [
+          {
+            accountNumber: '0000012345',
+            amount: -2000,
+            balanceBefore: 10000,
+            balanceAfter: 8000,
+            description: 'Transfer to 1234567890',
+          },
+          {
+            accountNumber: '1234567890',
+            amount: 2000,
+            balanceBefore: 0,
+            balanceAfter: 2000,
+            description: 'Transfer from 0000012345',
+          },
+        ],
+      });
+
+      const [debit, credit] = toTransactions(entry);
+
+      expect(debit).toMatchObject({ amount: 2000, description: 'Transfer to 1234567890' });
+      expect(credit).toMatchObject({ amount: 2000, description: 'Transfer from 0000012345' });
+      expect(debit.reference).toBe(entry.reference);
+      expect(credit.reference).toBe(entry.reference);
+    });
+  });
+
+  describe('reversals', () => {
+    it('should show the link to the reversed transaction', () => {
+      const original = createJournalEntry(deposit);
+      const reversal = createJournalEntry({
+        type: TransactionType.REVERSAL,
+        status: TransactionStatus.COMPLETED,
+        postings: [
+          { accountNumber: '0000012345', amount: -5000, balanceBefore: 15000, balanceAfter: 10000, reversalOf: original.postings[0].id },
+          { accountNumber: SystemAccount.CASH, amount: 5000 },
+        ],
+      });
+
+      expect(toTransactions(reversal)[0]).toMatchObject({
+        type: TransactionType.REVERSAL,
+        amount: 5000,
+        reversalOf: original.postings[0].id,
+      });
+      expect(toTransactions(original)[0]).not.toHaveProperty('reversalOf');
+    });
+  });
+
+  describe('journalEntryFromTransaction', () => {
+    it('should balance a withdrawal against cash', () => {
+      const entry = journalEntryFromTransaction({
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 3000,
+        balanceBefore: 10000,
+        balanceAfter: 7000,
+        status: TransactionStatus.COMPLETED,
+      });
+
+      expect(entry.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', -3000],
+        [SystemAccount.CASH, 3000],
+      ]);
+    });
+
+    it('should balance a lone transfer leg against suspense', () => {
+      const entry = journalEntryFromTransaction({
+        accountNumber: '0000012345',
+        type: TransactionType.TRANSFER,
+        amount: 3000,
+        balanceBefore: 10000,
+        balanceAfter: 7000,
+        status: TransactionStatus.COMPLETED,
+      });
+
+      expect(entry.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', -3000],
+        [SystemAccount.SUSPENSE, 3000],
+      ]);
+    });
+
+    it('should balance overdraft interest against the interest account', () => {
+      const entry = journalEntryFromTransaction({
+        accountNumber: '0000012345',
+        type: TransactionType.OVERDRAFT_INTEREST,
+        amount: 150,
+        balanceBefore: -10000,
+        balanceAfter: -10150,
+        status: TransactionStatus.COMPLETED,
+      });
+
+      expect(entry.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', -150],
+        [SystemAccount.INTEREST, 150],
+      ]);
+    });
+
+    it('should balance fees against the fees account', () => {
+      const entry = journalEntryFromTransaction({
+        accountNumber: '0000012345',
+        type: TransactionType.FEE,
+        amount: 3500,
+        balanceBefore: -5000,
+        balanceAfter: -8500,
+        status: TransactionStatus.COMPLETED,
+      });
+
+      expect(entry.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', -3500],
+        [SystemAccount.FEES, 3500],
+      ]);
+    });
+  });
+
+  describe('journalEntriesFromTransactions', () => {
+    const reference = '123e4567-e89b-12d3-a456-426614174000';
+    const leg = (
+      id: string,
+      accountNumber: string,
+      balanceBefore: number,
+      balanceAfter: number
+    ): Transaction => ({
+      id,
+      accountNumber,
+      type: TransactionType.TRANSFER,
+      amount: 2000,
+      balanceBefore,
+      balanceAfter,
+      timestamp: new Date('2024-01-01T12:00:00Z'),
+      status: TransactionStatus.COMPLETED,
+      reference,
+    });
+
+    it('should merge the two legs of a transfer into one entry', () => {
+      const debit = leg('11111111-1111-4111-8111-111111111111', '0000012345', 10000, 8000);
+      const credit = leg('22222222-2222-4222-8222-222222222222', '1234567890', 0, 2000);
+
+      const [, entry, ...rest] = journalEntriesFromTransactions([debit, credit]);
+
+      expect(rest).toEqual([]);
+      expect(entry.reference).toBe(reference);
+      expect(entry.timestamp).toEqual(debit.timestamp);
+      expect(entry.postings.map((p) => [p.id, p.amount])).toEqual([
+        [debit.id, -2000],
+        [credit.id, 2000],
+      ]);
+    });
+
+    it('should keep transaction IDs so the view is unchanged', () => {
+      const debit = leg('11111111-1111-4111-8111-111111111111', '0000012345', 10000, 8000);
+      const credit = leg('22222222-2222-4222-8222-222222222222', '1234567890', 0, 2000);
+
+      const transactions = journalEntriesFromTransactions([debit, credit]).slice(1).flatMap(toTransactions);
+
+      expect(transactions).toEqual([debit, credit]);
+    });
+
+    it('should balance an unmatched leg against suspense', () => {
+      const debit = leg('11111111-1111-4111-8111-111111111111', '0000012345', 10000, 8000);
+
+      const [, entry] = journalEntriesFromTransactions([debit]);
+
+      expect(entry.postings.map((p) => [p.id, p.accountNumber, p.amount])).toEqual([
+        [debit.id, '0000012345', -2000],
+        [expect.any(String), SystemAccount.SUSPENSE, 2000],
+      ]);
+    });
+
+    it('should open each account at the balance before its first transaction', () => {
+      const debit = leg('11111111-1111-4111-8111-111111111111', '0000012345', 10000, 8000);
+      const credit = leg('22222222-2222-4222-8222-222222222222', '1234567890', 0, 2000);
+      const createdAt = new Date('2023-06-01T00:00:00Z');
+
+      const [opening, ...rest] = journalEntriesFromTransactions(
+        [debit, credit],
+        [{ accountNumber: '0000012345', balance: 8000, createdAt }]
+      );
+
+      expect(rest).toHaveLength(1);
+      expect(opening).toMatchObject({ type: TransactionType.ADJUSTMENT, timestamp: createdAt });
+      expect(opening.postings.map((p) => [p.accountNumber, p.amount, p.balanceBefore, p.balanceAfter])).toEqual([
+        ['0000012345', 10000, 0, 10000],
+        [SystemAccount.EQUITY, -10000, undefined, undefined],
+      ]);
+    });
+
+    it('should open accounts without transactions at their balance', () => {
+      const createdAt = new Date('2023-06-01T00:00:00Z');
+
+      const entries = journalEntriesFromTransactions(
+        [],
+        [
+          { accountNumber: '0000012345', balance: 7500, createdAt },
+          { accountNumber: '1234567890', balance: 0, createdAt },
+        ]
+      );
+
+      expect(entries.flatMap(toTransactions)).toEqual([
+        expect.objectContaining({ accountNumber: '0000012345', amount: 7500, balanceBefore: 0, balanceAfter: 7500 }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ScheduleUnit,
+  CreateScheduleSchema,
+  createSchedule,
+  occurrence,
+  nextRunAt,
+  parseScheduleRule,
+  formatScheduleRule,
+} from '../../src/models/Schedule';
+import { TransactionType } from '../../src/models/Transaction';
+
+describe('Schedule Model', () => {
+  const monthly = {
+    accountNumber: '0000012345',
+    type: TransactionType.DEPOSIT,
+    amount: 5000,
+    every: 1,
+    unit: ScheduleUnit.MONTH,
+    startAt: new Date(2024, 0, 31, 9, 0),
+  } as const;
+
+  describe('CreateScheduleSchema', () => {
+    it('should require a destination for transfers only', () => {
+      expect(CreateScheduleSchema.safeParse({ ...monthly, type: TransactionType.TRANSFER }).success).toBe(false);
+      expect(CreateScheduleSchema.safeParse({ ...monthly, toAccountNumber: '1234567890' }).success).toBe(false);
+      expect(
+        CreateScheduleSchema.safeParse({ ...monthly, type: TransactionType.TRANSFER, toAccountNumber: '1234567890' })
+          .success
+      ).toBe(true);
+    });
+
+    it('should reject a transfer to the same account', () => {
+      const result = CreateScheduleSchema.safeParse({
+        ...monthly,
+        type: TransactionType.TRANSFER,
+        toAccountNumber: '0000012345',
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject types that cannot be scheduled', () => {
+      expect(CreateScheduleSchema.safeParse({ ...monthly, type: TransactionType.HOLD }).success).toBe(false);
+    });
+
+    it('should reject an end before the start', () => {
+      expect(CreateScheduleSchema.safeParse({ ...monthly, endAt: new Date(2023, 0, 1) }).success).toBe(false);
+    });
+  });
+
+  describe('createSchedule', () => {
+    it('should start active with no runs', () => {
+      const schedule = createSchedule(monthly);
+
+      expect(schedule.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(schedule.runCount).toBe(0);
+      expect(schedule.active).toBe(true);
+      expect(schedule.createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('occurrence', () => {
+    it('should clamp monthly occurrences to the end of shorter months', () => {
+      expect(occurrence(monthly, 1)).toEqual(new Date(2024, 1, 29, 9, 0));
+      expect(occurrence(monthly, 2)).toEqual(new Date(2024, 2, 31, 9, 0));
+      expect(occurrence(monthly, 3)).toEqual(new Date(2024, 3, 30, 9, 0));
+    });
+
+    it('should step days and weeks', () => {
+      expect(occurrence({ ...monthly, every: 10, unit: ScheduleUnit.DAY }, 1)).toEqual(new Date(2024, 1, 10, 9, 0));
+      expect(occurrence({ ...monthly, every: 2, unit: ScheduleUnit.WEEK }, 2)).toEqual(new Date(2024, 1, 28, 9, 0));
+    });
+  });
+
+  describe('nextRunAt', () => {
+    it('should be the occurrence after the last one run', () => {
+      const schedule = { ...createSchedule(monthly), runCount: 2 };
+
+      expect(nextRunAt(schedule)).toEqual(new Date(2024, 2, 31, 9, 0));
+    });
+
+    it('should be null once cancelled or past the end', () => {
+      const schedule = createSchedule({ ...monthly, endAt: new Date(2024, 1, 29, 9, 0) });
+
+      expect(nextRunAt({ ...schedule, runCount: 1 })).toEqual(new Date(2024, 1, 29, 9, 0));
+      expect(nextRunAt({ ...schedule, runCount: 2 })).toBeNull();
+      expect(nextRunAt({ ...schedule, active: false })).toBeNull();
+    });
+  });
+
+  describe('rules', () => {
+    it('should parse named and counted rules', () => {
+      expect(parseScheduleRule('Monthly')).toEqual({ every: 1, unit: ScheduleUnit.MONTH });
+      expect(parseScheduleRule('2w')).toEqual({ every: 2, unit: ScheduleUnit.WEEK });
+      expect(parseScheduleRule('0d')).toBeNull();
+      expect(parseScheduleRule('fortnightly')).toBeNull();
+    });
+
+    it('should describe rules', () => {
+      expect(formatScheduleRule({ every: 1, unit: ScheduleUnit.DAY })).toBe('daily');
+      expect(formatScheduleRule({ every: 1, unit: ScheduleUnit.MONTH })).toBe('monthly');
+      expect(formatScheduleRule({ every: 3, unit: ScheduleUnit.WEEK })).toBe('every 3 weeks');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { StatementSchema, STATEMENT_PERIOD_PATTERN } from '../../src/models/Statement';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+
+describe('Statement Model', () => {
+  const statement = {
+    accountNumber: '0000012345',
+    period: '2024-03',
+    openingBalance: 10000,
+    closingBalance: 7500,
+    transactions: [
+      {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 2500,
+        balanceBefore: 10000,
+        balanceAfter: 7500,
+        timestamp: new Date('2024-03-15T12:00:00Z'),
+        status: TransactionStatus.COMPLETED,
+      },
+    ],
+    totals: [{ type: TransactionType.WITHDRAWAL, count: 1, credits: 0, debits: 2500 }],
+    closed: true,
+    generatedAt: new Date('2024-04-01T08:00:00Z'),
+  };
+
+  it('should revive the dates of a statement read back from JSON', () => {
+    const parsed = StatementSchema.parse(JSON.parse(JSON.stringify(statement)));
+
+    expect(parsed).toEqual(statement);
+  });
+
+  it('should only accept calendar months as periods', () => {
+    expect(STATEMENT_PERIOD_PATTERN.test('2024-12')).toBe(true);
+    expect(STATEMENT_PERIOD_PATTERN.test('2024-13')).toBe(false);
+    expect(STATEMENT_PERIOD_PATTERN.test('2024-3')).toBe(false);
+    expect(StatementSchema.safeParse({ ...statement, period: '2024-00' }).success).toBe(false);
+  });
+});
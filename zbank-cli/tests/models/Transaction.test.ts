@@ -39,6 +39,38 @@ describe('Transaction Model', () => {
       expect(() => TransactionSchema.parse(validTransaction)).not.toThrow();
     });
 
+    it('should validate transfer leg with a shared reference', () => {
+      const transferLeg = {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        accountNumber: '1234567890',
+        type: TransactionType.TRANSFER,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 5000,
+        timestamp: new Date(),
+        status: TransactionStatus.COMPLETED,
+        reference: '9b2f4c1e-8d3a-4f5b-a6c7-1e2d3f4a5b6c',
+      };
+
+      expect(() => TransactionSchema.parse(transferLeg)).not.toThrow();
+    });
+
+    it('should reject a reference that is not a UUID', () => {
+      const transferLeg = {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        accountNumber: '1234567890',
+        type: TransactionType.TRANSFER,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 5000,
+        timestamp: new Date(),
+        status: TransactionStatus.COMPLETED,
+        reference: 'not-a-uuid',
+      };
+
+      expect(() => TransactionSchema.parse(transferLeg)).toThrow();
+    });
+
     it('should reject transaction with invalid UUID', () => {
       const invalidTransaction = {
         id: 'not-a-valid-uuid',
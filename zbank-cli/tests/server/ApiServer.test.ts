@@ -0,0 +1,375 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiServer } from '../../src/server/ApiServer';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { hashPin } from '../../src/utils/crypto';
+import { OverdraftPolicy } from '../../src/models/Account';
+
+describe('ApiServer', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+  let server: ApiServer;
+  let baseUrl: string;
+
+  // Send a request and parse the JSON response (null for 204)
+  async function request(
+    method: string,
+    urlPath: string,
+    options: { body?: unknown; token?: string; rawBody?: string; headers?: Record<string, string> } = {},
+  ) {
+    const response = await fetch(`${baseUrl}${urlPath}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.token && { Authorization: `Bearer ${options.token}` }),
+        ...options.headers,
+      },
+      body: options.rawBody ?? (options.body !== undefined ? JSON.stringify(options.body) : undefined),
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+  }
+
+  async function login(accountNumber = '0000012345', pin = '1111'): Promise<string> {
+    const { body } = await request('POST', '/v1/sessions', { body: { accountNumber, pin } });
+    return body.data.token;
+  }
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-api-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    const pin = await hashPin('1111');
+    await storage.createAccount({ accountNumber: '0000012345', pin, balance: 10000 });
+    await storage.createAccount({ accountNumber: '1234567890', pin, balance: 20000 });
+
+    server = new ApiServer(storage, {
+      lockoutPolicy: { maxAttempts: 2, lockoutDurationMs: null, progressiveDelayMs: 0, maxDelayMs: 0 },
+      maxBodyBytes: 1024,
+    });
+    const { port } = await server.listen(0);
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('sessions', () => {
+    it('should issue a token on login', async () => {
+      const { status, body } = await request('POST', '/v1/sessions', {
+        body: { accountNumber: '0000012345', pin: '1111' },
+      });
+
+      expect(status).toBe(201);
+      expect(body.kind).toBe('session');
+      expect(body.data.token).toEqual(expect.any(String));
+      expect(body.data.account.accountNumber).toBe('0000012345');
+      expect(body.data.account.pin).toBeUndefined();
+      expect(new Date(body.data.expiresAt).getTime()).toBeGreaterThan(Date.now());
+      expect(server.sessionCount).toBe(1);
+    });
+
+    it('should reject a wrong PIN with an authResult', async () => {
+      const { status, body } = await request('POST', '/v1/sessions', {
+        body: { accountNumber: '0000012345', pin: '9999' },
+      });
+
+      expect(status).toBe(401);
+      expect(body.kind).toBe('authResult');
+      expect(body.data.error.code).toBe('INVALID_PIN');
+      expect(body.data.attemptsRemaining).toBe(1);
+    });
+
+    it('should report a locked account with 423', async () => {
+      await request('POST', '/v1/sessions', { body: { accountNumber: '0000012345', pin: '9999' } });
+      await request('POST', '/v1/sessions', { body: { accountNumber: '0000012345', pin: '9999' } });
+
+      const { status, body } = await request('POST', '/v1/sessions', {
+        body: { accountNumber: '0000012345', pin: '1111' },
+      });
+
+      expect(status).toBe(423);
+      expect(body.data.error.code).toBe('ACCOUNT_LOCKED');
+    });
+
+    it('should reject malformed login requests', async () => {
+      const { status, body } = await request('POST', '/v1/sessions', {
+        body: { accountNumber: '123', pin: 'abcd' },
+      });
+
+      expect(status).toBe(400);
+      expect(body.data.code).toBe('VALIDATION_ERROR');
+      expect(body.data.message).toContain('accountNumber');
+      expect(body.data.message).toContain('pin');
+    });
+
+    it('should end the session on logout', async () => {
+      const token = await login();
+
+      expect((await request('DELETE', '/v1/sessions', { token })).status).toBe(204);
+      expect(server.sessionCount).toBe(0);
+      expect((await request('GET', '/v1/accounts/0000012345', { token })).status).toBe(401);
+    });
+
+    it('should expire idle sessions', async () => {
+      await server.close();
+      server = new ApiServer(storage, { sessionTimeouts: { idleTimeoutMs: 50 } });
+      const { port } = await server.listen(0);
+      baseUrl = `http://127.0.0.1:${port}`;
+      const token = await login();
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const { status, body } = await request('GET', '/v1/accounts/0000012345', { token });
+      expect(status).toBe(401);
+      expect(body.data.code).toBe('UNAUTHORIZED');
+      expect(server.sessionCount).toBe(0);
+    });
+  });
+
+  describe('authorization', () => {
+    it('should require a bearer token', async () => {
+      const { status, headers, body } = await request('GET', '/v1/accounts/0000012345');
+
+      expect(status).toBe(401);
+      expect(headers.get('www-authenticate')).toBe('Bearer');
+      expect(body.data.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should reject unknown tokens', async () => {
+      const { status } = await request('GET', '/v1/accounts/0000012345', { token: 'nope' });
+
+      expect(status).toBe(401);
+    });
+
+    it('should not let a session act on another account', async () => {
+      const token = await login();
+
+      const { status, body } = await request('POST', '/v1/accounts/1234567890/withdrawals', {
+        token,
+        body: { amount: 100 },
+      });
+
+      expect(status).toBe(403);
+      expect(body.data.code).toBe('FORBIDDEN');
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(20000);
+    });
+  });
+
+  describe('accounts', () => {
+    it('should return the account with its balance', async () => {
+      const token = await login();
+
+      const { status, body } = await request('GET', '/v1/accounts/0000012345', { token });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ version: 1, kind: 'account', data: { balance: 10000 } });
+      expect(body.data.pin).toBeUndefined();
+    });
+
+    it('should deposit and withdraw', async () => {
+      const token = await login();
+
+      const deposit = await request('POST', '/v1/accounts/0000012345/deposits', {
+        token,
+        body: { amount: 2500 },
+      });
+      const withdrawal = await request('POST', '/v1/accounts/0000012345/withdrawals', {
+        token,
+        body: { amount: 500 },
+      });
+
+      expect(deposit.status).toBe(201);
+      expect(deposit.body.data.newBalance).toBe(12500);
+      expect(withdrawal.status).toBe(201);
+      expect(withdrawal.body.data.transaction.type).toBe('withdrawal');
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(12000);
+    });
+
+    it('should transfer to another account', async () => {
+      const token = await login();
+
+      const { status, body } = await request('POST', '/v1/accounts/0000012345/transfers', {
+        token,
+        body: { amount: 1000, toAccountNumber: '1234567890' },
+      });
+
+      expect(status).toBe(201);
+      expect(body.data.newBalance).toBe(9000);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(21000);
+    });
+
+    it('should keep the locks of a transfer in progress when its session logs out', async () => {
+      const token = await login();
+      const runInTransaction = storage.runInTransaction.bind(storage);
+      let resume!: () => void;
+      const started = new Promise<void>(resolveStarted => {
+        // Hold the transfer once it has locked both accounts
+        jest.spyOn(storage, 'runInTransaction').mockImplementationOnce(async fn => {
+          resolveStarted();
+          await new Promise<void>(resolve => (resume = resolve));
+          return runInTransaction(fn);
+        });
+      });
+
+      const transfer = request('POST', '/v1/accounts/0000012345/transfers', {
+        token,
+        body: { amount: 1000, toAccountNumber: '1234567890' },
+      });
+      await started;
+      expect((await request('DELETE', '/v1/sessions', { token })).status).toBe(204);
+
+      expect(await storage.lockAccount('0000012345')).toBe(false);
+      resume();
+      expect((await transfer).status).toBe(201);
+      expect(await storage.lockAccount('0000012345')).toBe(true);
+      await storage.unlockAccount('0000012345');
+    });
+
+    it('should map transaction failures to HTTP statuses', async () => {
+      const token = await login();
+
+      const missing = await request('POST', '/v1/accounts/0000012345/transfers', {
+        token,
+        body: { amount: 100, toAccountNumber: '9999999999' },
+      });
+      const self = await request('POST', '/v1/accounts/0000012345/transfers', {
+        token,
+        body: { amount: 100, toAccountNumber: '0000012345' },
+      });
+
+      expect(missing.status).toBe(404);
+      expect(missing.body.data.error.code).toBe('DESTINATION_NOT_FOUND');
+      expect(self.status).toBe(422);
+      expect(self.body.data.error.code).toBe('SAME_ACCOUNT');
+    });
+
+    it('should replay a retried request with the same Idempotency-Key', async () => {
+      const token = await login();
+      const retry = { token, body: { amount: 2500 }, headers: { 'Idempotency-Key': 'deposit-1' } };
+
+      const first = await request('POST', '/v1/accounts/0000012345/deposits', retry);
+      const second = await request('POST', '/v1/accounts/0000012345/deposits', retry);
+      const reused = await request('POST', '/v1/accounts/0000012345/withdrawals', retry);
+
+      expect(second.status).toBe(201);
+      expect(second.body).toEqual(first.body);
+      expect(reused.status).toBe(409);
+      expect(reused.body.data.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(12500);
+    });
+
+    it('should refuse withdrawals past the overdraft policy with 422', async () => {
+      await storage.updateAccount('0000012345', { overdraftPolicy: OverdraftPolicy.NONE });
+      const token = await login();
+
+      const { status, body } = await request('POST', '/v1/accounts/0000012345/withdrawals', {
+        token,
+        body: { amount: 10001 },
+      });
+
+      expect(status).toBe(422);
+      expect(body.data.error.code).toBe('OVERDRAFT_LIMIT_EXCEEDED');
+    });
+
+    it('should refuse amounts over the transaction limits with 422', async () => {
+      await storage.updateAccount('0000012345', {
+        transactionLimits: { withdrawal: { perTransaction: null, daily: 5000 } },
+      });
+      const token = await login();
+      await request('POST', '/v1/accounts/0000012345/withdrawals', { token, body: { amount: 3000 } });
+
+      const { status, body } = await request('POST', '/v1/accounts/0000012345/withdrawals', {
+        token,
+        body: { amount: 3000 },
+      });
+
+      expect(status).toBe(422);
+      expect(body.data.error.code).toBe('DAILY_LIMIT_EXCEEDED');
+      expect(body.data.limitRemaining).toBe(2000);
+    });
+
+    it('should validate amounts against the transaction schema', async () => {
+      const token = await login();
+
+      for (const amount of [-100, 12.5, '100']) {
+        const { status, body } = await request('POST', '/v1/accounts/0000012345/deposits', {
+          token,
+          body: { amount },
+        });
+        expect(status).toBe(400);
+        expect(body.data.code).toBe('VALIDATION_ERROR');
+      }
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+    });
+
+    it('should list transactions, most recent first', async () => {
+      const token = await login();
+      for (const amount of [100, 200, 300]) {
+        await request('POST', '/v1/accounts/0000012345/deposits', { token, body: { amount } });
+      }
+
+      const { status, body } = await request('GET', '/v1/accounts/0000012345/transactions?limit=2', {
+        token,
+      });
+
+      expect(status).toBe(200);
+      expect(body.kind).toBe('transactionList');
+      expect(body.data.transactions.map((t: { amount: number }) => t.amount)).toEqual([300, 200]);
+    });
+
+    it('should reject an invalid limit', async () => {
+      const token = await login();
+
+      const { status } = await request('GET', '/v1/accounts/0000012345/transactions?limit=0', {
+        token,
+      });
+
+      expect(status).toBe(400);
+    });
+  });
+
+  describe('errors', () => {
+    it('should return 404 for unknown paths', async () => {
+      const { status, body } = await request('GET', '/v1/nothing');
+
+      expect(status).toBe(404);
+      expect(body.kind).toBe('error');
+      expect(body.data.code).toBe('NOT_FOUND');
+    });
+
+    it('should return 405 with Allow for the wrong method', async () => {
+      const { status, headers } = await request('PUT', '/v1/sessions');
+
+      expect(status).toBe(405);
+      expect(headers.get('allow')).toBe('POST, DELETE');
+    });
+
+    it('should reject invalid JSON', async () => {
+      const { status, body } = await request('POST', '/v1/sessions', { rawBody: '{nope' });
+
+      expect(status).toBe(400);
+      expect(body.data.code).toBe('INVALID_JSON');
+    });
+
+    it('should reject oversized bodies', async () => {
+      const { status, body } = await request('POST', '/v1/sessions', {
+        rawBody: JSON.stringify({ padding: 'x'.repeat(2048) }),
+      });
+
+      expect(status).toBe(413);
+      expect(body.data.code).toBe('PAYLOAD_TOO_LARGE');
+    });
+
+    it('should serve the OpenAPI document', async () => {
+      const { status, body } = await request('GET', '/openapi.json');
+
+      expect(status).toBe(200);
+      expect(body.openapi).toBe('3.1.0');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import { createOpenApiDocument } from '../../src/server/openapi';
+
+describe('createOpenApiDocument', () => {
+  const document = createOpenApiDocument() as {
+    paths: Record<string, Record<string, unknown>>;
+    components: { schemas: Record<string, any> };
+  };
+  const schemas = document.components.schemas;
+
+  it('should describe every endpoint', () => {
+    expect(Object.keys(document.paths)).toEqual([
+      '/v1/sessions',
+      '/v1/accounts/{accountNumber}',
+      '/v1/accounts/{accountNumber}/deposits',
+      '/v1/accounts/{accountNumber}/withdrawals',
+      '/v1/accounts/{accountNumber}/transfers',
+      '/v1/accounts/{accountNumber}/transactions',
+    ]);
+    expect(Object.keys(document.paths['/v1/sessions'])).toEqual(['post', 'delete']);
+  });
+
+  it('should derive component schemas from the model schemas', () => {
+    expect(schemas.Account.properties.accountNumber.pattern).toBe('^\\d{10}$');
+    expect(schemas.Account.properties.pin).toBeUndefined();
+    expect(schemas.AmountRequest.properties.amount.type).toBe('integer');
+    expect(schemas.TransferRequest.required).toEqual(['amount', 'toAccountNumber']);
+  });
+
+  it('should describe dates as date-time strings', () => {
+    expect(schemas.Account.properties.createdAt).toEqual({ type: 'string', format: 'date-time' });
+  });
+
+  it('should reference shared schemas instead of inlining them', () => {
+    expect(schemas.Session.properties.account).toEqual({ $ref: '#/components/schemas/Account' });
+    for (const schema of Object.values(schemas)) {
+      expect(schema.$schema).toBeUndefined();
+      expect(schema.$id).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountService } from '../../src/services/AccountService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { TransactionType } from '../../src/models/Transaction';
+import { AccountType, FeeType, OverdraftPolicy } from '../../src/models/Account';
+import { verifyPin } from '../../src/utils/crypto';
+
+describe('AccountService', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+  let service: AccountService;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-accounts-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    service = new AccountService(storage);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('register', () => {
+    it('should create an account with the requested number and a hashed PIN', async () => {
+      const result = await service.register({ accountNumber: '5555555555', pin: '4321' });
+
+      expect(result.success).toBe(true);
+      expect(result.account?.accountNumber).toBe('5555555555');
+      expect(result.account?.balance).toBe(0);
+      expect(result.transaction).toBeUndefined();
+
+      const stored = await storage.getAccount('5555555555');
+      expect(stored?.pin).not.toBe('4321');
+      expect(await verifyPin('4321', stored!.pin)).toBe(true);
+    });
+
+    it('should generate a 10-digit account number when none is given', async () => {
+      const result = await service.register({ pin: '4321' });
+
+      expect(result.success).toBe(true);
+      expect(result.account?.accountNumber).toMatch(/^\d{10}$/);
+      expect(await storage.getAccount(result.account!.accountNumber)).not.toBeNull();
+    });
+
+    it('should record an opening deposit as the first transaction', async () => {
+      const result = await service.register({
+        accountNumber: '5555555555',
+        pin: '4321',
+        openingDeposit: 2500,
+      });
+
+      expect(result.account?.balance).toBe(2500);
+      expect(result.transaction?.type).toBe(TransactionType.DEPOSIT);
+
+      const history = await storage.getTransactionHistory('5555555555');
+      expect(history).toHaveLength(1);
+      expect(history[0].balanceBefore).toBe(0);
+      expect(history[0].balanceAfter).toBe(2500);
+      expect(history[0].description).toBe('Opening deposit');
+    });
+
+    it('should accept a matching PIN confirmation', async () => {
+      const result = await service.register({ pin: '4321', confirmPin: '4321' });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a PIN confirmation that does not match', async () => {
+      const result = await service.register({ pin: '4321', confirmPin: '1234' });
+
+      expect(result).toEqual({ success: false, error: 'PINs do not match' });
+      expect(await storage.listAccounts()).toHaveLength(0);
+    });
+
+    it('should reject invalid PINs', async () => {
+      for (const pin of ['123', '12345', 'abcd']) {
+        const result = await service.register({ pin });
+        expect(result.error).toBe('Invalid PIN format. Must be 4 digits.');
+      }
+    });
+
+    it('should reject invalid account numbers', async () => {
+      const result = await service.register({ accountNumber: '12345', pin: '4321' });
+
+      expect(result.error).toBe('Invalid account number format. Must be 10 digits.');
+    });
+
+    it('should reject an account number that is taken', async () => {
+      await service.register({ accountNumber: '5555555555', pin: '4321' });
+
+      const result = await service.register({ accountNumber: '5555555555', pin: '1111' });
+
+      expect(result).toEqual({ success: false, error: 'Account number already exists' });
+      expect(await verifyPin('4321', (await storage.getAccount('5555555555'))!.pin)).toBe(true);
+    });
+
+    it('should reject invalid opening deposits', async () => {
+      for (const openingDeposit of [-100, 12.5, 2000000000]) {
+        const result = await service.register({ pin: '4321', openingDeposit });
+        expect(result.error).toBe('Invalid opening deposit amount');
+      }
+      expect(await storage.listAccounts()).toHaveLength(0);
+    });
+
+    it('should not leave an account behind when the opening deposit fails', async () => {
+      jest
+        .spyOn(JsonStorage.prototype, 'addTransaction')
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      const result = await service.register({
+        accountNumber: '5555555555',
+        pin: '4321',
+        openingDeposit: 2500,
+      });
+
+      expect(result).toEqual({ success: false, error: 'Registration failed: disk full' });
+      expect(await storage.getAccount('5555555555')).toBeNull();
+    });
+  });
+
+  describe('setOverdraftPolicy', () => {
+    beforeEach(async () => {
+      await service.register({ accountNumber: '5555555555', pin: '4321' });
+    });
+
+    it('should set a limited overdraft', async () => {
+      const result = await service.setOverdraftPolicy('5555555555', OverdraftPolicy.LIMITED, 25000);
+
+      expect(result.success).toBe(true);
+      expect(result.account?.overdraftPolicy).toBe(OverdraftPolicy.LIMITED);
+      const stored = await storage.getAccount('5555555555');
+      expect(stored?.overdraftLimit).toBe(25000);
+    });
+
+    it('should drop the limit when switching to another policy', async () => {
+      await service.setOverdraftPolicy('5555555555', OverdraftPolicy.LIMITED, 25000);
+
+      await service.setOverdraftPolicy('5555555555', OverdraftPolicy.NONE);
+
+      const stored = await storage.getAccount('5555555555');
+      expect(stored?.overdraftPolicy).toBe(OverdraftPolicy.NONE);
+      expect(stored?.overdraftLimit).toBeUndefined();
+    });
+
+    it('should require a valid limit for a limited overdraft only', async () => {
+      const missing = await service.setOverdraftPolicy('5555555555', OverdraftPolicy.LIMITED);
+      const fractional = await service.setOverdraftPolicy('5555555555', OverdraftPolicy.LIMITED, 12.5);
+      const extra = await service.setOverdraftPolicy('5555555555', OverdraftPolicy.NONE, 100);
+
+      expect(missing.success).toBe(false);
+      expect(fractional.success).toBe(false);
+      expect(extra).toEqual({ success: false, error: 'Only a limited overdraft takes a limit' });
+      expect((await storage.getAccount('5555555555'))?.overdraftPolicy).toBeUndefined();
+    });
+
+    it('should report an unknown account', async () => {
+      const result = await service.setOverdraftPolicy('9999999999', OverdraftPolicy.NONE);
+
+      expect(result).toEqual({ success: false, error: 'Account not found' });
+    });
+  });
+
+  describe('setTransactionLimit', () => {
+    beforeEach(async () => {
+      await service.register({ accountNumber: '5555555555', pin: '4321' });
+    });
+
+    it('should store an override for one transaction type', async () => {
+      const result = await service.setTransactionLimit('5555555555', TransactionType.WITHDRAWAL, {
+        perTransaction: 25000,
+        daily: null,
+      });
+
+      expect(result.success).toBe(true);
+      expect((await storage.getAccount('5555555555'))?.transactionLimits).toEqual({
+        [TransactionType.WITHDRAWAL]: { perTransaction: 25000, daily: null },
+      });
+    });
+
+    it('should drop values that go back to the bank-wide limit', async () => {
+      await service.setTransactionLimit('5555555555', TransactionType.WITHDRAWAL, { perTransaction: 25000, daily: 50000 });
+      await service.setTransactionLimit('5555555555', TransactionType.TRANSFER, { daily: 50000 });
+
+      await service.setTransactionLimit('5555555555', TransactionType.WITHDRAWAL, { daily: 50000 });
+      expect((await storage.getAccount('5555555555'))?.transactionLimits).toEqual({
+        [TransactionType.WITHDRAWAL]: { daily: 50000 },
+        [TransactionType.TRANSFER]: { daily: 50000 },
+      });
+
+      await service.setTransactionLimit('5555555555', TransactionType.WITHDRAWAL, {});
+      await service.setTransactionLimit('5555555555', TransactionType.TRANSFER, {});
+      expect((await storage.getAccount('5555555555'))?.transactionLimits).toBeUndefined();
+    });
+
+    it('should reject negative and fractional limits', async () => {
+      const negative = await service.setTransactionLimit('5555555555', TransactionType.WITHDRAWAL, { daily: -1 });
+      const fractional = await service.setTransactionLimit('5555555555', TransactionType.WITHDRAWAL, {
+        perTransaction: 12.5,
+      });
+
+      expect(negative.success).toBe(false);
+      expect(fractional.success).toBe(false);
+      expect((await storage.getAccount('5555555555'))?.transactionLimits).toBeUndefined();
+    });
+
+    it('should report an unknown account', async () => {
+      const result = await service.setTransactionLimit('9999999999', TransactionType.WITHDRAWAL, { daily: 0 });
+
+      expect(result).toEqual({ success: false, error: 'Account not found' });
+    });
+  });
+
+  describe('setAccountType', () => {
+    it('should change the account type', async () => {
+      await service.register({ accountNumber: '5555555555', pin: '4321' });
+
+      const result = await service.setAccountType('5555555555', AccountType.SAVINGS);
+
+      expect(result.success).toBe(true);
+      expect((await storage.getAccount('5555555555'))?.accountType).toBe(AccountType.SAVINGS);
+    });
+
+    it('should report an unknown account', async () => {
+      const result = await service.setAccountType('9999999999', AccountType.SAVINGS);
+
+      expect(result).toEqual({ success: false, error: 'Account not found' });
+    });
+  });
+
+  describe('setFeeWaiver', () => {
+    beforeEach(async () => {
+      await service.register({ accountNumber: '5555555555', pin: '4321' });
+    });
+
+    it('should waive a fee once and charge it again', async () => {
+      await service.setFeeWaiver('5555555555', FeeType.OVERDRAFT, true);
+      const waived = await service.setFeeWaiver('5555555555', FeeType.OVERDRAFT, true);
+
+      expect(waived.account?.feeWaivers).toEqual([FeeType.OVERDRAFT]);
+
+      const charged = await service.setFeeWaiver('5555555555', FeeType.OVERDRAFT, false);
+
+      expect(charged.success).toBe(true);
+      expect((await storage.getAccount('5555555555'))?.feeWaivers).toBeUndefined();
+    });
+
+    it('should keep the other waivers', async () => {
+      await service.setFeeWaiver('5555555555', FeeType.MAINTENANCE, true);
+      await service.setFeeWaiver('5555555555', FeeType.WITHDRAWAL, true);
+
+      const result = await service.setFeeWaiver('5555555555', FeeType.MAINTENANCE, false);
+
+      expect(result.account?.feeWaivers).toEqual([FeeType.WITHDRAWAL]);
+    });
+
+    it('should report an unknown account', async () => {
+      const result = await service.setFeeWaiver('9999999999', FeeType.OVERDRAFT, true);
+
+      expect(result).toEqual({ success: false, error: 'Account not found' });
+    });
+  });
+
+  describe('generateAccountNumber', () => {
+    it('should return a free 10-digit account number', async () => {
+      const accountNumber = await service.generateAccountNumber();
+
+      expect(accountNumber).toMatch(/^\d{10}$/);
+      expect(await service.isAccountNumberAvailable(accountNumber)).toBe(true);
+    });
+  });
+
+  describe('isAccountNumberAvailable', () => {
+    it('should report taken and invalid numbers as unavailable', async () => {
+      await service.register({ accountNumber: '5555555555', pin: '4321' });
+
+      expect(await service.isAccountNumberAvailable('5555555555')).toBe(false);
+      expect(await service.isAccountNumberAvailable('123')).toBe(false);
+      expect(await service.isAccountNumberAvailable('5555555556')).toBe(true);
+    });
+  });
+});
@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
-import { AuthService } from '../../src/services/AuthService.js';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuthService,
+  AuthErrorCode,
+  LockoutPolicy,
+} from '../../src/services/AuthService.js';
 import { SessionManager } from '../../src/services/SessionManager.js';
 import { IStorage } from '../../src/services/IStorage.js';
+import { JsonStorage } from '../../src/services/JsonStorage.js';
 import { Account } from '../../src/models/Account.js';
 import { hashPin } from '../../src/utils/crypto.js';
 
@@ -53,6 +61,22 @@ class MockStorage implements IStorage {
     return Array.from(this.accounts.values());
   }
 
+  async postJournalEntry(): Promise<any> {
+    return {};
+  }
+
+  async getJournalEntries(): Promise<any[]> {
+    return [];
+  }
+
+  async getJournalEntryByIdempotencyKey(): Promise<any> {
+    return null;
+  }
+
+  async updateJournalEntryStatus(): Promise<any> {
+    return {};
+  }
+
   async addTransaction(): Promise<any> {
     return {};
   }
@@ -61,6 +85,42 @@ class MockStorage implements IStorage {
     return [];
   }
 
+  async addSchedule(): Promise<any> {
+    return {};
+  }
+
+  async getSchedule(): Promise<any> {
+    return null;
+  }
+
+  async listSchedules(): Promise<any[]> {
+    return [];
+  }
+
+  async updateSchedule(): Promise<any> {
+    return {};
+  }
+
+  async addScheduleRun(): Promise<any> {
+    return {};
+  }
+
+  async getScheduleRuns(): Promise<any[]> {
+    return [];
+  }
+
+  async saveStatement(statement: any): Promise<any> {
+    return statement;
+  }
+
+  async getStatement(): Promise<any> {
+    return null;
+  }
+
+  async runInTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+
   async lockAccount(accountNumber: string): Promise<boolean> {
     if (this.locks.has(accountNumber)) {
       return false;
@@ -199,17 +259,14 @@ describe('AuthService', () => {
       expect(authService.isAuthenticated()).toBe(false);
     });
 
-    it('should unlock account on logout', async () => {
+    it('should leave account locks to the operation holding them', async () => {
       await authService.login('0000012345', '1111');
-      
-      // Lock the account manually
+      // An operation in progress on the account
       await storage.lockAccount('0000012345');
-      
+
       await authService.logout();
-      
-      // Should be able to lock again (proving it was unlocked)
-      const lockResult = await storage.lockAccount('0000012345');
-      expect(lockResult).toBe(true);
+
+      expect(await storage.lockAccount('0000012345')).toBe(false);
     });
   });
 
@@ -294,6 +351,239 @@ describe('AuthService', () => {
     });
   });
 
+  describe('lockout policy', () => {
+    const policy: LockoutPolicy = {
+      maxAttempts: 3,
+      lockoutDurationMs: 15 * 60 * 1000,
+      progressiveDelayMs: 0,
+      maxDelayMs: 0,
+    };
+
+    beforeEach(() => {
+      authService = new AuthService(storage, sessionManager, policy);
+    });
+
+    it('should count failed attempts and report how many remain', async () => {
+      const first = await authService.login('0000012345', '9999');
+      const second = await authService.login('0000012345', '9999');
+
+      expect(first.errorCode).toBe(AuthErrorCode.INVALID_PIN);
+      expect(first.attemptsRemaining).toBe(2);
+      expect(second.attemptsRemaining).toBe(1);
+
+      const account = await storage.getAccount('0000012345');
+      expect(account?.failedLoginAttempts).toBe(2);
+      expect(account?.lastFailedLoginAt).toBeInstanceOf(Date);
+    });
+
+    it('should lock the account after the maximum number of attempts', async () => {
+      await authService.login('0000012345', '9999');
+      await authService.login('0000012345', '9999');
+      const result = await authService.login('0000012345', '9999');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(AuthErrorCode.ACCOUNT_LOCKED);
+      expect(result.lockedUntil!.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+
+      const account = await storage.getAccount('0000012345');
+      expect(account?.isLocked).toBe(true);
+    });
+
+    it('should refuse the correct PIN while locked', async () => {
+      for (let i = 0; i < 3; i++) {
+        await authService.login('0000012345', '9999');
+      }
+
+      const result = await authService.login('0000012345', '1111');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(AuthErrorCode.ACCOUNT_LOCKED);
+      expect(authService.isAuthenticated()).toBe(false);
+    });
+
+    it('should allow login again once the lockout has expired', async () => {
+      await storage.updateAccount('0000012345', {
+        failedLoginAttempts: 3,
+        lastFailedLoginAt: new Date(Date.now() - 20 * 60 * 1000),
+        isLocked: true,
+        lockedUntil: new Date(Date.now() - 5 * 60 * 1000),
+      });
+
+      const result = await authService.login('0000012345', '1111');
+
+      expect(result.success).toBe(true);
+      expect(result.account?.isLocked).toBe(false);
+      expect(result.account?.failedLoginAttempts).toBe(0);
+    });
+
+    it('should start counting again after an expired lockout', async () => {
+      await storage.updateAccount('0000012345', {
+        failedLoginAttempts: 3,
+        isLocked: true,
+        lockedUntil: new Date(Date.now() - 1000),
+      });
+
+      const result = await authService.login('0000012345', '9999');
+
+      expect(result.errorCode).toBe(AuthErrorCode.INVALID_PIN);
+      expect(result.attemptsRemaining).toBe(2);
+    });
+
+    it('should keep the account locked until an admin unlocks it when there is no duration', async () => {
+      authService = new AuthService(storage, sessionManager, {
+        ...policy,
+        lockoutDurationMs: null,
+      });
+      for (let i = 0; i < 3; i++) {
+        await authService.login('0000012345', '9999');
+      }
+
+      const locked = await authService.login('0000012345', '1111');
+      expect(locked.errorCode).toBe(AuthErrorCode.ACCOUNT_LOCKED);
+      expect(locked.lockedUntil).toBeUndefined();
+      expect(locked.error).toContain('Contact an administrator');
+
+      expect(await authService.unlockAccount('0000012345')).toBe(true);
+
+      const result = await authService.login('0000012345', '1111');
+      expect(result.success).toBe(true);
+    });
+
+    it('should reset the failed attempt count on successful login', async () => {
+      await authService.login('0000012345', '9999');
+      await authService.login('0000012345', '9999');
+      await authService.login('0000012345', '1111');
+
+      const result = await authService.login('0000012345', '9999');
+
+      expect(result.attemptsRemaining).toBe(2);
+    });
+
+    it('should count concurrent attempts before checking their PINs', async () => {
+      const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-auth-'));
+      try {
+        const shared = new JsonStorage(dataDir);
+        await shared.initialize();
+        await shared.createAccount({ accountNumber: '0000012345', pin: hashedPin, balance: 10000 });
+        const policy5 = { ...policy, maxAttempts: 5 };
+        const attempt = (pin: string) => new AuthService(shared, new SessionManager(), policy5).login('0000012345', pin);
+
+        const results = await Promise.all([...Array.from({ length: 30 }, () => attempt('9999')), attempt('1111')]);
+
+        const counts: Record<string, number> = {};
+        for (const result of results) {
+          const key = result.success ? 'SUCCESS' : result.errorCode!;
+          counts[key] = (counts[key] ?? 0) + 1;
+        }
+        expect(counts[AuthErrorCode.INVALID_PIN] ?? 0).toBeLessThanOrEqual(4);
+        expect((counts[AuthErrorCode.INVALID_PIN] ?? 0) + (counts.SUCCESS ?? 0)).toBeLessThanOrEqual(5);
+        // The correct PIN came after the fifth attempt, so it was refused
+        expect(results[30].success).toBe(false);
+        expect(results[30].errorCode).toBe(AuthErrorCode.ACCOUNT_LOCKED);
+        expect((await shared.getAccount('0000012345'))?.isLocked).toBe(true);
+      } finally {
+        await fs.rm(dataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not count attempts on unknown accounts', async () => {
+      const result = await authService.login('9999999999', '1111');
+
+      expect(result.errorCode).toBe(AuthErrorCode.ACCOUNT_NOT_FOUND);
+    });
+
+    describe('progressive delay', () => {
+      beforeEach(() => {
+        authService = new AuthService(storage, sessionManager, {
+          ...policy,
+          maxAttempts: 0,
+          progressiveDelayMs: 1000,
+          maxDelayMs: 4000,
+        });
+      });
+
+      it('should refuse attempts made before the delay has passed', async () => {
+        await authService.login('0000012345', '9999');
+
+        const result = await authService.login('0000012345', '1111');
+
+        expect(result.success).toBe(false);
+        expect(result.errorCode).toBe(AuthErrorCode.TOO_MANY_ATTEMPTS);
+        expect(result.retryAfterMs).toBeGreaterThan(0);
+        expect(result.retryAfterMs).toBeLessThanOrEqual(1000);
+
+        // The refused attempt is not counted
+        expect((await storage.getAccount('0000012345'))?.failedLoginAttempts).toBe(1);
+      });
+
+      it('should double the delay after each failure up to the maximum', async () => {
+        await storage.updateAccount('0000012345', {
+          failedLoginAttempts: 2,
+          lastFailedLoginAt: new Date(),
+        });
+        const second = await authService.login('0000012345', '1111');
+        expect(second.retryAfterMs).toBeGreaterThan(1000);
+        expect(second.retryAfterMs).toBeLessThanOrEqual(2000);
+
+        await storage.updateAccount('0000012345', {
+          failedLoginAttempts: 10,
+          lastFailedLoginAt: new Date(),
+        });
+        const capped = await authService.login('0000012345', '1111');
+        expect(capped.retryAfterMs).toBeGreaterThan(2000);
+        expect(capped.retryAfterMs).toBeLessThanOrEqual(4000);
+      });
+
+      it('should accept an attempt once the delay has passed', async () => {
+        await storage.updateAccount('0000012345', {
+          failedLoginAttempts: 1,
+          lastFailedLoginAt: new Date(Date.now() - 2000),
+        });
+
+        const result = await authService.login('0000012345', '1111');
+
+        expect(result.success).toBe(true);
+      });
+    });
+  });
+
+  describe('unlockAccount', () => {
+    it('should clear the lockout state', async () => {
+      await storage.updateAccount('0000012345', {
+        failedLoginAttempts: 5,
+        lastFailedLoginAt: new Date(),
+        isLocked: true,
+      });
+
+      expect(await authService.unlockAccount('0000012345')).toBe(true);
+
+      const account = await storage.getAccount('0000012345');
+      expect(account?.isLocked).toBe(false);
+      expect(account?.failedLoginAttempts).toBe(0);
+      expect(account?.lastFailedLoginAt).toBeUndefined();
+    });
+
+    it('should return false for an unknown account', async () => {
+      expect(await authService.unlockAccount('9999999999')).toBe(false);
+    });
+  });
+
+  describe('listLockedAccounts', () => {
+    it('should list only accounts whose lockout is in force', async () => {
+      await storage.createAccount({ accountNumber: '1111111111', pin: hashedPin, balance: 0 });
+      await storage.createAccount({ accountNumber: '2222222222', pin: hashedPin, balance: 0 });
+      await storage.updateAccount('1111111111', { isLocked: true });
+      await storage.updateAccount('2222222222', {
+        isLocked: true,
+        lockedUntil: new Date(Date.now() - 1000),
+      });
+
+      const locked = await authService.listLockedAccounts();
+
+      expect(locked.map(account => account.accountNumber)).toEqual(['1111111111']);
+    });
+  });
+
   describe('COBOL behavior compliance', () => {
     it('should not track failed login attempts', async () => {
       // Make multiple failed attempts
@@ -0,0 +1,305 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EndOfDayService,
+  EndOfDayErrorCode,
+  InterestRates,
+} from '../../src/services/EndOfDayService';
+import { TransactionService } from '../../src/services/TransactionService';
+import { COBOL_FEE_RULES, FeeRules } from '../../src/services/FeeService';
+import { LedgerService } from '../../src/services/LedgerService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { AccountType, FeeType, OverdraftPolicy } from '../../src/models/Account';
+import { SystemAccount } from '../../src/models/JournalEntry';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+
+describe('EndOfDayService', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 1% a day on checking balances, 2% a day on savings and overdrafts
+  const rates: InterestRates = {
+    [AccountType.CHECKING]: { credit: 36500, overdraft: 73000 },
+    [AccountType.SAVINGS]: { credit: 73000, overdraft: 73000 },
+  };
+
+  let dataDir: string;
+  let storage: JsonStorage;
+  let transactions: TransactionService;
+  let service: EndOfDayService;
+  let now: Date;
+
+  // Create an account that was open before the business dates under test
+  async function openAccount(accountNumber: string, balance: number) {
+    await storage.createAccount({ accountNumber, pin: 'hashed_pin', balance });
+    await storage.updateAccount(accountNumber, { createdAt: new Date(2024, 0, 1) });
+  }
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-eod-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    await openAccount('0000012345', 10000);
+    now = new Date();
+    transactions = new TransactionService(storage);
+    service = new EndOfDayService(storage, transactions, rates, COBOL_FEE_RULES, {
+      now: () => now,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should accrue a day of interest without posting it mid-month', async () => {
+    const result = await service.run('2024-03-14');
+
+    expect(result.success).toBe(true);
+    expect(result.report).toMatchObject({
+      businessDate: '2024-03-14',
+      accountsProcessed: 1,
+      accountsSkipped: 0,
+      postings: [],
+      failures: [],
+    });
+    expect(await storage.getAccount('0000012345')).toMatchObject({
+      balance: 10000,
+      accruedInterest: 100,
+      accruedOverdraftInterest: 0,
+      interestAccruedThrough: '2024-03-14',
+    });
+  });
+
+  it('should change nothing when run again for a date already processed', async () => {
+    await service.run('2024-03-14');
+
+    const again = await service.run('2024-03-14');
+    const earlier = await service.run('2024-03-10');
+
+    expect(again.report).toMatchObject({ accountsProcessed: 0, accountsSkipped: 1 });
+    expect(earlier.report).toMatchObject({ accountsProcessed: 0, accountsSkipped: 1 });
+    expect((await storage.getAccount('0000012345'))?.accruedInterest).toBe(100);
+  });
+
+  it('should catch up on missed days and post the interest at month end', async () => {
+    await service.run('2024-03-14');
+
+    const result = await service.run('2024-03-31');
+
+    expect(result.report?.postings).toEqual([
+      expect.objectContaining({
+        accountNumber: '0000012345',
+        type: TransactionType.INTEREST,
+        amount: 1800,
+        balanceBefore: 10000,
+        balanceAfter: 11800,
+        description: 'Interest for 2024-03',
+      }),
+    ]);
+    expect(await storage.getAccount('0000012345')).toMatchObject({
+      balance: 11800,
+      accruedInterest: 0,
+    });
+    expect(await new LedgerService(storage).getBalance(SystemAccount.INTEREST)).toBe(-1800);
+
+    // The next month accrues on the balance with the interest paid
+    await service.run('2024-04-01');
+    expect((await storage.getAccount('0000012345'))?.accruedInterest).toBe(118);
+  });
+
+  it('should charge overdraft interest on a negative balance whatever the overdraft policy', async () => {
+    await openAccount('1234567890', -10000);
+    await storage.updateAccount('1234567890', { overdraftPolicy: OverdraftPolicy.NONE });
+
+    await service.run('2024-03-30');
+    const result = await service.run('2024-03-31');
+
+    expect(result.report?.postings.filter((p) => p.accountNumber === '1234567890')).toEqual([
+      expect.objectContaining({
+        type: TransactionType.OVERDRAFT_INTEREST,
+        amount: 400,
+        balanceAfter: -10400,
+      }),
+    ]);
+    expect(await storage.getAccount('1234567890')).toMatchObject({
+      balance: -10400,
+      accruedInterest: 0,
+      accruedOverdraftInterest: 0,
+    });
+  });
+
+  it('should let an overdraft interest charge be reversed', async () => {
+    await storage.updateAccount('0000012345', { balance: -10000 });
+    const [charge] = (await service.run('2024-03-31')).report!.postings;
+
+    const reversal = await transactions.reverse(charge.id, 'Charge waived');
+
+    expect(reversal.success).toBe(true);
+    expect(reversal.newBalance).toBe(-10000);
+  });
+
+  it('should apply the rates of the account type', async () => {
+    await openAccount('1234567890', 10000);
+    await storage.updateAccount('1234567890', { accountType: AccountType.SAVINGS });
+
+    await service.run('2024-03-14');
+
+    expect((await storage.getAccount('1234567890'))?.accruedInterest).toBe(200);
+  });
+
+  it('should post whole cents and carry the fraction into the next month', async () => {
+    await storage.updateAccount('0000012345', { balance: 150 });
+
+    const result = await service.run('2024-03-31');
+    await service.run('2024-04-01');
+
+    expect(result.report?.postings[0]).toMatchObject({ amount: 1, balanceAfter: 151 });
+    expect((await storage.getAccount('0000012345'))?.accruedInterest).toBeCloseTo(2.01);
+  });
+
+  it('should accrue on the balance at the close of the business date', async () => {
+    await transactions.deposit('0000012345', 5000);
+
+    await service.run('2024-03-14');
+
+    // The deposit was made after the business date
+    expect((await storage.getAccount('0000012345'))?.accruedInterest).toBe(100);
+  });
+
+  it('should charge monthly fees at month end on the balance the month closed at', async () => {
+    const feeRules: FeeRules = {
+      [AccountType.CHECKING]: { [FeeType.MAINTENANCE]: { amount: 500, minimumBalance: 11000 } },
+      [AccountType.SAVINGS]: {},
+    };
+    service = new EndOfDayService(storage, transactions, rates, feeRules, { now: () => now });
+    await openAccount('1234567890', 20000);
+    // Below the minimum at the close of March, only above it afterwards
+    await transactions.deposit('0000012345', 5000);
+
+    const result = await service.run('2024-03-31');
+
+    expect(result.report?.postings.filter((p) => p.type === TransactionType.FEE)).toEqual([
+      expect.objectContaining({
+        accountNumber: '0000012345',
+        amount: 500,
+        balanceBefore: 15100,
+        balanceAfter: 14600,
+        description: 'Monthly maintenance fee for 2024-03',
+      }),
+    ]);
+    expect((await storage.getAccount('0000012345'))?.balance).toBe(14600);
+    expect(await new LedgerService(storage).getBalance(SystemAccount.FEES)).toBe(500);
+
+    // The fee belongs to March, so April accrues on the balance after it
+    await service.run('2024-04-01');
+    expect((await storage.getAccount('0000012345'))?.accruedInterest).toBeCloseTo(96);
+  });
+
+  it('should time month-end postings at the end of the month however late the run', async () => {
+    const feeRules: FeeRules = {
+      [AccountType.CHECKING]: { [FeeType.MAINTENANCE]: { amount: 500 } },
+      [AccountType.SAVINGS]: {},
+    };
+    await openAccount('1234567890', -10000);
+    now = new Date(2024, 3, 2, 0, 30); // Catching up after midnight
+    service = new EndOfDayService(storage, transactions, rates, feeRules, { now: () => now });
+
+    const result = await service.run('2024-03-31');
+
+    const endOfMarch = new Date(2024, 2, 31, 23, 59, 59, 999);
+    expect(result.report?.postings.map((p) => p.type).sort()).toEqual([
+      TransactionType.FEE,
+      TransactionType.FEE,
+      TransactionType.INTEREST,
+      TransactionType.OVERDRAFT_INTEREST,
+    ]);
+    expect(result.report?.postings.map((p) => p.timestamp)).toEqual(
+      result.report?.postings.map(() => endOfMarch)
+    );
+    const [latest] = await storage.getTransactionHistory('0000012345', 1);
+    expect(latest.timestamp).toEqual(endOfMarch);
+  });
+
+  it('should not charge a waived monthly fee', async () => {
+    const feeRules: FeeRules = {
+      [AccountType.CHECKING]: { [FeeType.MAINTENANCE]: { amount: 500 } },
+      [AccountType.SAVINGS]: {},
+    };
+    service = new EndOfDayService(storage, transactions, rates, feeRules, { now: () => now });
+    await storage.updateAccount('0000012345', { feeWaivers: [FeeType.MAINTENANCE] });
+
+    const result = await service.run('2024-03-31');
+
+    expect(result.report?.postings.map((p) => p.type)).toEqual([TransactionType.INTEREST]);
+  });
+
+  it('should skip accounts opened after the business date', async () => {
+    await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 10000 });
+
+    const result = await service.run('2024-03-14');
+
+    expect(result.report).toMatchObject({ accountsProcessed: 1, accountsSkipped: 1 });
+    expect((await storage.getAccount('1234567890'))?.interestAccruedThrough).toBeUndefined();
+  });
+
+  it('should expire overdue holds', async () => {
+    await transactions.placeHold('0000012345', 2500);
+    now = new Date(now.getTime() + 8 * DAY_MS);
+
+    const result = await service.run();
+
+    expect(result.report?.holdsExpired).toBe(1);
+    expect((await storage.getAccount('0000012345'))?.heldAmount).toBe(0);
+  });
+
+  it('should post interest under a key a customer has used', async () => {
+    await transactions.deposit('0000012345', 100, 'interest:0000012345:2024-03');
+
+    const result = await service.run('2024-03-31');
+
+    expect(result.report?.failures).toEqual([]);
+    expect(result.report?.postings).toEqual([
+      expect.objectContaining({ type: TransactionType.INTEREST, idempotencyKey: 'interest:0000012345:2024-03' }),
+    ]);
+  });
+
+  it('should report an account it could not process and carry on', async () => {
+    await openAccount('1234567890', 10000);
+    // March interest already posted, by a run whose account update was lost
+    await storage.postJournalEntry({
+      type: TransactionType.INTEREST,
+      status: TransactionStatus.COMPLETED,
+      idempotencyKey: 'interest:0000012345:2024-03',
+      idempotencyScope: SystemAccount.INTEREST,
+      postings: [
+        { accountNumber: '0000012345', amount: 100, balanceBefore: 10000, balanceAfter: 10100 },
+        { accountNumber: SystemAccount.INTEREST, amount: -100 },
+      ],
+    });
+
+    const result = await service.run('2024-03-31');
+
+    expect(result.success).toBe(true);
+    expect(result.report?.failures).toEqual([
+      { accountNumber: '0000012345', error: expect.any(String) },
+    ]);
+    expect(result.report?.accountsProcessed).toBe(1);
+    expect((await storage.getAccount('0000012345'))?.interestAccruedThrough).toBeUndefined();
+  });
+
+  it('should refuse an invalid or future business date', async () => {
+    const invalid = await service.run('2024-02-30');
+    const future = await service.run('2999-01-01');
+
+    expect(invalid).toMatchObject({
+      success: false,
+      errorCode: EndOfDayErrorCode.INVALID_BUSINESS_DATE,
+    });
+    expect(future).toMatchObject({
+      success: false,
+      errorCode: EndOfDayErrorCode.BUSINESS_DATE_IN_FUTURE,
+    });
+    expect((await storage.getAccount('0000012345'))?.interestAccruedThrough).toBeUndefined();
+  });
+});
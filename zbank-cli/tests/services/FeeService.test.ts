@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FeeService,
+  DEFAULT_FEE_RULES,
+  isMonthlyFee,
+} from '../../src/services/FeeService';
+import { TransactionService } from '../../src/services/TransactionService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { Account, AccountType, FeeType } from '../../src/models/Account';
+import { SystemAccount } from '../../src/models/JournalEntry';
+import { TransactionType } from '../../src/models/Transaction';
+
+describe('FeeService', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+  let account: Account;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-fees-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    account = await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('chargeTransactionFees', () => {
+    it('should charge nothing by default', async () => {
+      const { transaction } = await new TransactionService(storage).withdraw('0000012345', 50000);
+
+      expect(await new FeeService().chargeTransactionFees(storage, transaction!)).toEqual([]);
+    });
+
+    it('should charge checking accounts without a type', async () => {
+      const { transaction } = await new TransactionService(storage).withdraw('0000012345', 50000);
+
+      const fees = await new FeeService(DEFAULT_FEE_RULES).chargeTransactionFees(storage, transaction!);
+
+      expect(fees).toEqual([expect.objectContaining({ type: TransactionType.FEE, amount: 3500 })]);
+    });
+  });
+
+  describe('chargeMonthlyFees', () => {
+    const service = new FeeService(DEFAULT_FEE_RULES);
+
+    it('should charge the maintenance fee below the minimum balance', async () => {
+      const fees = await service.chargeMonthlyFees(storage, account, '2024-03', {
+        closing: 149999,
+        balance: 10000,
+      });
+
+      expect(fees).toEqual([
+        expect.objectContaining({
+          amount: 500,
+          balanceBefore: 10000,
+          balanceAfter: 9500,
+          description: 'Monthly maintenance fee for 2024-03',
+          idempotencyKey: 'maintenance-fee:0000012345:2024-03',
+          timestamp: new Date(2024, 2, 31, 23, 59, 59, 999),
+        }),
+      ]);
+    });
+
+    it('should charge a month whose key a customer has used', async () => {
+      await new TransactionService(storage).deposit('0000012345', 100, 'maintenance-fee:0000012345:2024-03');
+
+      const fees = await service.chargeMonthlyFees(storage, account, '2024-03', { closing: 0, balance: 10100 });
+
+      expect(fees).toEqual([expect.objectContaining({ amount: 500, balanceAfter: 9600 })]);
+    });
+
+    it('should not charge at or above the minimum balance', async () => {
+      const fees = await service.chargeMonthlyFees(storage, account, '2024-03', {
+        closing: 150000,
+        balance: 10000,
+      });
+
+      expect(fees).toEqual([]);
+    });
+
+    it('should only charge the fees of the account type', async () => {
+      const savings = { ...account, accountType: AccountType.SAVINGS };
+
+      expect(await service.chargeMonthlyFees(storage, savings, '2024-03', { closing: 0, balance: 0 })).toEqual([]);
+    });
+
+    it('should refuse to charge a month twice', async () => {
+      await service.chargeMonthlyFees(storage, account, '2024-03', { closing: 0, balance: 10000 });
+
+      await expect(
+        service.chargeMonthlyFees(storage, account, '2024-03', { closing: 0, balance: 9500 }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('isMonthlyFee', () => {
+    it('should tell monthly fees from transaction fees', () => {
+      const key = { idempotencyKey: 'maintenance-fee:0000012345:2024-03', idempotencyScope: SystemAccount.FEES };
+
+      expect(isMonthlyFee({ type: TransactionType.FEE, ...key })).toBe(true);
+      expect(isMonthlyFee({ type: TransactionType.FEE })).toBe(false);
+      expect(isMonthlyFee({ type: TransactionType.DEPOSIT, ...key })).toBe(false);
+      expect(isMonthlyFee({ type: TransactionType.FEE, ...key, idempotencyScope: '0000012345' })).toBe(false);
+    });
+  });
+
+  it('should let an account waive any fee', async () => {
+    const waived = { ...account, feeWaivers: [FeeType.MAINTENANCE] };
+
+    expect(
+      await new FeeService(DEFAULT_FEE_RULES).chargeMonthlyFees(storage, waived, '2024-03', {
+        closing: 0,
+        balance: 10000,
+      }),
+    ).toEqual([]);
+  });
+});
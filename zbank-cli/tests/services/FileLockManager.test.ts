@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { spawnSync } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import { FileLockManager } from '../../src/services/FileLockManager';
+
+describe('FileLockManager', () => {
+  let lockDir: string;
+  let locks: FileLockManager;
+
+  /**
+   * Write a lock file as if another process had taken the lock
+   */
+  const writeForeignLock = async (
+    name: string,
+    pid: number,
+    lockedAt: Date = new Date(),
+    hostname: string = os.hostname()
+  ) => {
+    await fs.mkdir(lockDir, { recursive: true });
+    await fs.writeFile(
+      path.join(lockDir, `${name}.lock`),
+      JSON.stringify({ name, pid, hostname, lockedAt: lockedAt.toISOString() })
+    );
+  };
+
+  // A PID that is guaranteed to belong to an exited process
+  const deadPid = (): number => spawnSync(process.execPath, ['-e', '']).pid;
+
+  beforeEach(async () => {
+    lockDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-locks-'));
+    locks = new FileLockManager(lockDir, {
+      lockTimeoutMs: 200,
+      retryIntervalMs: 10,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(lockDir, { recursive: true, force: true });
+  });
+
+  describe('acquire', () => {
+    it('should write a lock file with pid, hostname and timestamp', async () => {
+      expect(await locks.acquire('1234567890')).toBe(true);
+
+      const data = JSON.parse(
+        await fs.readFile(path.join(lockDir, '1234567890.lock'), 'utf-8')
+      );
+      expect(data.pid).toBe(process.pid);
+      expect(data.hostname).toBe(os.hostname());
+      expect(new Date(data.lockedAt).getTime()).not.toBeNaN();
+    });
+
+    it('should refuse a lock that is already held', async () => {
+      expect(await locks.acquire('1234567890')).toBe(true);
+      expect(await locks.acquire('1234567890')).toBe(false);
+    });
+
+    it('should refuse a lock held by another live process', async () => {
+      await writeForeignLock('1234567890', process.ppid);
+
+      expect(await locks.acquire('1234567890')).toBe(false);
+    });
+
+    it('should see locks taken through another manager on the same directory', async () => {
+      const other = new FileLockManager(lockDir);
+
+      expect(await other.acquire('1234567890')).toBe(true);
+      expect(await locks.acquire('1234567890')).toBe(false);
+    });
+
+    it('should take over a lock whose holder has exited', async () => {
+      await writeForeignLock('1234567890', deadPid());
+
+      expect(await locks.acquire('1234567890')).toBe(true);
+    });
+
+    it('should take over a lock from another host older than the stale timeout', async () => {
+      const old = new Date(Date.now() - 10 * 60 * 1000);
+      await writeForeignLock('1234567890', process.ppid, old, 'other-host');
+
+      expect(await locks.acquire('1234567890')).toBe(true);
+    });
+
+    it('should not take over an old lock whose holder on this host is alive', async () => {
+      const old = new Date(Date.now() - 10 * 60 * 1000);
+      await writeForeignLock('1234567890', process.ppid, old);
+
+      expect(await locks.acquire('1234567890')).toBe(false);
+      expect((await locks.list())[0].stale).toBe(false);
+    });
+
+    it('should not take over a stale lock another manager took over after it was read', async () => {
+      await writeForeignLock('1234567890', deadPid());
+      const other = new FileLockManager(lockDir);
+      const readFile = fs.readFile.bind(fs) as (...args: unknown[]) => Promise<string>;
+      let otherResult: boolean | undefined;
+      // The other manager takes the lock over right after this one read it as stale
+      const spy = jest.spyOn(fs, 'readFile').mockImplementationOnce((async (...args: unknown[]) => {
+        const data = await readFile(...args);
+        otherResult = await other.acquire('1234567890');
+        return data;
+      }) as typeof fs.readFile);
+
+      const result = await locks.acquire('1234567890');
+      spy.mockRestore();
+
+      expect(otherResult).toBe(true);
+      expect(result).toBe(false);
+      expect(await fs.readdir(lockDir)).toEqual(['1234567890.lock']);
+    });
+
+    it('should not judge a recent lock from another host by its pid', async () => {
+      await writeForeignLock('1234567890', deadPid(), new Date(), 'other-host');
+
+      expect(await locks.acquire('1234567890')).toBe(false);
+    });
+  });
+
+  describe('acquireWait', () => {
+    it('should wait for the lock to be released', async () => {
+      await locks.acquire('store');
+      setTimeout(() => void locks.release('store'), 30);
+
+      await expect(locks.acquireWait('store')).resolves.toBeUndefined();
+    });
+
+    it('should time out while the lock stays held', async () => {
+      await writeForeignLock('store', process.ppid);
+
+      await expect(locks.acquireWait('store')).rejects.toThrow(
+        'Timed out waiting for lock store'
+      );
+    });
+  });
+
+  describe('release', () => {
+    it('should release a lock held by this process', async () => {
+      await locks.acquire('1234567890');
+
+      expect(await locks.release('1234567890')).toBe(true);
+      expect(await locks.acquire('1234567890')).toBe(true);
+    });
+
+    it('should not release a lock held by another process', async () => {
+      await writeForeignLock('1234567890', process.ppid);
+
+      expect(await locks.release('1234567890')).toBe(false);
+      expect(await locks.list()).toHaveLength(1);
+    });
+
+    it('should not remove a lock taken over since it was read', async () => {
+      await locks.acquire('1234567890');
+      const readFile = fs.readFile.bind(fs) as (...args: unknown[]) => Promise<string>;
+      // The lock is broken and taken by another process right after release reads it
+      const spy = jest.spyOn(fs, 'readFile').mockImplementationOnce((async (...args: unknown[]) => {
+        const data = await readFile(...args);
+        await locks.breakLock('1234567890');
+        await writeForeignLock('1234567890', process.ppid, new Date(Date.now() + 1000));
+        return data;
+      }) as typeof fs.readFile);
+
+      const released = await locks.release('1234567890');
+      spy.mockRestore();
+
+      expect(released).toBe(false);
+      expect((await locks.list()).map(lock => lock.pid)).toEqual([process.ppid]);
+    });
+
+    it('should return false when nothing is locked', async () => {
+      expect(await locks.release('1234567890')).toBe(false);
+    });
+  });
+
+  describe('list and break', () => {
+    it('should list nothing before any lock is taken', async () => {
+      await fs.rm(lockDir, { recursive: true, force: true });
+
+      expect(await locks.list()).toEqual([]);
+    });
+
+    it('should list locks and flag stale ones', async () => {
+      await locks.acquire('0000012345');
+      await writeForeignLock('1234567890', deadPid());
+
+      const listed = await locks.list();
+
+      expect(listed.map(l => [l.name, l.stale])).toEqual([
+        ['0000012345', false],
+        ['1234567890', true],
+      ]);
+      expect(listed[0].pid).toBe(process.pid);
+    });
+
+    it('should break a lock regardless of its holder', async () => {
+      await writeForeignLock('1234567890', process.ppid);
+
+      expect(await locks.breakLock('1234567890')).toBe(true);
+      expect(await locks.breakLock('1234567890')).toBe(false);
+      expect(await locks.acquire('1234567890')).toBe(true);
+    });
+
+    it('should break only stale locks', async () => {
+      await locks.acquire('0000012345');
+      await writeForeignLock('1234567890', deadPid());
+      await writeForeignLock('5555555555', process.ppid);
+
+      expect(await locks.breakStaleLocks()).toEqual(['1234567890']);
+      expect((await locks.list()).map(l => l.name)).toEqual([
+        '0000012345',
+        '5555555555',
+      ]);
+    });
+
+    it('should treat an unreadable lock file as held until it is old', async () => {
+      await fs.mkdir(lockDir, { recursive: true });
+      await fs.writeFile(path.join(lockDir, '1234567890.lock'), '');
+
+      const [lock] = await locks.list();
+
+      expect(lock.pid).toBe(0);
+      expect(lock.stale).toBe(false);
+      expect(await locks.acquire('1234567890')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IntegrityService, IntegrityIssueType } from '../../src/services/IntegrityService';
+import { TransactionService } from '../../src/services/TransactionService';
+import { LedgerService } from '../../src/services/LedgerService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { SystemAccount } from '../../src/models/JournalEntry';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+
+describe('IntegrityService', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+  let service: IntegrityService;
+  let transactions: TransactionService;
+
+  // Post a deposit entry with the given snapshots, bypassing TransactionService
+  async function postDeposit(accountNumber: string, amount: number, balanceBefore: number, balanceAfter: number) {
+    const entry = await storage.postJournalEntry({
+      type: TransactionType.DEPOSIT,
+      status: TransactionStatus.COMPLETED,
+      postings: [
+        { accountNumber, amount, balanceBefore, balanceAfter },
+        { accountNumber: SystemAccount.CASH, amount: -amount },
+      ],
+    });
+    return entry.postings[0].id;
+  }
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-integrity-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+    await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 0 });
+    await postDeposit('0000012345', 10000, 0, 10000);
+    service = new IntegrityService(storage);
+    transactions = new TransactionService(storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('verify', () => {
+    it('should accept histories written by TransactionService', async () => {
+      await transactions.deposit('0000012345', 2500);
+      await transactions.withdraw('0000012345', 1000);
+      await transactions.transfer('0000012345', '1234567890', 4000);
+
+      const report = await service.verify();
+
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([]);
+      expect(report.accountsChecked).toBe(2);
+      expect(report.transactionsChecked).toBe(5);
+    });
+
+    it('should accept reversed transactions and their reversals', async () => {
+      const deposit = await transactions.deposit('0000012345', 2500);
+      await transactions.reverse(deposit.transaction!.id, 'Keyed twice');
+
+      const report = await service.verify();
+
+      expect(report.valid).toBe(true);
+      expect(report.transactionsChecked).toBe(3);
+    });
+
+    it('should accept holds, settled or not', async () => {
+      const settled = await transactions.placeHold('0000012345', 2500);
+      await transactions.placeHold('0000012345', 1000);
+      await transactions.settleHold(settled.transaction!.id);
+
+      const report = await service.verify();
+
+      expect(report.valid).toBe(true);
+      expect(report.transactionsChecked).toBe(2);
+    });
+
+    it('should report a balance that differs from the history', async () => {
+      await transactions.deposit('0000012345', 2500);
+      await storage.updateAccount('0000012345', { balance: 13000 });
+
+      const report = await service.verify();
+
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          type: IntegrityIssueType.BALANCE_MISMATCH,
+          accountNumber: '0000012345',
+          expected: 12500,
+          actual: 13000,
+          corrected: false,
+        }),
+      ]);
+    });
+
+    it('should report a balance without postings', async () => {
+      await storage.updateAccount('1234567890', { balance: 5000 });
+
+      const { issues } = await service.verify();
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: IntegrityIssueType.BALANCE_MISMATCH,
+          accountNumber: '1234567890',
+          expected: 0,
+          actual: 5000,
+        }),
+      ]);
+    });
+
+    it('should report a first posting that does not start from zero', async () => {
+      const id = await postDeposit('1234567890', 1000, 4000, 5000);
+      await storage.updateAccount('1234567890', { balance: 5000 });
+
+      const { issues } = await service.verify();
+
+      expect(issues.map((i) => i.type)).toEqual([
+        IntegrityIssueType.GAP,
+        IntegrityIssueType.BALANCE_MISMATCH,
+      ]);
+      expect(issues[0]).toMatchObject({ transactionId: id, expected: 0, actual: 4000 });
+      expect(issues[1]).toMatchObject({ expected: 1000, actual: 5000 });
+    });
+
+    it('should report a gap in the snapshot chain', async () => {
+      await postDeposit('0000012345', 1000, 10000, 11000);
+      const id = await postDeposit('0000012345', 1000, 11500, 12500);
+      await storage.updateAccount('0000012345', { balance: 12500 });
+
+      const { issues } = await service.verify();
+
+      expect(issues.map((i) => i.type)).toEqual([
+        IntegrityIssueType.GAP,
+        IntegrityIssueType.BALANCE_MISMATCH,
+      ]);
+      expect(issues[0]).toMatchObject({ transactionId: id, expected: 11000, actual: 11500 });
+      expect(issues[1]).toMatchObject({ expected: 12000, actual: 12500 });
+    });
+
+    it('should report a fork', async () => {
+      await postDeposit('0000012345', 1000, 10000, 11000);
+      const id = await postDeposit('0000012345', 2000, 10000, 12000);
+      await storage.updateAccount('0000012345', { balance: 12000 });
+
+      const { issues } = await service.verify();
+
+      expect(issues[0]).toMatchObject({ type: IntegrityIssueType.FORK, transactionId: id });
+    });
+
+    it('should report mismatched snapshots', async () => {
+      const id = await postDeposit('0000012345', 1000, 10000, 10500);
+      await storage.updateAccount('0000012345', { balance: 11000 });
+
+      const { issues } = await service.verify();
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: IntegrityIssueType.SNAPSHOT_MISMATCH,
+          transactionId: id,
+          expected: 11000,
+          actual: 10500,
+        }),
+      ]);
+    });
+
+    it('should report orphaned transactions for deleted accounts', async () => {
+      await transactions.transfer('0000012345', '1234567890', 4000);
+      await storage.deleteAccount('1234567890');
+
+      const { issues } = await service.verify();
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: IntegrityIssueType.ORPHANED_TRANSACTION,
+          accountNumber: '1234567890',
+        }),
+      ]);
+    });
+  });
+
+  describe('repair', () => {
+    it('should post a correction against suspense without editing the balance', async () => {
+      await transactions.deposit('0000012345', 2500);
+      await storage.updateAccount('0000012345', { balance: 13000 });
+
+      const report = await service.repair();
+
+      expect(report.valid).toBe(true);
+      expect(report.corrections).toEqual([
+        expect.objectContaining({
+          accountNumber: '0000012345',
+          type: TransactionType.ADJUSTMENT,
+          amount: 500,
+          balanceBefore: 12500,
+          balanceAfter: 13000,
+        }),
+      ]);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(13000);
+      expect(await new LedgerService(storage).getBalance(SystemAccount.SUSPENSE)).toBe(-500);
+    });
+
+    it('should mark the issues before a correction as corrected', async () => {
+      await postDeposit('0000012345', 1000, 10000, 11000);
+      await postDeposit('0000012345', 1000, 11500, 12500);
+      await storage.updateAccount('0000012345', { balance: 12500 });
+
+      const report = await service.repair();
+
+      expect(report.valid).toBe(true);
+      expect(report.issues).toEqual([
+        expect.objectContaining({ type: IntegrityIssueType.GAP, corrected: true }),
+      ]);
+    });
+
+    it('should flag issues after a correction again', async () => {
+      await transactions.deposit('0000012345', 100);
+      await storage.updateAccount('0000012345', { balance: 10500 });
+      await service.repair();
+
+      const id = await postDeposit('0000012345', 100, 10000, 10100);
+      await storage.updateAccount('0000012345', { balance: 10600 });
+
+      const report = await service.verify();
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([
+        expect.objectContaining({ type: IntegrityIssueType.GAP, transactionId: id, expected: 10500, corrected: false }),
+      ]);
+    });
+
+    it('should close out the balance of a deleted account', async () => {
+      await transactions.transfer('0000012345', '1234567890', 4000);
+      await storage.deleteAccount('1234567890');
+
+      const report = await service.repair();
+
+      expect(report.valid).toBe(true);
+      expect(report.corrections[0]).toMatchObject({
+        accountNumber: '1234567890',
+        balanceBefore: 4000,
+        balanceAfter: 0,
+      });
+    });
+
+    it('should post nothing when the history is consistent', async () => {
+      await transactions.deposit('0000012345', 2500);
+
+      const report = await service.repair();
+
+      expect(report.corrections).toEqual([]);
+      expect(await storage.getJournalEntries()).toHaveLength(2);
+    });
+  });
+});
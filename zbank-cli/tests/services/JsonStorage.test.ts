@@ -1,8 +1,25 @@
-import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import { JsonStorage } from '../../src/services/JsonStorage';
+import { TransactionService } from '../../src/services/TransactionService';
 import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+import { describeStorageContract } from './storage-contract';
+
+describeStorageContract('JsonStorage', () => {
+  const dataDir = path.join(process.cwd(), 'tests', '.test-data', 'contract');
+  return {
+    async open() {
+      await fs.mkdir(dataDir, { recursive: true });
+      const storage = new JsonStorage(dataDir);
+      await storage.initialize();
+      return storage;
+    },
+    async destroy() {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    },
+  };
+});
 
 describe('JsonStorage', () => {
   const testDataDir = path.join(process.cwd(), 'tests', '.test-data');
@@ -16,6 +33,8 @@ describe('JsonStorage', () => {
   });
 
   afterEach(async () => {
+    jest.restoreAllMocks();
+
     // Clean up test data directory
     try {
       await fs.rm(testDataDir, { recursive: true, force: true });
@@ -24,402 +43,299 @@ describe('JsonStorage', () => {
     }
   });
 
-  describe('Account Operations', () => {
-    describe('createAccount', () => {
-      it('should create a new account with timestamps', async () => {
-        const account = await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
-
-        expect(account.accountNumber).toBe('1234567890');
-        expect(account.pin).toBe('$2b$10$hashedpin');
-        expect(account.balance).toBe(10000);
-        expect(account.createdAt).toBeInstanceOf(Date);
-        expect(account.updatedAt).toBeInstanceOf(Date);
+  describe('Journaled Commits', () => {
+    const deposit = {
+      accountNumber: '1234567890',
+      type: TransactionType.DEPOSIT,
+      amount: 5000,
+      balanceBefore: 10000,
+      balanceAfter: 15000,
+      status: TransactionStatus.COMPLETED,
+    };
+
+    /**
+     * Make the rename onto the given data file fail once, simulating a crash
+     * partway through a commit
+     */
+    const failRenameOnto = (fileName: string) => {
+      const rename = fs.rename.bind(fs);
+      let failed = false;
+      jest.spyOn(fs, 'rename').mockImplementation(async (from, to) => {
+        if (!failed && String(to).endsWith(fileName)) {
+          failed = true;
+          throw new Error('Simulated crash');
+        }
+        return rename(from, to);
       });
+    };
 
-      it('should throw error when creating duplicate account', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
-
-        await expect(
-          storage.createAccount({
-            accountNumber: '1234567890',
-            pin: '$2b$10$anotherpin',
-            balance: 20000,
-          })
-        ).rejects.toThrow('already exists');
-      });
-    });
+    const readFromDisk = async () => {
+      const reopened = new JsonStorage(testDataDir);
+      await reopened.initialize();
+      return {
+        account: await reopened.getAccount('1234567890'),
+        history: await reopened.getTransactionHistory('1234567890'),
+      };
+    };
 
-    describe('getAccount', () => {
-      it('should retrieve an existing account', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
-
-        const account = await storage.getAccount('1234567890');
-        expect(account).not.toBeNull();
-        expect(account?.accountNumber).toBe('1234567890');
-        expect(account?.balance).toBe(10000);
-      });
-
-      it('should return null for non-existent account', async () => {
-        const account = await storage.getAccount('9999999999');
-        expect(account).toBeNull();
+    beforeEach(async () => {
+      await storage.createAccount({
+        accountNumber: '1234567890',
+        pin: '$2b$10$hashedpin',
+        balance: 10000,
       });
     });
 
-    describe('updateAccount', () => {
-      it('should update account balance', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
+    it('should change neither file when the journal cannot be written', async () => {
+      failRenameOnto('journal.json');
 
-        const updated = await storage.updateAccount('1234567890', {
-          balance: 15000,
-        });
-
-        expect(updated.balance).toBe(15000);
-        expect(updated.updatedAt.getTime()).toBeGreaterThan(updated.createdAt.getTime());
-      });
+      await expect(
+        storage.runInTransaction(async tx => {
+          await tx.addTransaction(deposit);
+          await tx.updateAccount('1234567890', { balance: 15000 });
+        })
+      ).rejects.toThrow('Failed to write journal');
 
-      it('should update account PIN', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
-
-        const updated = await storage.updateAccount('1234567890', {
-          pin: '$2b$10$newhashedpin',
-        });
-
-        expect(updated.pin).toBe('$2b$10$newhashedpin');
-      });
+      const { account, history } = await readFromDisk();
+      expect(account?.balance).toBe(10000);
+      expect(history).toHaveLength(0);
+    });
 
-      it('should throw error when updating non-existent account', async () => {
-        await expect(
-          storage.updateAccount('9999999999', { balance: 10000 })
-        ).rejects.toThrow('not found');
-      });
+    it('should roll the journal forward after a crash between the two data files', async () => {
+      failRenameOnto('ledger.json');
 
-      it('should not allow changing account number', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
+      await expect(
+        storage.runInTransaction(async tx => {
+          await tx.addTransaction(deposit);
+          await tx.updateAccount('1234567890', { balance: 15000 });
+        })
+      ).rejects.toThrow('Simulated crash');
 
-        const updated = await storage.updateAccount('1234567890', {
-          accountNumber: '0987654321' as any, // Try to change it
-          balance: 15000,
-        });
+      // accounts.json was written, ledger.json was not - the journal
+      // must bring them back in step
+      const { account, history } = await readFromDisk();
+      expect(account?.balance).toBe(15000);
+      expect(history).toHaveLength(1);
+      expect(history[0].balanceAfter).toBe(account?.balance);
 
-        // Account number should remain unchanged
-        expect(updated.accountNumber).toBe('1234567890');
-      });
+      await expect(
+        fs.access(path.join(testDataDir, 'journal.json'))
+      ).rejects.toThrow();
     });
 
-    describe('deleteAccount', () => {
-      it('should delete an existing account', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin',
-          balance: 10000,
-        });
+    it('should recover on the next read by the same instance', async () => {
+      failRenameOnto('ledger.json');
 
-        const deleted = await storage.deleteAccount('1234567890');
-        expect(deleted).toBe(true);
+      await expect(
+        storage.runInTransaction(async tx => {
+          await tx.addTransaction(deposit);
+          await tx.updateAccount('1234567890', { balance: 15000 });
+        })
+      ).rejects.toThrow();
 
-        const account = await storage.getAccount('1234567890');
-        expect(account).toBeNull();
-      });
-
-      it('should return false when deleting non-existent account', async () => {
-        const deleted = await storage.deleteAccount('9999999999');
-        expect(deleted).toBe(false);
-      });
+      const history = await storage.getTransactionHistory('1234567890');
+      const account = await storage.getAccount('1234567890');
+      expect(history).toHaveLength(1);
+      expect(account?.balance).toBe(15000);
     });
 
-    describe('listAccounts', () => {
-      it('should return empty array when no accounts exist', async () => {
-        const accounts = await storage.listAccounts();
-        expect(accounts).toEqual([]);
-      });
+    it('should keep deposit records and balances in step when a write fails', async () => {
+      const service = new TransactionService(storage);
+      failRenameOnto('accounts.json');
 
-      it('should return all accounts', async () => {
-        await storage.createAccount({
-          accountNumber: '1234567890',
-          pin: '$2b$10$hashedpin1',
-          balance: 10000,
-        });
-
-        await storage.createAccount({
-          accountNumber: '0987654321',
-          pin: '$2b$10$hashedpin2',
-          balance: 20000,
-        });
-
-        const accounts = await storage.listAccounts();
-        expect(accounts).toHaveLength(2);
-        expect(accounts.map(a => a.accountNumber).sort()).toEqual([
-          '0987654321',
-          '1234567890',
-        ]);
-      });
+      await expect(service.deposit('1234567890', 5000)).rejects.toThrow();
+
+      const { account, history } = await readFromDisk();
+      const recorded = history.reduce((sum, t) => sum + t.amount, 0);
+      expect(account?.balance).toBe(10000 + recorded);
     });
   });
 
-  describe('Transaction Operations', () => {
+  describe('Shared Data Directory', () => {
+    // Two instances on one directory stand in for two zbank processes
+    let other: JsonStorage;
+
     beforeEach(async () => {
-      // Create test account
       await storage.createAccount({
         accountNumber: '1234567890',
         pin: '$2b$10$hashedpin',
         balance: 10000,
       });
+      other = new JsonStorage(testDataDir);
+      await other.initialize();
     });
 
-    describe('addTransaction', () => {
-      it('should add a transaction with ID and timestamp', async () => {
-        const transaction = await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.DEPOSIT,
-          amount: 5000,
-          balanceBefore: 10000,
-          balanceAfter: 15000,
-          status: TransactionStatus.COMPLETED,
-          description: 'Test deposit',
-        });
-
-        expect(transaction.id).toBeDefined();
-        expect(transaction.timestamp).toBeInstanceOf(Date);
-        expect(transaction.accountNumber).toBe('1234567890');
-        expect(transaction.type).toBe(TransactionType.DEPOSIT);
-        expect(transaction.amount).toBe(5000);
-      });
+    it('should not let two instances lock the same account', async () => {
+      expect(await storage.lockAccount('1234567890')).toBe(true);
+      expect(await other.lockAccount('1234567890')).toBe(false);
 
-      it('should generate unique IDs for transactions', async () => {
-        const txn1 = await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.DEPOSIT,
-          amount: 5000,
-          balanceBefore: 10000,
-          balanceAfter: 15000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        const txn2 = await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.WITHDRAWAL,
-          amount: 3000,
-          balanceBefore: 15000,
-          balanceAfter: 12000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        expect(txn1.id).not.toBe(txn2.id);
-      });
+      await storage.unlockAccount('1234567890');
+      expect(await other.lockAccount('1234567890')).toBe(true);
     });
 
-    describe('getTransactionHistory', () => {
-      it('should return empty array when no transactions exist', async () => {
-        const history = await storage.getTransactionHistory('1234567890');
-        expect(history).toEqual([]);
-      });
-
-      it('should return transactions for specific account', async () => {
-        // Add transactions for first account
-        await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.DEPOSIT,
-          amount: 5000,
-          balanceBefore: 10000,
-          balanceAfter: 15000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.WITHDRAWAL,
-          amount: 3000,
-          balanceBefore: 15000,
-          balanceAfter: 12000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        // Create second account and add transaction
-        await storage.createAccount({
-          accountNumber: '0987654321',
-          pin: '$2b$10$hashedpin2',
-          balance: 20000,
-        });
-
-        await storage.addTransaction({
-          accountNumber: '0987654321',
-          type: TransactionType.DEPOSIT,
-          amount: 1000,
-          balanceBefore: 20000,
-          balanceAfter: 21000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        // Check first account history
-        const history1 = await storage.getTransactionHistory('1234567890');
-        expect(history1).toHaveLength(2);
-        expect(history1.every(t => t.accountNumber === '1234567890')).toBe(true);
-
-        // Check second account history
-        const history2 = await storage.getTransactionHistory('0987654321');
-        expect(history2).toHaveLength(1);
-        expect(history2[0].accountNumber).toBe('0987654321');
-      });
+    it('should see writes made by another instance', async () => {
+      await storage.getAccount('1234567890'); // warm the cache
 
-      it('should return transactions in reverse chronological order', async () => {
-        // Add transactions with small delays to ensure different timestamps
-        await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.DEPOSIT,
-          amount: 1000,
-          balanceBefore: 10000,
-          balanceAfter: 11000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        await new Promise(resolve => setTimeout(resolve, 10)); // Small delay
-
-        await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.DEPOSIT,
-          amount: 2000,
-          balanceBefore: 11000,
-          balanceAfter: 13000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        await new Promise(resolve => setTimeout(resolve, 10)); // Small delay
-
-        await storage.addTransaction({
-          accountNumber: '1234567890',
-          type: TransactionType.DEPOSIT,
-          amount: 3000,
-          balanceBefore: 13000,
-          balanceAfter: 16000,
-          status: TransactionStatus.COMPLETED,
-        });
-
-        const history = await storage.getTransactionHistory('1234567890');
-        
-        // Most recent first
-        expect(history[0].amount).toBe(3000);
-        expect(history[1].amount).toBe(2000);
-        expect(history[2].amount).toBe(1000);
-      });
+      await other.updateAccount('1234567890', { balance: 25000 });
 
-      it('should respect limit parameter', async () => {
-        // Add multiple transactions
-        for (let i = 0; i < 5; i++) {
-          await storage.addTransaction({
-            accountNumber: '1234567890',
-            type: TransactionType.DEPOSIT,
-            amount: 1000 * (i + 1),
-            balanceBefore: 10000,
-            balanceAfter: 10000 + 1000 * (i + 1),
-            status: TransactionStatus.COMPLETED,
-          });
-        }
-
-        const history = await storage.getTransactionHistory('1234567890', 3);
-        expect(history).toHaveLength(3);
-      });
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(25000);
     });
-  });
-
-  describe('Account Locking', () => {
-    it('should lock and unlock an account', async () => {
-      const locked = await storage.lockAccount('1234567890');
-      expect(locked).toBe(true);
 
-      const unlocked = await storage.unlockAccount('1234567890');
-      expect(unlocked).toBe(true);
+    it('should not lose concurrent deposits from two instances', async () => {
+      const first = new TransactionService(storage);
+      const second = new TransactionService(other);
+
+      const results = await Promise.all([
+        first.deposit('1234567890', 1000),
+        second.deposit('1234567890', 2000),
+        first.deposit('1234567890', 3000),
+        second.deposit('1234567890', 4000),
+      ]);
+
+      expect(results.every(r => r.success)).toBe(true);
+      const reopened = new JsonStorage(testDataDir);
+      expect((await reopened.getAccount('1234567890'))?.balance).toBe(20000);
+      expect(await reopened.getTransactionHistory('1234567890')).toHaveLength(4);
     });
 
-    it('should not allow locking already locked account', async () => {
-      const locked1 = await storage.lockAccount('1234567890');
-      expect(locked1).toBe(true);
+    it('should list and break locks', async () => {
+      await storage.lockAccount('1234567890');
 
-      const locked2 = await storage.lockAccount('1234567890');
-      expect(locked2).toBe(false);
-    });
+      const [lock] = await other.listLocks();
+      expect(lock.name).toBe('1234567890');
+      expect(lock.pid).toBe(process.pid);
+      expect(lock.stale).toBe(false);
 
-    it('should return false when unlocking non-locked account', async () => {
-      const unlocked = await storage.unlockAccount('1234567890');
-      expect(unlocked).toBe(false);
+      expect(await other.breakLock('1234567890')).toBe(true);
+      expect(await other.listLocks()).toEqual([]);
+      expect(await other.breakStaleLocks()).toEqual([]);
     });
 
-    it('should allow locking after unlocking', async () => {
-      await storage.lockAccount('1234567890');
-      await storage.unlockAccount('1234567890');
+    it('should leave no store lock behind after a commit', async () => {
+      await storage.updateAccount('1234567890', { balance: 500 });
 
-      const locked = await storage.lockAccount('1234567890');
-      expect(locked).toBe(true);
+      expect(await storage.listLocks()).toEqual([]);
     });
   });
 
-  describe('Data Persistence', () => {
-    it('should persist accounts across storage instances', async () => {
-      // Create account with first storage instance
-      await storage.createAccount({
+  describe('Ledger upgrade', () => {
+    const legacyTransactions = [
+      {
+        id: '11111111-1111-4111-8111-111111111111',
         accountNumber: '1234567890',
-        pin: '$2b$10$hashedpin',
-        balance: 10000,
-      });
+        type: 'deposit',
+        amount: 5000,
+        balanceBefore: 0,
+        balanceAfter: 5000,
+        timestamp: '2024-01-01T10:00:00.000Z',
+        status: 'completed',
+        description: 'Initial deposit',
+      },
+      {
+        id: '22222222-2222-4222-8222-222222222222',
+        accountNumber: '1234567890',
+        type: 'transfer',
+        amount: 2000,
+        balanceBefore: 5000,
+        balanceAfter: 3000,
+        timestamp: '2024-01-02T10:00:00.000Z',
+        status: 'completed',
+        description: 'Transfer to 0987654321',
+        reference: '9b2f4c1e-8d3a-4f5b-a6c7-1e2d3f4a5b6c',
+      },
+      {
+        id: '33333333-3333-4333-8333-333333333333',
+        accountNumber: '0987654321',
+        type: 'transfer',
+        amount: 2000,
+        balanceBefore: 0,
+        balanceAfter: 2000,
+        timestamp: '2024-01-02T10:00:00.000Z',
+        status: 'completed',
+        description: 'Transfer from 1234567890',
+        reference: '9b2f4c1e-8d3a-4f5b-a6c7-1e2d3f4a5b6c',
+      },
+    ];
 
-      // Create new storage instance with same data directory
-      const storage2 = new JsonStorage(testDataDir);
-      await storage2.initialize();
+    beforeEach(async () => {
+      await fs.rm(path.join(testDataDir, 'ledger.json'));
+      await fs.writeFile(
+        path.join(testDataDir, 'transactions.json'),
+        JSON.stringify(legacyTransactions)
+      );
+      storage = new JsonStorage(testDataDir);
+      await storage.initialize();
+    });
 
-      // Retrieve account with second instance
-      const account = await storage2.getAccount('1234567890');
-      expect(account).not.toBeNull();
-      expect(account?.balance).toBe(10000);
+    it('should convert transactions.json into journal entries', async () => {
+      const entries = await storage.getJournalEntries();
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0].postings.map(p => [p.accountNumber, p.amount])).toEqual([
+        ['1234567890', 5000],
+        ['SYS-CASH', -5000],
+      ]);
+      // Both transfer legs become one entry
+      expect(entries[1].postings.map(p => [p.accountNumber, p.amount])).toEqual([
+        ['1234567890', -2000],
+        ['0987654321', 2000],
+      ]);
     });
 
-    it('should persist transactions across storage instances', async () => {
-      // Create account and transaction
-      await storage.createAccount({
-        accountNumber: '1234567890',
-        pin: '$2b$10$hashedpin',
-        balance: 10000,
+    it('should keep the transaction view unchanged', async () => {
+      const history = await storage.getTransactionHistory('1234567890');
+
+      expect(history.map(t => t.id)).toEqual([legacyTransactions[1].id, legacyTransactions[0].id]);
+      expect(history[0]).toMatchObject({
+        type: 'transfer',
+        amount: 2000,
+        balanceAfter: 3000,
+        description: 'Transfer to 0987654321',
+        reference: legacyTransactions[1].reference,
       });
+    });
 
-      await storage.addTransaction({
-        accountNumber: '1234567890',
+    it('should open accounts from before the ledger at their balance', async () => {
+      await storage.createAccount({ accountNumber: '5555555555', pin: '$2b$10$hashedpin', balance: 7500 });
+      await fs.rm(path.join(testDataDir, 'ledger.json'));
+      storage = new JsonStorage(testDataDir);
+      await storage.initialize();
+
+      const [opening] = await storage.getJournalEntries('5555555555');
+
+      expect(opening.type).toBe('adjustment');
+      expect(opening.postings.map(p => [p.accountNumber, p.amount])).toEqual([
+        ['5555555555', 7500],
+        ['SYS-EQUITY', -7500],
+      ]);
+    });
+
+    it('should scope idempotency keys stored before keys were scoped', async () => {
+      const entry = await storage.postJournalEntry({
         type: TransactionType.DEPOSIT,
-        amount: 5000,
-        balanceBefore: 10000,
-        balanceAfter: 15000,
         status: TransactionStatus.COMPLETED,
+        idempotencyKey: 'retry-1',
+        idempotencyScope: '5555555555',
+        postings: [
+          { accountNumber: '5555555555', amount: 2500, balanceBefore: 0, balanceAfter: 2500 },
+          { accountNumber: 'SYS-CASH', amount: -2500 },
+        ],
       });
+      const ledgerFile = path.join(testDataDir, 'ledger.json');
+      const ledger = JSON.parse(await fs.readFile(ledgerFile, 'utf-8'));
+      delete ledger.at(-1).idempotencyScope;
+      await fs.writeFile(ledgerFile, JSON.stringify(ledger));
 
-      // Create new storage instance
-      const storage2 = new JsonStorage(testDataDir);
-      await storage2.initialize();
+      const reopened = new JsonStorage(testDataDir);
 
-      // Retrieve transaction history
-      const history = await storage2.getTransactionHistory('1234567890');
-      expect(history).toHaveLength(1);
-      expect(history[0].amount).toBe(5000);
+      expect(await reopened.getJournalEntryByIdempotencyKey('5555555555', 'retry-1')).toEqual(entry);
+    });
+
+    it('should keep the old file as transactions.legacy.json', async () => {
+      await expect(fs.access(path.join(testDataDir, 'transactions.json'))).rejects.toThrow();
+      await expect(
+        fs.access(path.join(testDataDir, 'transactions.legacy.json'))
+      ).resolves.toBeUndefined();
     });
   });
 });
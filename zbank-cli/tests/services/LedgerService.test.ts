@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LedgerService } from '../../src/services/LedgerService';
+import { TransactionService } from '../../src/services/TransactionService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { SystemAccount } from '../../src/models/JournalEntry';
+
+describe('LedgerService', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+  let ledger: LedgerService;
+  let transactions: TransactionService;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-ledger-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 0 });
+    await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 0 });
+    ledger = new LedgerService(storage);
+    transactions = new TransactionService(storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('getBalance', () => {
+    it('should derive the balance from postings', async () => {
+      await transactions.deposit('0000012345', 10000);
+      await transactions.withdraw('0000012345', 2500);
+      await transactions.transfer('0000012345', '1234567890', 1500);
+
+      expect(await ledger.getBalance('0000012345')).toBe(6000);
+      expect(await ledger.getBalance('1234567890')).toBe(1500);
+      expect(await ledger.getBalance('0000012345')).toBe(
+        (await storage.getAccount('0000012345'))?.balance
+      );
+    });
+
+    it('should derive system account balances', async () => {
+      await transactions.deposit('0000012345', 10000);
+      await transactions.withdraw('0000012345', 2500);
+
+      expect(await ledger.getBalance(SystemAccount.CASH)).toBe(-7500);
+    });
+
+    it('should leave pending holds out until they settle', async () => {
+      await transactions.deposit('0000012345', 10000);
+      const hold = await transactions.placeHold('0000012345', 2500);
+
+      expect(await ledger.getBalance('0000012345')).toBe(10000);
+      await transactions.settleHold(hold.transaction!.id);
+      expect(await ledger.getBalance('0000012345')).toBe(7500);
+      expect(await ledger.getBalance(SystemAccount.CASH)).toBe(-7500);
+    });
+
+    it('should return zero for an account without postings', async () => {
+      expect(await ledger.getBalance('0000012345')).toBe(0);
+    });
+  });
+
+  describe('getTrialBalance', () => {
+    it('should list every ledger account and sum to zero', async () => {
+      await transactions.deposit('0000012345', 10000);
+      await transactions.transfer('0000012345', '1234567890', 4000);
+
+      const balances = await ledger.getTrialBalance();
+
+      expect(balances).toEqual([
+        { accountNumber: '0000012345', balance: 6000 },
+        { accountNumber: '1234567890', balance: 4000 },
+        { accountNumber: SystemAccount.CASH, balance: -10000 },
+      ]);
+      expect(balances.reduce((sum, b) => sum + b.balance, 0)).toBe(0);
+    });
+
+    it('should be empty for an empty ledger', async () => {
+      expect(await ledger.getTrialBalance()).toEqual([]);
+    });
+  });
+});
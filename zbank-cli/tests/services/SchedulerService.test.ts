@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SchedulerService, ScheduleErrorCode } from '../../src/services/SchedulerService';
+import {
+  TransactionService,
+  TransactionErrorCode,
+  DEFAULT_TRANSACTION_LIMITS,
+} from '../../src/services/TransactionService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { ScheduleUnit } from '../../src/models/Schedule';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+
+describe('SchedulerService', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const start = new Date(2024, 0, 15, 9, 0);
+
+  let dataDir: string;
+  let storage: JsonStorage;
+  let transactions: TransactionService;
+  let scheduler: SchedulerService;
+  let now: Date;
+
+  const advance = (ms: number) => {
+    now = new Date(now.getTime() + ms);
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-scheduler-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+    await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 0 });
+    now = start;
+    transactions = new TransactionService(storage, DEFAULT_TRANSACTION_LIMITS);
+    scheduler = new SchedulerService(storage, transactions, { now: () => now });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  describe('createSchedule', () => {
+    it('should create an active schedule', async () => {
+      const result = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.TRANSFER,
+        toAccountNumber: '1234567890',
+        amount: 2500,
+        every: 1,
+        unit: ScheduleUnit.MONTH,
+        startAt: start,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.schedule).toMatchObject({ active: true, runCount: 0 });
+      expect(await scheduler.listSchedules('1234567890')).toHaveLength(1);
+    });
+
+    it('should reject an invalid schedule', async () => {
+      const result = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: -100,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+      });
+
+      expect(result.errorCode).toBe(ScheduleErrorCode.INVALID_SCHEDULE);
+    });
+
+    it('should reject unknown accounts', async () => {
+      const result = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.TRANSFER,
+        toAccountNumber: '9999999999',
+        amount: 100,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+      });
+
+      expect(result.errorCode).toBe(ScheduleErrorCode.DESTINATION_NOT_FOUND);
+    });
+  });
+
+  describe('runDue', () => {
+    it('should run nothing before the first occurrence', async () => {
+      await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 1000,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: new Date(start.getTime() + 1000),
+      });
+
+      expect(await scheduler.runDue()).toEqual([]);
+    });
+
+    it('should run a due occurrence once and link the run to its transaction', async () => {
+      const { schedule } = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.TRANSFER,
+        toAccountNumber: '1234567890',
+        amount: 2500,
+        every: 1,
+        unit: ScheduleUnit.WEEK,
+        startAt: start,
+      });
+
+      const runs = await scheduler.runDue();
+      expect(await scheduler.runDue()).toEqual([]);
+
+      expect(runs).toEqual([
+        expect.objectContaining({
+          scheduleId: schedule!.id,
+          dueAt: start,
+          status: TransactionStatus.COMPLETED,
+        }),
+      ]);
+      const [debit] = await transactions.getHistory('0000012345');
+      expect(runs[0].transactionId).toBe(debit.id);
+      expect(debit.idempotencyKey).toBe(`schedule:${schedule!.id}:0`);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(2500);
+    });
+
+    it('should catch up on missed occurrences in order across schedules', async () => {
+      const { schedule: daily } = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 1000,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+      });
+      const { schedule: weekly } = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 500,
+        every: 1,
+        unit: ScheduleUnit.WEEK,
+        startAt: new Date(start.getTime() + 12 * 60 * 60 * 1000),
+      });
+      advance(8 * DAY_MS);
+
+      const runs = await scheduler.runDue();
+
+      // Daily at 09:00 on days 0-8, weekly at 21:00 on days 0 and 7
+      expect(runs.map((r) => r.scheduleId)).toEqual([
+        daily!.id,
+        weekly!.id,
+        ...Array(7).fill(daily!.id),
+        weekly!.id,
+        daily!.id,
+      ]);
+      expect(runs.every((r) => r.ranAt.getTime() === now.getTime())).toBe(true);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000 + 9 * 1000 - 2 * 500);
+      expect((await storage.getSchedule(daily!.id))?.runCount).toBe(9);
+    });
+
+    it('should record a failed occurrence with its reason and move on', async () => {
+      const { schedule } = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 150000, // Above the $1,000 per-withdrawal limit
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+      });
+      advance(DAY_MS);
+
+      const runs = await scheduler.runDue();
+
+      expect(runs).toHaveLength(2);
+      expect(runs[0]).toMatchObject({
+        status: TransactionStatus.FAILED,
+        errorCode: TransactionErrorCode.TRANSACTION_LIMIT_EXCEEDED,
+        error: expect.any(String),
+      });
+      expect(runs[0].transactionId).toBeUndefined();
+      expect((await storage.getSchedule(schedule!.id))?.runCount).toBe(2);
+      expect(await scheduler.runDue()).toEqual([]);
+    });
+
+    it('should stop after the end date', async () => {
+      await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 1000,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+        endAt: new Date(start.getTime() + DAY_MS),
+      });
+      advance(10 * DAY_MS);
+
+      expect(await scheduler.runDue()).toHaveLength(2);
+    });
+
+    it('should not pay twice when the run was posted but not recorded', async () => {
+      const { schedule } = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 1000,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+      });
+      // Posted by an earlier scheduler that stopped before recording the run
+      await transactions.deposit('0000012345', 1000, `schedule:${schedule!.id}:0`);
+
+      const runs = await scheduler.runDue();
+
+      expect(runs).toHaveLength(1);
+      expect(runs[0].status).toBe(TransactionStatus.COMPLETED);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(11000);
+    });
+  });
+
+  describe('cancelSchedule', () => {
+    it('should stop future runs and keep past ones', async () => {
+      const { schedule } = await scheduler.createSchedule({
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 1000,
+        every: 1,
+        unit: ScheduleUnit.DAY,
+        startAt: start,
+      });
+      await scheduler.runDue();
+
+      const result = await scheduler.cancelSchedule(schedule!.id);
+      advance(5 * DAY_MS);
+
+      expect(result.schedule?.active).toBe(false);
+      expect(await scheduler.runDue()).toEqual([]);
+      expect(await scheduler.getRuns(schedule!.id)).toHaveLength(1);
+      expect((await scheduler.cancelSchedule(schedule!.id)).errorCode).toBe(ScheduleErrorCode.ALREADY_CANCELLED);
+    });
+
+    it('should report an unknown schedule', async () => {
+      const result = await scheduler.cancelSchedule('123e4567-e89b-12d3-a456-426614174000');
+
+      expect(result.errorCode).toBe(ScheduleErrorCode.SCHEDULE_NOT_FOUND);
+    });
+  });
+});
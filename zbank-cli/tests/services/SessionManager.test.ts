@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach } from '@jest/globals';
-import { SessionManager } from '../../src/services/SessionManager.js';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+  SessionManager,
+  SessionExpiredEvent,
+} from '../../src/services/SessionManager.js';
 import { Account } from '../../src/models/Account.js';
 
 describe('SessionManager', () => {
@@ -151,4 +154,103 @@ describe('SessionManager', () => {
       expect(sessionManager.getSession()).toBeNull();
     });
   });
+
+  describe('timeouts', () => {
+    const MINUTE = 60 * 1000;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2024-01-15T10:00:00Z') });
+      sessionManager = new SessionManager({
+        idleTimeoutMs: 5 * MINUTE,
+        absoluteTimeoutMs: 30 * MINUTE,
+      });
+    });
+
+    afterEach(() => {
+      sessionManager.clearSession();
+      jest.useRealTimers();
+    });
+
+    it('should never expire without timeouts', () => {
+      const unlimited = new SessionManager();
+      unlimited.setSession(testAccount);
+
+      jest.advanceTimersByTime(24 * 60 * MINUTE);
+
+      expect(unlimited.isSessionActive()).toBe(true);
+      expect(unlimited.getExpiresAt()).toBeNull();
+    });
+
+    it('should expire after the idle timeout', () => {
+      const events: SessionExpiredEvent[] = [];
+      sessionManager.onExpired(event => events.push(event));
+      sessionManager.setSession(testAccount);
+
+      jest.advanceTimersByTime(5 * MINUTE - 1);
+      expect(sessionManager.isSessionActive()).toBe(true);
+
+      jest.advanceTimersByTime(1);
+      expect(sessionManager.isSessionActive()).toBe(false);
+      expect(events).toHaveLength(1);
+      expect(events[0].reason).toBe('idle');
+      expect(events[0].account.accountNumber).toBe('0000012345');
+    });
+
+    it('should restart the idle timeout on activity', () => {
+      sessionManager.setSession(testAccount);
+
+      jest.advanceTimersByTime(4 * MINUTE);
+      sessionManager.recordActivity();
+      jest.advanceTimersByTime(4 * MINUTE);
+
+      expect(sessionManager.isSessionActive()).toBe(true);
+      expect(sessionManager.getLastActivityTime()).toEqual(new Date('2024-01-15T10:04:00Z'));
+      expect(sessionManager.getExpiresAt()).toEqual(new Date('2024-01-15T10:09:00Z'));
+    });
+
+    it('should expire after the absolute timeout despite activity', () => {
+      const reasons: string[] = [];
+      sessionManager.onExpired(event => reasons.push(event.reason));
+      sessionManager.setSession(testAccount);
+
+      for (let i = 0; i < 8; i++) {
+        jest.advanceTimersByTime(4 * MINUTE);
+        sessionManager.recordActivity();
+      }
+
+      expect(sessionManager.isSessionActive()).toBe(false);
+      expect(reasons).toEqual(['absolute']);
+    });
+
+    it('should expire on read when the timer has not run', () => {
+      sessionManager.setSession(testAccount);
+
+      // Move the clock without running timers (e.g. a suspended process)
+      jest.setSystemTime(new Date('2024-01-15T10:06:00Z'));
+
+      expect(sessionManager.getSession()).toBeNull();
+    });
+
+    it('should not notify after logout or once unsubscribed', () => {
+      const listener = jest.fn();
+      const unsubscribe = sessionManager.onExpired(listener);
+
+      sessionManager.setSession(testAccount);
+      sessionManager.clearSession();
+      jest.advanceTimersByTime(10 * MINUTE);
+
+      unsubscribe();
+      sessionManager.setSession(testAccount);
+      jest.advanceTimersByTime(10 * MINUTE);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should ignore activity without a session', () => {
+      sessionManager.recordActivity();
+
+      expect(sessionManager.getLastActivityTime()).toBeNull();
+      expect(sessionManager.getExpiresAt()).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,398 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { spawnSync } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteStorage } from '../../src/services/SqliteStorage';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+import { describeStorageContract } from './storage-contract';
+
+describeStorageContract('SqliteStorage', () => {
+  const opened: SqliteStorage[] = [];
+  let dataDir: string | null = null;
+
+  return {
+    async open() {
+      if (!dataDir) {
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-sqlite-'));
+      }
+      const storage = new SqliteStorage(path.join(dataDir, 'zbank.db'));
+      await storage.initialize();
+      opened.push(storage);
+      return storage;
+    },
+    async destroy() {
+      opened.forEach(storage => storage.close());
+      if (dataDir) {
+        await fs.rm(dataDir, { recursive: true, force: true });
+      }
+    },
+  };
+});
+
+describe('SqliteStorage', () => {
+  let dataDir: string;
+  let dbPath: string;
+  let storage: SqliteStorage;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-sqlite-'));
+    dbPath = path.join(dataDir, 'zbank.db');
+    storage = new SqliteStorage(dbPath);
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Record an account lock as if another process had taken it
+   */
+  const writeForeignLock = (
+    accountNumber: string,
+    pid: number,
+    lockedAt: Date = new Date(),
+    hostname: string = os.hostname()
+  ) => {
+    const db = new Database(path.join(dataDir, 'zbank-locks.db'));
+    db.prepare('INSERT INTO account_locks VALUES (?, ?, ?, ?)').run(
+      accountNumber,
+      pid,
+      hostname,
+      lockedAt.toISOString()
+    );
+    db.close();
+  };
+
+  describe('Schema', () => {
+    it('should create indexes on account number and timestamp', () => {
+      const db = new Database(dbPath, { readonly: true });
+      const indexes = db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name IN ('postings', 'journal_entries')")
+        .all()
+        .map(row => (row as { name: string }).name);
+      db.close();
+
+      expect(indexes).toContain('idx_postings_account');
+      expect(indexes).toContain('idx_journal_entries_timestamp');
+    });
+
+    it('should add columns missing from an older database', async () => {
+      storage.close();
+      const legacyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-sqlite-'));
+      const legacyPath = path.join(legacyDir, 'zbank.db');
+      const db = new Database(legacyPath);
+      db.exec(
+        'CREATE TABLE transactions (id TEXT PRIMARY KEY, account_number TEXT NOT NULL, type TEXT NOT NULL, amount INTEGER NOT NULL, balance_before INTEGER NOT NULL, balance_after INTEGER NOT NULL, timestamp TEXT NOT NULL, status TEXT NOT NULL, description TEXT)'
+      );
+      db.close();
+
+      storage = new SqliteStorage(legacyPath);
+      await storage.createAccount({
+        accountNumber: '1234567890',
+        pin: '$2b$10$hashedpin',
+        balance: 10000,
+      });
+      const transaction = await storage.addTransaction({
+        accountNumber: '1234567890',
+        type: TransactionType.TRANSFER,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 5000,
+        status: TransactionStatus.COMPLETED,
+        reference: '9b2f4c1e-8d3a-4f5b-a6c7-1e2d3f4a5b6c',
+      });
+
+      const [stored] = await storage.getTransactionHistory('1234567890');
+      expect(stored.reference).toBe(transaction.reference);
+
+      storage.close();
+      await fs.rm(legacyDir, { recursive: true, force: true });
+    });
+
+    it('should add boolean columns to an older accounts table as integers', async () => {
+      storage.close();
+      const legacyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-sqlite-'));
+      const legacyPath = path.join(legacyDir, 'zbank.db');
+      const db = new Database(legacyPath);
+      db.exec(
+        'CREATE TABLE accounts (account_number TEXT PRIMARY KEY, pin TEXT NOT NULL, balance INTEGER NOT NULL, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)'
+      );
+      db.close();
+
+      storage = new SqliteStorage(legacyPath);
+      await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+      await storage.updateAccount('1234567890', { isLocked: true });
+
+      expect((await storage.getAccount('1234567890'))?.isLocked).toBe(true);
+      storage.close();
+
+      const upgraded = new Database(legacyPath, { readonly: true });
+      const columns = upgraded.pragma('table_info(accounts)') as { name: string; type: string }[];
+      upgraded.close();
+      expect(columns.find(column => column.name === 'is_locked')?.type).toBe('INTEGER');
+
+      await fs.rm(legacyDir, { recursive: true, force: true });
+    });
+
+    it('should read booleans stored as text by an earlier upgrade', async () => {
+      await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+      storage.close();
+      const db = new Database(dbPath);
+      db.prepare("UPDATE accounts SET is_locked = '1' WHERE account_number = ?").run('1234567890');
+      db.close();
+
+      storage = new SqliteStorage(dbPath);
+
+      expect((await storage.getAccount('1234567890'))?.isLocked).toBe(true);
+    });
+
+    it('should validate postings read for the transaction history', async () => {
+      await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+      await storage.addTransaction({
+        accountNumber: '1234567890',
+        type: TransactionType.DEPOSIT,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 15000,
+        status: TransactionStatus.COMPLETED,
+      });
+      storage.close();
+      const db = new Database(dbPath);
+      db.prepare('UPDATE postings SET balance_after = NULL WHERE account_number = ?').run('1234567890');
+      db.close();
+
+      storage = new SqliteStorage(dbPath);
+
+      await expect(storage.getTransactionHistory('1234567890')).rejects.toThrow('balanceBefore and balanceAfter');
+    });
+  });
+
+  describe('Ledger upgrade', () => {
+    it('should convert a transactions table into journal entries', async () => {
+      storage.close();
+      const legacyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-sqlite-'));
+      const legacyPath = path.join(legacyDir, 'zbank.db');
+      const db = new Database(legacyPath);
+      db.exec(
+        'CREATE TABLE transactions (id TEXT PRIMARY KEY, account_number TEXT NOT NULL, type TEXT NOT NULL, amount INTEGER NOT NULL, balance_before INTEGER NOT NULL, balance_after INTEGER NOT NULL, timestamp TEXT NOT NULL, status TEXT NOT NULL, description TEXT)'
+      );
+      db.prepare('INSERT INTO transactions VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)').run(
+        '11111111-1111-4111-8111-111111111111',
+        '1234567890',
+        'withdrawal',
+        2500,
+        10000,
+        7500,
+        '2024-01-01T10:00:00.000Z',
+        'completed',
+        'ATM'
+      );
+      db.close();
+
+      storage = new SqliteStorage(legacyPath);
+      const [opening, entry] = await storage.getJournalEntries();
+      const [transaction] = await storage.getTransactionHistory('1234567890');
+
+      expect(opening.postings.map(p => [p.accountNumber, p.amount])).toEqual([
+        ['1234567890', 10000],
+        ['SYS-EQUITY', -10000],
+      ]);
+      expect(entry.postings.map(p => [p.accountNumber, p.amount])).toEqual([
+        ['1234567890', -2500],
+        ['SYS-CASH', 2500],
+      ]);
+      expect(transaction).toMatchObject({
+        id: '11111111-1111-4111-8111-111111111111',
+        type: 'withdrawal',
+        amount: 2500,
+        balanceBefore: 10000,
+        balanceAfter: 7500,
+        description: 'ATM',
+      });
+      expect(transaction.timestamp.toISOString()).toBe('2024-01-01T10:00:00.000Z');
+
+      storage.close();
+      const reopened = new Database(legacyPath, { readonly: true });
+      const tables = reopened
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+        .all()
+        .map(row => (row as { name: string }).name);
+      reopened.close();
+      expect(tables).toContain('legacy_transactions');
+      expect(tables).not.toContain('transactions');
+
+      await fs.rm(legacyDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Idempotency upgrade', () => {
+    it('should scope idempotency keys stored before keys were scoped', async () => {
+      const entry = await storage.postJournalEntry({
+        type: TransactionType.DEPOSIT,
+        status: TransactionStatus.COMPLETED,
+        idempotencyKey: 'retry-1',
+        idempotencyScope: '1234567890',
+        postings: [
+          { accountNumber: '1234567890', amount: 2500, balanceBefore: 0, balanceAfter: 2500 },
+          { accountNumber: 'SYS-CASH', amount: -2500 },
+        ],
+      });
+      storage.close();
+      const db = new Database(dbPath);
+      db.exec('DROP INDEX idx_journal_entries_idempotency');
+      db.exec('UPDATE journal_entries SET idempotency_scope = NULL');
+      db.exec('CREATE UNIQUE INDEX idx_journal_entries_idempotency_key ON journal_entries (idempotency_key)');
+      db.close();
+
+      storage = new SqliteStorage(dbPath);
+
+      expect(await storage.getJournalEntryByIdempotencyKey('1234567890', 'retry-1')).toEqual(entry);
+      storage.close();
+      const upgraded = new Database(dbPath, { readonly: true });
+      const indexes = upgraded
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'journal_entries'")
+        .all()
+        .map(row => (row as { name: string }).name);
+      upgraded.close();
+      expect(indexes).toContain('idx_journal_entries_idempotency');
+      expect(indexes).not.toContain('idx_journal_entries_idempotency_key');
+    });
+  });
+
+  describe('Optional fields', () => {
+    it('should leave absent optional fields undefined', async () => {
+      await storage.createAccount({
+        accountNumber: '1234567890',
+        pin: '$2b$10$hashedpin',
+        balance: 10000,
+      });
+      await storage.addTransaction({
+        accountNumber: '1234567890',
+        type: TransactionType.DEPOSIT,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 15000,
+        status: TransactionStatus.COMPLETED,
+      });
+
+      const [transaction] = await storage.getTransactionHistory('1234567890');
+      expect(transaction.description).toBeUndefined();
+      expect(transaction.reference).toBeUndefined();
+    });
+  });
+
+  describe('Cross-connection locking', () => {
+    it('should see locks taken by another connection', async () => {
+      const other = new SqliteStorage(dbPath);
+      await other.initialize();
+
+      expect(await storage.lockAccount('1234567890')).toBe(true);
+      expect(await other.lockAccount('1234567890')).toBe(false);
+
+      expect(await storage.unlockAccount('1234567890')).toBe(true);
+      expect(await other.lockAccount('1234567890')).toBe(true);
+
+      other.close();
+    });
+
+    it('should keep a lock taken while a unit of work is open when it rolls back', async () => {
+      const other = new SqliteStorage(dbPath);
+      await other.initialize();
+      await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+
+      await expect(
+        storage.runInTransaction(async tx => {
+          await tx.updateAccount('1234567890', { balance: 1 });
+          expect(await storage.lockAccount('1234567890')).toBe(true);
+          throw new Error('abort');
+        })
+      ).rejects.toThrow('abort');
+
+      expect(await other.lockAccount('1234567890')).toBe(false);
+      other.close();
+    });
+
+    it('should not release a lock held by another process', async () => {
+      writeForeignLock('1234567890', process.ppid);
+
+      expect(await storage.unlockAccount('1234567890')).toBe(false);
+      expect(await storage.lockAccount('1234567890')).toBe(false);
+    });
+  });
+
+  describe('Lock administration', () => {
+    // A PID that is guaranteed to belong to an exited process
+    const deadPid = (): number => spawnSync(process.execPath, ['-e', '']).pid;
+
+    it('should take over a lock whose holder has exited', async () => {
+      writeForeignLock('1234567890', deadPid());
+
+      expect(await storage.lockAccount('1234567890')).toBe(true);
+      expect((await storage.listLocks())[0].pid).toBe(process.pid);
+    });
+
+    it('should take over a lock from another host older than the stale timeout', async () => {
+      writeForeignLock('1234567890', process.ppid, new Date(Date.now() - 10 * 60 * 1000), 'other-host');
+
+      expect(await storage.lockAccount('1234567890')).toBe(true);
+    });
+
+    it('should list locks and flag stale ones', async () => {
+      await storage.lockAccount('0000012345');
+      writeForeignLock('1234567890', deadPid());
+
+      const listed = await storage.listLocks();
+
+      expect(listed.map(l => [l.name, l.stale])).toEqual([
+        ['0000012345', false],
+        ['1234567890', true],
+      ]);
+      expect(listed[0]).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+    });
+
+    it('should break a lock regardless of its holder', async () => {
+      writeForeignLock('1234567890', process.ppid);
+
+      expect(await storage.breakLock('1234567890')).toBe(true);
+      expect(await storage.breakLock('1234567890')).toBe(false);
+      expect(await storage.lockAccount('1234567890')).toBe(true);
+    });
+
+    it('should break only stale locks', async () => {
+      await storage.lockAccount('0000012345');
+      writeForeignLock('1234567890', deadPid());
+      writeForeignLock('5555555555', process.ppid);
+
+      expect(await storage.breakStaleLocks()).toEqual(['1234567890']);
+      expect((await storage.listLocks()).map(l => l.name)).toEqual(['0000012345', '5555555555']);
+    });
+
+    it('should move locks from the account_locks table of an older database', async () => {
+      storage.close();
+      const legacyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-sqlite-'));
+      const legacyPath = path.join(legacyDir, 'zbank.db');
+      const db = new Database(legacyPath);
+      db.exec('CREATE TABLE account_locks (account_number TEXT PRIMARY KEY, pid INTEGER NOT NULL, locked_at TEXT NOT NULL)');
+      db.prepare('INSERT INTO account_locks VALUES (?, ?, ?)').run('1234567890', process.ppid, new Date().toISOString());
+      db.close();
+
+      storage = new SqliteStorage(legacyPath);
+      await storage.initialize();
+
+      expect((await storage.listLocks()).map(l => [l.name, l.pid, l.hostname])).toEqual([
+        ['1234567890', process.ppid, os.hostname()],
+      ]);
+      storage.close();
+      const upgraded = new Database(legacyPath, { readonly: true });
+      const table = upgraded.prepare("SELECT name FROM sqlite_master WHERE name = 'account_locks'").get();
+      upgraded.close();
+      expect(table).toBeUndefined();
+
+      await fs.rm(legacyDir, { recursive: true, force: true });
+    });
+  });
+});
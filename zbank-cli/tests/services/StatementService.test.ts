@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  StatementService,
+  StatementErrorCode,
+} from '../../src/services/StatementService';
+import { TransactionService } from '../../src/services/TransactionService';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+
+describe('StatementService', () => {
+  const now = new Date(2024, 3, 10, 12); // 2024-04-10, local time
+
+  let dataDir: string;
+  let storage: JsonStorage;
+  let service: StatementService;
+
+  // Move the ledger's entries, in posting order, to the given local dates
+  async function backdate(...dates: Date[]) {
+    const ledgerFile = path.join(dataDir, 'ledger.json');
+    const entries = JSON.parse(await fs.readFile(ledgerFile, 'utf-8'));
+    dates.forEach((date, i) => {
+      entries[i].timestamp = date.toISOString();
+    });
+    await fs.writeFile(ledgerFile, JSON.stringify(entries));
+
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    service = new StatementService(storage, { now: () => now });
+  }
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-statements-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+    await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+    await storage.updateAccount('0000012345', { createdAt: new Date(2024, 0, 1) });
+
+    const transactions = new TransactionService(storage);
+    await transactions.deposit('0000012345', 5000);
+    await transactions.withdraw('0000012345', 2000);
+    await transactions.deposit('0000012345', 1000);
+    await backdate(new Date(2024, 1, 20, 12), new Date(2024, 2, 5, 12), new Date(2024, 3, 2, 12));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should cover a closed month with its opening and closing balances', async () => {
+    const result = await service.getStatement('0000012345', '2024-03');
+
+    expect(result.success).toBe(true);
+    expect(result.statement).toMatchObject({
+      accountNumber: '0000012345',
+      period: '2024-03',
+      openingBalance: 15000,
+      closingBalance: 13000,
+      transactions: [expect.objectContaining({ type: TransactionType.WITHDRAWAL, amount: 2000 })],
+      totals: [{ type: TransactionType.WITHDRAWAL, count: 1, credits: 0, debits: 2000 }],
+      closed: true,
+      generatedAt: now,
+    });
+  });
+
+  it('should build the current month live without saving it', async () => {
+    const result = await service.getStatement('0000012345');
+
+    expect(result.statement).toMatchObject({
+      period: '2024-04',
+      openingBalance: 13000,
+      closingBalance: 14000,
+      totals: [{ type: TransactionType.DEPOSIT, count: 1, credits: 1000, debits: 0 }],
+      closed: false,
+    });
+    expect(await storage.getStatement('0000012345', '2024-04')).toBeNull();
+  });
+
+  it('should carry the balance through a month without transactions', async () => {
+    const result = await service.getStatement('0000012345', '2024-01');
+
+    expect(result.statement).toMatchObject({
+      openingBalance: 10000,
+      closingBalance: 10000,
+      transactions: [],
+      totals: [],
+    });
+  });
+
+  it('should freeze a closed month so later corrections land on the next statement', async () => {
+    const issued = (await service.getStatement('0000012345', '2024-03')).statement!;
+    const [withdrawal] = issued.transactions;
+
+    await new TransactionService(storage).reverse(withdrawal.id, 'Disputed');
+    await backdate(
+      new Date(2024, 1, 20, 12),
+      new Date(2024, 2, 5, 12),
+      new Date(2024, 3, 2, 12),
+      new Date(2024, 3, 8, 12)
+    );
+
+    const march = await service.getStatement('0000012345', '2024-03');
+    const april = await service.getStatement('0000012345', '2024-04');
+
+    expect(march.statement).toEqual(issued);
+    expect(march.statement!.transactions[0].status).toBe(TransactionStatus.COMPLETED);
+    expect(april.statement).toMatchObject({
+      openingBalance: 13000,
+      closingBalance: 16000,
+      totals: [
+        { type: TransactionType.DEPOSIT, count: 1, credits: 1000, debits: 0 },
+        { type: TransactionType.REVERSAL, count: 1, credits: 2000, debits: 0 },
+      ],
+    });
+  });
+
+  it('should leave holds out and show what they settle as', async () => {
+    const transactions = new TransactionService(storage);
+    const { transaction: hold } = await transactions.placeHold('0000012345', 300);
+    await transactions.placeHold('0000012345', 700);
+    await transactions.settleHold(hold!.id);
+    await backdate(
+      new Date(2024, 1, 20, 12),
+      new Date(2024, 2, 5, 12),
+      new Date(2024, 3, 2, 12),
+      new Date(2024, 3, 3, 12),
+      new Date(2024, 3, 4, 12),
+      new Date(2024, 3, 5, 12)
+    );
+
+    const { statement } = await service.getStatement('0000012345', '2024-04');
+
+    expect(statement!.transactions.map((t) => t.type)).toEqual([
+      TransactionType.DEPOSIT,
+      TransactionType.WITHDRAWAL,
+    ]);
+    expect(statement!.closingBalance).toBe(13700);
+  });
+
+  it('should count both directions of transfers in the totals', async () => {
+    await storage.createAccount({ accountNumber: '0000054321', pin: 'hashed_pin', balance: 10000 });
+    const transactions = new TransactionService(storage);
+    await transactions.transfer('0000012345', '0000054321', 2500);
+    await transactions.transfer('0000054321', '0000012345', 400);
+    await backdate(
+      new Date(2024, 1, 20, 12),
+      new Date(2024, 2, 5, 12),
+      new Date(2024, 3, 2, 12),
+      new Date(2024, 3, 3, 12),
+      new Date(2024, 3, 4, 12)
+    );
+
+    const { statement } = await service.getStatement('0000012345', '2024-04');
+
+    expect(statement!.totals).toContainEqual({
+      type: TransactionType.TRANSFER,
+      count: 2,
+      credits: 400,
+      debits: 2500,
+    });
+    expect(statement!.closingBalance).toBe(11900);
+  });
+
+  describe('refusals', () => {
+    it.each([
+      ['2024-13', StatementErrorCode.INVALID_PERIOD],
+      ['April', StatementErrorCode.INVALID_PERIOD],
+      ['2024-05', StatementErrorCode.PERIOD_IN_FUTURE],
+      ['2023-12', StatementErrorCode.PERIOD_BEFORE_ACCOUNT_OPENED],
+    ])('should refuse the month %s', async (period, errorCode) => {
+      const result = await service.getStatement('0000012345', period);
+
+      expect(result).toMatchObject({ success: false, errorCode });
+      expect(await storage.getStatement('0000012345', period)).toBeNull();
+    });
+
+    it('should refuse an unknown account', async () => {
+      const result = await service.getStatement('9999999999', '2024-03');
+
+      expect(result).toMatchObject({ success: false, errorCode: StatementErrorCode.ACCOUNT_NOT_FOUND });
+    });
+  });
+});
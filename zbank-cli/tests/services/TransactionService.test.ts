@@ -1,18 +1,35 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
-import { TransactionService } from '../../src/services/TransactionService.js';
+import {
+  TransactionService,
+  TransactionErrorCode,
+  TransactionLimits,
+  DEFAULT_HOLD_DURATION_MS,
+  resolveTransactionLimit,
+} from '../../src/services/TransactionService.js';
+import { FeeRules } from '../../src/services/FeeService.js';
 import { IStorage } from '../../src/services/IStorage.js';
-import { Account } from '../../src/models/Account.js';
+import { Account, AccountType, FeeType, OverdraftPolicy } from '../../src/models/Account.js';
 import { Transaction, TransactionType, TransactionStatus } from '../../src/models/Transaction.js';
 import { CreateTransaction } from '../../src/models/Transaction.js';
+import {
+  JournalEntry,
+  CreateJournalEntry,
+  SystemAccount,
+  createJournalEntry,
+  journalEntryFromTransaction,
+  toTransactions,
+} from '../../src/models/JournalEntry.js';
 
 /**
  * Mock storage implementation for testing
  */
 class MockStorage implements IStorage {
   private accounts: Map<string, Account> = new Map();
-  private transactions: Transaction[] = [];
+  private entries: JournalEntry[] = [];
   private locks: Set<string> = new Set();
-  private transactionIdCounter = 1;
+
+  // Account number whose next update should fail (for rollback tests)
+  failUpdateFor: string | null = null;
 
   async getAccount(accountNumber: string): Promise<Account | null> {
     return this.accounts.get(accountNumber) || null;
@@ -32,6 +49,10 @@ class MockStorage implements IStorage {
     accountNumber: string,
     updates: Partial<Omit<Account, 'accountNumber' | 'createdAt'>>
   ): Promise<Account> {
+    if (this.failUpdateFor === accountNumber) {
+      this.failUpdateFor = null;
+      throw new Error('Simulated write failure');
+    }
     const account = this.accounts.get(accountNumber);
     if (!account) {
       throw new Error('Account not found');
@@ -57,24 +78,78 @@ class MockStorage implements IStorage {
     return Array.from(this.accounts.values());
   }
 
+  async postJournalEntry(entry: CreateJournalEntry): Promise<JournalEntry> {
+    const newEntry = createJournalEntry(entry);
+    this.entries.push(newEntry);
+    return newEntry;
+  }
+
+  async getJournalEntries(accountNumber?: string): Promise<JournalEntry[]> {
+    return this.entries.filter(
+      (e) => accountNumber === undefined || e.postings.some((p) => p.accountNumber === accountNumber)
+    );
+  }
+
+  async getJournalEntryByIdempotencyKey(idempotencyScope: string, idempotencyKey: string): Promise<JournalEntry | null> {
+    return (
+      this.entries.find((e) => e.idempotencyKey === idempotencyKey && e.idempotencyScope === idempotencyScope) ?? null
+    );
+  }
+
+  async updateJournalEntryStatus(id: string, status: TransactionStatus): Promise<JournalEntry> {
+    const index = this.entries.findIndex((e) => e.id === id);
+    if (index === -1) {
+      throw new Error('Journal entry not found');
+    }
+    this.entries[index] = { ...this.entries[index], status };
+    return this.entries[index];
+  }
+
   async addTransaction(transaction: CreateTransaction): Promise<Transaction> {
-    const newTransaction: Transaction = {
-      id: `txn-${this.transactionIdCounter++}`,
-      ...transaction,
-      timestamp: new Date(),
-    };
-    this.transactions.push(newTransaction);
-    return newTransaction;
+    return toTransactions(await this.postJournalEntry(journalEntryFromTransaction(transaction)))[0];
   }
 
   async getTransactionHistory(accountNumber: string, limit?: number): Promise<Transaction[]> {
-    const accountTransactions = this.transactions
+    const accountTransactions = this.entries
+      .flatMap(toTransactions)
       .filter((t) => t.accountNumber === accountNumber)
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
     return limit ? accountTransactions.slice(0, limit) : accountTransactions;
   }
 
+  async addSchedule(): Promise<any> {
+    return {};
+  }
+
+  async getSchedule(): Promise<any> {
+    return null;
+  }
+
+  async listSchedules(): Promise<any[]> {
+    return [];
+  }
+
+  async updateSchedule(): Promise<any> {
+    return {};
+  }
+
+  async addScheduleRun(): Promise<any> {
+    return {};
+  }
+
+  async getScheduleRuns(): Promise<any[]> {
+    return [];
+  }
+
+  async saveStatement(statement: any): Promise<any> {
+    return statement;
+  }
+
+  async getStatement(): Promise<any> {
+    return null;
+  }
+
   async lockAccount(accountNumber: string): Promise<boolean> {
     if (this.locks.has(accountNumber)) {
       return false;
@@ -91,12 +166,29 @@ class MockStorage implements IStorage {
     return true;
   }
 
+  async runInTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Snapshot state so a failed unit of work can be rolled back
+    const accounts = new Map(this.accounts);
+    const entries = [...this.entries];
+    try {
+      return await fn(this);
+    } catch (error) {
+      this.accounts = accounts;
+      this.entries = entries;
+      throw error;
+    }
+  }
+
+  // Move every entry written so far back in time (for rolling limits)
+  backdate(ms: number) {
+    this.entries = this.entries.map((e) => ({ ...e, timestamp: new Date(e.timestamp.getTime() - ms) }));
+  }
+
   // Helper method for tests
   reset() {
     this.accounts.clear();
-    this.transactions = [];
+    this.entries = [];
     this.locks.clear();
-    this.transactionIdCounter = 1;
   }
 }
 
@@ -178,6 +270,7 @@ describe('TransactionService', () => {
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Account not found');
+      expect(result.errorCode).toBe(TransactionErrorCode.ACCOUNT_NOT_FOUND);
     });
 
     it('should handle multiple deposits correctly', async () => {
@@ -189,6 +282,18 @@ describe('TransactionService', () => {
       expect(result.newBalance).toBe(16000); // 10000 + 1000 + 2000 + 3000
     });
 
+    it('should not record a transaction when the balance update fails', async () => {
+      storage.failUpdateFor = '0000012345';
+
+      await expect(service.deposit('0000012345', 5000)).rejects.toThrow(
+        'Simulated write failure'
+      );
+
+      const history = await storage.getTransactionHistory('0000012345');
+      expect(history).toHaveLength(0);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+    });
+
     it('should allow deposit to negative balance account', async () => {
       // Create account with negative balance
       await storage.createAccount({
@@ -291,6 +396,17 @@ describe('TransactionService', () => {
       expect(result.newBalance).toBe(4000); // 10000 - 1000 - 2000 - 3000
     });
 
+    it('should not record a transaction when the balance update fails', async () => {
+      storage.failUpdateFor = '0000012345';
+
+      await expect(service.withdraw('0000012345', 3000)).rejects.toThrow(
+        'Simulated write failure'
+      );
+
+      const history = await storage.getTransactionHistory('0000012345');
+      expect(history).toHaveLength(0);
+    });
+
     it('should allow withdrawal from negative balance account', async () => {
       // Create account with negative balance
       await storage.createAccount({
@@ -320,33 +436,162 @@ describe('TransactionService', () => {
       });
     });
 
-    it('should return not implemented error (matching COBOL)', async () => {
+    it('should move funds from source to destination', async () => {
       const result = await service.transfer('0000012345', '1234567890', 5000);
 
-      expect(result.success).toBe(false);
-      expect(result.error).toContain('not implemented');
-      expect(result.error).toContain('COBOL');
-      expect(result.transaction).toBeUndefined();
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(5000);
+      expect(result.transaction?.type).toBe(TransactionType.TRANSFER);
+      expect(result.transaction?.accountNumber).toBe('0000012345');
+
+      const source = await storage.getAccount('0000012345');
+      const destination = await storage.getAccount('1234567890');
+      expect(source?.balance).toBe(5000);
+      expect(destination?.balance).toBe(25000);
     });
 
-    it('should not modify any accounts', async () => {
+    it('should record both legs linked by a shared reference', async () => {
       await service.transfer('0000012345', '1234567890', 5000);
 
-      const account1 = await storage.getAccount('0000012345');
-      const account2 = await storage.getAccount('1234567890');
+      const [debit] = await storage.getTransactionHistory('0000012345');
+      const [credit] = await storage.getTransactionHistory('1234567890');
+
+      expect(debit.balanceBefore).toBe(10000);
+      expect(debit.balanceAfter).toBe(5000);
+      expect(credit.balanceBefore).toBe(20000);
+      expect(credit.balanceAfter).toBe(25000);
+      expect(debit.reference).toBeDefined();
+      expect(credit.reference).toBe(debit.reference);
+      expect(debit.description).toBe('Transfer to 1234567890');
+      expect(credit.description).toBe('Transfer from 0000012345');
+    });
+
+    it('should allow the source account to go negative (matching COBOL withdrawals)', async () => {
+      const result = await service.transfer('0000012345', '1234567890', 15000);
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(-5000);
+    });
+
+    it('should reject transfer to the same account', async () => {
+      const result = await service.transfer('0000012345', '0000012345', 5000);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('same account');
+      expect(result.errorCode).toBe(TransactionErrorCode.SAME_ACCOUNT);
+    });
+
+    it('should reject invalid amounts', async () => {
+      const result = await service.transfer('0000012345', '1234567890', 0);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('greater than zero');
+      expect(result.errorCode).toBe(TransactionErrorCode.INVALID_AMOUNT);
+    });
+
+    it('should reject transfer from non-existent account', async () => {
+      const result = await service.transfer('9999999999', '1234567890', 5000);
 
-      expect(account1?.balance).toBe(10000); // Unchanged
-      expect(account2?.balance).toBe(20000); // Unchanged
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Account not found');
     });
 
-    it('should not create any transactions', async () => {
+    it('should reject transfer to non-existent account', async () => {
+      const result = await service.transfer('0000012345', '9999999999', 5000);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Destination account not found');
+      expect(result.errorCode).toBe(TransactionErrorCode.DESTINATION_NOT_FOUND);
+
+      const source = await storage.getAccount('0000012345');
+      expect(source?.balance).toBe(10000);
+    });
+
+    it('should reject transfer when an account is already locked', async () => {
+      await storage.lockAccount('1234567890');
+
+      const result = await service.transfer('0000012345', '1234567890', 5000);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('locked');
+      expect(result.errorCode).toBe(TransactionErrorCode.ACCOUNT_BUSY);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+    });
+
+    it('should release both locks after completing', async () => {
       await service.transfer('0000012345', '1234567890', 5000);
 
-      const history1 = await storage.getTransactionHistory('0000012345');
-      const history2 = await storage.getTransactionHistory('1234567890');
+      expect(await storage.lockAccount('0000012345')).toBe(true);
+      expect(await storage.lockAccount('1234567890')).toBe(true);
+    });
+
+    it('should release the lock it holds when the other account is locked', async () => {
+      await storage.lockAccount('1234567890');
+
+      await service.transfer('0000012345', '1234567890', 5000);
 
-      expect(history1.length).toBe(0);
-      expect(history2.length).toBe(0);
+      expect(await storage.lockAccount('0000012345')).toBe(true);
+    });
+
+    it('should leave both balances unchanged when the credit leg fails', async () => {
+      storage.failUpdateFor = '1234567890';
+
+      const result = await service.transfer('0000012345', '1234567890', 5000);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Simulated write failure');
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(20000);
+    });
+
+    it('should leave both balances unchanged when the debit leg fails', async () => {
+      storage.failUpdateFor = '0000012345';
+
+      const result = await service.transfer('0000012345', '1234567890', 5000);
+
+      expect(result.success).toBe(false);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(20000);
+    });
+  });
+
+  describe('getHistory', () => {
+    beforeEach(async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: 10000,
+      });
+    });
+
+    it('should return transactions most recent first', async () => {
+      await service.deposit('0000012345', 1000);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await service.withdraw('0000012345', 500);
+
+      const history = await service.getHistory('0000012345');
+
+      expect(history.map(t => t.type)).toEqual([
+        TransactionType.WITHDRAWAL,
+        TransactionType.DEPOSIT,
+      ]);
+      expect(history[0].balanceBefore).toBe(11000);
+      expect(history[0].balanceAfter).toBe(10500);
+    });
+
+    it('should apply the limit', async () => {
+      await service.deposit('0000012345', 1000);
+      await service.deposit('0000012345', 2000);
+
+      expect(await service.getHistory('0000012345', 1)).toHaveLength(1);
+    });
+
+    it('should return an empty history for a new account', async () => {
+      expect(await service.getHistory('0000012345')).toEqual([]);
+    });
+
+    it('should throw error for non-existent account', async () => {
+      await expect(service.getHistory('9999999999')).rejects.toThrow('Account not found');
     });
   });
 
@@ -517,6 +762,764 @@ describe('TransactionService', () => {
     });
   });
 
+  describe('overdraft policies', () => {
+    beforeEach(async () => {
+      await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 20000 });
+    });
+
+    it('should refuse to go below zero without an overdraft', async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: 10000,
+        overdraftPolicy: OverdraftPolicy.NONE,
+      });
+
+      const result = await service.withdraw('0000012345', 10001);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+      expect(result.error).toContain('$100.00 available');
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+      expect(await storage.getJournalEntries()).toEqual([]);
+    });
+
+    it('should allow withdrawing the whole balance without an overdraft', async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: 10000,
+        overdraftPolicy: OverdraftPolicy.NONE,
+      });
+
+      const result = await service.withdraw('0000012345', 10000);
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(0);
+    });
+
+    it('should allow going negative up to a fixed limit', async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: 10000,
+        overdraftPolicy: OverdraftPolicy.LIMITED,
+        overdraftLimit: 5000,
+      });
+
+      const within = await service.withdraw('0000012345', 15000);
+      const beyond = await service.withdraw('0000012345', 1);
+
+      expect(within.success).toBe(true);
+      expect(within.newBalance).toBe(-5000);
+      expect(beyond.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+    });
+
+    it('should allow unlimited overdrafts when set explicitly', async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: 0,
+        overdraftPolicy: OverdraftPolicy.UNLIMITED,
+      });
+
+      const result = await service.withdraw('0000012345', 999999999);
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(-999999999);
+    });
+
+    it('should enforce the policy of the source account on transfers', async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: 10000,
+        overdraftPolicy: OverdraftPolicy.LIMITED,
+        overdraftLimit: 2000,
+      });
+
+      const result = await service.transfer('0000012345', '1234567890', 12001);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(20000);
+    });
+
+    it('should not restrict deposits into an account past its limit', async () => {
+      await storage.createAccount({
+        accountNumber: '0000012345',
+        pin: 'hashed_pin',
+        balance: -5000,
+        overdraftPolicy: OverdraftPolicy.NONE,
+      });
+
+      const deposit = await service.deposit('0000012345', 1000);
+      const withdrawal = await service.withdraw('0000012345', 1);
+
+      expect(deposit.success).toBe(true);
+      expect(withdrawal.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+    });
+  });
+
+  describe('transaction limits', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+    const limits: TransactionLimits = {
+      [TransactionType.WITHDRAWAL]: { perTransaction: 50000, daily: 80000 },
+      [TransactionType.TRANSFER]: { perTransaction: null, daily: 30000 },
+    };
+
+    beforeEach(async () => {
+      service = new TransactionService(storage, limits);
+      await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 500000 });
+      await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 500000 });
+    });
+
+    it('should refuse an amount above the per-transaction limit', async () => {
+      const result = await service.withdraw('0000012345', 50001);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(TransactionErrorCode.TRANSACTION_LIMIT_EXCEEDED);
+      expect(result.error).toContain('$500.00 per transaction');
+      expect(result.limitRemaining).toBe(80000);
+      expect(await storage.getJournalEntries()).toEqual([]);
+    });
+
+    it('should refuse what is over the rest of the daily limit', async () => {
+      await service.withdraw('0000012345', 50000);
+
+      const result = await service.withdraw('0000012345', 30001);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(TransactionErrorCode.DAILY_LIMIT_EXCEEDED);
+      expect(result.error).toContain("$300.00 of today's $800.00 left");
+      expect(result.limitRemaining).toBe(30000);
+      expect((await service.withdraw('0000012345', 30000)).success).toBe(true);
+    });
+
+    it('should only count the last 24 hours', async () => {
+      await service.withdraw('0000012345', 50000);
+      storage.backdate(25 * HOUR_MS);
+      await service.withdraw('0000012345', 20000);
+
+      const result = await service.withdraw('0000012345', 50000);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should keep limits per account and type', async () => {
+      await service.withdraw('0000012345', 50000);
+      await service.withdraw('0000012345', 30000);
+
+      expect((await service.withdraw('1234567890', 50000)).success).toBe(true);
+      expect((await service.deposit('0000012345', 900000)).success).toBe(true);
+    });
+
+    it('should count outgoing transfers only', async () => {
+      await service.transfer('1234567890', '0000012345', 30000);
+
+      const outgoing = await service.transfer('0000012345', '1234567890', 30000);
+      const again = await service.transfer('0000012345', '1234567890', 1);
+
+      expect(outgoing.success).toBe(true);
+      expect(again.errorCode).toBe(TransactionErrorCode.DAILY_LIMIT_EXCEEDED);
+      expect(again.limitRemaining).toBe(0);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(500000);
+    });
+
+    it('should not count failed transactions', async () => {
+      await storage.addTransaction({
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 50000,
+        balanceBefore: 500000,
+        balanceAfter: 500000,
+        status: TransactionStatus.FAILED,
+      });
+
+      expect((await service.withdraw('0000012345', 50000)).success).toBe(true);
+    });
+
+    it('should apply account overrides', async () => {
+      await storage.updateAccount('0000012345', {
+        transactionLimits: {
+          [TransactionType.WITHDRAWAL]: { perTransaction: 10000 },
+          [TransactionType.TRANSFER]: { daily: null },
+        },
+      });
+
+      const withdrawal = await service.withdraw('0000012345', 10001);
+      const transfer = await service.transfer('0000012345', '1234567890', 100000);
+
+      expect(withdrawal.errorCode).toBe(TransactionErrorCode.TRANSACTION_LIMIT_EXCEEDED);
+      expect(withdrawal.limitRemaining).toBe(80000);
+      expect(transfer.success).toBe(true);
+    });
+
+    it('should apply no limits by default', async () => {
+      service = new TransactionService(storage);
+
+      expect((await service.withdraw('0000012345', 400000)).success).toBe(true);
+    });
+
+    it('should check limits before the overdraft policy', async () => {
+      await storage.updateAccount('0000012345', { balance: 0, overdraftPolicy: OverdraftPolicy.NONE });
+
+      const result = await service.withdraw('0000012345', 60000);
+
+      expect(result.errorCode).toBe(TransactionErrorCode.TRANSACTION_LIMIT_EXCEEDED);
+    });
+  });
+
+  describe('resolveTransactionLimit', () => {
+    const limits: TransactionLimits = {
+      [TransactionType.WITHDRAWAL]: { perTransaction: 50000, daily: 80000 },
+    };
+
+    it('should use the bank-wide limit without an override', () => {
+      expect(resolveTransactionLimit(limits, {}, TransactionType.WITHDRAWAL)).toEqual({
+        perTransaction: 50000,
+        daily: 80000,
+      });
+      expect(resolveTransactionLimit(limits, {}, TransactionType.DEPOSIT)).toEqual({
+        perTransaction: null,
+        daily: null,
+      });
+    });
+
+    it('should let an override replace or lift each limit', () => {
+      const account = {
+        transactionLimits: { [TransactionType.WITHDRAWAL]: { perTransaction: null, daily: 100000 } },
+      };
+
+      expect(resolveTransactionLimit(limits, account, TransactionType.WITHDRAWAL)).toEqual({
+        perTransaction: null,
+        daily: 100000,
+      });
+    });
+  });
+
+  describe('ledger', () => {
+    beforeEach(async () => {
+      await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+      await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 5000 });
+    });
+
+    it('should balance deposits and withdrawals against cash', async () => {
+      await service.deposit('0000012345', 2500);
+      await service.withdraw('0000012345', 1000);
+
+      const [deposit, withdrawal] = await storage.getJournalEntries();
+      expect(deposit.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', 2500],
+        [SystemAccount.CASH, -2500],
+      ]);
+      expect(withdrawal.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', -1000],
+        [SystemAccount.CASH, 1000],
+      ]);
+    });
+
+    it('should record a transfer as one entry with both accounts', async () => {
+      const result = await service.transfer('0000012345', '1234567890', 3000);
+
+      const entries = await storage.getJournalEntries();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].type).toBe(TransactionType.TRANSFER);
+      expect(entries[0].reference).toBe(result.transaction?.reference);
+      expect(entries[0].postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', -3000],
+        ['1234567890', 3000],
+      ]);
+    });
+
+    it('should not post anything when a transaction is rejected', async () => {
+      await service.withdraw('0000012345', -100);
+
+      expect(await storage.getJournalEntries()).toEqual([]);
+    });
+  });
+
+  describe('idempotency keys', () => {
+    beforeEach(async () => {
+      await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+      await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 5000 });
+    });
+
+    it('should return the original result for a retried deposit', async () => {
+      const first = await service.deposit('0000012345', 2500, 'retry-1');
+      const second = await service.deposit('0000012345', 2500, 'retry-1');
+
+      expect(second).toEqual(first);
+      expect(first.transaction?.idempotencyKey).toBe('retry-1');
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(12500);
+      expect(await storage.getJournalEntries()).toHaveLength(1);
+    });
+
+    it('should return the original result after later transactions', async () => {
+      const first = await service.withdraw('0000012345', 1000, 'retry-1');
+      await service.deposit('0000012345', 500);
+
+      const second = await service.withdraw('0000012345', 1000, 'retry-1');
+
+      expect(second).toEqual(first);
+      expect(second.newBalance).toBe(9000);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(9500);
+    });
+
+    it('should return the source leg for a retried transfer', async () => {
+      const first = await service.transfer('0000012345', '1234567890', 3000, 'retry-1');
+      const second = await service.transfer('0000012345', '1234567890', 3000, 'retry-1');
+
+      expect(second).toEqual(first);
+      expect(second.transaction?.accountNumber).toBe('0000012345');
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(8000);
+    });
+
+    it('should refuse a key reused with different parameters', async () => {
+      await service.deposit('0000012345', 2500, 'retry-1');
+
+      const amount = await service.deposit('0000012345', 2600, 'retry-1');
+      const type = await service.withdraw('0000012345', 2500, 'retry-1');
+      const destination = await service.transfer('0000012345', '1234567890', 2500, 'retry-1');
+
+      for (const result of [amount, type, destination]) {
+        expect(result.success).toBe(false);
+        expect(result.errorCode).toBe(TransactionErrorCode.IDEMPOTENCY_KEY_REUSED);
+      }
+      expect(await storage.getJournalEntries()).toHaveLength(1);
+    });
+
+    it('should keep each account\'s keys apart', async () => {
+      const first = await service.deposit('0000012345', 2500, 'retry-1');
+      const other = await service.deposit('1234567890', 2500, 'retry-1');
+      const transfer = await service.transfer('1234567890', '0000012345', 1000, 'retry-2');
+      const retried = await service.transfer('0000012345', '1234567890', 1000, 'retry-2');
+
+      expect(other.success).toBe(true);
+      expect(other.transaction?.id).not.toBe(first.transaction?.id);
+      expect(retried.transaction?.id).not.toBe(transfer.transaction?.id);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(7500);
+      expect(await storage.getJournalEntries()).toHaveLength(4);
+    });
+
+    it('should run a failed call again on retry', async () => {
+      await storage.updateAccount('0000012345', { overdraftPolicy: OverdraftPolicy.NONE });
+      const refused = await service.withdraw('0000012345', 20000, 'retry-1');
+      await service.deposit('0000012345', 10000);
+
+      const retried = await service.withdraw('0000012345', 20000, 'retry-1');
+
+      expect(refused.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+      expect(retried.success).toBe(true);
+    });
+
+    it('should reject malformed keys', async () => {
+      for (const key of ['', 'has space', 'x'.repeat(256)]) {
+        const result = await service.deposit('0000012345', 2500, key);
+        expect(result.errorCode).toBe(TransactionErrorCode.INVALID_IDEMPOTENCY_KEY);
+      }
+      expect(await storage.getJournalEntries()).toEqual([]);
+    });
+
+    it('should post every call without a key', async () => {
+      await service.deposit('0000012345', 2500);
+      await service.deposit('0000012345', 2500);
+
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(15000);
+    });
+  });
+
+  describe('reverse', () => {
+    beforeEach(async () => {
+      await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+      await storage.createAccount({ accountNumber: '1234567890', pin: 'hashed_pin', balance: 5000 });
+    });
+
+    it('should undo a deposit with a linked reversal', async () => {
+      const deposit = await service.deposit('0000012345', 2500);
+
+      const result = await service.reverse(deposit.transaction!.id, 'Keyed twice');
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(10000);
+      expect(result.transaction).toMatchObject({
+        type: TransactionType.REVERSAL,
+        amount: 2500,
+        balanceBefore: 12500,
+        balanceAfter: 10000,
+        description: 'Reversal: Keyed twice',
+        reversalOf: deposit.transaction!.id,
+      });
+      const history = await storage.getTransactionHistory('0000012345');
+      expect(history.find((t) => t.id === deposit.transaction!.id)?.status).toBe(TransactionStatus.REVERSED);
+      expect(history.find((t) => t.type === TransactionType.REVERSAL)?.reversalOf).toBe(deposit.transaction!.id);
+    });
+
+    it('should post the reversal against the original counterpart', async () => {
+      const withdrawal = await service.withdraw('0000012345', 3000);
+
+      await service.reverse(withdrawal.transaction!.id, 'Dispensing error');
+
+      const [, reversal] = await storage.getJournalEntries();
+      expect(reversal.postings.map((p) => [p.accountNumber, p.amount])).toEqual([
+        ['0000012345', 3000],
+        [SystemAccount.CASH, -3000],
+      ]);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+    });
+
+    it('should undo both legs of a transfer', async () => {
+      const transfer = await service.transfer('0000012345', '1234567890', 4000);
+      const [credit] = await storage.getTransactionHistory('1234567890');
+
+      const result = await service.reverse(credit.id, 'Wrong payee');
+
+      expect(result.success).toBe(true);
+      expect(result.transaction).toMatchObject({ accountNumber: '1234567890', reversalOf: credit.id });
+      expect(result.newBalance).toBe(5000);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+      const history = await storage.getTransactionHistory('0000012345');
+      expect(history.find((t) => t.type === TransactionType.REVERSAL)?.reversalOf).toBe(transfer.transaction!.id);
+    });
+
+    it('should refuse to reverse twice', async () => {
+      const deposit = await service.deposit('0000012345', 2500);
+      await service.reverse(deposit.transaction!.id, 'Keyed twice');
+
+      const again = await service.reverse(deposit.transaction!.id, 'Keyed twice');
+
+      expect(again.success).toBe(false);
+      expect(again.errorCode).toBe(TransactionErrorCode.ALREADY_REVERSED);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(10000);
+      expect(await storage.getJournalEntries()).toHaveLength(2);
+    });
+
+    it('should refuse to reverse a reversal', async () => {
+      const deposit = await service.deposit('0000012345', 2500);
+      const reversal = await service.reverse(deposit.transaction!.id, 'Keyed twice');
+
+      const result = await service.reverse(reversal.transaction!.id, 'Undo');
+
+      expect(result.errorCode).toBe(TransactionErrorCode.NOT_REVERSIBLE);
+    });
+
+    it('should refuse failed transactions', async () => {
+      const failed = await storage.addTransaction({
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 1000,
+        balanceBefore: 10000,
+        balanceAfter: 10000,
+        status: TransactionStatus.FAILED,
+      });
+
+      const result = await service.reverse(failed.id, 'Undo');
+
+      expect(result.errorCode).toBe(TransactionErrorCode.NOT_REVERSIBLE);
+    });
+
+    it('should report unknown transactions and missing reasons', async () => {
+      const deposit = await service.deposit('0000012345', 2500);
+
+      const unknown = await service.reverse('11111111-1111-4111-8111-111111111111', 'Undo');
+      const noReason = await service.reverse(deposit.transaction!.id, '  ');
+
+      expect(unknown.errorCode).toBe(TransactionErrorCode.TRANSACTION_NOT_FOUND);
+      expect(noReason.errorCode).toBe(TransactionErrorCode.REASON_REQUIRED);
+    });
+
+    it('should reverse past an overdraft policy', async () => {
+      const deposit = await service.deposit('0000012345', 2500);
+      await service.withdraw('0000012345', 12000);
+      await storage.updateAccount('0000012345', { overdraftPolicy: OverdraftPolicy.NONE });
+
+      const result = await service.reverse(deposit.transaction!.id, 'Cheque bounced');
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(-2000);
+    });
+
+    it('should report a busy account', async () => {
+      const deposit = await service.deposit('0000012345', 2500);
+      await storage.lockAccount('0000012345');
+
+      const result = await service.reverse(deposit.transaction!.id, 'Keyed twice');
+
+      expect(result.errorCode).toBe(TransactionErrorCode.ACCOUNT_BUSY);
+    });
+
+    it('should no longer count a reversed withdrawal against the daily limit', async () => {
+      service = new TransactionService(storage, {
+        [TransactionType.WITHDRAWAL]: { perTransaction: null, daily: 5000 },
+      });
+      const withdrawal = await service.withdraw('0000012345', 5000);
+      await service.reverse(withdrawal.transaction!.id, 'Not dispensed');
+
+      expect((await service.withdraw('0000012345', 5000)).success).toBe(true);
+    });
+  });
+
+  describe('holds', () => {
+    beforeEach(async () => {
+      await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+    });
+
+    it('should reserve funds without changing the ledger balance', async () => {
+      const result = await service.placeHold('0000012345', 2500, 'Hotel deposit');
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(10000);
+      expect(result.transaction).toMatchObject({
+        type: TransactionType.HOLD,
+        status: TransactionStatus.PENDING,
+        amount: 2500,
+        balanceBefore: 10000,
+        balanceAfter: 10000,
+        description: 'Hotel deposit',
+      });
+      expect(result.transaction!.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+      expect(await storage.getAccount('0000012345')).toMatchObject({ balance: 10000, heldAmount: 2500 });
+    });
+
+    it('should leave held funds out of the overdraft check', async () => {
+      await storage.updateAccount('0000012345', { overdraftPolicy: OverdraftPolicy.NONE });
+      await service.placeHold('0000012345', 8000);
+
+      const withdrawal = await service.withdraw('0000012345', 3000);
+      const hold = await service.placeHold('0000012345', 3000);
+
+      expect(withdrawal.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+      expect(withdrawal.error).toContain('$20.00 available');
+      expect(hold.errorCode).toBe(TransactionErrorCode.OVERDRAFT_LIMIT_EXCEEDED);
+      expect((await service.withdraw('0000012345', 2000)).success).toBe(true);
+    });
+
+    it('should settle into a withdrawal and release the funds', async () => {
+      const hold = await service.placeHold('0000012345', 2500, 'Fuel');
+
+      const result = await service.settleHold(hold.transaction!.id);
+
+      expect(result.success).toBe(true);
+      expect(result.newBalance).toBe(7500);
+      expect(result.transaction).toMatchObject({
+        type: TransactionType.WITHDRAWAL,
+        status: TransactionStatus.COMPLETED,
+        amount: 2500,
+        balanceBefore: 10000,
+        balanceAfter: 7500,
+        description: 'Fuel',
+        reference: hold.transaction!.reference,
+      });
+      expect(await storage.getAccount('0000012345')).toMatchObject({ balance: 7500, heldAmount: 0 });
+      const history = await storage.getTransactionHistory('0000012345');
+      expect(history.find((t) => t.id === hold.transaction!.id)?.status).toBe(TransactionStatus.COMPLETED);
+    });
+
+    it('should settle a hold only once', async () => {
+      const hold = await service.placeHold('0000012345', 2500);
+      await service.settleHold(hold.transaction!.id);
+
+      const again = await service.settleHold(hold.transaction!.id);
+
+      expect(again.errorCode).toBe(TransactionErrorCode.HOLD_NOT_PENDING);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(7500);
+    });
+
+    it('should expire holds past their expiry into FAILED', async () => {
+      service = new TransactionService(storage, {}, 60 * 1000);
+      const hold = await service.placeHold('0000012345', 2500);
+
+      expect(await service.expireHolds()).toEqual([]);
+      const expired = await service.expireHolds(new Date(Date.now() + 2 * 60 * 1000));
+
+      expect(expired).toEqual([expect.objectContaining({ id: hold.transaction!.id, status: TransactionStatus.FAILED })]);
+      expect(await storage.getAccount('0000012345')).toMatchObject({ balance: 10000, heldAmount: 0 });
+      expect((await service.settleHold(hold.transaction!.id)).errorCode).toBe(TransactionErrorCode.HOLD_NOT_PENDING);
+    });
+
+    it('should refuse to settle a hold past its expiry', async () => {
+      service = new TransactionService(storage, {}, 0);
+      const hold = await service.placeHold('0000012345', 2500);
+
+      const result = await service.settleHold(hold.transaction!.id);
+
+      expect(result.errorCode).toBe(TransactionErrorCode.HOLD_EXPIRED);
+      expect(await storage.getAccount('0000012345')).toMatchObject({ balance: 10000, heldAmount: 0 });
+      const [entry] = await storage.getJournalEntries();
+      expect(entry.status).toBe(TransactionStatus.FAILED);
+    });
+
+    it('should release expired holds before checking a withdrawal', async () => {
+      service = new TransactionService(storage, {}, 0);
+      await storage.updateAccount('0000012345', { overdraftPolicy: OverdraftPolicy.NONE });
+      await service.placeHold('0000012345', 8000);
+
+      const result = await service.withdraw('0000012345', 5000);
+
+      expect(result.success).toBe(true);
+      expect((await storage.getAccount('0000012345'))?.heldAmount).toBe(0);
+    });
+
+    it('should count pending holds against the daily withdrawal limit', async () => {
+      service = new TransactionService(storage, {
+        [TransactionType.WITHDRAWAL]: { perTransaction: null, daily: 5000 },
+      });
+      await service.placeHold('0000012345', 3000);
+
+      const result = await service.withdraw('0000012345', 2500);
+
+      expect(result.errorCode).toBe(TransactionErrorCode.DAILY_LIMIT_EXCEEDED);
+      expect(result.limitRemaining).toBe(2000);
+    });
+
+    it('should not reverse a hold or settle anything else', async () => {
+      const hold = await service.placeHold('0000012345', 2500);
+      const deposit = await service.deposit('0000012345', 1000);
+
+      expect((await service.reverse(hold.transaction!.id, 'Undo')).errorCode).toBe(TransactionErrorCode.NOT_REVERSIBLE);
+      expect((await service.settleHold(deposit.transaction!.id)).errorCode).toBe(TransactionErrorCode.TRANSACTION_NOT_FOUND);
+    });
+  });
+
+  describe('fees', () => {
+    const feeRules: FeeRules = {
+      [AccountType.CHECKING]: {
+        [FeeType.OVERDRAFT]: { amount: 3500 },
+      },
+      [AccountType.SAVINGS]: {
+        [FeeType.WITHDRAWAL]: { amount: 500, freePerMonth: 2 },
+      },
+    };
+
+    beforeEach(async () => {
+      service = new TransactionService(storage, {}, DEFAULT_HOLD_DURATION_MS, feeRules);
+      await storage.createAccount({ accountNumber: '0000012345', pin: 'hashed_pin', balance: 10000 });
+      await storage.createAccount({
+        accountNumber: '1234567890',
+        pin: 'hashed_pin',
+        balance: 10000,
+        accountType: AccountType.SAVINGS,
+      });
+    });
+
+    it('should charge an overdraft fee as a separate transaction', async () => {
+      const result = await service.withdraw('0000012345', 15000);
+
+      expect(result.transaction).toMatchObject({ amount: 15000, balanceAfter: -5000 });
+      expect(result.fees).toEqual([
+        expect.objectContaining({
+          type: TransactionType.FEE,
+          amount: 3500,
+          balanceBefore: -5000,
+          balanceAfter: -8500,
+          description: 'Overdraft fee (balance -$50.00)',
+        }),
+      ]);
+      expect(result.newBalance).toBe(-8500);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(-8500);
+      expect((await storage.getJournalEntries()).at(-1)?.postings).toEqual([
+        expect.objectContaining({ accountNumber: '0000012345', amount: -3500 }),
+        expect.objectContaining({ accountNumber: SystemAccount.FEES, amount: 3500 }),
+      ]);
+    });
+
+    it('should not charge fees on credits or debits that stay in funds', async () => {
+      await storage.updateAccount('0000012345', { balance: -10000 });
+
+      const deposit = await service.deposit('0000012345', 5000);
+      await storage.updateAccount('0000012345', { balance: 10000 });
+      const withdrawal = await service.withdraw('0000012345', 10000);
+
+      expect(deposit.fees).toBeUndefined();
+      expect(withdrawal.fees).toBeUndefined();
+      expect(withdrawal.newBalance).toBe(0);
+    });
+
+    it('should charge a withdrawal fee past the free withdrawals of the month', async () => {
+      await service.withdraw('1234567890', 100);
+      const free = await service.withdraw('1234567890', 100);
+      const charged = await service.withdraw('1234567890', 100);
+
+      expect(free.fees).toBeUndefined();
+      expect(charged.fees).toEqual([
+        expect.objectContaining({
+          amount: 500,
+          description: 'Withdrawal fee (withdrawal 3 this month, 2 free)',
+        }),
+      ]);
+      expect(charged.newBalance).toBe(9200);
+    });
+
+    it('should not count reversed withdrawals towards the free ones', async () => {
+      const first = await service.withdraw('1234567890', 100);
+      await service.reverse(first.transaction!.id, 'Duplicate');
+      await service.withdraw('1234567890', 100);
+
+      expect((await service.withdraw('1234567890', 100)).fees).toBeUndefined();
+    });
+
+    it('should not charge a fee the account has waived', async () => {
+      await storage.updateAccount('0000012345', { feeWaivers: [FeeType.OVERDRAFT] });
+
+      const result = await service.withdraw('0000012345', 15000);
+
+      expect(result.fees).toBeUndefined();
+      expect(result.newBalance).toBe(-5000);
+    });
+
+    it('should charge the source of a transfer only', async () => {
+      const result = await service.transfer('0000012345', '1234567890', 15000);
+
+      expect(result.fees).toEqual([expect.objectContaining({ accountNumber: '0000012345', amount: 3500 })]);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(-8500);
+      expect((await storage.getAccount('1234567890'))?.balance).toBe(25000);
+    });
+
+    it('should charge fees on a settled hold', async () => {
+      const hold = await service.placeHold('0000012345', 10000);
+      await storage.updateAccount('0000012345', { balance: 5000 });
+
+      const result = await service.settleHold(hold.transaction!.id);
+
+      expect(result.fees).toEqual([expect.objectContaining({ amount: 3500 })]);
+      expect(result.newBalance).toBe(-8500);
+    });
+
+    it('should report the original fees without charging again when a call is replayed', async () => {
+      const first = await service.withdraw('0000012345', 15000, 'retry-1');
+
+      const again = await service.withdraw('0000012345', 15000, 'retry-1');
+
+      expect(again).toEqual(first);
+      expect(again.newBalance).toBe(-8500);
+      expect((await storage.getAccount('0000012345'))?.balance).toBe(-8500);
+    });
+
+    it('should report the fees of a replayed transfer', async () => {
+      const first = await service.transfer('0000012345', '1234567890', 15000, 'retry-1');
+
+      expect(await service.transfer('0000012345', '1234567890', 15000, 'retry-1')).toEqual(first);
+    });
+
+    it('should only report the fees of the replayed call', async () => {
+      const first = await service.withdraw('1234567890', 100, 'retry-1');
+      await service.withdraw('1234567890', 100);
+      await service.withdraw('1234567890', 100);
+
+      expect(await service.withdraw('1234567890', 100, 'retry-1')).toEqual(first);
+    });
+
+    it('should refund a fee by reversing it', async () => {
+      const [fee] = (await service.withdraw('0000012345', 15000)).fees!;
+
+      const refund = await service.reverse(fee.id, 'Goodwill refund');
+
+      expect(refund.success).toBe(true);
+      expect(refund.newBalance).toBe(-5000);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle very large deposits', async () => {
       await storage.createAccount({
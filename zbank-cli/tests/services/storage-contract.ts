@@ -0,0 +1,1045 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { IStorage } from '../../src/services/IStorage';
+import { TransactionService } from '../../src/services/TransactionService';
+import { TransactionType, TransactionStatus } from '../../src/models/Transaction';
+import { SystemAccount } from '../../src/models/JournalEntry';
+import { AccountType, FeeType, OverdraftPolicy } from '../../src/models/Account';
+import { ScheduleUnit } from '../../src/models/Schedule';
+
+/**
+ * Storage backend under test
+ *
+ * open() may be called several times per test; every call must return a new
+ * instance on the same underlying data so persistence can be checked.
+ */
+export interface StorageFixture {
+  open(): Promise<IStorage>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Behavioral test suite every IStorage backend must pass
+ *
+ * @param name - Backend name used in the describe block
+ * @param createFixture - Creates a fixture with empty storage for each test
+ */
+export function describeStorageContract(
+  name: string,
+  createFixture: () => StorageFixture
+): void {
+  describe(`${name} (IStorage contract)`, () => {
+    let fixture: StorageFixture;
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      fixture = createFixture();
+      storage = await fixture.open();
+    });
+
+    afterEach(async () => {
+      await fixture.destroy();
+    });
+
+    describe('Account Operations', () => {
+      describe('createAccount', () => {
+        it('should create a new account with timestamps', async () => {
+          const account = await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          expect(account.accountNumber).toBe('1234567890');
+          expect(account.pin).toBe('$2b$10$hashedpin');
+          expect(account.balance).toBe(10000);
+          expect(account.createdAt).toBeInstanceOf(Date);
+          expect(account.updatedAt).toBeInstanceOf(Date);
+        });
+
+        it('should throw error when creating duplicate account', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          await expect(
+            storage.createAccount({
+              accountNumber: '1234567890',
+              pin: '$2b$10$anotherpin',
+              balance: 20000,
+            })
+          ).rejects.toThrow('already exists');
+        });
+      });
+
+      describe('getAccount', () => {
+        it('should retrieve an existing account', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          const account = await storage.getAccount('1234567890');
+          expect(account).not.toBeNull();
+          expect(account?.accountNumber).toBe('1234567890');
+          expect(account?.balance).toBe(10000);
+        });
+
+        it('should return null for non-existent account', async () => {
+          const account = await storage.getAccount('9999999999');
+          expect(account).toBeNull();
+        });
+      });
+
+      describe('updateAccount', () => {
+        it('should update account balance', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          // Let the clock move so updatedAt can differ from createdAt
+          await new Promise(resolve => setTimeout(resolve, 5));
+
+          const updated = await storage.updateAccount('1234567890', {
+            balance: 15000,
+          });
+
+          expect(updated.balance).toBe(15000);
+          expect(updated.updatedAt.getTime()).toBeGreaterThan(updated.createdAt.getTime());
+        });
+
+        it('should update account PIN', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          const updated = await storage.updateAccount('1234567890', {
+            pin: '$2b$10$newhashedpin',
+          });
+
+          expect(updated.pin).toBe('$2b$10$newhashedpin');
+        });
+
+        it('should throw error when updating non-existent account', async () => {
+          await expect(
+            storage.updateAccount('9999999999', { balance: 10000 })
+          ).rejects.toThrow('not found');
+        });
+
+        it('should not allow changing account number', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          const updated = await storage.updateAccount('1234567890', {
+            accountNumber: '0987654321' as any, // Try to change it
+            balance: 15000,
+          });
+
+          // Account number should remain unchanged
+          expect(updated.accountNumber).toBe('1234567890');
+        });
+
+        it('should persist and clear failed-login lockout fields', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+          const lastFailedLoginAt = new Date('2024-01-15T10:00:00Z');
+          const lockedUntil = new Date('2024-01-15T10:15:00Z');
+
+          await storage.updateAccount('1234567890', {
+            failedLoginAttempts: 5,
+            lastFailedLoginAt,
+            isLocked: true,
+            lockedUntil,
+          });
+
+          const reopened = await fixture.open();
+          const locked = await reopened.getAccount('1234567890');
+          expect(locked?.failedLoginAttempts).toBe(5);
+          expect(locked?.lastFailedLoginAt).toEqual(lastFailedLoginAt);
+          expect(locked?.isLocked).toBe(true);
+          expect(locked?.lockedUntil).toEqual(lockedUntil);
+
+          await reopened.updateAccount('1234567890', {
+            failedLoginAttempts: 0,
+            lastFailedLoginAt: undefined,
+            isLocked: false,
+            lockedUntil: undefined,
+          });
+
+          const cleared = await (await fixture.open()).getAccount('1234567890');
+          expect(cleared?.failedLoginAttempts).toBe(0);
+          expect(cleared?.lastFailedLoginAt).toBeUndefined();
+          expect(cleared?.isLocked).toBe(false);
+          expect(cleared?.lockedUntil).toBeUndefined();
+        });
+
+        it('should persist and clear overdraft settings', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+            overdraftPolicy: OverdraftPolicy.LIMITED,
+            overdraftLimit: 25000,
+          });
+
+          const limited = await (await fixture.open()).getAccount('1234567890');
+          expect(limited?.overdraftPolicy).toBe(OverdraftPolicy.LIMITED);
+          expect(limited?.overdraftLimit).toBe(25000);
+
+          await storage.updateAccount('1234567890', {
+            overdraftPolicy: OverdraftPolicy.NONE,
+            overdraftLimit: undefined,
+          });
+
+          const none = await (await fixture.open()).getAccount('1234567890');
+          expect(none?.overdraftPolicy).toBe(OverdraftPolicy.NONE);
+          expect(none?.overdraftLimit).toBeUndefined();
+        });
+
+        it('should persist and clear transaction limit overrides', async () => {
+          const transactionLimits = {
+            [TransactionType.WITHDRAWAL]: { perTransaction: 50000, daily: null },
+          };
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+            transactionLimits,
+          });
+
+          const limited = await (await fixture.open()).getAccount('1234567890');
+          expect(limited?.transactionLimits).toEqual(transactionLimits);
+
+          await storage.updateAccount('1234567890', { transactionLimits: undefined });
+
+          const cleared = await (await fixture.open()).getAccount('1234567890');
+          expect(cleared?.transactionLimits).toBeUndefined();
+        });
+
+        it('should persist the amount held by pending holds', async () => {
+          await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+          await storage.updateAccount('1234567890', { heldAmount: 2500 });
+
+          const held = await (await fixture.open()).getAccount('1234567890');
+          expect(held?.heldAmount).toBe(2500);
+        });
+
+        it('should persist the account type and interest accruals', async () => {
+          await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+          await storage.updateAccount('1234567890', {
+            accountType: AccountType.SAVINGS,
+            accruedInterest: 12.345,
+            accruedOverdraftInterest: 0.5,
+            interestAccruedThrough: '2024-03-14',
+          });
+
+          const accrued = await (await fixture.open()).getAccount('1234567890');
+          expect(accrued).toMatchObject({
+            accountType: AccountType.SAVINGS,
+            accruedInterest: 12.345,
+            accruedOverdraftInterest: 0.5,
+            interestAccruedThrough: '2024-03-14',
+          });
+        });
+
+        it('should persist and clear fee waivers', async () => {
+          await storage.createAccount({ accountNumber: '1234567890', pin: '$2b$10$hashedpin', balance: 10000 });
+          await storage.updateAccount('1234567890', { feeWaivers: [FeeType.OVERDRAFT] });
+
+          const waived = await (await fixture.open()).getAccount('1234567890');
+          expect(waived?.feeWaivers).toEqual([FeeType.OVERDRAFT]);
+
+          await storage.updateAccount('1234567890', { feeWaivers: undefined });
+          const charged = await (await fixture.open()).getAccount('1234567890');
+          expect(charged?.feeWaivers).toBeUndefined();
+        });
+      });
+
+      describe('deleteAccount', () => {
+        it('should delete an existing account', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin',
+            balance: 10000,
+          });
+
+          const deleted = await storage.deleteAccount('1234567890');
+          expect(deleted).toBe(true);
+
+          const account = await storage.getAccount('1234567890');
+          expect(account).toBeNull();
+        });
+
+        it('should return false when deleting non-existent account', async () => {
+          const deleted = await storage.deleteAccount('9999999999');
+          expect(deleted).toBe(false);
+        });
+      });
+
+      describe('listAccounts', () => {
+        it('should return empty array when no accounts exist', async () => {
+          const accounts = await storage.listAccounts();
+          expect(accounts).toEqual([]);
+        });
+
+        it('should return all accounts', async () => {
+          await storage.createAccount({
+            accountNumber: '1234567890',
+            pin: '$2b$10$hashedpin1',
+            balance: 10000,
+          });
+
+          await storage.createAccount({
+            accountNumber: '0987654321',
+            pin: '$2b$10$hashedpin2',
+            balance: 20000,
+          });
+
+          const accounts = await storage.listAccounts();
+          expect(accounts).toHaveLength(2);
+          expect(accounts.map(a => a.accountNumber).sort()).toEqual([
+            '0987654321',
+            '1234567890',
+          ]);
+        });
+      });
+    });
+
+    describe('Transaction Operations', () => {
+      beforeEach(async () => {
+        // Create test account
+        await storage.createAccount({
+          accountNumber: '1234567890',
+          pin: '$2b$10$hashedpin',
+          balance: 10000,
+        });
+      });
+
+      describe('addTransaction', () => {
+        it('should add a transaction with ID and timestamp', async () => {
+          const transaction = await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.DEPOSIT,
+            amount: 5000,
+            balanceBefore: 10000,
+            balanceAfter: 15000,
+            status: TransactionStatus.COMPLETED,
+            description: 'Test deposit',
+          });
+
+          expect(transaction.id).toBeDefined();
+          expect(transaction.timestamp).toBeInstanceOf(Date);
+          expect(transaction.accountNumber).toBe('1234567890');
+          expect(transaction.type).toBe(TransactionType.DEPOSIT);
+          expect(transaction.amount).toBe(5000);
+        });
+
+        it('should generate unique IDs for transactions', async () => {
+          const txn1 = await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.DEPOSIT,
+            amount: 5000,
+            balanceBefore: 10000,
+            balanceAfter: 15000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          const txn2 = await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.WITHDRAWAL,
+            amount: 3000,
+            balanceBefore: 15000,
+            balanceAfter: 12000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          expect(txn1.id).not.toBe(txn2.id);
+        });
+      });
+
+      describe('getTransactionHistory', () => {
+        it('should return empty array when no transactions exist', async () => {
+          const history = await storage.getTransactionHistory('1234567890');
+          expect(history).toEqual([]);
+        });
+
+        it('should return transactions for specific account', async () => {
+          // Add transactions for first account
+          await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.DEPOSIT,
+            amount: 5000,
+            balanceBefore: 10000,
+            balanceAfter: 15000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.WITHDRAWAL,
+            amount: 3000,
+            balanceBefore: 15000,
+            balanceAfter: 12000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          // Create second account and add transaction
+          await storage.createAccount({
+            accountNumber: '0987654321',
+            pin: '$2b$10$hashedpin2',
+            balance: 20000,
+          });
+
+          await storage.addTransaction({
+            accountNumber: '0987654321',
+            type: TransactionType.DEPOSIT,
+            amount: 1000,
+            balanceBefore: 20000,
+            balanceAfter: 21000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          // Check first account history
+          const history1 = await storage.getTransactionHistory('1234567890');
+          expect(history1).toHaveLength(2);
+          expect(history1.every(t => t.accountNumber === '1234567890')).toBe(true);
+
+          // Check second account history
+          const history2 = await storage.getTransactionHistory('0987654321');
+          expect(history2).toHaveLength(1);
+          expect(history2[0].accountNumber).toBe('0987654321');
+        });
+
+        it('should return transactions in reverse chronological order', async () => {
+          // Add transactions with small delays to ensure different timestamps
+          await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.DEPOSIT,
+            amount: 1000,
+            balanceBefore: 10000,
+            balanceAfter: 11000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          await new Promise(resolve => setTimeout(resolve, 10)); // Small delay
+
+          await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.DEPOSIT,
+            amount: 2000,
+            balanceBefore: 11000,
+            balanceAfter: 13000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          await new Promise(resolve => setTimeout(resolve, 10)); // Small delay
+
+          await storage.addTransaction({
+            accountNumber: '1234567890',
+            type: TransactionType.DEPOSIT,
+            amount: 3000,
+            balanceBefore: 13000,
+            balanceAfter: 16000,
+            status: TransactionStatus.COMPLETED,
+          });
+
+          const history = await storage.getTransactionHistory('1234567890');
+        
+          // Most recent first
+          expect(history[0].amount).toBe(3000);
+          expect(history[1].amount).toBe(2000);
+          expect(history[2].amount).toBe(1000);
+        });
+
+        it('should respect limit parameter', async () => {
+          // Add multiple transactions
+          for (let i = 0; i < 5; i++) {
+            await storage.addTransaction({
+              accountNumber: '1234567890',
+              type: TransactionType.DEPOSIT,
+              amount: 1000 * (i + 1),
+              balanceBefore: 10000,
+              balanceAfter: 10000 + 1000 * (i + 1),
+              status: TransactionStatus.COMPLETED,
+            });
+          }
+
+          const history = await storage.getTransactionHistory('1234567890', 3);
+          expect(history).toHaveLength(3);
+        });
+      });
+    });
+
+    describe('Ledger Operations', () => {
+      const transfer = {
+        type: TransactionType.TRANSFER,
+        status: TransactionStatus.COMPLETED,
+        description: 'Rent',
+        postings: [
+          { accountNumber: '1234567890', amount: -2500, balanceBefore: 10000, balanceAfter: 7500 },
+          { accountNumber: '0987654321', amount: 2500, balanceBefore: 0, balanceAfter: 2500 },
+        ],
+      };
+
+      beforeEach(async () => {
+        await storage.createAccount({
+          accountNumber: '1234567890',
+          pin: '$2b$10$hashedpin',
+          balance: 10000,
+        });
+        await storage.createAccount({
+          accountNumber: '0987654321',
+          pin: '$2b$10$hashedpin2',
+          balance: 0,
+        });
+      });
+
+      it('should post a journal entry with IDs and timestamp', async () => {
+        const entry = await storage.postJournalEntry(transfer);
+
+        expect(entry.id).toBeDefined();
+        expect(entry.timestamp).toBeInstanceOf(Date);
+        expect(entry.postings).toHaveLength(2);
+        expect(entry.postings[0].id).not.toBe(entry.postings[1].id);
+
+        const reopened = await fixture.open();
+        expect(await reopened.getJournalEntries()).toEqual([entry]);
+      });
+
+      it('should keep the timestamp an entry is posted with', async () => {
+        const timestamp = new Date('2024-03-31T23:59:59.999Z');
+
+        const entry = await storage.postJournalEntry({ ...transfer, timestamp });
+
+        expect(entry.timestamp).toEqual(timestamp);
+        const reopened = await fixture.open();
+        expect((await reopened.getTransactionHistory('1234567890'))[0].timestamp).toEqual(timestamp);
+      });
+
+      it('should reject entries whose postings do not sum to zero', async () => {
+        await expect(
+          storage.postJournalEntry({
+            ...transfer,
+            postings: [transfer.postings[0], { ...transfer.postings[1], amount: 2000 }],
+          })
+        ).rejects.toThrow('Journal entry postings must sum to zero');
+
+        expect(await storage.getJournalEntries()).toEqual([]);
+      });
+
+      it('should filter journal entries by ledger account', async () => {
+        await storage.postJournalEntry(transfer);
+        await storage.addTransaction({
+          accountNumber: '1234567890',
+          type: TransactionType.DEPOSIT,
+          amount: 1000,
+          balanceBefore: 7500,
+          balanceAfter: 8500,
+          status: TransactionStatus.COMPLETED,
+        });
+
+        expect(await storage.getJournalEntries('1234567890')).toHaveLength(2);
+        expect(await storage.getJournalEntries('0987654321')).toHaveLength(1);
+        expect(await storage.getJournalEntries(SystemAccount.CASH)).toHaveLength(1);
+        expect(await storage.getJournalEntries('5555555555')).toEqual([]);
+      });
+
+      it('should balance single-sided transactions against cash', async () => {
+        const transaction = await storage.addTransaction({
+          accountNumber: '1234567890',
+          type: TransactionType.WITHDRAWAL,
+          amount: 1000,
+          balanceBefore: 10000,
+          balanceAfter: 9000,
+          status: TransactionStatus.COMPLETED,
+        });
+
+        const [entry] = await storage.getJournalEntries();
+        expect(entry.postings.map(p => [p.accountNumber, p.amount])).toEqual([
+          ['1234567890', -1000],
+          [SystemAccount.CASH, 1000],
+        ]);
+        expect(entry.postings[0].id).toBe(transaction.id);
+      });
+
+      it('should show each customer posting in that account history', async () => {
+        const entry = await storage.postJournalEntry(transfer);
+
+        const [source] = await storage.getTransactionHistory('1234567890');
+        const [destination] = await storage.getTransactionHistory('0987654321');
+
+        expect(source).toMatchObject({
+          id: entry.postings[0].id,
+          type: TransactionType.TRANSFER,
+          amount: 2500,
+          balanceBefore: 10000,
+          balanceAfter: 7500,
+          description: 'Rent',
+        });
+        expect(destination).toMatchObject({ id: entry.postings[1].id, amount: 2500, balanceAfter: 2500 });
+        expect(source.timestamp).toEqual(entry.timestamp);
+      });
+
+      it('should find an entry by its idempotency key', async () => {
+        const entry = await storage.postJournalEntry({
+          ...transfer,
+          idempotencyKey: 'rent-2024-01',
+          idempotencyScope: '1234567890',
+        });
+
+        const reopened = await fixture.open();
+        expect(await reopened.getJournalEntryByIdempotencyKey('1234567890', 'rent-2024-01')).toEqual(entry);
+        expect(await reopened.getJournalEntryByIdempotencyKey('1234567890', 'rent-2024-02')).toBeNull();
+        expect(await reopened.getJournalEntryByIdempotencyKey('0987654321', 'rent-2024-01')).toBeNull();
+        const [source] = await reopened.getTransactionHistory('1234567890');
+        expect(source.idempotencyKey).toBe('rent-2024-01');
+      });
+
+      it('should reject a second entry with the same idempotency key', async () => {
+        const keyed = { ...transfer, idempotencyKey: 'rent-2024-01', idempotencyScope: '1234567890' };
+        await storage.postJournalEntry(keyed);
+
+        await expect(storage.postJournalEntry(keyed)).rejects.toThrow('already been used');
+        expect(await storage.getJournalEntries()).toHaveLength(1);
+      });
+
+      it('should accept the same idempotency key in another scope', async () => {
+        await storage.postJournalEntry({ ...transfer, idempotencyKey: 'rent-2024-01', idempotencyScope: '1234567890' });
+        const other = await storage.postJournalEntry({
+          ...transfer,
+          idempotencyKey: 'rent-2024-01',
+          idempotencyScope: SystemAccount.FEES,
+        });
+
+        expect(await storage.getJournalEntryByIdempotencyKey(SystemAccount.FEES, 'rent-2024-01')).toEqual(other);
+        expect(await storage.getJournalEntries()).toHaveLength(2);
+      });
+
+      it('should reject an idempotency key without a scope', async () => {
+        await expect(storage.postJournalEntry({ ...transfer, idempotencyKey: 'rent-2024-01' })).rejects.toThrow(
+          'needs an idempotency scope'
+        );
+      });
+
+      it('should keep the expiry of a hold', async () => {
+        const expiresAt = new Date('2024-01-22T12:00:00.000Z');
+        const entry = await storage.postJournalEntry({
+          type: TransactionType.HOLD,
+          status: TransactionStatus.PENDING,
+          expiresAt,
+          postings: [
+            { accountNumber: '1234567890', amount: -2500, balanceBefore: 10000, balanceAfter: 10000 },
+            { accountNumber: SystemAccount.CASH, amount: 2500 },
+          ],
+        });
+
+        const reopened = await fixture.open();
+        expect(await reopened.getJournalEntries()).toEqual([entry]);
+        const [hold] = await reopened.getTransactionHistory('1234567890');
+        expect(hold).toMatchObject({ type: TransactionType.HOLD, status: TransactionStatus.PENDING, expiresAt });
+      });
+
+      it('should keep the transaction a fee was charged for', async () => {
+        const [source] = (await storage.postJournalEntry(transfer)).postings;
+        const entry = await storage.postJournalEntry({
+          type: TransactionType.FEE,
+          status: TransactionStatus.COMPLETED,
+          chargedFor: source.id,
+          postings: [
+            { accountNumber: '1234567890', amount: -500, balanceBefore: 7500, balanceAfter: 7000 },
+            { accountNumber: SystemAccount.FEES, amount: 500 },
+          ],
+        });
+
+        const reopened = await fixture.open();
+        expect((await reopened.getJournalEntries()).at(-1)).toEqual(entry);
+        expect(entry.chargedFor).toBe(source.id);
+      });
+
+      it('should update the status of a posted entry only', async () => {
+        const entry = await storage.postJournalEntry(transfer);
+
+        const updated = await storage.updateJournalEntryStatus(entry.id, TransactionStatus.REVERSED);
+
+        expect(updated).toEqual({ ...entry, status: TransactionStatus.REVERSED });
+        const reopened = await fixture.open();
+        expect(await reopened.getJournalEntries()).toEqual([updated]);
+        const [source] = await reopened.getTransactionHistory('1234567890');
+        expect(source.status).toBe(TransactionStatus.REVERSED);
+      });
+
+      it('should throw when updating the status of an unknown entry', async () => {
+        await expect(
+          storage.updateJournalEntryStatus('11111111-1111-4111-8111-111111111111', TransactionStatus.REVERSED)
+        ).rejects.toThrow('not found');
+      });
+
+      it('should persist the link from a reversal to what it undoes', async () => {
+        const entry = await storage.postJournalEntry(transfer);
+        const reversal = await storage.postJournalEntry({
+          type: TransactionType.REVERSAL,
+          status: TransactionStatus.COMPLETED,
+          postings: entry.postings.map((p) => ({
+            accountNumber: p.accountNumber,
+            amount: -p.amount,
+            balanceBefore: p.balanceAfter,
+            balanceAfter: p.balanceBefore,
+            reversalOf: p.id,
+          })),
+        });
+
+        const reopened = await fixture.open();
+        const [undo] = (await reopened.getTransactionHistory('1234567890')).filter(
+          (t) => t.type === TransactionType.REVERSAL
+        );
+        expect(undo).toMatchObject({ id: reversal.postings[0].id, reversalOf: entry.postings[0].id });
+      });
+    });
+
+    describe('Schedule Operations', () => {
+      const standingOrder = {
+        accountNumber: '1234567890',
+        type: TransactionType.TRANSFER,
+        toAccountNumber: '0000012345',
+        amount: 2500,
+        description: 'Rent',
+        every: 1,
+        unit: ScheduleUnit.MONTH,
+        startAt: new Date('2024-01-31T09:00:00Z'),
+        endAt: new Date('2024-12-31T09:00:00Z'),
+      } as const;
+
+      it('should add a schedule and persist it', async () => {
+        const schedule = await storage.addSchedule(standingOrder);
+
+        const reopened = await fixture.open();
+        expect(await reopened.getSchedule(schedule.id)).toEqual(schedule);
+        expect(schedule).toMatchObject({ ...standingOrder, runCount: 0, active: true });
+      });
+
+      it('should list schedules from or to an account in creation order', async () => {
+        const first = await storage.addSchedule(standingOrder);
+        const second = await storage.addSchedule({
+          ...standingOrder,
+          type: TransactionType.DEPOSIT,
+          accountNumber: '0000012345',
+          toAccountNumber: undefined,
+        });
+        await storage.addSchedule({ ...standingOrder, accountNumber: '5555555555', toAccountNumber: '6666666666' });
+
+        expect((await storage.listSchedules()).length).toBe(3);
+        expect((await storage.listSchedules('0000012345')).map((s) => s.id)).toEqual([first.id, second.id]);
+        expect(await storage.getSchedule('11111111-1111-4111-8111-111111111111')).toBeNull();
+      });
+
+      it('should update progress and cancellation', async () => {
+        const schedule = await storage.addSchedule(standingOrder);
+
+        await storage.updateSchedule(schedule.id, { runCount: 3 });
+        await storage.updateSchedule(schedule.id, { active: false });
+
+        const reopened = await fixture.open();
+        expect(await reopened.getSchedule(schedule.id)).toMatchObject({ runCount: 3, active: false });
+        await expect(
+          storage.updateSchedule('11111111-1111-4111-8111-111111111111', { active: false })
+        ).rejects.toThrow('not found');
+      });
+
+      it('should record runs and filter them by schedule', async () => {
+        const schedule = await storage.addSchedule(standingOrder);
+        const other = await storage.addSchedule(standingOrder);
+        const completed = await storage.addScheduleRun({
+          scheduleId: schedule.id,
+          dueAt: new Date('2024-01-31T09:00:00Z'),
+          ranAt: new Date('2024-02-01T00:00:00Z'),
+          status: TransactionStatus.COMPLETED,
+          transactionId: '22222222-2222-4222-8222-222222222222',
+        });
+        await storage.addScheduleRun({
+          scheduleId: other.id,
+          dueAt: new Date('2024-01-31T09:00:00Z'),
+          ranAt: new Date('2024-02-01T00:00:00Z'),
+          status: TransactionStatus.COMPLETED,
+          transactionId: '33333333-3333-4333-8333-333333333333',
+        });
+        const failed = await storage.addScheduleRun({
+          scheduleId: schedule.id,
+          dueAt: new Date('2024-02-29T09:00:00Z'),
+          ranAt: new Date('2024-03-01T00:00:00Z'),
+          status: TransactionStatus.FAILED,
+          errorCode: 'OVERDRAFT_LIMIT_EXCEEDED',
+          error: 'Insufficient funds',
+        });
+
+        const reopened = await fixture.open();
+        expect(await reopened.getScheduleRuns(schedule.id)).toEqual([completed, failed]);
+        expect(await reopened.getScheduleRuns()).toHaveLength(3);
+      });
+
+      it('should discard schedule writes when a unit of work fails', async () => {
+        await expect(
+          storage.runInTransaction(async (tx) => {
+            await tx.addSchedule(standingOrder);
+            throw new Error('Simulated failure');
+          })
+        ).rejects.toThrow('Simulated failure');
+
+        expect(await storage.listSchedules()).toEqual([]);
+      });
+    });
+
+    describe('Statement Operations', () => {
+      const statement = {
+        accountNumber: '1234567890',
+        period: '2024-03',
+        openingBalance: 10000,
+        closingBalance: 7500,
+        transactions: [
+          {
+            id: '44444444-4444-4444-8444-444444444444',
+            accountNumber: '1234567890',
+            type: TransactionType.WITHDRAWAL,
+            amount: 2500,
+            balanceBefore: 10000,
+            balanceAfter: 7500,
+            timestamp: new Date('2024-03-15T12:00:00Z'),
+            status: TransactionStatus.COMPLETED,
+            description: 'Cash',
+          },
+        ],
+        totals: [{ type: TransactionType.WITHDRAWAL, count: 1, credits: 0, debits: 2500 }],
+        closed: true,
+        generatedAt: new Date('2024-04-01T08:00:00Z'),
+      };
+
+      it('should save a statement and persist it with its transactions', async () => {
+        await storage.saveStatement(statement);
+
+        const reopened = await fixture.open();
+        expect(await reopened.getStatement('1234567890', '2024-03')).toEqual(statement);
+        expect(await reopened.getStatement('1234567890', '2024-04')).toBeNull();
+        expect(await reopened.getStatement('0000012345', '2024-03')).toBeNull();
+      });
+
+      it('should refuse to replace a saved statement', async () => {
+        await storage.saveStatement(statement);
+
+        await expect(storage.saveStatement({ ...statement, closingBalance: 0 })).rejects.toThrow('already exists');
+        expect(await storage.getStatement('1234567890', '2024-03')).toMatchObject({ closingBalance: 7500 });
+      });
+
+      it('should discard statement writes when a unit of work fails', async () => {
+        await expect(
+          storage.runInTransaction(async (tx) => {
+            await tx.saveStatement(statement);
+            throw new Error('Simulated failure');
+          })
+        ).rejects.toThrow('Simulated failure');
+
+        expect(await storage.getStatement('1234567890', '2024-03')).toBeNull();
+      });
+    });
+
+    describe('Account Locking', () => {
+      it('should lock and unlock an account', async () => {
+        const locked = await storage.lockAccount('1234567890');
+        expect(locked).toBe(true);
+
+        const unlocked = await storage.unlockAccount('1234567890');
+        expect(unlocked).toBe(true);
+      });
+
+      it('should not allow locking already locked account', async () => {
+        const locked1 = await storage.lockAccount('1234567890');
+        expect(locked1).toBe(true);
+
+        const locked2 = await storage.lockAccount('1234567890');
+        expect(locked2).toBe(false);
+      });
+
+      it('should return false when unlocking non-locked account', async () => {
+        const unlocked = await storage.unlockAccount('1234567890');
+        expect(unlocked).toBe(false);
+      });
+
+      it('should allow locking after unlocking', async () => {
+        await storage.lockAccount('1234567890');
+        await storage.unlockAccount('1234567890');
+
+        const locked = await storage.lockAccount('1234567890');
+        expect(locked).toBe(true);
+      });
+    });
+
+    describe('Unit of Work', () => {
+      const deposit = {
+        accountNumber: '1234567890',
+        type: TransactionType.DEPOSIT,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 15000,
+        status: TransactionStatus.COMPLETED,
+      };
+
+      beforeEach(async () => {
+        await storage.createAccount({
+          accountNumber: '1234567890',
+          pin: '$2b$10$hashedpin',
+          balance: 10000,
+        });
+      });
+
+      it('should commit account and transaction writes together', async () => {
+        await storage.runInTransaction(async tx => {
+          await tx.addTransaction(deposit);
+          await tx.updateAccount('1234567890', { balance: 15000 });
+        });
+
+        const reopened = await fixture.open();
+        expect((await reopened.getAccount('1234567890'))?.balance).toBe(15000);
+        expect(await reopened.getTransactionHistory('1234567890')).toHaveLength(1);
+      });
+
+      it('should let reads inside the unit of work see its own writes', async () => {
+        const balance = await storage.runInTransaction(async tx => {
+          await tx.updateAccount('1234567890', { balance: 15000 });
+          return (await tx.getAccount('1234567890'))?.balance;
+        });
+
+        expect(balance).toBe(15000);
+      });
+
+      it('should return the value resolved by the callback', async () => {
+        const result = await storage.runInTransaction(async () => 'done');
+        expect(result).toBe('done');
+      });
+
+      it('should discard all writes when the callback throws', async () => {
+        await expect(
+          storage.runInTransaction(async tx => {
+            await tx.addTransaction(deposit);
+            await tx.updateAccount('1234567890', { balance: 15000 });
+            await tx.createAccount({
+              accountNumber: '0987654321',
+              pin: '$2b$10$hashedpin2',
+              balance: 0,
+            });
+            throw new Error('Business rule violated');
+          })
+        ).rejects.toThrow('Business rule violated');
+
+        expect((await storage.getAccount('1234567890'))?.balance).toBe(10000);
+        expect(await storage.getAccount('0987654321')).toBeNull();
+        expect(await storage.getTransactionHistory('1234567890')).toHaveLength(0);
+
+        const reopened = await fixture.open();
+        expect((await reopened.getAccount('1234567890'))?.balance).toBe(10000);
+        expect(await reopened.getTransactionHistory('1234567890')).toHaveLength(0);
+      });
+
+      it('should not show uncommitted writes to reads outside the unit of work', async () => {
+        let outside: [number | undefined, number] | undefined;
+
+        await expect(
+          storage.runInTransaction(async tx => {
+            await tx.addTransaction(deposit);
+            await tx.updateAccount('1234567890', { balance: 15000 });
+            // Another session reading while the unit of work is open
+            outside = [
+              (await storage.getAccount('1234567890'))?.balance,
+              (await storage.getTransactionHistory('1234567890')).length,
+            ];
+            throw new Error('Business rule violated');
+          })
+        ).rejects.toThrow('Business rule violated');
+
+        expect(outside).toEqual([10000, 0]);
+        expect((await storage.getAccount('1234567890'))?.balance).toBe(10000);
+      });
+
+      it('should join an enclosing unit of work when nested', async () => {
+        await expect(
+          storage.runInTransaction(async tx => {
+            await tx.runInTransaction(async inner => {
+              await inner.updateAccount('1234567890', { balance: 15000 });
+            });
+            throw new Error('Outer failure');
+          })
+        ).rejects.toThrow('Outer failure');
+
+        expect((await storage.getAccount('1234567890'))?.balance).toBe(10000);
+      });
+
+      it('should serialize concurrent units of work', async () => {
+        const service = new TransactionService(storage);
+
+        await Promise.all([
+          service.deposit('1234567890', 1000),
+          service.deposit('1234567890', 2000),
+          service.withdraw('1234567890', 500),
+        ]);
+
+        const reopened = await fixture.open();
+        expect((await reopened.getAccount('1234567890'))?.balance).toBe(12500);
+        expect(await reopened.getTransactionHistory('1234567890')).toHaveLength(3);
+      });
+    });
+
+    describe('Data Persistence', () => {
+      it('should persist accounts across storage instances', async () => {
+        // Create account with first storage instance
+        await storage.createAccount({
+          accountNumber: '1234567890',
+          pin: '$2b$10$hashedpin',
+          balance: 10000,
+        });
+
+        // Open a second storage instance on the same data
+        const storage2 = await fixture.open();
+
+        // Retrieve account with second instance
+        const account = await storage2.getAccount('1234567890');
+        expect(account).not.toBeNull();
+        expect(account?.balance).toBe(10000);
+      });
+
+      it('should persist transactions across storage instances', async () => {
+        // Create account and transaction
+        await storage.createAccount({
+          accountNumber: '1234567890',
+          pin: '$2b$10$hashedpin',
+          balance: 10000,
+        });
+
+        await storage.addTransaction({
+          accountNumber: '1234567890',
+          type: TransactionType.DEPOSIT,
+          amount: 5000,
+          balanceBefore: 10000,
+          balanceAfter: 15000,
+          status: TransactionStatus.COMPLETED,
+        });
+
+        // Open a second storage instance on the same data
+        const storage2 = await fixture.open();
+
+        // Retrieve transaction history
+        const history = await storage2.getTransactionHistory('1234567890');
+        expect(history).toHaveLength(1);
+        expect(history[0].amount).toBe(5000);
+      });
+    });
+  });
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from '@jest/globals';
+import { toCsv, statementToCsv, transactionsToCsv, parseCsv, parseTransactionsCsv } from '../../src/utils/csv';
+import { toFitId } from '../../src/utils/export';
+import { Statement } from '../../src/models/Statement';
+import { TransactionType, TransactionStatus, signedAmount } from '../../src/models/Transaction';
+import { sampleExport, localDate, readSample } from './fixtures/history';
+
+describe('toCsv', () => {
+  it('should write one line per row', () => {
+    expect(toCsv([['a', 'b'], ['1', '2']])).toBe('a,b\n1,2\n');
+  });
+
+  it('should quote fields holding commas, quotes or line breaks', () => {
+    expect(toCsv([['Rent, March', 'say "hi"', 'two\nlines', 'plain']])).toBe(
+      '"Rent, March","say ""hi""","two\nlines",plain\n'
+    );
+  });
+});
+
+describe('statementToCsv', () => {
+  const statement: Statement = {
+    accountNumber: '0000012345',
+    period: '2024-02',
+    openingBalance: 10000,
+    closingBalance: 12050,
+    transactions: [
+      {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 5000,
+        balanceBefore: 10000,
+        balanceAfter: 15000,
+        timestamp: new Date(2024, 1, 3, 9, 0, 0),
+        status: TransactionStatus.COMPLETED,
+        description: 'Salary, February',
+      },
+      {
+        id: '223e4567-e89b-12d3-a456-426614174000',
+        accountNumber: '0000012345',
+        type: TransactionType.WITHDRAWAL,
+        amount: 2950,
+        balanceBefore: 15000,
+        balanceAfter: 12050,
+        timestamp: new Date(2024, 1, 10, 18, 5, 0),
+        status: TransactionStatus.COMPLETED,
+      },
+    ],
+    totals: [
+      { type: TransactionType.DEPOSIT, count: 1, credits: 5000, debits: 0 },
+      { type: TransactionType.WITHDRAWAL, count: 1, credits: 0, debits: 2950 },
+    ],
+    closed: true,
+    generatedAt: new Date(2024, 2, 1),
+  };
+
+  it('should write the opening, transaction, total and closing rows', () => {
+    expect(statementToCsv(statement).split('\n')).toEqual([
+      'record,date,type,id,description,count,credit,debit,balance',
+      'opening,2024-02-01,,,,,,,100.00',
+      'transaction,2024-02-03 09:00:00,deposit,123e4567-e89b-12d3-a456-426614174000,"Salary, February",,50.00,,150.00',
+      'transaction,2024-02-10 18:05:00,withdrawal,223e4567-e89b-12d3-a456-426614174000,,,,29.50,120.50',
+      'total,,deposit,,,1,50.00,0.00,',
+      'total,,withdrawal,,,1,0.00,29.50,',
+      'closing,2024-02-29,,,,,,,120.50',
+      '',
+    ]);
+  });
+
+  it('should write negative balances with a minus sign', () => {
+    const overdrawn = { ...statement, openingBalance: -1250, transactions: [], totals: [], closingBalance: -1250 };
+
+    expect(statementToCsv(overdrawn)).toContain('opening,2024-02-01,,,,,,,-12.50');
+  });
+
+  it('should keep descriptions from being read as formulas', () => {
+    const [deposit] = statement.transactions;
+    const crafted = { ...statement, transactions: [{ ...deposit, description: '=1+1' }] };
+
+    expect(statementToCsv(crafted)).toContain(",'=1+1,");
+  });
+});
+
+describe('parseCsv', () => {
+  it('should undo the quoting of toCsv', () => {
+    const rows = [['Rent, March', 'say "hi"', 'two\nlines', ''], ['plain', '', '', 'x']];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('should accept CRLF line breaks and skip blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('a,"b\n')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('transactionsToCsv', () => {
+  it('should match the sample file', () => {
+    expect(transactionsToCsv(sampleExport(localDate))).toBe(readSample('history.csv'));
+  });
+
+  it('should keep descriptions from being read as formulas', () => {
+    const data = sampleExport(localDate);
+    const descriptions = ['=HYPERLINK("http://evil")', '+1', '-2', '@SUM(A1)', "'quoted'", 'Payroll - March'];
+    const csv = transactionsToCsv({
+      ...data,
+      transactions: descriptions.map(description => ({ ...data.transactions[0], description })),
+    });
+
+    expect(parseCsv(csv).slice(1).map(row => row[4])).toEqual([
+      `'=HYPERLINK("http://evil")`,
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+      "''quoted'",
+      'Payroll - March',
+    ]);
+    expect(parseTransactionsCsv(csv).map(t => t.description)).toEqual(descriptions);
+  });
+});
+
+describe('parseTransactionsCsv', () => {
+  it('should read the sample file', () => {
+    const parsed = parseTransactionsCsv(readSample('history.csv'));
+
+    expect(parsed).toHaveLength(8);
+    expect(parsed[2]).toEqual({
+      fitId: '0B7E1C9A3F2D4E5A9C1B2A3D4E5F6A03',
+      date: new Date(2024, 2, 10, 12, 0),
+      type: 'transfer',
+      amount: -1000,
+      description: 'Rent & "utilities"',
+    });
+  });
+
+  it('should read back what it writes', () => {
+    const data = sampleExport(localDate);
+
+    expect(parseTransactionsCsv(transactionsToCsv(data))).toEqual(
+      data.transactions.map(t => ({
+        fitId: toFitId(t.id),
+        date: t.timestamp,
+        type: t.type,
+        amount: signedAmount(t),
+        ...(t.description !== undefined && { description: t.description }),
+      }))
+    );
+  });
+
+  it('should reject a file with other columns', () => {
+    expect(() => parseTransactionsCsv('date,amount\n2024-03-01,1.00\n')).toThrow('Expected the columns');
+  });
+
+  it('should reject a row with an invalid amount', () => {
+    const csv = readSample('history.csv').replace('-29.50', 'lots');
+
+    expect(() => parseTransactionsCsv(csv)).toThrow('Invalid transaction on row 3');
+  });
+});
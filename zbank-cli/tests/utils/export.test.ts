@@ -0,0 +1,110 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildExport,
+  toFitId,
+  fromFitId,
+  formatDecimal,
+  parseDecimal,
+  isExportFormat,
+} from '../../src/utils/export';
+import { AccountType } from '../../src/models/Account';
+import { Transaction, TransactionType, TransactionStatus } from '../../src/models/Transaction';
+import { sampleTransactions, localDate } from './fixtures/history';
+
+describe('buildExport', () => {
+  const account = { accountNumber: '0000012345', accountType: AccountType.CHECKING, balance: 11904 };
+  const history = sampleTransactions(localDate);
+  const generatedAt = new Date(2024, 3, 1);
+
+  it('should export the transactions in the range oldest first', () => {
+    // Most recent first, like storage returns it
+    const newestFirst = [...history].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    const data = buildExport(account, newestFirst, { from: '2024-03-05', to: '2024-03-12' }, generatedAt);
+
+    expect(data.transactions.map(t => t.type)).toEqual([
+      TransactionType.WITHDRAWAL,
+      TransactionType.TRANSFER,
+      TransactionType.FEE,
+      TransactionType.REVERSAL,
+    ]);
+    expect(data.from).toBe('2024-03-05');
+    expect(data.to).toBe('2024-03-12');
+    expect(data.closingBalance).toBe(11900);
+    expect(data.generatedAt).toBe(generatedAt);
+  });
+
+  it('should start at the first transaction when no start date is given', () => {
+    const data = buildExport(account, history, { to: '2024-03-31' });
+
+    expect(data.from).toBe('2024-03-01');
+    expect(data.transactions).toHaveLength(history.length);
+    expect(data.closingBalance).toBe(11904);
+  });
+
+  it('should leave holds out', () => {
+    const hold: Transaction = {
+      id: '0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a99',
+      accountNumber: '0000012345',
+      type: TransactionType.HOLD,
+      amount: 2000,
+      balanceBefore: 11904,
+      balanceAfter: 11904,
+      timestamp: localDate(3, 20, 10, 0),
+      status: TransactionStatus.PENDING,
+    };
+
+    const data = buildExport(account, [...history, hold], { to: '2024-03-31' });
+
+    expect(data.transactions).not.toContainEqual(hold);
+  });
+
+  it('should close a range before the first transaction at its opening balance', () => {
+    const data = buildExport(account, history, { from: '2024-02-01', to: '2024-02-29' });
+
+    expect(data.transactions).toEqual([]);
+    expect(data.closingBalance).toBe(10000);
+  });
+
+  it('should use the account balance when there are no transactions', () => {
+    const data = buildExport({ accountNumber: '0000012345', balance: 500 }, [], { to: '2024-03-31' });
+
+    expect(data.from).toBe('2024-03-31');
+    expect(data.accountType).toBe(AccountType.CHECKING);
+    expect(data.closingBalance).toBe(500);
+  });
+});
+
+describe('FITIDs', () => {
+  it('should be the transaction UUID without dashes, upper case', () => {
+    expect(toFitId('0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a01')).toBe('0B7E1C9A3F2D4E5A9C1B2A3D4E5F6A01');
+  });
+
+  it('should map back to the transaction ID', () => {
+    expect(fromFitId('0B7E1C9A3F2D4E5A9C1B2A3D4E5F6A01')).toBe('0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a01');
+    expect(fromFitId('12345')).toBeNull();
+  });
+});
+
+describe('decimal amounts', () => {
+  it('should format cents as signed dollars', () => {
+    expect(formatDecimal(-1250)).toBe('-12.50');
+    expect(formatDecimal(3)).toBe('0.03');
+  });
+
+  it('should parse dollars into cents', () => {
+    expect(parseDecimal('-12.50')).toBe(-1250);
+    expect(parseDecimal('+3')).toBe(300);
+    expect(parseDecimal('1,234.56')).toBe(123456);
+    expect(Object.is(parseDecimal('-0.00'), 0)).toBe(true);
+    expect(parseDecimal('12.5.0')).toBeNull();
+    expect(parseDecimal('')).toBeNull();
+  });
+});
+
+describe('isExportFormat', () => {
+  it('should accept the export formats only', () => {
+    expect(isExportFormat('ofx')).toBe(true);
+    expect(isExportFormat('xlsx')).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { AccountType } from '../../../src/models/Account';
+import { Transaction, TransactionType, TransactionStatus } from '../../../src/models/Transaction';
+import { TransactionExport } from '../../../src/utils/export';
+
+/**
+ * Sample transaction history shared by the export tests
+ *
+ * history.csv, history.ofx and history.qif are this history exported in each
+ * format. CSV and QIF write local times, so their tests build the sample with
+ * localDate(); OFX writes UTC, so its test uses utcDate().
+ */
+
+type DateFactory = (month: number, day: number, hours: number, minutes: number) => Date;
+
+export const localDate: DateFactory = (month, day, hours, minutes) => new Date(2024, month - 1, day, hours, minutes);
+
+export const utcDate: DateFactory = (month, day, hours, minutes) =>
+  new Date(Date.UTC(2024, month - 1, day, hours, minutes));
+
+// [id, type, amount, balanceBefore, balanceAfter, [month, day, hours, minutes], description]
+const SAMPLE: Array<[string, TransactionType, number, number, number, [number, number, number, number], string?]> = [
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a01', TransactionType.DEPOSIT, 5000, 10000, 15000, [3, 1, 9, 0], 'Salary, March'],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a02', TransactionType.WITHDRAWAL, 2950, 15000, 12050, [3, 5, 18, 5]],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a03', TransactionType.TRANSFER, 1000, 12050, 11050, [3, 10, 12, 0], 'Rent & "utilities"'],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a04', TransactionType.FEE, 150, 11050, 10900, [3, 10, 12, 0], 'Transfer fee'],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a05', TransactionType.REVERSAL, 1000, 10900, 11900, [3, 12, 8, 30]],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a06', TransactionType.ADJUSTMENT, 5, 11900, 11895, [3, 15, 2, 0], 'Integrity correction'],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a07', TransactionType.OVERDRAFT_INTEREST, 3, 11895, 11892, [3, 31, 22, 0]],
+  ['0b7e1c9a-3f2d-4e5a-9c1b-2a3d4e5f6a08', TransactionType.INTEREST, 12, 11892, 11904, [3, 31, 22, 0]],
+];
+
+export function sampleTransactions(date: DateFactory): Transaction[] {
+  return SAMPLE.map(([id, type, amount, balanceBefore, balanceAfter, [month, day, hours, minutes], description]) => ({
+    id,
+    accountNumber: '0000012345',
+    type,
+    amount,
+    balanceBefore,
+    balanceAfter,
+    timestamp: date(month, day, hours, minutes),
+    status: TransactionStatus.COMPLETED,
+    ...(description !== undefined && { description }),
+  }));
+}
+
+export function sampleExport(date: DateFactory): TransactionExport {
+  return {
+    accountNumber: '0000012345',
+    accountType: AccountType.CHECKING,
+    from: '2024-03-01',
+    to: '2024-03-31',
+    transactions: sampleTransactions(date),
+    closingBalance: 11904,
+    generatedAt: date(4, 1, 8, 0),
+  };
+}
+
+/**
+ * Read a sample file from this directory
+ */
+export function readSample(name: string): string {
+  return readFileSync(path.join(process.cwd(), 'tests', 'utils', 'fixtures', name), 'utf8');
+}
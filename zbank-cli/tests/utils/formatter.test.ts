@@ -5,8 +5,10 @@ import {
   formatTimestamp,
   parseCurrency,
   formatAccountNumber,
+  formatStatement,
 } from '../../src/utils/formatter.js';
 import { Transaction, TransactionType, TransactionStatus } from '../../src/models/Transaction.js';
+import { Statement } from '../../src/models/Statement.js';
 
 describe('Formatter Utilities', () => {
   describe('formatBalance', () => {
@@ -145,6 +147,129 @@ describe('Formatter Utilities', () => {
       expect(formatted).toContain('TRANSFER');
       expect(formatted).toContain('$20.00');
     });
+
+    it('should format adjustment transaction', () => {
+      const transaction: Transaction = {
+        id: 'txn-adj',
+        accountNumber: '0000012345',
+        type: TransactionType.ADJUSTMENT,
+        amount: 500,
+        balanceBefore: 9500,
+        balanceAfter: 10000,
+        timestamp: new Date('2024-01-15T14:30:45.000Z'),
+        status: TransactionStatus.COMPLETED,
+      };
+
+      expect(formatTransaction(transaction)).toContain('ADJUSTMENT');
+    });
+
+    it('should tag a reversed transaction and its reversal with the same ID', () => {
+      const original: Transaction = {
+        id: '1a2b3c4d-1111-4111-8111-111111111111',
+        accountNumber: '0000012345',
+        type: TransactionType.DEPOSIT,
+        amount: 500,
+        balanceBefore: 10000,
+        balanceAfter: 10500,
+        timestamp: new Date('2024-01-15T14:30:45.000Z'),
+        status: TransactionStatus.REVERSED,
+      };
+      const reversal: Transaction = {
+        ...original,
+        id: '22222222-2222-4222-8222-222222222222',
+        type: TransactionType.REVERSAL,
+        balanceBefore: 10500,
+        balanceAfter: 10000,
+        status: TransactionStatus.COMPLETED,
+        reversalOf: original.id,
+      };
+
+      expect(formatTransaction(original)).toMatch(/\| Reversed #1a2b3c4d$/);
+      expect(formatTransaction(reversal)).toContain('REVERSAL');
+      expect(formatTransaction(reversal)).toMatch(/\| Reversal of #1a2b3c4d$/);
+    });
+
+    it('should show where a hold stands', () => {
+      const hold: Transaction = {
+        id: '1a2b3c4d-1111-4111-8111-111111111111',
+        accountNumber: '0000012345',
+        type: TransactionType.HOLD,
+        amount: 500,
+        balanceBefore: 10000,
+        balanceAfter: 10000,
+        timestamp: new Date('2024-01-15T14:30:45.000Z'),
+        status: TransactionStatus.PENDING,
+      };
+
+      expect(formatTransaction(hold)).toMatch(/HOLD .*\| Pending$/);
+      expect(formatTransaction({ ...hold, status: TransactionStatus.COMPLETED })).toMatch(/\| Settled$/);
+      expect(formatTransaction({ ...hold, status: TransactionStatus.FAILED })).toMatch(/\| Expired$/);
+    });
+
+    it('should label interest paid and charged', () => {
+      const interest: Transaction = {
+        id: '1a2b3c4d-1111-4111-8111-111111111111',
+        accountNumber: '0000012345',
+        type: TransactionType.INTEREST,
+        amount: 42,
+        balanceBefore: 10000,
+        balanceAfter: 10042,
+        timestamp: new Date('2024-01-31T23:00:00.000Z'),
+        status: TransactionStatus.COMPLETED,
+      };
+
+      expect(formatTransaction(interest)).toContain('| INTEREST   |');
+      expect(
+        formatTransaction({ ...interest, type: TransactionType.OVERDRAFT_INTEREST, balanceAfter: 9958 })
+      ).toContain('| INT CHARGE |');
+      expect(formatTransaction({ ...interest, type: TransactionType.FEE, balanceAfter: 9958 })).toContain(
+        '| FEE        |'
+      );
+    });
+  });
+
+  describe('formatStatement', () => {
+    const withdrawal: Transaction = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      accountNumber: '0000012345',
+      type: TransactionType.WITHDRAWAL,
+      amount: 2500,
+      balanceBefore: 10000,
+      balanceAfter: 7500,
+      timestamp: new Date(2024, 2, 15, 14, 30, 45),
+      status: TransactionStatus.COMPLETED,
+    };
+    const statement: Statement = {
+      accountNumber: '0000012345',
+      period: '2024-03',
+      openingBalance: 10000,
+      closingBalance: 7500,
+      transactions: [withdrawal],
+      totals: [{ type: TransactionType.WITHDRAWAL, count: 1, credits: 0, debits: 2500 }],
+      closed: true,
+      generatedAt: new Date(2024, 3, 1),
+    };
+
+    it('should list the balances, transactions and totals', () => {
+      expect(formatStatement(statement)).toEqual([
+        'Statement for 0000012345, 2024-03 (closed)',
+        'Opening balance: $100.00',
+        '2024-03-15 14:30:45 | WITHDRAWAL | $25.00 | Balance: $75.00',
+        'Total WITHDRAWAL | 1 | In: $0.00 | Out: $25.00',
+        'Closing balance: $75.00',
+      ]);
+    });
+
+    it('should say when a month had no transactions', () => {
+      const quiet = { ...statement, closingBalance: 10000, transactions: [], totals: [], closed: false };
+
+      expect(formatStatement(quiet)).toEqual([
+        'Statement for 0000012345, 2024-03 (in progress)',
+        'Opening balance: $100.00',
+        'No transactions this month',
+        'Closing balance: $100.00',
+      ]);
+    });
   });
 
   describe('parseCurrency', () => {
@@ -0,0 +1,151 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  JSON_OUTPUT_VERSION,
+  toJsonDocument,
+  toJsonError,
+  authResultToJson,
+  transactionResultToJson,
+  formatJson,
+} from '../../src/utils/json-formatter';
+import { Account } from '../../src/models/Account';
+import { Transaction, TransactionType, TransactionStatus } from '../../src/models/Transaction';
+import { AuthErrorCode } from '../../src/services/AuthService';
+import { TransactionErrorCode } from '../../src/services/TransactionService';
+
+describe('JSON Formatter Utilities', () => {
+  const account: Account = {
+    accountNumber: '0000012345',
+    pin: '$2b$10$hashedpin',
+    balance: 10000,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T11:00:00Z'),
+  };
+
+  const transaction: Transaction = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    accountNumber: '0000012345',
+    type: TransactionType.DEPOSIT,
+    amount: 5000,
+    balanceBefore: 5000,
+    balanceAfter: 10000,
+    timestamp: new Date('2024-01-15T10:30:00Z'),
+    status: TransactionStatus.COMPLETED,
+  };
+
+  describe('toJsonDocument', () => {
+    it('should wrap data with version and kind', () => {
+      const document = toJsonDocument('account', account);
+
+      expect(document.version).toBe(JSON_OUTPUT_VERSION);
+      expect(document.kind).toBe('account');
+      expect(document.data.accountNumber).toBe('0000012345');
+    });
+
+    it('should never include the PIN hash', () => {
+      const document = toJsonDocument('account', account);
+
+      expect(document.data).not.toHaveProperty('pin');
+      expect(formatJson(document)).not.toContain('hashedpin');
+    });
+
+    it('should include fields added to the model schemas', () => {
+      const document = toJsonDocument('account', {
+        ...account,
+        failedLoginAttempts: 2,
+        lockedUntil: new Date('2024-01-15T12:00:00Z'),
+      });
+
+      expect(document.data.failedLoginAttempts).toBe(2);
+    });
+
+    it('should reject data that does not match the schema', () => {
+      expect(() => toJsonDocument('account', { ...account, balance: 1.5 })).toThrow();
+    });
+
+    it('should wrap transaction lists', () => {
+      const document = toJsonDocument('transactionList', {
+        accountNumber: '0000012345',
+        transactions: [transaction],
+      });
+
+      expect(document.data.transactions).toHaveLength(1);
+    });
+  });
+
+  describe('formatJson', () => {
+    it('should serialize dates as ISO 8601 strings and amounts as cents', () => {
+      const parsed = JSON.parse(formatJson(toJsonDocument('transaction', transaction)));
+
+      expect(parsed).toEqual({
+        version: 1,
+        kind: 'transaction',
+        data: {
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          accountNumber: '0000012345',
+          type: 'deposit',
+          amount: 5000,
+          balanceBefore: 5000,
+          balanceAfter: 10000,
+          timestamp: '2024-01-15T10:30:00.000Z',
+          status: 'completed',
+        },
+      });
+    });
+  });
+
+  describe('toJsonError', () => {
+    it('should build an error document with a code and message', () => {
+      expect(toJsonError('USAGE_ERROR', 'Missing --amount')).toEqual({
+        version: 1,
+        kind: 'error',
+        data: { code: 'USAGE_ERROR', message: 'Missing --amount' },
+      });
+    });
+  });
+
+  describe('authResultToJson', () => {
+    it('should turn the error into a structured error', () => {
+      const document = authResultToJson({
+        success: false,
+        error: 'Account locked after too many failed attempts',
+        errorCode: AuthErrorCode.ACCOUNT_LOCKED,
+        lockedUntil: new Date('2024-01-15T12:00:00Z'),
+      });
+
+      expect(document.kind).toBe('authResult');
+      expect(document.data.error).toEqual({
+        code: 'ACCOUNT_LOCKED',
+        message: 'Account locked after too many failed attempts',
+      });
+      expect(document.data.lockedUntil).toEqual(new Date('2024-01-15T12:00:00Z'));
+    });
+
+    it('should include the account without its PIN on success', () => {
+      const document = authResultToJson({ success: true, account });
+
+      expect(document.data.error).toBeUndefined();
+      expect(document.data.account).not.toHaveProperty('pin');
+    });
+  });
+
+  describe('transactionResultToJson', () => {
+    it('should include the transaction and new balance on success', () => {
+      const document = transactionResultToJson({ success: true, transaction, newBalance: 10000 });
+
+      expect(document.data).toEqual({ success: true, transaction, newBalance: 10000 });
+    });
+
+    it('should turn the error into a structured error', () => {
+      const document = transactionResultToJson({
+        success: false,
+        error: 'Account not found',
+        errorCode: TransactionErrorCode.ACCOUNT_NOT_FOUND,
+      });
+
+      expect(document.data).toEqual({
+        success: false,
+        error: { code: 'ACCOUNT_NOT_FOUND', message: 'Account not found' },
+      });
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonStorage } from '../../src/services/JsonStorage';
+import {
+  exportSeqdat,
+  exportSeqdatFile,
+  importSeqdat,
+  importSeqdatFile,
+} from '../../src/utils/migration';
+import { comparePin, hashPin } from '../../src/utils/validation';
+import { TransactionType } from '../../src/models/Transaction';
+
+describe('SEQDAT import', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+
+  const seqdat = [
+    '000001234500000011110000000100',
+    '123456789000000012340000000200',
+    '555555555500000000420000000000',
+  ].join('\n');
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-import-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should create accounts with hashed PINs and balances in cents', async () => {
+    const result = await importSeqdat(storage, seqdat);
+
+    expect(result).toEqual({
+      imported: ['0000012345', '1234567890', '5555555555'],
+      skipped: [],
+      errors: [],
+    });
+
+    const account = await storage.getAccount('0000012345');
+    expect(account?.balance).toBe(10000);
+    expect(account?.pin).not.toBe('1111');
+    expect(await comparePin('1111', account!.pin)).toBe(true);
+    expect(await comparePin('0042', (await storage.getAccount('5555555555'))!.pin)).toBe(true);
+  });
+
+  it('should record an opening deposit for non-zero balances', async () => {
+    await importSeqdat(storage, seqdat);
+
+    const history = await storage.getTransactionHistory('1234567890');
+    expect(history).toHaveLength(1);
+    expect(history[0].type).toBe(TransactionType.DEPOSIT);
+    expect(history[0].amount).toBe(20000);
+    expect(history[0].balanceAfter).toBe(20000);
+
+    expect(await storage.getTransactionHistory('5555555555')).toHaveLength(0);
+  });
+
+  it('should be idempotent when run again', async () => {
+    await importSeqdat(storage, seqdat);
+    await storage.updateAccount('0000012345', { balance: 12345 });
+
+    const result = await importSeqdat(storage, seqdat);
+
+    expect(result.imported).toEqual([]);
+    expect(result.skipped).toEqual(['0000012345', '1234567890', '5555555555']);
+    expect((await storage.listAccounts())).toHaveLength(3);
+    expect((await storage.getAccount('0000012345'))?.balance).toBe(12345);
+    expect(await storage.getTransactionHistory('0000012345')).toHaveLength(1);
+  });
+
+  it('should import valid records and report malformed ones by line', async () => {
+    const result = await importSeqdat(
+      storage,
+      ['000001234500000011110000000100', 'not a record', '12345678900000001234000000020X'].join('\n')
+    );
+
+    expect(result.imported).toEqual(['0000012345']);
+    expect(result.errors).toEqual([
+      { lineNumber: 2, message: 'Expected a 30-byte record, got 12 bytes' },
+      { lineNumber: 3, message: 'BALANCE must be 10 digits' },
+    ]);
+  });
+
+  it('should import from a file', async () => {
+    const file = path.join(dataDir, 'SEQDAT.ZBANK');
+    await fs.writeFile(file, seqdat);
+
+    const result = await importSeqdatFile(storage, file);
+
+    expect(result.imported).toHaveLength(3);
+  });
+
+  it('should fail clearly when the file cannot be read', async () => {
+    await expect(
+      importSeqdatFile(storage, path.join(dataDir, 'missing'))
+    ).rejects.toThrow('Failed to read SEQDAT file');
+  });
+});
+
+describe('SEQDAT export', () => {
+  let dataDir: string;
+  let storage: JsonStorage;
+
+  const createAccount = async (accountNumber: string, pin: string, balance: number) =>
+    storage.createAccount({ accountNumber, pin: await hashPin(pin), balance });
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zbank-export-'));
+    storage = new JsonStorage(dataDir);
+    await storage.initialize();
+
+    // Created out of key order on purpose
+    await createAccount('1234567890', '1234', 20000);
+    await createAccount('0000012345', '1111', 10000);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should write placeholder PINs in ascending ACCNO order', async () => {
+    const result = await exportSeqdat(storage, { pinPolicy: 'placeholder' });
+
+    expect(result.content).toBe(
+      '000001234500000000000000000100\n123456789000000000000000000200\n'
+    );
+    expect(result.exported).toEqual(['0000012345', '1234567890']);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should blank the PIN columns when PINs are omitted', async () => {
+    const result = await exportSeqdat(storage, { pinPolicy: 'omit' });
+
+    expect(result.content.split('\n')[0]).toBe('0000012345          0000000100');
+  });
+
+  it('should write supplied PINs that match the stored hashes', async () => {
+    const result = await exportSeqdat(storage, {
+      pinPolicy: 'supplied',
+      pins: { '0000012345': '1111', '1234567890': '9999' },
+    });
+
+    expect(result.content).toBe('000001234500000011110000000100\n');
+    expect(result.errors).toEqual([
+      {
+        accountNumber: '1234567890',
+        message: 'Supplied PIN does not match the stored PIN',
+      },
+    ]);
+  });
+
+  it('should report accounts without a supplied PIN', async () => {
+    const result = await exportSeqdat(storage, {
+      pinPolicy: 'supplied',
+      pins: { '0000012345': '1111' },
+    });
+
+    expect(result.exported).toEqual(['0000012345']);
+    expect(result.errors).toEqual([
+      { accountNumber: '1234567890', message: 'No PIN supplied' },
+    ]);
+  });
+
+  it('should leave out negative and fractional balances by default', async () => {
+    await storage.updateAccount('0000012345', { balance: -2500 });
+    await storage.updateAccount('1234567890', { balance: 20050 });
+
+    const result = await exportSeqdat(storage, { pinPolicy: 'placeholder' });
+
+    expect(result.content).toBe('');
+    expect(result.errors.map(e => e.accountNumber)).toEqual([
+      '0000012345',
+      '1234567890',
+    ]);
+  });
+
+  it('should apply the negative and fractional balance policies', async () => {
+    await storage.updateAccount('0000012345', { balance: -2500 });
+    await storage.updateAccount('1234567890', { balance: 20050 });
+
+    const result = await exportSeqdat(storage, {
+      pinPolicy: 'placeholder',
+      negativeBalances: 'zero',
+      fractionalCents: 'truncate',
+    });
+
+    expect(result.content).toBe(
+      '000001234500000000000000000000\n123456789000000000000000000200\n'
+    );
+    expect(result.adjusted.map(a => a.accountNumber)).toEqual([
+      '0000012345',
+      '1234567890',
+    ]);
+  });
+
+  it('should round-trip through the importer', async () => {
+    const exported = await exportSeqdat(storage, {
+      pinPolicy: 'supplied',
+      pins: { '0000012345': '1111', '1234567890': '1234' },
+    });
+
+    const other = new JsonStorage(path.join(dataDir, 'copy'));
+    await other.initialize();
+    const imported = await importSeqdat(other, exported.content);
+
+    expect(imported.imported).toEqual(['0000012345', '1234567890']);
+    const account = await other.getAccount('1234567890');
+    expect(account?.balance).toBe(20000);
+    expect(await comparePin('1234', account!.pin)).toBe(true);
+  });
+
+  it('should write the records to a file', async () => {
+    const file = path.join(dataDir, 'SEQDAT.OUT');
+
+    await exportSeqdatFile(storage, file, { pinPolicy: 'placeholder' });
+
+    expect(await fs.readFile(file, 'utf-8')).toHaveLength(62);
+  });
+});
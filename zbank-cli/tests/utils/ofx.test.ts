@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { transactionsToOfx, parseOfx } from '../../src/utils/ofx';
+import { toFitId } from '../../src/utils/export';
+import { signedAmount } from '../../src/models/Transaction';
+import { AccountType } from '../../src/models/Account';
+import { sampleExport, utcDate, readSample } from './fixtures/history';
+
+describe('transactionsToOfx', () => {
+  it('should match the sample file', () => {
+    expect(transactionsToOfx(sampleExport(utcDate))).toBe(readSample('history.ofx'));
+  });
+
+  it('should write savings accounts as SAVINGS', () => {
+    const ofx = transactionsToOfx({ ...sampleExport(utcDate), accountType: AccountType.SAVINGS });
+
+    expect(ofx).toContain('<ACCTTYPE>SAVINGS</ACCTTYPE>');
+  });
+
+  it('should write an empty transaction list for a range without transactions', () => {
+    const ofx = transactionsToOfx({ ...sampleExport(utcDate), transactions: [] });
+
+    expect(ofx).not.toContain('<STMTTRN>');
+    expect(parseOfx(ofx).transactions).toEqual([]);
+  });
+});
+
+describe('parseOfx', () => {
+  it('should read the sample file', () => {
+    const parsed = parseOfx(readSample('history.ofx'));
+
+    expect(parsed.accountNumber).toBe('0000012345');
+    expect(parsed.ledgerBalance).toBe(11904);
+    expect(parsed.transactions.map(t => t.type)).toEqual(['DEP', 'CASH', 'XFER', 'FEE', 'CREDIT', 'DEBIT', 'INT', 'INT']);
+    expect(parsed.transactions[2]).toEqual({
+      fitId: '0B7E1C9A3F2D4E5A9C1B2A3D4E5F6A03',
+      date: new Date('2024-03-10T12:00:00Z'),
+      type: 'XFER',
+      amount: -1000,
+      description: 'Rent & "utilities"',
+    });
+    expect(parsed.transactions[1].description).toBeUndefined();
+  });
+
+  it('should read back what it writes', () => {
+    const data = sampleExport(utcDate);
+
+    const parsed = parseOfx(transactionsToOfx(data));
+
+    expect(parsed.transactions).toEqual(
+      data.transactions.map(t => ({
+        fitId: toFitId(t.id),
+        date: t.timestamp,
+        type: expect.any(String),
+        amount: signedAmount(t),
+        ...(t.description !== undefined && { description: t.description }),
+      }))
+    );
+  });
+
+  it('should apply the time zone offset of a posted date', () => {
+    const ofx = readSample('history.ofx').replace('20240301090000.000[0:GMT]', '20240301040000[-5:EST]');
+
+    expect(parseOfx(ofx).transactions[0].date).toEqual(new Date('2024-03-01T09:00:00Z'));
+  });
+
+  it('should reject a document without an account and ledger balance', () => {
+    expect(() => parseOfx('<OFX></OFX>')).toThrow('Not an OFX bank statement');
+  });
+
+  it('should reject a transaction without a FITID', () => {
+    const ofx = readSample('history.ofx').replace(/<FITID>[^<]*<\/FITID>/, '');
+
+    expect(() => parseOfx(ofx)).toThrow('Invalid transaction 1');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { paginate } from '../../src/utils/pagination.js';
+
+describe('paginate', () => {
+  const items = Array.from({ length: 23 }, (_, i) => i + 1);
+
+  it('should return the requested page', () => {
+    const page = paginate(items, 1, 10);
+
+    expect(page.items).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(page.page).toBe(1);
+    expect(page.totalPages).toBe(3);
+    expect(page.totalItems).toBe(23);
+  });
+
+  it('should return a short last page', () => {
+    expect(paginate(items, 2, 10).items).toEqual([21, 22, 23]);
+  });
+
+  it('should clamp out-of-range pages', () => {
+    expect(paginate(items, -1, 10).page).toBe(0);
+    expect(paginate(items, 99, 10).page).toBe(2);
+    expect(paginate(items, 99, 10).items).toEqual([21, 22, 23]);
+  });
+
+  it('should report one empty page for an empty list', () => {
+    expect(paginate([], 0, 10)).toEqual({
+      items: [],
+      page: 0,
+      totalPages: 1,
+      totalItems: 0,
+    });
+  });
+
+  it('should fit an exact multiple of the page size', () => {
+    expect(paginate(items.slice(0, 20), 5, 10).page).toBe(1);
+    expect(paginate(items.slice(0, 20), 0, 10).totalPages).toBe(2);
+  });
+
+  it('should reject invalid page sizes', () => {
+    expect(() => paginate(items, 0, 0)).toThrow('Page size must be a positive integer');
+    expect(() => paginate(items, 0, 2.5)).toThrow('Page size must be a positive integer');
+  });
+});
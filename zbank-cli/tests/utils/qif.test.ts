@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { transactionsToQif, parseQif } from '../../src/utils/qif';
+import { toFitId } from '../../src/utils/export';
+import { signedAmount } from '../../src/models/Transaction';
+import { sampleExport, localDate, readSample } from './fixtures/history';
+
+// QIF dates have no time of day
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+describe('transactionsToQif', () => {
+  it('should match the sample file', () => {
+    expect(transactionsToQif(sampleExport(localDate))).toBe(readSample('history.qif'));
+  });
+
+  it('should keep a multi-line description on one line', () => {
+    const data = sampleExport(localDate);
+    data.transactions = [{ ...data.transactions[0], description: 'two\nlines' }];
+
+    expect(transactionsToQif(data)).toContain('\nPtwo lines\n');
+  });
+});
+
+describe('parseQif', () => {
+  it('should read the sample file', () => {
+    const parsed = parseQif(readSample('history.qif'));
+
+    expect(parsed.accountNumber).toBe('0000012345');
+    expect(parsed.transactions.map(t => t.type)).toEqual([
+      'Deposit',
+      'Cash Withdrawal',
+      'Transfer',
+      'Bank Charges',
+      'Reversal',
+      'Adjustment',
+      'Interest Expense',
+      'Interest Income',
+    ]);
+    expect(parsed.transactions[0]).toEqual({
+      fitId: '0B7E1C9A3F2D4E5A9C1B2A3D4E5F6A01',
+      date: new Date(2024, 2, 1),
+      type: 'Deposit',
+      amount: 5000,
+      description: 'Salary, March',
+    });
+  });
+
+  it('should read back what it writes', () => {
+    const data = sampleExport(localDate);
+
+    const parsed = parseQif(transactionsToQif(data));
+
+    expect(parsed.transactions.map(({ fitId, date, amount }) => ({ fitId, date, amount }))).toEqual(
+      data.transactions.map(t => ({ fitId: toFitId(t.id), date: startOfDay(t.timestamp), amount: signedAmount(t) }))
+    );
+  });
+
+  it("should read Quicken's two-digit year dates and CRLF line breaks", () => {
+    const qif = '!Type:Bank\r\nD3/ 5\'24\r\nT-1,234.50\r\nNABC\r\n^\r\n';
+
+    expect(parseQif(qif).transactions).toEqual([{ fitId: 'ABC', date: new Date(2024, 2, 5), type: '', amount: -123450 }]);
+  });
+
+  it('should reject a file without a bank register', () => {
+    expect(() => parseQif('!Type:Invst\nD03/01/2024\n^\n')).toThrow('Not a QIF bank register');
+  });
+
+  it('should reject a record with an invalid date', () => {
+    expect(() => parseQif('!Type:Bank\nD02/30/2024\nT1.00\nNABC\n^\n')).toThrow('Invalid transaction 1');
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  formatSeqdatRecord,
+  parseSeqdat,
+  SEQDAT_SEED,
+  toSeqdatBalance,
+} from '../../src/utils/seqdat';
+
+describe('parseSeqdat', () => {
+  it('should parse the SEQDAT.ZBANK file shipped with the COBOL program', async () => {
+    const content = await fs.readFile(
+      path.join(process.cwd(), '..', 'SEQDAT.ZBANK.cbl'),
+      'utf-8'
+    );
+
+    const { records, errors } = parseSeqdat(content);
+
+    expect(errors).toEqual([]);
+    expect(records).toEqual([
+      { lineNumber: 1, accountNumber: '0000012345', pin: '1111', balance: 10000 },
+      { lineNumber: 2, accountNumber: '1234567890', pin: '1234', balance: 20000 },
+    ]);
+  });
+
+  it('should match the built-in seed data', () => {
+    const { records } = parseSeqdat(SEQDAT_SEED);
+
+    expect(records.map(r => [r.accountNumber, r.balance])).toEqual([
+      ['0000012345', 10000],
+      ['1234567890', 20000],
+    ]);
+  });
+
+  it('should convert whole-dollar balances to cents', () => {
+    const { records } = parseSeqdat('555555555500000099999999999999');
+
+    expect(records[0].pin).toBe('9999');
+    expect(records[0].balance).toBe(999999999900);
+  });
+
+  it('should accept CRLF line endings, trailing blanks and blank lines', () => {
+    const content =
+      '000001234500000011110000000100   \r\n\r\n123456789000000012340000000200\r\n';
+
+    const { records, errors } = parseSeqdat(content);
+
+    expect(errors).toEqual([]);
+    expect(records.map(r => r.lineNumber)).toEqual([1, 3]);
+  });
+
+  it('should split a file without line breaks into 30-byte records', () => {
+    const { records, errors } = parseSeqdat(
+      '000001234500000011110000000100123456789000000012340000000200'
+    );
+
+    expect(errors).toEqual([]);
+    expect(records.map(r => [r.lineNumber, r.accountNumber])).toEqual([
+      [1, '0000012345'],
+      [2, '1234567890'],
+    ]);
+  });
+
+  it('should return nothing for an empty file', () => {
+    expect(parseSeqdat('')).toEqual({ records: [], errors: [] });
+  });
+
+  describe('malformed records', () => {
+    const parseLine = (line: string) =>
+      parseSeqdat(['000001234500000011110000000100', line].join('\n'));
+
+    it('should report records of the wrong length', () => {
+      const { records, errors } = parseLine('12345678900000001234000000020');
+
+      expect(records).toHaveLength(1);
+      expect(errors).toEqual([
+        { lineNumber: 2, message: 'Expected a 30-byte record, got 29 bytes' },
+      ]);
+    });
+
+    it('should report non-numeric fields', () => {
+      expect(parseLine('12345X789000000012340000000200').errors[0].message).toBe(
+        'ACCNO must be 10 digits'
+      );
+      expect(parseLine('1234567890000000123A0000000200').errors[0].message).toBe(
+        'PIN must be 10 digits'
+      );
+      expect(parseLine('123456789000000012340000-00200').errors[0].message).toBe(
+        'BALANCE must be 10 digits'
+      );
+    });
+
+    it('should report PINs longer than 4 digits', () => {
+      const { errors } = parseLine('123456789000000512340000000200');
+
+      expect(errors[0]).toEqual({
+        lineNumber: 2,
+        message: 'PIN has more than 4 significant digits',
+      });
+    });
+
+    it('should not echo the PIN in error messages', () => {
+      const { errors } = parseLine('123456789000009876540000000200');
+
+      expect(errors[0].message).not.toContain('98765');
+    });
+
+    it('should report duplicate account numbers after the first', () => {
+      const { records, errors } = parseLine('000001234500000022220000000500');
+
+      expect(records).toHaveLength(1);
+      expect(records[0].pin).toBe('1111');
+      expect(errors).toEqual([
+        {
+          lineNumber: 2,
+          message: 'Duplicate ACCNO 0000012345 (first seen on line 1)',
+        },
+      ]);
+    });
+
+    it('should keep parsing after a bad line', () => {
+      const { records, errors } = parseSeqdat(
+        [
+          'garbage',
+          '000001234500000011110000000100',
+          '',
+          'short',
+          '123456789000000012340000000200',
+        ].join('\n')
+      );
+
+      expect(records.map(r => r.lineNumber)).toEqual([2, 5]);
+      expect(errors.map(e => e.lineNumber)).toEqual([1, 4]);
+    });
+  });
+});
+
+describe('toSeqdatBalance', () => {
+  it('should convert whole-dollar balances unchanged', () => {
+    expect(toSeqdatBalance(20000, 'reject', 'reject')).toEqual({ dollars: 200 });
+    expect(toSeqdatBalance(0, 'reject', 'reject')).toEqual({ dollars: 0 });
+  });
+
+  it('should reject or zero negative balances', () => {
+    expect(toSeqdatBalance(-1500, 'reject', 'reject')).toEqual({
+      error: 'Negative balance -$15.00 cannot be stored in PIC 9(10)',
+    });
+    expect(toSeqdatBalance(-1550, 'zero', 'reject')).toEqual({
+      dollars: 0,
+      adjustment: 'negative balance -$15.50 exported as $0',
+    });
+  });
+
+  it('should reject, truncate or round fractional dollars', () => {
+    expect(toSeqdatBalance(10050, 'reject', 'reject')).toEqual({
+      error: 'Balance $100.50 is not a whole number of dollars',
+    });
+    expect(toSeqdatBalance(10099, 'reject', 'truncate')).toEqual({
+      dollars: 100,
+      adjustment: 'balance $100.99 exported as $100',
+    });
+    expect(toSeqdatBalance(10050, 'reject', 'round')).toEqual({
+      dollars: 101,
+      adjustment: 'balance $100.50 exported as $101',
+    });
+  });
+
+  it('should reject balances too large for PIC 9(10)', () => {
+    expect(toSeqdatBalance(999999999900, 'reject', 'reject')).toEqual({
+      dollars: 9999999999,
+    });
+    expect(toSeqdatBalance(1000000000000, 'reject', 'reject')).toEqual({
+      error: 'Balance $10000000000.00 exceeds PIC 9(10)',
+    });
+  });
+});
+
+describe('formatSeqdatRecord', () => {
+  it('should build a 30-byte record that parses back', () => {
+    const record = formatSeqdatRecord('0000012345', '0000001111', 100);
+
+    expect(record).toBe('000001234500000011110000000100');
+    expect(parseSeqdat(record).records[0]).toEqual({
+      lineNumber: 1,
+      accountNumber: '0000012345',
+      pin: '1111',
+      balance: 10000,
+    });
+  });
+});